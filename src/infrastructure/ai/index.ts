@@ -0,0 +1,50 @@
+// AI 模块导出
+// 提供统一的 AI 提供者接口与调用记录服务
+
+export { AIService, getAIService, isAIEnabled, formatPrompt } from './service';
+export { AIJobQueue } from './queue';
+export type { AIJob, AIJobFilter, AIJobOptions, AIJobQueueOptions, AIJobStatus } from './queue';
+export { TagSuggestionService, TagSuggestionModel } from './tags';
+export type {
+  TagCandidate,
+  TagFeedback,
+  TagInfo,
+  TagScoringInput,
+  TagSuggestion,
+  TagSuggestionServiceOptions,
+  TagSuggestionStatus,
+  TagSuggestOptions,
+  TagTrainingDocument,
+} from './tags';
+export { AIQuotaService, AIQuotaExceededError, AI_BUDGET_SETTING, AI_PRICING_SETTING } from './quota';
+export type {
+  AIBudgetSettings,
+  AIBudgetStatus,
+  AISpendGroupBy,
+  AISpendReport,
+  AISpendReportOptions,
+  AISpendRow,
+} from './quota';
+export { DEFAULT_MODEL_PRICING, calculateCost, estimateCost, fallbackModelPrice, findModelPrice } from './pricing';
+export type { AICostEstimate, AIModelPrice, AIPricingTable } from './pricing';
+export {
+  createAIProvider,
+  OpenAIProvider,
+  AnthropicProvider,
+  LocalAIProvider,
+  MockAIProvider,
+} from './providers';
+export type { MockAIProviderOptions } from './providers';
+export * from './types';
+export { estimateTokens } from './utils';
+export {
+  stripMarkdown,
+  tokenize,
+  termFrequencies,
+  inverseDocumentFrequencies,
+  tfidfVector,
+  normalizeVector,
+  cosineSimilarity,
+  topTerms,
+} from './text';
+export type { TermVector } from './text';
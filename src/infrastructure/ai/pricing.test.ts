@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCost, estimateCost, fallbackModelPrice, findModelPrice } from './pricing';
+import type { AIPricingTable } from './pricing';
+import type { AIUsage } from './types';
+
+const TABLE: AIPricingTable = {
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+};
+
+// 构造用量
+function usage(promptTokens: number, completionTokens: number): AIUsage {
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+describe('findModelPrice', () => {
+  it.each([
+    ['gpt-4o', TABLE['gpt-4o']],
+    ['gpt-4o-mini-2024-07-18', TABLE['gpt-4o-mini']],
+    ['gpt-4o-2024-08-06', TABLE['gpt-4o']],
+    ['gpt-4-0613', TABLE['gpt-4']],
+    ['claude-3-opus', null],
+  ])('%s', (model, expected) => {
+    expect(findModelPrice(model, TABLE)).toEqual(expected);
+  });
+});
+
+describe('calculateCost', () => {
+  it('按每百万 Token 价格计算', () => {
+    expect(calculateCost('openai', 'gpt-4o', usage(1000, 500), TABLE)).toBe(0.0075);
+    expect(calculateCost('openai', 'gpt-4', usage(1000000, 1000000), TABLE)).toBe(90);
+  });
+
+  it('保留 6 位小数', () => {
+    expect(calculateCost('openai', 'gpt-4o-mini', usage(1, 1), TABLE)).toBe(0.000001);
+    expect(calculateCost('openai', 'gpt-4o-mini', usage(1, 0), TABLE)).toBe(0);
+  });
+
+  it('本地与 mock 提供者不产生费用', () => {
+    expect(calculateCost('local', 'llama3', usage(1000, 1000), TABLE)).toBe(0);
+    expect(calculateCost('mock', 'gpt-4', usage(1000, 1000), TABLE)).toBe(0);
+  });
+
+  it('未知模型返回 null', () => {
+    expect(calculateCost('openai', 'unknown-model', usage(1000, 1000), TABLE)).toBeNull();
+  });
+});
+
+describe('fallbackModelPrice', () => {
+  it('分别取最高的输入价格与输出价格', () => {
+    expect(fallbackModelPrice({ a: { input: 1, output: 20 }, b: { input: 5, output: 2 } })).toEqual({ input: 5, output: 20 });
+  });
+
+  it('忽略无效价格，空价格表为 0', () => {
+    expect(fallbackModelPrice({ a: { input: 'x' as unknown as number, output: 3 } })).toEqual({ input: 0, output: 3 });
+    expect(fallbackModelPrice({})).toEqual({ input: 0, output: 0 });
+  });
+});
+
+describe('estimateCost', () => {
+  it('已知模型不标记为估算', () => {
+    expect(estimateCost('openai', 'gpt-4o', usage(1000, 500), TABLE)).toEqual({ cost: 0.0075, estimated: false });
+  });
+
+  it('未知模型按最高价格估算，不记为 0', () => {
+    expect(estimateCost('openai', 'unknown-model', usage(1000, 500), TABLE)).toEqual({ cost: 0.06, estimated: true });
+  });
+});
@@ -0,0 +1,102 @@
+// AI 模型定价
+// 按模型计算单次调用费用（美元），价格单位为每百万 Token
+
+import type { AIProviderName, AIUsage } from './types';
+
+// 模型价格
+export interface AIModelPrice {
+  input: number;
+  output: number;
+}
+
+// 费用计算结果
+export interface AICostEstimate {
+  cost: number;
+  // 模型不在价格表中，按 fallbackModelPrice 估算
+  estimated: boolean;
+}
+
+// 价格表，键为模型名或模型名前缀
+export type AIPricingTable = Record<string, AIModelPrice>;
+
+// 默认价格表（美元 / 百万 Token），可通过 settings.ai_model_pricing 覆盖或补充
+export const DEFAULT_MODEL_PRICING: AIPricingTable = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-ada-002': { input: 0.1, output: 0 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+};
+
+// 不产生费用的提供者
+const FREE_PROVIDERS: AIProviderName[] = ['local', 'mock'];
+
+// 费用保留的小数位（与 ai_content_generations.cost DECIMAL(10, 6) 一致）
+const COST_PRECISION = 6;
+
+/**
+ * 查找模型价格：先精确匹配，再按最长前缀匹配（如 gpt-4o-mini-2024-07-18 → gpt-4o-mini）
+ */
+export function findModelPrice(model: string, table: AIPricingTable = DEFAULT_MODEL_PRICING): AIModelPrice | null {
+  if (table[model]) return table[model];
+
+  const prefix = Object.keys(table)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? table[prefix] : null;
+}
+
+/**
+ * 计算单次调用费用，未知模型返回 null
+ */
+export function calculateCost(
+  provider: AIProviderName,
+  model: string,
+  usage: AIUsage,
+  table: AIPricingTable = DEFAULT_MODEL_PRICING
+): number | null {
+  if (FREE_PROVIDERS.includes(provider)) return 0;
+
+  const price = findModelPrice(model, table);
+  return price ? priceUsage(usage, price) : null;
+}
+
+/**
+ * 未知模型使用的保守价格：价格表中最高的输入价格与最高的输出价格
+ */
+export function fallbackModelPrice(table: AIPricingTable = DEFAULT_MODEL_PRICING): AIModelPrice {
+  return Object.values(table).reduce<AIModelPrice>((max, price) => ({
+    input: Math.max(max.input, Number(price.input) || 0),
+    output: Math.max(max.output, Number(price.output) || 0),
+  }), { input: 0, output: 0 });
+}
+
+/**
+ * 计算单次调用费用；未知模型按 fallbackModelPrice 估算，不会记为 0 而绕过预算
+ */
+export function estimateCost(
+  provider: AIProviderName,
+  model: string,
+  usage: AIUsage,
+  table: AIPricingTable = DEFAULT_MODEL_PRICING
+): AICostEstimate {
+  const cost = calculateCost(provider, model, usage, table);
+  return cost === null
+    ? { cost: priceUsage(usage, fallbackModelPrice(table)), estimated: true }
+    : { cost, estimated: false };
+}
+
+// 按价格计算费用
+function priceUsage(usage: AIUsage, price: AIModelPrice): number {
+  const cost = (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1000000;
+  return Number(cost.toFixed(COST_PRECISION));
+}
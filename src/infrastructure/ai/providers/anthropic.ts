@@ -0,0 +1,128 @@
+// Anthropic 提供者
+// 基于 Messages 接口；Anthropic 不提供向量化接口
+
+import { AIProviderError } from '../types';
+import type {
+  AICompletionRequest,
+  AICompletionResult,
+  AIEmbeddingRequest,
+  AIEmbeddingResult,
+  AIProvider,
+  AIProviderName,
+  AIProviderOptions,
+  AIStreamChunk,
+} from '../types';
+import { createUsage, postJson, readServerSentEvents, trimBaseUrl } from '../utils';
+
+// 接口版本
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Messages 接口要求必须指定 max_tokens
+const DEFAULT_MAX_TOKENS = 1024;
+
+// 将 Anthropic stop_reason 映射为统一值
+function mapStopReason(reason: string | null | undefined): AICompletionResult['finishReason'] {
+  if (reason === 'end_turn' || reason === 'stop_sequence') return 'stop';
+  if (reason === 'max_tokens') return 'length';
+  return 'unknown';
+}
+
+export class AnthropicProvider implements AIProvider {
+  readonly name: AIProviderName = 'anthropic';
+  readonly defaultModel: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private timeout: number;
+
+  constructor(options: AIProviderOptions = {}) {
+    this.apiKey = options.apiKey;
+    this.defaultModel = options.model || 'claude-3-haiku-20240307';
+    this.baseUrl = trimBaseUrl(options.baseUrl || 'https://api.anthropic.com');
+    this.timeout = options.timeout || 60000;
+  }
+
+  // 文本补全
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    const response = await postJson(this.name, `${this.baseUrl}/v1/messages`, this.buildBody(request, false), this.headers(), this.timeout);
+    const data: any = await response.json();
+
+    const content = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    return {
+      content,
+      model: data.model || request.model || this.defaultModel,
+      usage: createUsage(data.usage?.input_tokens || 0, data.usage?.output_tokens || 0),
+      finishReason: mapStopReason(data.stop_reason),
+    };
+  }
+
+  // 流式补全
+  async *stream(request: AICompletionRequest): AsyncGenerator<AIStreamChunk> {
+    const response = await postJson(this.name, `${this.baseUrl}/v1/messages`, this.buildBody(request, true), this.headers(), this.timeout);
+
+    let model = request.model || this.defaultModel;
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const data of readServerSentEvents(response, this.name, this.timeout)) {
+      const event = JSON.parse(data);
+
+      switch (event.type) {
+        case 'message_start':
+          model = event.message?.model || model;
+          inputTokens = event.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            yield { delta: event.delta.text, done: false, model };
+          }
+          break;
+        case 'message_delta':
+          outputTokens = event.usage?.output_tokens || outputTokens;
+          break;
+        case 'error':
+          throw new AIProviderError(`${this.name} 流式输出失败: ${event.error?.message || 'unknown error'}`, this.name, undefined, event);
+        default:
+          break;
+      }
+    }
+
+    yield { delta: '', done: true, model, usage: createUsage(inputTokens, outputTokens) };
+  }
+
+  // 向量化（不支持）
+  async embed(_request: AIEmbeddingRequest): Promise<AIEmbeddingResult> {
+    throw new AIProviderError('Anthropic 不提供向量化接口，请改用 openai 或 local 提供者', this.name);
+  }
+
+  // 请求头
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'anthropic-version': ANTHROPIC_VERSION };
+    if (this.apiKey) headers['x-api-key'] = this.apiKey;
+    return headers;
+  }
+
+  // 构造请求体，system 消息单独传递
+  private buildBody(request: AICompletionRequest, stream: boolean): Record<string, any> {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const body: Record<string, any> = {
+      model: request.model || this.defaultModel,
+      messages: request.messages.filter(message => message.role !== 'system'),
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+    };
+    if (system) body.system = system;
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.stop && request.stop.length > 0) body.stop_sequences = request.stop;
+    if (stream) body.stream = true;
+    return body;
+  }
+}
+
+export default AnthropicProvider;
@@ -0,0 +1,39 @@
+// AI 提供者导出
+// 根据 AppConfig.ai 创建对应的提供者实例
+
+import type { AppConfig } from '../../types';
+import type { AIProvider } from '../types';
+import { AnthropicProvider } from './anthropic';
+import { LocalAIProvider } from './local';
+import { MockAIProvider } from './mock';
+import { OpenAIProvider } from './openai';
+
+export { OpenAIProvider } from './openai';
+export { AnthropicProvider } from './anthropic';
+export { LocalAIProvider } from './local';
+export { MockAIProvider } from './mock';
+export type { MockAIProviderOptions } from './mock';
+
+// 根据配置创建提供者
+export function createAIProvider(config: AppConfig['ai']): AIProvider {
+  const options = {
+    apiKey: config.apiKey,
+    model: config.model,
+    embeddingModel: config.embeddingModel,
+    baseUrl: config.baseUrl,
+    timeout: config.timeout,
+  };
+
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIProvider(options);
+    case 'anthropic':
+      return new AnthropicProvider(options);
+    case 'local':
+      return new LocalAIProvider(options);
+    case 'mock':
+      return new MockAIProvider(options);
+    default:
+      throw new Error(`不支持的 AI 提供者: ${String(config.provider)}`);
+  }
+}
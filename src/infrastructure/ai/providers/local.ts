@@ -0,0 +1,22 @@
+// 本地提供者
+// 对接兼容 OpenAI 协议的本地推理服务（如 Ollama、LM Studio、vLLM），默认不需要 API 密钥
+
+import type { AIProviderName, AIProviderOptions } from '../types';
+import { OpenAIProvider } from './openai';
+
+export class LocalAIProvider extends OpenAIProvider {
+  readonly name: AIProviderName = 'local';
+
+  constructor(options: AIProviderOptions = {}) {
+    super({
+      ...options,
+      model: options.model || 'llama3',
+      embeddingModel: options.embeddingModel || 'nomic-embed-text',
+      baseUrl: options.baseUrl || 'http://localhost:11434/v1',
+      timeout: options.timeout || 120000,
+    });
+    this.streamUsage = false;
+  }
+}
+
+export default LocalAIProvider;
@@ -0,0 +1,104 @@
+// 模拟提供者
+// 不发起网络请求，相同输入总是得到相同输出，供测试和本地开发使用
+
+import type {
+  AICompletionRequest,
+  AICompletionResult,
+  AIEmbeddingRequest,
+  AIEmbeddingResult,
+  AIProvider,
+  AIProviderName,
+  AIProviderOptions,
+  AIStreamChunk,
+} from '../types';
+import { createUsage, estimateTokens } from '../utils';
+
+// 模拟提供者选项
+export interface MockAIProviderOptions extends AIProviderOptions {
+  // 自定义补全结果；未提供时回显最后一条用户消息
+  respond?: (request: AICompletionRequest) => string;
+  dimensions?: number;
+}
+
+// FNV-1a 哈希
+function hash(text: string, seed: number): number {
+  let value = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+export class MockAIProvider implements AIProvider {
+  readonly name: AIProviderName = 'mock';
+  readonly defaultModel: string;
+  private respond?: (request: AICompletionRequest) => string;
+  private dimensions: number;
+
+  // 收到的补全请求，便于测试断言
+  readonly requests: AICompletionRequest[] = [];
+
+  constructor(options: MockAIProviderOptions = {}) {
+    this.defaultModel = options.model || 'mock-1';
+    this.respond = options.respond;
+    this.dimensions = options.dimensions || 16;
+  }
+
+  // 文本补全
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    this.requests.push(request);
+
+    let content = this.respond ? this.respond(request) : this.echo(request);
+    let finishReason: AICompletionResult['finishReason'] = 'stop';
+
+    if (request.maxTokens !== undefined && estimateTokens(content) > request.maxTokens) {
+      content = content.slice(0, request.maxTokens * 4);
+      finishReason = 'length';
+    }
+
+    const prompt = request.messages.map(message => message.content).join('\n');
+    return {
+      content,
+      model: request.model || this.defaultModel,
+      usage: createUsage(estimateTokens(prompt), estimateTokens(content)),
+      finishReason,
+    };
+  }
+
+  // 流式补全：按空白拆分补全结果
+  async *stream(request: AICompletionRequest): AsyncGenerator<AIStreamChunk> {
+    const result = await this.complete(request);
+    const parts = result.content.match(/\S+\s*|\s+/g) || [];
+
+    for (const delta of parts) {
+      yield { delta, done: false, model: result.model };
+    }
+    yield { delta: '', done: true, model: result.model, usage: result.usage };
+  }
+
+  // 向量化：基于哈希生成单位向量
+  async embed(request: AIEmbeddingRequest): Promise<AIEmbeddingResult> {
+    const inputs = Array.isArray(request.input) ? request.input : [request.input];
+
+    const embeddings = inputs.map(text => {
+      const vector = Array.from({ length: this.dimensions }, (_, i) => (hash(text, i) / 0xffffffff) * 2 - 1);
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map(value => value / norm);
+    });
+
+    return {
+      embeddings,
+      model: request.model || `${this.defaultModel}-embedding`,
+      usage: createUsage(inputs.reduce((sum, text) => sum + estimateTokens(text), 0), 0),
+    };
+  }
+
+  // 默认回显最后一条用户消息
+  private echo(request: AICompletionRequest): string {
+    const lastUser = [...request.messages].reverse().find(message => message.role === 'user');
+    return `[mock] ${lastUser ? lastUser.content : ''}`.trim();
+  }
+}
+
+export default MockAIProvider;
@@ -0,0 +1,135 @@
+// OpenAI 提供者
+// 基于 Chat Completions 与 Embeddings 接口，兼容 OpenAI 协议的服务也可复用
+
+import { AIProviderError } from '../types';
+import type {
+  AICompletionRequest,
+  AICompletionResult,
+  AIEmbeddingRequest,
+  AIEmbeddingResult,
+  AIProvider,
+  AIProviderName,
+  AIProviderOptions,
+  AIStreamChunk,
+  AIUsage,
+} from '../types';
+import { createUsage, estimateTokens, postJson, readServerSentEvents, trimBaseUrl } from '../utils';
+
+// 将 OpenAI finish_reason 映射为统一值
+function mapFinishReason(reason: string | null | undefined): AICompletionResult['finishReason'] {
+  if (reason === 'stop') return 'stop';
+  if (reason === 'length') return 'length';
+  return 'unknown';
+}
+
+export class OpenAIProvider implements AIProvider {
+  readonly name: AIProviderName = 'openai';
+  readonly defaultModel: string;
+  protected baseUrl: string;
+  protected apiKey?: string;
+  protected embeddingModel: string;
+  protected timeout: number;
+  // 是否在流式输出末尾请求用量（部分兼容服务不支持）
+  protected streamUsage = true;
+
+  constructor(options: AIProviderOptions = {}) {
+    this.apiKey = options.apiKey;
+    this.defaultModel = options.model || 'gpt-3.5-turbo';
+    this.embeddingModel = options.embeddingModel || 'text-embedding-3-small';
+    this.baseUrl = trimBaseUrl(options.baseUrl || 'https://api.openai.com/v1');
+    this.timeout = options.timeout || 60000;
+  }
+
+  // 文本补全
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    const response = await postJson(this.name, `${this.baseUrl}/chat/completions`, this.buildBody(request, false), this.headers(), this.timeout);
+    const data: any = await response.json();
+    const choice = data.choices?.[0];
+    if (!choice) {
+      throw new AIProviderError(`${this.name} 未返回任何结果`, this.name, response.status, data);
+    }
+
+    const content: string = choice.message?.content || '';
+    return {
+      content,
+      model: data.model || request.model || this.defaultModel,
+      usage: data.usage
+        ? createUsage(data.usage.prompt_tokens || 0, data.usage.completion_tokens || 0)
+        : this.estimateUsage(request, content),
+      finishReason: mapFinishReason(choice.finish_reason),
+    };
+  }
+
+  // 流式补全
+  async *stream(request: AICompletionRequest): AsyncGenerator<AIStreamChunk> {
+    const response = await postJson(this.name, `${this.baseUrl}/chat/completions`, this.buildBody(request, true), this.headers(), this.timeout);
+
+    let content = '';
+    let model = request.model || this.defaultModel;
+    let usage: AIUsage | null = null;
+
+    for await (const data of readServerSentEvents(response, this.name, this.timeout)) {
+      if (data === '[DONE]') break;
+
+      const event = JSON.parse(data);
+      model = event.model || model;
+      if (event.usage) {
+        usage = createUsage(event.usage.prompt_tokens || 0, event.usage.completion_tokens || 0);
+      }
+
+      const delta: string = event.choices?.[0]?.delta?.content || '';
+      if (delta) {
+        content += delta;
+        yield { delta, done: false, model };
+      }
+    }
+
+    yield { delta: '', done: true, model, usage: usage || this.estimateUsage(request, content) };
+  }
+
+  // 向量化
+  async embed(request: AIEmbeddingRequest): Promise<AIEmbeddingResult> {
+    const model = request.model || this.embeddingModel;
+    const response = await postJson(this.name, `${this.baseUrl}/embeddings`, { model, input: request.input }, this.headers(), this.timeout);
+    const data: any = await response.json();
+
+    const items: Array<{ index: number; embedding: number[] }> = data.data || [];
+    const inputs = Array.isArray(request.input) ? request.input : [request.input];
+    const promptTokens = data.usage?.prompt_tokens ?? inputs.reduce((sum, text) => sum + estimateTokens(text), 0);
+
+    return {
+      embeddings: items.sort((a, b) => a.index - b.index).map(item => item.embedding),
+      model: data.model || model,
+      usage: createUsage(promptTokens, 0),
+    };
+  }
+
+  // 请求头
+  protected headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  // 构造请求体
+  protected buildBody(request: AICompletionRequest, stream: boolean): Record<string, any> {
+    const body: Record<string, any> = {
+      model: request.model || this.defaultModel,
+      messages: request.messages,
+    };
+    if (request.maxTokens !== undefined) body.max_tokens = request.maxTokens;
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.stop && request.stop.length > 0) body.stop = request.stop;
+    if (stream) {
+      body.stream = true;
+      if (this.streamUsage) body.stream_options = { include_usage: true };
+    }
+    return body;
+  }
+
+  // 服务未返回用量时按文本长度估算
+  protected estimateUsage(request: AICompletionRequest, content: string): AIUsage {
+    const prompt = request.messages.map(message => message.content).join('\n');
+    return createUsage(estimateTokens(prompt), estimateTokens(content));
+  }
+}
+
+export default OpenAIProvider;
@@ -0,0 +1,222 @@
+import { describe, expect, it } from 'vitest';
+import type SupabaseService from '../supabase/client';
+import { AIQuotaExceededError } from './quota';
+import { AIJobQueue } from './queue';
+import type { AIService } from './service';
+import { AIProviderError } from './types';
+
+type Row = Record<string, any>;
+
+const RETRY_DELAY = 1000;
+
+// 内存中的 ai_content_generations 表，claim_ai_generation_jobs 按迁移中的规则领取到期任务
+function fakeSupabase(rows: Row[]): SupabaseService {
+  function query() {
+    const filters: Array<(row: Row) => boolean> = [];
+    let changes: Row | null = null;
+
+    const run = () => {
+      const matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (changes) matched.forEach(row => Object.assign(row, changes));
+      return { data: matched[0] ? { ...matched[0] } : null, error: null };
+    };
+
+    const builder: any = {
+      update: (values: Row) => { changes = values; return builder; },
+      select: () => builder,
+      eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+      in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return builder; },
+      lt: (column: string, value: string) => { filters.push(row => row[column] !== null && row[column] < value); return builder; },
+      not: (column: string) => { filters.push(row => row[column] !== null); return builder; },
+      maybeSingle: () => builder,
+      then: (resolve: (value: unknown) => void, reject: (reason: unknown) => void) => Promise.resolve().then(run).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  const claim = ({ p_worker_id, p_limit }: Row) => {
+    const now = new Date().toISOString();
+    return rows
+      .filter(row => row.status === 'pending' && row.request !== null && row.run_at <= now)
+      .sort((a, b) => a.run_at.localeCompare(b.run_at))
+      .slice(0, p_limit)
+      .map(row => Object.assign(row, {
+        status: 'processing',
+        attempts: row.attempts + 1,
+        locked_by: p_worker_id,
+        locked_at: now,
+        error_message: null,
+      }))
+      .map(row => ({ ...row }));
+  };
+
+  const client = {
+    from: query,
+    rpc: async (_name: string, args: Row) => ({ data: claim(args), error: null }),
+  };
+  return { getServiceClient: () => client } as unknown as SupabaseService;
+}
+
+// 按顺序返回结果或抛出错误的 AIService；成功时与 AIService 一样把执行中的任务记录写为完成
+function fakeAI(rows: Row[], outcomes: Array<Error | null>): AIService & { calls: number } {
+  const ai = {
+    calls: 0,
+    complete: async (_request: unknown, context: { generationId: string }) => {
+      const outcome = outcomes[ai.calls++];
+      if (outcome) throw outcome;
+      rows
+        .filter(row => row.id === context.generationId && row.status === 'processing')
+        .forEach(row => Object.assign(row, { status: 'completed', generated_content: 'ok' }));
+      return { content: 'ok' };
+    },
+    getProvider: () => ({ name: 'mock', defaultModel: 'mock-model' }),
+  };
+  return ai as unknown as AIService & { calls: number };
+}
+
+// 待执行的任务
+function job(row: Row = {}): Row {
+  return {
+    id: 'job-1',
+    user_id: 'u1',
+    post_id: null,
+    status: 'pending',
+    request: { messages: [{ role: 'user', content: '你好' }] },
+    attempts: 0,
+    max_attempts: 3,
+    run_at: new Date(Date.now() - 1000).toISOString(),
+    locked_by: null,
+    locked_at: null,
+    error_message: null,
+    completed_at: null,
+    metadata: { feature: 'summary' },
+    ...row,
+  };
+}
+
+// 创建队列
+function createQueue(rows: Row[], outcomes: Array<Error | null>) {
+  const ai = fakeAI(rows, outcomes);
+  const queue = new AIJobQueue(ai, fakeSupabase(rows), {
+    workerId: 'worker-1',
+    retryDelay: RETRY_DELAY,
+    maxRetryDelay: 3000,
+    lockTimeout: 60 * 1000,
+  });
+  return { ai, queue };
+}
+
+// run_at 距当前时间的毫秒数
+function delayOf(row: Row): number {
+  return new Date(row.run_at).getTime() - Date.now();
+}
+
+describe('AIJobQueue.runOnce', () => {
+  it('执行成功后标记为完成并释放锁', async () => {
+    const rows = [job()];
+    const { queue } = createQueue(rows, [null]);
+    expect(await queue.runOnce()).toBe(1);
+    expect(rows[0]).toMatchObject({ status: 'completed', attempts: 1, locked_by: null, locked_at: null });
+    expect(rows[0].completed_at).not.toBeNull();
+  });
+
+  it('可重试的错误按指数退避重新排队', async () => {
+    const rows = [job()];
+    const { queue } = createQueue(rows, [new AIProviderError('服务不可用', 'openai', 503)]);
+    await queue.runOnce();
+    expect(rows[0]).toMatchObject({ status: 'pending', attempts: 1, error_message: '服务不可用', locked_by: null });
+    // 第 1 次失败等待 retryDelay，另加不超过 10% 的随机抖动
+    expect(delayOf(rows[0])).toBeGreaterThan(RETRY_DELAY - 100);
+    expect(delayOf(rows[0])).toBeLessThanOrEqual(RETRY_DELAY * 1.1);
+  });
+
+  it('退避时间逐次翻倍，不超过 maxRetryDelay', async () => {
+    const rows = [job({ attempts: 1, max_attempts: 5 })];
+    const { queue } = createQueue(rows, [new Error('超时'), new Error('超时')]);
+
+    await queue.runOnce();
+    expect(rows[0].attempts).toBe(2);
+    expect(delayOf(rows[0])).toBeGreaterThan(RETRY_DELAY * 2 - 100);
+    expect(delayOf(rows[0])).toBeLessThanOrEqual(RETRY_DELAY * 2 * 1.1);
+
+    rows[0].run_at = new Date(Date.now() - 1000).toISOString();
+    rows[0].attempts = 3;
+    await queue.runOnce();
+    expect(rows[0].attempts).toBe(4);
+    expect(delayOf(rows[0])).toBeGreaterThan(3000 - 100);
+    expect(delayOf(rows[0])).toBeLessThanOrEqual(3000 * 1.1);
+  });
+
+  it('最后一次执行失败后标记为失败', async () => {
+    const rows = [job({ attempts: 2 })];
+    const { queue } = createQueue(rows, [new Error('超时')]);
+    await queue.runOnce();
+    expect(rows[0]).toMatchObject({ status: 'failed', attempts: 3, error_message: '超时' });
+  });
+
+  it.each([
+    ['请求有误（4xx）', new AIProviderError('参数错误', 'openai', 400)],
+    ['预算不足', new AIQuotaExceededError({ spent: 10, budget: 10 } as any)],
+  ])('%s时不重试', async (_name, error) => {
+    const rows = [job()];
+    const { queue } = createQueue(rows, [error]);
+    await queue.runOnce();
+    expect(rows[0]).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+
+  it('限流（429）时重试', async () => {
+    const rows = [job()];
+    const { queue } = createQueue(rows, [new AIProviderError('限流', 'openai', 429)]);
+    await queue.runOnce();
+    expect(rows[0].status).toBe('pending');
+  });
+
+  it('不领取未到期的任务', async () => {
+    const rows = [job({ run_at: new Date(Date.now() + 60 * 1000).toISOString() })];
+    const { ai, queue } = createQueue(rows, [null]);
+    expect(await queue.runOnce()).toBe(0);
+    expect(ai.calls).toBe(0);
+  });
+});
+
+describe('AIJobQueue 锁定超时回收', () => {
+  it('锁定超时的任务放回队列并重新执行，未超时的保持执行中', async () => {
+    const stale = new Date(Date.now() - 120 * 1000).toISOString();
+    const fresh = new Date(Date.now() - 1000).toISOString();
+    const rows = [
+      job({ id: 'stale', status: 'processing', attempts: 1, locked_by: 'dead', locked_at: stale }),
+      job({ id: 'busy', status: 'processing', attempts: 1, locked_by: 'other', locked_at: fresh }),
+    ];
+    const { queue } = createQueue(rows, [null]);
+
+    expect(await queue.runOnce()).toBe(1);
+    expect(rows[0]).toMatchObject({ status: 'completed', attempts: 2 });
+    expect(rows[1]).toMatchObject({ status: 'processing', locked_by: 'other' });
+  });
+
+  it('回收后超过最大执行次数的任务直接标记失败', async () => {
+    const stale = new Date(Date.now() - 120 * 1000).toISOString();
+    const rows = [job({ status: 'processing', attempts: 3, locked_by: 'dead', locked_at: stale })];
+    const { ai, queue } = createQueue(rows, [null]);
+
+    await queue.runOnce();
+    expect(ai.calls).toBe(0);
+    expect(rows[0]).toMatchObject({ status: 'failed', attempts: 4, error_message: '已达到最大执行次数 3' });
+  });
+});
+
+describe('AIJobQueue.cancel / retry', () => {
+  it('取消等待中的任务，已结束的任务不能取消', async () => {
+    const rows = [job(), job({ id: 'done', status: 'completed' })];
+    const { queue } = createQueue(rows, []);
+    expect(await queue.cancel('job-1')).toMatchObject({ status: 'cancelled', error_message: '任务已取消' });
+    await expect(queue.cancel('done')).rejects.toThrow('任务不存在或已结束，无法取消');
+  });
+
+  it('重试失败的任务时清零执行次数', async () => {
+    const rows = [job({ status: 'failed', attempts: 3, error_message: '超时' }), job({ id: 'pending' })];
+    const { queue } = createQueue(rows, []);
+    expect(await queue.retry('job-1')).toMatchObject({ status: 'pending', attempts: 0, error_message: null });
+    await expect(queue.retry('pending')).rejects.toThrow('任务不存在或当前状态不可重试');
+  });
+});
@@ -0,0 +1,416 @@
+// AI 异步任务队列
+// 以 ai_content_generations 的 status 作为任务状态：pending → processing → completed / failed / cancelled
+// 编辑请求只负责提交任务，由工作进程领取并通过 AIService 执行，失败时按指数退避重试
+
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { getEnvNumber } from '../config';
+import type { Database } from '../types/database';
+import { errorMessage } from '../utils/cli';
+import { AIQuotaExceededError } from './quota';
+import { AIService, formatPrompt, getAIService } from './service';
+import { AIProviderError } from './types';
+import type { AICallContext, AICompletionRequest } from './types';
+
+type GenerationRow = Database['public']['Tables']['ai_content_generations']['Row'];
+type GenerationUpdate = Database['public']['Tables']['ai_content_generations']['Update'];
+
+// 任务即 ai_content_generations 中带 request 的记录
+export type AIJob = GenerationRow;
+
+// 任务状态
+export type AIJobStatus = GenerationRow['status'];
+
+// 提交任务选项
+export interface AIJobOptions extends Omit<AICallContext, 'generationId'> {
+  maxAttempts?: number;
+  runAt?: Date | string;
+}
+
+// 任务查询条件
+export interface AIJobFilter {
+  status?: AIJobStatus;
+  userId?: string;
+  postId?: string;
+  feature?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// 队列选项
+export interface AIJobQueueOptions {
+  workerId?: string;
+  concurrency?: number;
+  pollInterval?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  lockTimeout?: number;
+  maxAttempts?: number;
+}
+
+// 默认值
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_POLL_INTERVAL = 2000;
+const DEFAULT_RETRY_DELAY = 10 * 1000;
+const DEFAULT_MAX_RETRY_DELAY = 10 * 60 * 1000;
+const DEFAULT_LOCK_TIMEOUT = 10 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// 分页上限
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// 可重试的 HTTP 状态码（超时、限流）
+const RETRYABLE_STATUSES = [408, 409, 425, 429];
+
+// 预算不足与请求本身有误（4xx）的错误重试也不会成功
+function isRetryable(error: unknown): boolean {
+  if (error instanceof AIQuotaExceededError) return false;
+  if (error instanceof AIProviderError && error.status !== undefined) {
+    return error.status >= 500 || RETRYABLE_STATUSES.includes(error.status);
+  }
+  return true;
+}
+
+export class AIJobQueue {
+  private ai: AIService;
+  private supabase: SupabaseService;
+  private workerId: string;
+  private concurrency: number;
+  private pollInterval: number;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+  private lockTimeout: number;
+  private maxAttempts: number;
+  private running = new Map<string, Promise<void>>();
+  private timer: NodeJS.Timeout | null = null;
+  private started = false;
+  private lastRecoveredAt = 0;
+
+  constructor(ai: AIService, supabase: SupabaseService = getSupabaseService(), options: AIJobQueueOptions = {}) {
+    this.ai = ai;
+    this.supabase = supabase;
+    this.workerId = options.workerId || `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+    this.concurrency = Math.max(options.concurrency || DEFAULT_CONCURRENCY, 1);
+    this.pollInterval = options.pollInterval || DEFAULT_POLL_INTERVAL;
+    this.retryDelay = options.retryDelay || DEFAULT_RETRY_DELAY;
+    this.maxRetryDelay = options.maxRetryDelay || DEFAULT_MAX_RETRY_DELAY;
+    this.lockTimeout = options.lockTimeout || DEFAULT_LOCK_TIMEOUT;
+    this.maxAttempts = options.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+  }
+
+  // 工作进程标识
+  getWorkerId(): string {
+    return this.workerId;
+  }
+
+  // 当前正在执行的任务数
+  getRunningCount(): number {
+    return this.running.size;
+  }
+
+  // ==================== 提交与查询 ====================
+
+  // 提交补全任务，立即返回 pending 状态的任务记录
+  async enqueue(request: AICompletionRequest, options: AIJobOptions = {}): Promise<AIJob> {
+    const runAt = options.runAt ? new Date(options.runAt) : new Date();
+
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('ai_content_generations')
+      .insert({
+        user_id: options.userId ?? null,
+        post_id: options.postId ?? null,
+        prompt: formatPrompt(request),
+        generated_content: '',
+        model: request.model || this.ai.getProvider().defaultModel,
+        status: 'pending',
+        request,
+        attempts: 0,
+        max_attempts: Math.max(options.maxAttempts || this.maxAttempts, 1),
+        run_at: runAt.toISOString(),
+        metadata: {
+          ...options.metadata,
+          provider: this.ai.getProvider().name,
+          operation: 'complete',
+          feature: options.feature || null,
+          queued: true,
+        },
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data as AIJob;
+  }
+
+  // 获取任务
+  async get(id: string): Promise<AIJob | null> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('ai_content_generations')
+      .select('*')
+      .eq('id', id)
+      .not('request', 'is', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as AIJob) || null;
+  }
+
+  // 分页查询任务
+  async list(filter: AIJobFilter = {}): Promise<{ jobs: AIJob[]; total: number }> {
+    const limit = Math.min(Math.max(filter.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const offset = Math.max(filter.offset || 0, 0);
+
+    let query = this.supabase.getServiceClient()
+      .from('ai_content_generations')
+      .select('*', { count: 'exact' })
+      .not('request', 'is', null);
+
+    if (filter.status) query = query.eq('status', filter.status);
+    if (filter.userId) query = query.eq('user_id', filter.userId);
+    if (filter.postId) query = query.eq('post_id', filter.postId);
+    if (filter.feature) query = query.eq('metadata->>feature', filter.feature);
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+    return { jobs: (data || []) as AIJob[], total: count || 0 };
+  }
+
+  // ==================== 管理 ====================
+
+  // 取消等待中或执行中的任务；执行中的任务会继续完成模型调用，但结果不会写回
+  async cancel(id: string): Promise<AIJob> {
+    const job = await this.transition(id, ['pending', 'processing'], {
+      status: 'cancelled',
+      error_message: '任务已取消',
+      locked_by: null,
+      locked_at: null,
+      completed_at: new Date().toISOString(),
+    });
+    if (!job) {
+      throw new Error('任务不存在或已结束，无法取消');
+    }
+    return job;
+  }
+
+  // 重新执行失败或已取消的任务，重试次数从零开始计算
+  async retry(id: string): Promise<AIJob> {
+    const job = await this.transition(id, ['failed', 'cancelled'], {
+      status: 'pending',
+      attempts: 0,
+      run_at: new Date().toISOString(),
+      error_message: null,
+      locked_by: null,
+      locked_at: null,
+      completed_at: null,
+    });
+    if (!job) {
+      throw new Error('任务不存在或当前状态不可重试');
+    }
+    return job;
+  }
+
+  // ==================== 执行 ====================
+
+  // 启动轮询，直到调用 stop()
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    this.schedule(0);
+  }
+
+  // 停止轮询并等待执行中的任务结束
+  async stop(): Promise<void> {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await Promise.all(this.running.values());
+  }
+
+  // 领取一批到期任务并等待执行完成，返回执行的任务数（适合定时任务或测试）
+  async runOnce(limit: number = this.concurrency): Promise<number> {
+    await this.recoverStaleJobs();
+    const jobs = await this.claim(limit);
+    await Promise.all(jobs.map(job => this.track(job)));
+    return jobs.length;
+  }
+
+  // 安排下一次轮询
+  private schedule(delay: number): void {
+    if (!this.started) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.poll()
+        .catch(error => console.error('AI 任务轮询失败:', error))
+        .finally(() => this.schedule(this.pollInterval));
+    }, delay);
+  }
+
+  // 按空闲并发数领取任务，不等待任务结束
+  private async poll(): Promise<void> {
+    if (Date.now() - this.lastRecoveredAt >= this.lockTimeout / 2) {
+      await this.recoverStaleJobs();
+    }
+
+    const available = this.concurrency - this.running.size;
+    if (available <= 0) return;
+
+    const jobs = await this.claim(available);
+    jobs.forEach(job => {
+      this.track(job);
+    });
+  }
+
+  // 原子地领取到期任务（claim_ai_generation_jobs 使用 FOR UPDATE SKIP LOCKED）
+  private async claim(limit: number): Promise<AIJob[]> {
+    if (limit <= 0) return [];
+
+    const { data, error } = await this.supabase.getServiceClient()
+      .rpc('claim_ai_generation_jobs', { p_worker_id: this.workerId, p_limit: limit });
+
+    if (error) throw error;
+    return (data || []) as AIJob[];
+  }
+
+  // 登记执行中的任务，结束后移除
+  private track(job: AIJob): Promise<void> {
+    const promise = this.execute(job).finally(() => {
+      this.running.delete(job.id);
+    });
+    this.running.set(job.id, promise);
+    return promise;
+  }
+
+  // 执行单个任务，结果由 AIService 写回同一条记录
+  private async execute(job: AIJob): Promise<void> {
+    if (job.attempts > job.max_attempts) {
+      await this.fail(job, new Error(`已达到最大执行次数 ${job.max_attempts}`));
+      return;
+    }
+
+    try {
+      await this.ai.complete(job.request as AICompletionRequest, {
+        userId: job.user_id,
+        postId: job.post_id,
+        feature: job.metadata?.feature || undefined,
+        metadata: { ...job.metadata, attempts: job.attempts },
+        generationId: job.id,
+      });
+
+      await this.update(job.id, ['completed'], {
+        locked_by: null,
+        locked_at: null,
+        completed_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (isRetryable(error) && job.attempts < job.max_attempts) {
+        await this.reschedule(job, error);
+      } else {
+        await this.fail(job, error);
+      }
+    }
+  }
+
+  // 按指数退避重新排队
+  private async reschedule(job: AIJob, error: unknown): Promise<void> {
+    const delay = Math.min(this.retryDelay * 2 ** (job.attempts - 1), this.maxRetryDelay);
+    const jitter = Math.floor(delay * 0.1 * Math.random());
+
+    await this.update(job.id, ['processing', 'failed'], {
+      status: 'pending',
+      error_message: errorMessage(error),
+      run_at: new Date(Date.now() + delay + jitter).toISOString(),
+      locked_by: null,
+      locked_at: null,
+    });
+  }
+
+  // 标记为最终失败
+  private async fail(job: AIJob, error: unknown): Promise<void> {
+    await this.update(job.id, ['processing', 'failed'], {
+      status: 'failed',
+      error_message: errorMessage(error),
+      locked_by: null,
+      locked_at: null,
+      completed_at: new Date().toISOString(),
+    });
+  }
+
+  // 将锁定超时（工作进程异常退出）的任务放回队列，超过最大次数的任务在下次领取时标记失败
+  private async recoverStaleJobs(): Promise<void> {
+    this.lastRecoveredAt = Date.now();
+
+    try {
+      const { error } = await this.supabase.getServiceClient()
+        .from('ai_content_generations')
+        .update({ status: 'pending', locked_by: null, locked_at: null, run_at: new Date().toISOString() })
+        .eq('status', 'processing')
+        .lt('locked_at', new Date(Date.now() - this.lockTimeout).toISOString());
+      if (error) throw error;
+    } catch (error) {
+      console.error('回收超时 AI 任务失败:', error);
+    }
+  }
+
+  // 执行结果的状态写入失败只记录日志，锁定超时后任务会被重新领取
+  private async update(id: string, from: AIJobStatus[], changes: GenerationUpdate): Promise<void> {
+    try {
+      await this.transition(id, from, changes);
+    } catch (error) {
+      console.error('更新 AI 任务状态失败:', error);
+    }
+  }
+
+  // 仅在任务处于指定状态时更新，返回更新后的记录
+  private async transition(id: string, from: AIJobStatus[], changes: GenerationUpdate): Promise<AIJob | null> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('ai_content_generations')
+      .update(changes)
+      .eq('id', id)
+      .in('status', from)
+      .not('request', 'is', null)
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as AIJob) || null;
+  }
+}
+
+// 主函数：启动 AI 任务工作进程
+// 并发数与轮询间隔通过 AI_QUEUE_CONCURRENCY、AI_QUEUE_POLL_INTERVAL 环境变量配置
+export async function main() {
+  try {
+    const queue = new AIJobQueue(getAIService(), getSupabaseService(), {
+      concurrency: getEnvNumber('AI_QUEUE_CONCURRENCY', DEFAULT_CONCURRENCY),
+      pollInterval: getEnvNumber('AI_QUEUE_POLL_INTERVAL', DEFAULT_POLL_INTERVAL),
+    });
+
+    queue.start();
+    console.log(`🚀 AI 任务工作进程已启动: ${queue.getWorkerId()}`);
+
+    const shutdown = async () => {
+      console.log('⏳ 等待执行中的 AI 任务结束...');
+      await queue.stop();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  } catch (error) {
+    console.error('❌ AI 任务工作进程启动失败:', errorMessage(error));
+    process.exit(1);
+  }
+}
+
+// 如果直接运行此文件
+if (require.main === module) {
+  main();
+}
+
+export default AIJobQueue;
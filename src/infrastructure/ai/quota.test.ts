@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import type SupabaseService from '../supabase/client';
+import type { SettingsStore } from '../config/settings';
+import { AIQuotaExceededError, AIQuotaService, AI_BUDGET_SETTING, AI_PRICING_SETTING } from './quota';
+
+type Row = Record<string, any>;
+
+// 内存中的 Supabase 服务：按 eq / gte / lt 过滤，按 range 分页
+function fakeSupabase(tables: Record<string, Row[]>): SupabaseService {
+  function query(table: string) {
+    const filters: Array<(row: Row) => boolean> = [];
+    let range: [number, number] | null = null;
+    let single = false;
+
+    const run = () => {
+      let rows = (tables[table] || []).filter(row => filters.every(filter => filter(row)));
+      if (range) rows = rows.slice(range[0], range[1] + 1);
+      return { data: single ? rows[0] || null : rows, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+      gte: (column: string, value: string) => { filters.push(row => row[column] >= value); return builder; },
+      lt: (column: string, value: string) => { filters.push(row => row[column] < value); return builder; },
+      order: () => builder,
+      range: (from: number, to: number) => { range = [from, to]; return builder; },
+      maybeSingle: () => { single = true; return builder; },
+      then: (resolve: (value: unknown) => void, reject: (reason: unknown) => void) => Promise.resolve().then(run).then(resolve, reject),
+    };
+    return builder;
+  }
+  return { getServiceClient: () => ({ from: query }) } as unknown as SupabaseService;
+}
+
+// 固定取值的设置
+function fakeSettings(values: Record<string, unknown>): SettingsStore {
+  return { get: async (key: string, defaultValue: unknown) => (key in values ? values[key] : defaultValue) } as unknown as SettingsStore;
+}
+
+// 一次生成记录
+function generation(row: Row): Row {
+  return {
+    user_id: 'u1',
+    model: 'gpt-4o',
+    status: 'completed',
+    created_at: '2024-03-10T00:00:00.000Z',
+    cost: 0,
+    tokens_used: 0,
+    cost_estimated: null,
+    cost_unknown: null,
+    ...row,
+  };
+}
+
+const PROFILES = [{ id: 'u1', role: 'user' }, { id: 'a1', role: 'admin' }];
+
+describe('AIQuotaService.calculateCost', () => {
+  it('settings 中的价格覆盖默认价格', async () => {
+    const quota = new AIQuotaService(fakeSupabase({}), fakeSettings({ [AI_PRICING_SETTING]: { 'gpt-4o': { input: 1, output: 1 } } }));
+    expect(await quota.calculateCost('openai', 'gpt-4o', { promptTokens: 1000, completionTokens: 1000, totalTokens: 2000 }))
+      .toEqual({ cost: 0.002, estimated: false });
+  });
+});
+
+describe('AIQuotaService.getBudgetStatus', () => {
+  it('按站点时区的自然月汇总费用', async () => {
+    const supabase = fakeSupabase({
+      profiles: PROFILES,
+      ai_content_generations: [
+        // 上海时间 2 月 29 日 23:00，属于上个月
+        generation({ created_at: '2024-02-29T15:00:00.000Z', cost: 5 }),
+        generation({ created_at: '2024-02-29T16:00:00.000Z', cost: 1.25 }),
+        generation({ created_at: '2024-03-20T00:00:00.000Z', cost: '0.5' }),
+        generation({ user_id: 'a1', cost: 100 }),
+      ],
+    });
+    const settings = fakeSettings({ timezone: 'Asia/Shanghai', [AI_BUDGET_SETTING]: { roles: { user: 10 } } });
+    const status = await new AIQuotaService(supabase, settings).getBudgetStatus('u1', new Date('2024-03-15T00:00:00.000Z'));
+
+    expect(status).toEqual({
+      userId: 'u1',
+      role: 'user',
+      budget: 10,
+      spent: 1.75,
+      remaining: 8.25,
+      periodStart: '2024-02-29T16:00:00.000Z',
+      periodEnd: '2024-03-31T16:00:00.000Z',
+      allowed: true,
+    });
+  });
+
+  it('用户单独配置优先于角色配置，null 表示不限额', async () => {
+    const supabase = fakeSupabase({ profiles: PROFILES, ai_content_generations: [generation({ cost: 50 })] });
+    const settings = fakeSettings({ [AI_BUDGET_SETTING]: { roles: { user: 10 }, users: { u1: null } } });
+    const status = await new AIQuotaService(supabase, settings).getBudgetStatus('u1', new Date('2024-03-15T00:00:00.000Z'));
+    expect(status).toMatchObject({ budget: null, spent: 0, remaining: null, allowed: true });
+  });
+
+  it('旧记录中未知模型的费用按 Token 数与最高单价估算', async () => {
+    const supabase = fakeSupabase({
+      profiles: PROFILES,
+      ai_content_generations: [generation({ cost: 0, tokens_used: 1000, cost_unknown: true })],
+    });
+    const settings = fakeSettings({
+      [AI_BUDGET_SETTING]: { users: { u1: 1 } },
+      [AI_PRICING_SETTING]: { 'gpt-4': { input: 30, output: 60 }, 'claude-3-opus': { input: 15, output: 75 } },
+    });
+    const status = await new AIQuotaService(supabase, settings).getBudgetStatus('u1', new Date('2024-03-15T00:00:00.000Z'));
+    expect(status.spent).toBe(0.075);
+  });
+
+  it('用尽预算时拒绝调用', async () => {
+    const supabase = fakeSupabase({ profiles: PROFILES, ai_content_generations: [generation({ cost: 10, created_at: new Date().toISOString() })] });
+    const quota = new AIQuotaService(supabase, fakeSettings({ [AI_BUDGET_SETTING]: { roles: { user: 10 } } }));
+    const error = await quota.assertWithinBudget('u1').catch(reason => reason);
+    expect(error).toBeInstanceOf(AIQuotaExceededError);
+    expect(error.status).toMatchObject({ spent: 10, remaining: 0, allowed: false });
+  });
+});
+
+describe('AIQuotaService.getSpendReport', () => {
+  const rows = [
+    generation({ user_id: 'u1', model: 'gpt-4o', cost: 0.1, tokens_used: 100, created_at: '2024-03-01T02:00:00.000Z' }),
+    generation({ user_id: 'u1', model: 'gpt-4o', cost: 0.2, tokens_used: 200, status: 'failed', created_at: '2024-03-01T20:00:00.000Z' }),
+    generation({ user_id: 'u2', model: 'mystery', cost: 0.3, tokens_used: 300, cost_estimated: true, created_at: '2024-03-02T03:00:00.000Z' }),
+  ];
+
+  it('按模型汇总，按费用倒序并提示估算费用', async () => {
+    const quota = new AIQuotaService(fakeSupabase({ ai_content_generations: rows }), fakeSettings({}));
+    const report = await quota.getSpendReport({ groupBy: 'model' });
+
+    expect(report.totals).toEqual({ cost: 0.6, tokens: 600, calls: 3, failed: 1 });
+    expect(report.rows).toEqual([
+      { key: 'gpt-4o', cost: 0.3, tokens: 300, calls: 2, failed: 1 },
+      { key: 'mystery', cost: 0.3, tokens: 300, calls: 1, failed: 0 },
+    ]);
+    expect(report.warnings).toHaveLength(1);
+    expect(report.warnings[0]).toContain('mystery');
+  });
+
+  it('按站点时区的日期汇总，按日期排序', async () => {
+    const quota = new AIQuotaService(fakeSupabase({ ai_content_generations: rows }), fakeSettings({ timezone: 'Asia/Shanghai' }));
+    const report = await quota.getSpendReport({ groupBy: 'day' });
+    expect(report.timezone).toBe('Asia/Shanghai');
+    expect(report.rows.map(row => [row.key, row.calls])).toEqual([['2024-03-01', 1], ['2024-03-02', 2]]);
+  });
+
+  it('按用户与时间范围过滤', async () => {
+    const quota = new AIQuotaService(fakeSupabase({ ai_content_generations: rows }), fakeSettings({}));
+    const report = await quota.getSpendReport({ groupBy: 'user', userId: 'u1', from: '2024-03-01T10:00:00.000Z' });
+    expect(report.rows).toEqual([{ key: 'u1', cost: 0.2, tokens: 200, calls: 1, failed: 1 }]);
+    expect(report.from).toBe('2024-03-01T10:00:00.000Z');
+  });
+});
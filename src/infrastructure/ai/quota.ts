@@ -0,0 +1,300 @@
+// AI 费用与配额
+// 计算每次调用的费用，按 settings 中的月度预算限制用户调用，并按用户、模型、日期汇总支出
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { SettingsStore } from '../config/settings';
+import type { Database } from '../types/database';
+import { formatZonedDate, getZonedDateParts, zonedTimeToUtc } from '../utils/date';
+import { DEFAULT_MODEL_PRICING, estimateCost, fallbackModelPrice } from './pricing';
+import type { AICostEstimate, AIModelPrice, AIPricingTable } from './pricing';
+import type { AIProviderName, AIUsage } from './types';
+
+type UserRole = Database['public']['Tables']['profiles']['Row']['role'];
+
+// 设置项
+export const AI_BUDGET_SETTING = 'ai_monthly_budgets';
+export const AI_PRICING_SETTING = 'ai_model_pricing';
+
+// 月度预算设置（美元），null 或未配置表示不限额；用户单独配置优先于角色配置
+export interface AIBudgetSettings {
+  roles?: Partial<Record<UserRole, number | null>>;
+  users?: Record<string, number | null>;
+}
+
+// 预算使用情况
+export interface AIBudgetStatus {
+  userId: string;
+  role: UserRole | null;
+  budget: number | null;
+  spent: number;
+  remaining: number | null;
+  periodStart: string;
+  periodEnd: string;
+  allowed: boolean;
+}
+
+// 支出报表分组方式
+export type AISpendGroupBy = 'user' | 'model' | 'day';
+
+// 报表查询条件
+export interface AISpendReportOptions {
+  groupBy: AISpendGroupBy;
+  from?: string;
+  to?: string;
+  userId?: string;
+  model?: string;
+}
+
+// 报表行
+export interface AISpendRow {
+  key: string | null;
+  cost: number;
+  tokens: number;
+  calls: number;
+  failed: number;
+}
+
+// 支出报表
+export interface AISpendReport {
+  groupBy: AISpendGroupBy;
+  from: string | null;
+  to: string | null;
+  timezone: string;
+  totals: Omit<AISpendRow, 'key'>;
+  rows: AISpendRow[];
+  // 包含估算费用时的提示
+  warnings: string[];
+}
+
+// 超出预算
+export class AIQuotaExceededError extends Error {
+  constructor(public readonly status: AIBudgetStatus) {
+    super(`AI 月度预算已用尽：本月已使用 $${status.spent.toFixed(4)}，预算 $${(status.budget || 0).toFixed(2)}`);
+    this.name = 'AIQuotaExceededError';
+  }
+}
+
+// 每次查询的行数
+const PAGE_SIZE = 1000;
+
+// 汇总行
+interface SpendRecord {
+  user_id: string | null;
+  model: string;
+  cost: number | string | null;
+  tokens_used: number | null;
+  status: string;
+  created_at: string;
+  // 模型不在价格表中，cost 为按最高价格估算的费用
+  cost_estimated: boolean | null;
+  // 旧版本对未知模型记录的费用为 0，汇总时按 Token 数重新估算
+  cost_unknown: boolean | null;
+}
+
+// 汇总需要的字段
+const SPEND_COLUMNS = 'cost, tokens_used, cost_unknown:metadata->cost_unknown';
+const REPORT_COLUMNS = `user_id, model, status, created_at, cost_estimated:metadata->cost_estimated, ${SPEND_COLUMNS}`;
+
+// 单条记录的费用；旧记录中未知模型的费用为 0，按 Token 总数与较高的单价估算
+function recordCost(row: Pick<SpendRecord, 'cost' | 'tokens_used' | 'cost_unknown'>, fallback: AIModelPrice): number {
+  if (row.cost_unknown === true) {
+    return ((row.tokens_used || 0) * Math.max(fallback.input, fallback.output)) / 1000000;
+  }
+  return Number(row.cost) || 0;
+}
+
+export class AIQuotaService {
+  private supabase: SupabaseService;
+  private settings: SettingsStore;
+
+  constructor(supabase: SupabaseService = getSupabaseService(), settings?: SettingsStore) {
+    this.supabase = supabase;
+    this.settings = settings || new SettingsStore(supabase);
+  }
+
+  // ==================== 定价 ====================
+
+  // 获取价格表（默认价格合并 settings 中的覆盖项）
+  async getPricingTable(): Promise<AIPricingTable> {
+    const overrides = await this.settings.get<AIPricingTable>(AI_PRICING_SETTING, {});
+    return { ...DEFAULT_MODEL_PRICING, ...overrides };
+  }
+
+  // 计算单次调用费用，未知模型按价格表中的最高价格估算
+  async calculateCost(provider: AIProviderName, model: string, usage: AIUsage): Promise<AICostEstimate> {
+    return estimateCost(provider, model, usage, await this.getPricingTable());
+  }
+
+  // ==================== 预算 ====================
+
+  // 获取用户本月预算使用情况
+  async getBudgetStatus(userId: string, now: Date = new Date()): Promise<AIBudgetStatus> {
+    const [budgets, timezone, role] = await Promise.all([
+      this.settings.get<AIBudgetSettings>(AI_BUDGET_SETTING, {}),
+      this.getTimezone(),
+      this.getUserRole(userId),
+    ]);
+
+    const { start, end } = this.getMonthRange(now, timezone);
+    const budget = this.resolveBudget(budgets, userId, role);
+    const spent = budget === null ? 0 : await this.sumSpend(userId, start, end);
+
+    return {
+      userId,
+      role,
+      budget,
+      spent,
+      remaining: budget === null ? null : Math.max(budget - spent, 0),
+      periodStart: start.toISOString(),
+      periodEnd: end.toISOString(),
+      allowed: budget === null || spent < budget,
+    };
+  }
+
+  // 超出预算时抛出 AIQuotaExceededError
+  async assertWithinBudget(userId: string): Promise<AIBudgetStatus> {
+    const status = await this.getBudgetStatus(userId);
+    if (!status.allowed) {
+      throw new AIQuotaExceededError(status);
+    }
+    return status;
+  }
+
+  // ==================== 报表 ====================
+
+  // 按用户、模型或日期汇总支出
+  async getSpendReport(options: AISpendReportOptions): Promise<AISpendReport> {
+    const timezone = await this.getTimezone();
+    const fallback = fallbackModelPrice(await this.getPricingTable());
+    const groups = new Map<string | null, AISpendRow>();
+    const totals = { cost: 0, tokens: 0, calls: 0, failed: 0 };
+    // 按模型统计估算费用的调用次数
+    const estimated = new Map<string, number>();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = this.supabase.getServiceClient()
+        .from('ai_content_generations')
+        .select(REPORT_COLUMNS);
+
+      if (options.from) query = query.gte('created_at', options.from);
+      if (options.to) query = query.lt('created_at', options.to);
+      if (options.userId) query = query.eq('user_id', options.userId);
+      if (options.model) query = query.eq('model', options.model);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw error;
+
+      const rows = (data || []) as SpendRecord[];
+      rows.forEach(row => {
+        const key = options.groupBy === 'user'
+          ? row.user_id
+          : options.groupBy === 'model'
+            ? row.model
+            : formatZonedDate(row.created_at, timezone);
+
+        const group = groups.get(key) || { key, cost: 0, tokens: 0, calls: 0, failed: 0 };
+        const cost = recordCost(row, fallback);
+        const tokens = row.tokens_used || 0;
+        if (row.cost_estimated === true || row.cost_unknown === true) {
+          estimated.set(row.model, (estimated.get(row.model) || 0) + 1);
+        }
+        const failed = row.status === 'failed' ? 1 : 0;
+
+        group.cost += cost;
+        group.tokens += tokens;
+        group.calls += 1;
+        group.failed += failed;
+        groups.set(key, group);
+
+        totals.cost += cost;
+        totals.tokens += tokens;
+        totals.calls += 1;
+        totals.failed += failed;
+      });
+
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    const rows = Array.from(groups.values()).map(row => ({ ...row, cost: Number(row.cost.toFixed(6)) }));
+    rows.sort((a, b) => (options.groupBy === 'day'
+      ? String(a.key).localeCompare(String(b.key))
+      : b.cost - a.cost));
+
+    return {
+      groupBy: options.groupBy,
+      from: options.from || null,
+      to: options.to || null,
+      timezone,
+      totals: { ...totals, cost: Number(totals.cost.toFixed(6)) },
+      rows,
+      warnings: Array.from(estimated.entries()).map(([model, calls]) =>
+        `模型 ${model} 不在价格表中，${calls} 次调用的费用按最高价格估算，请在 ${AI_PRICING_SETTING} 中补充价格`),
+    };
+  }
+
+  // ==================== 辅助方法 ====================
+
+  // 用户配置优先，其次角色配置
+  private resolveBudget(budgets: AIBudgetSettings, userId: string, role: UserRole | null): number | null {
+    if (budgets.users && userId in budgets.users) {
+      return budgets.users[userId] ?? null;
+    }
+    if (role && budgets.roles && role in budgets.roles) {
+      return budgets.roles[role] ?? null;
+    }
+    return null;
+  }
+
+  // 按站点时区计算自然月范围
+  private getMonthRange(now: Date, timezone: string): { start: Date; end: Date } {
+    const { year, month } = getZonedDateParts(now, timezone);
+    const start = zonedTimeToUtc({ year, month, day: 1 }, timezone);
+    const end = month === 12
+      ? zonedTimeToUtc({ year: year + 1, month: 1, day: 1 }, timezone)
+      : zonedTimeToUtc({ year, month: month + 1, day: 1 }, timezone);
+    return { start, end };
+  }
+
+  // 汇总用户在时间范围内的费用
+  private async sumSpend(userId: string, start: Date, end: Date): Promise<number> {
+    const fallback = fallbackModelPrice(await this.getPricingTable());
+    let total = 0;
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.supabase.getServiceClient()
+        .from('ai_content_generations')
+        .select(SPEND_COLUMNS)
+        .eq('user_id', userId)
+        .gte('created_at', start.toISOString())
+        .lt('created_at', end.toISOString())
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw error;
+
+      const rows = (data || []) as Array<Pick<SpendRecord, 'cost' | 'tokens_used' | 'cost_unknown'>>;
+      total += rows.reduce((sum, row) => sum + recordCost(row, fallback), 0);
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    return Number(total.toFixed(6));
+  }
+
+  // 获取用户角色
+  private async getUserRole(userId: string): Promise<UserRole | null> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('profiles')
+      .select('role')
+      .eq('id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? (data as { role: UserRole }).role : null;
+  }
+
+  // 站点时区
+  private getTimezone(): Promise<string> {
+    return this.settings.get<string>('timezone', 'UTC');
+  }
+}
+
+export default AIQuotaService;
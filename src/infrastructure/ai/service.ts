@@ -0,0 +1,280 @@
+// AI 服务
+// 包装 AIProvider：调用前检查用户月度预算，调用后计算费用并记录到 ai_content_generations
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { getConfig } from '../config';
+import type { Database } from '../types/database';
+import { estimateCost } from './pricing';
+import type { AICostEstimate } from './pricing';
+import { createAIProvider } from './providers';
+import { AIQuotaService } from './quota';
+import type {
+  AICallContext,
+  AICompletionRequest,
+  AICompletionResult,
+  AIEmbeddingRequest,
+  AIEmbeddingResult,
+  AIProvider,
+  AIStreamChunk,
+  AIUsage,
+} from './types';
+
+type GenerationInsert = Database['public']['Tables']['ai_content_generations']['Insert'];
+
+// 调用类型
+type AIOperation = 'complete' | 'stream' | 'embed';
+
+// 单次调用的记录信息
+interface AICallRecord {
+  operation: AIOperation;
+  prompt: string;
+  content: string;
+  model: string;
+  usage: AIUsage;
+  startedAt: number;
+  error?: unknown;
+  extra?: Record<string, any>;
+}
+
+// 将消息序列化为便于审阅的文本
+export function formatPrompt(request: AICompletionRequest): string {
+  return request.messages.map(message => `[${message.role}]\n${message.content}`).join('\n\n');
+}
+
+export class AIService {
+  private provider: AIProvider;
+  private supabase: SupabaseService;
+  private quota: AIQuotaService | null;
+
+  // quota 传入 null 时不检查预算、不计算费用
+  constructor(
+    provider: AIProvider,
+    supabase: SupabaseService = getSupabaseService(),
+    quota: AIQuotaService | null = new AIQuotaService(supabase)
+  ) {
+    this.provider = provider;
+    this.supabase = supabase;
+    this.quota = quota;
+  }
+
+  // 获取当前提供者
+  getProvider(): AIProvider {
+    return this.provider;
+  }
+
+  // ==================== 调用方法 ====================
+
+  // 文本补全
+  async complete(request: AICompletionRequest, context: AICallContext = {}): Promise<AICompletionResult> {
+    await this.checkBudget(context);
+    const startedAt = Date.now();
+    const prompt = formatPrompt(request);
+
+    try {
+      const result = await this.provider.complete(request);
+      const generationId = await this.record(context, {
+        operation: 'complete',
+        prompt,
+        content: result.content,
+        model: result.model,
+        usage: result.usage,
+        startedAt,
+        extra: { finish_reason: result.finishReason },
+      });
+      return { ...result, generationId: generationId || undefined };
+    } catch (error) {
+      await this.record(context, this.failure('complete', prompt, request.model, startedAt, error));
+      throw error;
+    }
+  }
+
+  // 流式补全，输出结束（或调用方提前停止）后写入记录
+  async *stream(request: AICompletionRequest, context: AICallContext = {}): AsyncGenerator<AIStreamChunk> {
+    await this.checkBudget(context);
+    const startedAt = Date.now();
+    const prompt = formatPrompt(request);
+    let content = '';
+    let model = request.model || this.provider.defaultModel;
+    let usage: AIUsage | undefined;
+    let finished = false;
+
+    try {
+      for await (const chunk of this.provider.stream(request)) {
+        model = chunk.model || model;
+
+        if (chunk.done) {
+          usage = chunk.usage;
+          finished = true;
+          const generationId = await this.record(context, {
+            operation: 'stream',
+            prompt,
+            content,
+            model,
+            usage: usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+            startedAt,
+          });
+          yield { ...chunk, generationId: generationId || undefined };
+          return;
+        }
+
+        content += chunk.delta;
+        yield chunk;
+      }
+    } catch (error) {
+      finished = true;
+      await this.record(context, { ...this.failure('stream', prompt, model, startedAt, error), content });
+      throw error;
+    } finally {
+      if (!finished) {
+        await this.record(context, {
+          operation: 'stream',
+          prompt,
+          content,
+          model,
+          usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          startedAt,
+          extra: { aborted: true },
+        });
+      }
+    }
+  }
+
+  // 向量化
+  async embed(request: AIEmbeddingRequest, context: AICallContext = {}): Promise<AIEmbeddingResult> {
+    await this.checkBudget(context);
+    const startedAt = Date.now();
+    const inputs = Array.isArray(request.input) ? request.input : [request.input];
+    const prompt = inputs.join('\n\n');
+
+    try {
+      const result = await this.provider.embed(request);
+      const dimensions = result.embeddings[0] ? result.embeddings[0].length : 0;
+      const generationId = await this.record(context, {
+        operation: 'embed',
+        prompt,
+        content: `[${result.embeddings.length} embeddings x ${dimensions} dimensions]`,
+        model: result.model,
+        usage: result.usage,
+        startedAt,
+        extra: { inputs: inputs.length, dimensions },
+      });
+      return { ...result, generationId: generationId || undefined };
+    } catch (error) {
+      await this.record(context, this.failure('embed', prompt, request.model, startedAt, error));
+      throw error;
+    }
+  }
+
+  // ==================== 记录 ====================
+
+  // 有用户身份时检查月度预算，超出时抛出 AIQuotaExceededError
+  private async checkBudget(context: AICallContext): Promise<void> {
+    if (this.quota && context.userId) {
+      await this.quota.assertWithinBudget(context.userId);
+    }
+  }
+
+  // 计算费用；价格表读取失败时使用默认价格表，未知模型按最高价格估算
+  private async calculateCost(call: AICallRecord): Promise<AICostEstimate> {
+    if (!this.quota) return { cost: 0, estimated: false };
+    try {
+      return await this.quota.calculateCost(this.provider.name, call.model, call.usage);
+    } catch (error) {
+      console.error('读取 AI 价格表失败:', error);
+      return estimateCost(this.provider.name, call.model, call.usage);
+    }
+  }
+
+  // 构造失败记录
+  private failure(
+    operation: AIOperation,
+    prompt: string,
+    model: string | undefined,
+    startedAt: number,
+    error: unknown
+  ): AICallRecord {
+    return {
+      operation,
+      prompt,
+      content: '',
+      model: model || this.provider.defaultModel,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      startedAt,
+      error,
+    };
+  }
+
+  // 写入 ai_content_generations，失败时只记录日志，返回记录 ID
+  // 上下文带 generationId 时只更新仍处于 processing 的任务记录，已取消的任务不会被覆盖
+  private async record(context: AICallContext, call: AICallRecord): Promise<string | null> {
+    const { cost, estimated } = await this.calculateCost(call);
+    const payload: GenerationInsert = {
+      user_id: context.userId ?? null,
+      post_id: context.postId ?? null,
+      prompt: call.prompt,
+      generated_content: call.content,
+      model: call.model,
+      tokens_used: call.usage.totalTokens,
+      cost,
+      status: call.error ? 'failed' : 'completed',
+      error_message: call.error ? (call.error instanceof Error ? call.error.message : String(call.error)) : null,
+      metadata: {
+        ...context.metadata,
+        provider: this.provider.name,
+        operation: call.operation,
+        feature: context.feature || null,
+        prompt_tokens: call.usage.promptTokens,
+        completion_tokens: call.usage.completionTokens,
+        duration_ms: Date.now() - call.startedAt,
+        cost_estimated: estimated,
+        ...call.extra,
+      },
+    };
+
+    try {
+      if (context.generationId) {
+        const { error } = await this.supabase.getServiceClient()
+          .from('ai_content_generations')
+          .update(payload)
+          .eq('id', context.generationId)
+          .eq('status', 'processing');
+        if (error) throw error;
+        return context.generationId;
+      }
+
+      const { data, error } = await this.supabase.getServiceClient()
+        .from('ai_content_generations')
+        .insert(payload)
+        .select('id')
+        .single();
+      if (error) throw error;
+      return data ? data.id : null;
+    } catch (error) {
+      console.error('记录 AI 调用失败:', error);
+      return null;
+    }
+  }
+}
+
+// ==================== 单例 ====================
+
+let aiService: AIService | null = null;
+
+// AI 功能是否启用
+export function isAIEnabled(): boolean {
+  return getConfig().ai.enabled;
+}
+
+// 获取按配置创建的 AI 服务
+export function getAIService(): AIService {
+  if (!aiService) {
+    const config = getConfig();
+    if (!config.ai.enabled) {
+      throw new Error('AI 功能未启用，请设置 AI_ENABLED=true');
+    }
+    aiService = new AIService(createAIProvider(config.ai));
+  }
+  return aiService;
+}
+
+export default AIService;
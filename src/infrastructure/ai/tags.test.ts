@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { TagSuggestionModel } from './tags';
+import type { TagFeedback, TagInfo, TagTrainingDocument } from './tags';
+
+const TAGS: TagInfo[] = [
+  { id: 'react', name: 'React', slug: 'react' },
+  { id: 'vue', name: 'Vue', slug: 'vue' },
+  { id: 'frontend', name: '前端', slug: 'frontend' },
+  { id: 'cooking', name: '烹饪', slug: 'cooking' },
+];
+
+const DOCUMENTS: TagTrainingDocument[] = [
+  { postId: 'p1', title: 'Hooks 入门', content: 'useState useEffect hooks component render', tagIds: ['react', 'frontend'] },
+  { postId: 'p2', title: 'Hooks 进阶', content: 'custom hooks useMemo component state', tagIds: ['react', 'frontend'] },
+  { postId: 'p3', title: '组合式 API', content: 'ref reactive template component', tagIds: ['vue', 'frontend'] },
+  { postId: 'p4', title: '红烧肉', content: '五花肉 酱油 冰糖 炖煮', tagIds: ['cooking'] },
+];
+
+// 候选标签 id → 候选
+function byTag(model: TagSuggestionModel, input: Parameters<TagSuggestionModel['score']>[0]) {
+  return new Map(model.score(input).map(candidate => [candidate.tag.id, candidate]));
+}
+
+describe('TagSuggestionModel', () => {
+  const model = TagSuggestionModel.build(TAGS, DOCUMENTS);
+
+  it('只统计训练文档中出现过的标签', () => {
+    expect(model.getTrainedTagCount()).toBe(4);
+    expect(TagSuggestionModel.build(TAGS, DOCUMENTS.slice(0, 1)).getTrainedTagCount()).toBe(2);
+  });
+
+  it('内容相似的标签得分更高，按分数从高到低排序', () => {
+    const candidates = model.score({ title: '自定义 Hooks', content: 'useEffect hooks useMemo component' });
+    expect(candidates[0].tag.id).toBe('react');
+    expect(candidates.map(candidate => candidate.score)).toEqual([...candidates.map(candidate => candidate.score)].sort((a, b) => b - a));
+    expect(candidates.find(candidate => candidate.tag.id === 'cooking')).toBeUndefined();
+    expect(candidates[0].reasons[0]).toContain('hooks');
+  });
+
+  it('标题包含标签名时信号高于正文提到', () => {
+    const inTitle = byTag(model, { title: '烹饪笔记', content: '周末' }).get('cooking')!;
+    const inContent = byTag(model, { title: '周末', content: '喜欢烹饪' }).get('cooking')!;
+    expect(inTitle.signals.nameMatch).toBe(0.9);
+    expect(inContent.signals.nameMatch).toBeCloseTo(0.4 * 0.75);
+    expect(inTitle.score).toBeGreaterThan(inContent.score);
+  });
+
+  it('正文提到次数越多信号越高', () => {
+    const once = byTag(model, { title: '周末', content: 'Vue' }).get('vue')!;
+    const twice = byTag(model, { title: '周末', content: 'Vue 和 Vue' }).get('vue')!;
+    expect(twice.signals.nameMatch).toBeCloseTo((1 - 0.36) * 0.75);
+    expect(twice.signals.nameMatch).toBeGreaterThan(once.signals.nameMatch);
+  });
+
+  it('按已有标签的共现概率推荐，支持度不足时不计', () => {
+    const candidates = byTag(model, { title: '周末', content: '随笔', existingTagIds: ['react'] });
+    expect(candidates.has('react')).toBe(false);
+    expect(candidates.get('frontend')!.signals.cooccurrence).toBe(1);
+    expect(candidates.get('frontend')!.reasons).toContain('100% 使用「React」的文章同时使用该标签');
+
+    // vue 只出现在一篇文章中，低于最少支持数
+    expect(byTag(model, { title: '周末', content: '随笔', existingTagIds: ['vue'] }).has('frontend')).toBe(false);
+  });
+
+  it('排除已拒绝的标签', () => {
+    const candidates = byTag(model, { title: 'React', content: '', excludedTagIds: ['react'] });
+    expect(candidates.has('react')).toBe(false);
+  });
+
+  it('没有任何信号的标签不作为候选', () => {
+    expect(model.score({ title: '毫不相关', content: '完全无关的内容' })).toEqual([]);
+  });
+
+  it('采纳反馈按拉普拉斯平滑后的采纳率调整分数', () => {
+    const feedback = new Map<string, TagFeedback>([
+      ['react', { accepted: 8, rejected: 0 }],
+      ['vue', { accepted: 0, rejected: 8 }],
+    ]);
+    const adjusted = TagSuggestionModel.build(TAGS, DOCUMENTS, feedback);
+    expect(adjusted.getFeedbackFactor('react')).toBe(1.5);
+    expect(adjusted.getFeedbackFactor('vue')).toBeCloseTo(0.2);
+    expect(adjusted.getFeedbackFactor('frontend')).toBe(1);
+
+    const input = { title: 'React 与 Vue', content: '' };
+    const base = byTag(model, input);
+    const scored = byTag(adjusted, input);
+    expect(scored.get('react')!.score).toBeGreaterThan(base.get('react')!.score);
+    expect(scored.get('vue')!.score).toBeLessThan(base.get('vue')!.score);
+    expect(scored.get('vue')!.reasons).toContain('历史建议采纳 0 次、拒绝 8 次');
+  });
+
+  it('分数不超过 confidence_score 的精度上限', () => {
+    const feedback = new Map<string, TagFeedback>([['react', { accepted: 100, rejected: 0 }]]);
+    const adjusted = TagSuggestionModel.build(TAGS, DOCUMENTS, feedback);
+    const react = byTag(adjusted, { title: 'React Hooks', content: 'useEffect hooks component', existingTagIds: ['frontend'] }).get('react')!;
+    expect(react.score).toBe(0.9999);
+  });
+});
@@ -0,0 +1,677 @@
+// 标签建议
+// 基于已打标签文章训练本地 TF-IDF / 共现模型，为文章推荐已有标签并写入 ai_tag_suggestions
+// 配置了 AI 提供者时再由模型复核候选标签；采纳与拒绝结果会反馈到后续评分
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import type { Database } from '../types/database';
+import { countOccurrences } from '../utils/words';
+import { AIService } from './service';
+import {
+  cosineSimilarity,
+  inverseDocumentFrequencies,
+  normalizeVector,
+  stripMarkdown,
+  tfidfVector,
+  tokenize,
+  topTerms,
+} from './text';
+import type { TermVector } from './text';
+
+type SuggestionRow = Database['public']['Tables']['ai_tag_suggestions']['Row'];
+type SuggestionInsert = Database['public']['Tables']['ai_tag_suggestions']['Insert'];
+
+// 建议状态
+export type TagSuggestionStatus = SuggestionRow['status'];
+
+// 建议记录（附带标签信息）
+export interface TagSuggestion extends SuggestionRow {
+  tag: TagInfo | null;
+}
+
+// 标签
+export interface TagInfo {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+// 训练文档
+export interface TagTrainingDocument {
+  postId: string;
+  title: string;
+  content: string;
+  tagIds: string[];
+}
+
+// 标签的历史采纳情况
+export interface TagFeedback {
+  accepted: number;
+  rejected: number;
+}
+
+// 待评分的文章
+export interface TagScoringInput {
+  title: string;
+  content: string;
+  existingTagIds?: string[];
+  excludedTagIds?: string[];
+}
+
+// 评分结果
+export interface TagCandidate {
+  tag: TagInfo;
+  score: number;
+  reasons: string[];
+  signals: {
+    similarity: number;
+    nameMatch: number;
+    cooccurrence: number;
+    feedback: number;
+    ai?: number;
+  };
+}
+
+// 生成建议选项
+export interface TagSuggestOptions {
+  limit?: number;
+  minScore?: number;
+  useAI?: boolean;
+  userId?: string | null;
+}
+
+// 标签建议服务选项
+export interface TagSuggestionServiceOptions {
+  modelTtl?: number;
+}
+
+// 标题在训练与评分时的权重（重复次数）
+const TITLE_WEIGHT = 3;
+
+// 各信号的上限，合并方式为 1 - Π(1 - signal)
+const SIMILARITY_WEIGHT = 0.8;
+const TITLE_MATCH_SCORE = 0.9;
+const CONTENT_MATCH_WEIGHT = 0.75;
+const COOCCURRENCE_WEIGHT = 0.7;
+const AI_WEIGHT = 0.85;
+
+// 相似度达到该值时相似度信号取满
+const SIMILARITY_SATURATION = 0.5;
+
+// 计算共现概率所需的最少文章数
+const MIN_COOCCURRENCE_SUPPORT = 2;
+
+// 采纳反馈系数范围
+const MIN_FEEDBACK_FACTOR = 0.2;
+const MAX_FEEDBACK_FACTOR = 1.5;
+
+// 默认值
+const DEFAULT_LIMIT = 5;
+const DEFAULT_MIN_SCORE = 0.15;
+const DEFAULT_MODEL_TTL = 10 * 60 * 1000;
+
+// 交给 AI 复核的候选数量与正文长度
+const AI_CANDIDATE_COUNT = 30;
+const AI_CONTENT_LENGTH = 1500;
+
+// 每次查询的行数
+const PAGE_SIZE = 1000;
+
+// confidence_score 为 DECIMAL(5, 4)
+function roundScore(score: number): number {
+  return Number(Math.min(Math.max(score, 0), 0.9999).toFixed(4));
+}
+
+// 合并多个 [0, 1] 信号
+function combineSignals(signals: number[]): number {
+  return 1 - signals.reduce((product, signal) => product * (1 - Math.min(Math.max(signal, 0), 1)), 1);
+}
+
+// 文档分词（标题加权）
+function documentTokens(title: string, content: string): string[] {
+  const titleTokens = tokenize(title);
+  const tokens = tokenize(stripMarkdown(content));
+  for (let i = 0; i < TITLE_WEIGHT; i++) tokens.push(...titleTokens);
+  return tokens;
+}
+
+// ==================== 本地模型 ====================
+
+export class TagSuggestionModel {
+  private tags = new Map<string, TagInfo>();
+  private idf = new Map<string, number>();
+  private defaultIdf = 1;
+  private centroids = new Map<string, TermVector>();
+  private tagDocumentCounts = new Map<string, number>();
+  private cooccurrences = new Map<string, Map<string, number>>();
+  private feedback = new Map<string, TagFeedback>();
+
+  // 由已打标签的文章、全部标签和历史反馈构建模型
+  static build(
+    tags: TagInfo[],
+    documents: TagTrainingDocument[],
+    feedback: Map<string, TagFeedback> = new Map()
+  ): TagSuggestionModel {
+    const model = new TagSuggestionModel();
+    tags.forEach(tag => model.tags.set(tag.id, tag));
+    model.feedback = feedback;
+
+    const tokenized = documents.map(doc => documentTokens(doc.title, doc.content));
+    model.idf = inverseDocumentFrequencies(tokenized);
+    model.defaultIdf = Math.log(documents.length + 1) + 1;
+
+    const sums = new Map<string, TermVector>();
+    documents.forEach((doc, index) => {
+      const vector = tfidfVector(tokenized[index], model.idf, model.defaultIdf);
+      const tagIds = Array.from(new Set(doc.tagIds)).filter(id => model.tags.has(id));
+
+      tagIds.forEach(tagId => {
+        model.tagDocumentCounts.set(tagId, (model.tagDocumentCounts.get(tagId) || 0) + 1);
+
+        const sum = sums.get(tagId) || new Map<string, number>();
+        vector.forEach((value, term) => sum.set(term, (sum.get(term) || 0) + value));
+        sums.set(tagId, sum);
+
+        const pairs = model.cooccurrences.get(tagId) || new Map<string, number>();
+        tagIds.filter(other => other !== tagId).forEach(other => pairs.set(other, (pairs.get(other) || 0) + 1));
+        model.cooccurrences.set(tagId, pairs);
+      });
+    });
+
+    sums.forEach((sum, tagId) => model.centroids.set(tagId, normalizeVector(sum)));
+    return model;
+  }
+
+  // 训练文档中出现过的标签数
+  getTrainedTagCount(): number {
+    return this.centroids.size;
+  }
+
+  // 全部标签
+  getTags(): TagInfo[] {
+    return Array.from(this.tags.values());
+  }
+
+  // 标签采纳反馈系数：拉普拉斯平滑后的采纳率 / 0.5，无反馈时为 1
+  getFeedbackFactor(tagId: string): number {
+    const feedback = this.feedback.get(tagId);
+    if (!feedback) return 1;
+    const rate = (feedback.accepted + 1) / (feedback.accepted + feedback.rejected + 2);
+    return Math.min(Math.max(rate / 0.5, MIN_FEEDBACK_FACTOR), MAX_FEEDBACK_FACTOR);
+  }
+
+  // 为文章给全部候选标签评分，按分数从高到低返回
+  score(input: TagScoringInput): TagCandidate[] {
+    const existing = new Set(input.existingTagIds || []);
+    const excluded = new Set(input.excludedTagIds || []);
+    const vector = tfidfVector(documentTokens(input.title, input.content), this.idf, this.defaultIdf);
+    const plainContent = stripMarkdown(input.content);
+    const candidates: TagCandidate[] = [];
+
+    this.tags.forEach(tag => {
+      if (existing.has(tag.id) || excluded.has(tag.id)) return;
+      const reasons: string[] = [];
+
+      // 与使用该标签的文章的相似度
+      const centroid = this.centroids.get(tag.id);
+      const similarity = centroid ? cosineSimilarity(vector, centroid) : 0;
+      const similaritySignal = Math.min(similarity / SIMILARITY_SATURATION, 1) * SIMILARITY_WEIGHT;
+      if (centroid && similaritySignal >= 0.05) {
+        const shared = topTerms(new Map(Array.from(vector).filter(([term]) => centroid.has(term))), 3);
+        reasons.push(`与 ${this.tagDocumentCounts.get(tag.id)} 篇使用该标签的文章内容相似（相似度 ${similarity.toFixed(2)}${shared.length ? `，共同关键词：${shared.join('、')}` : ''}）`);
+      }
+
+      // 标题或正文直接提到标签名
+      let nameMatch = 0;
+      if (countOccurrences(input.title, tag.name) > 0) {
+        nameMatch = TITLE_MATCH_SCORE;
+        reasons.push(`标题包含标签名「${tag.name}」`);
+      } else {
+        const count = countOccurrences(plainContent, tag.name);
+        if (count > 0) {
+          nameMatch = (1 - Math.pow(0.6, count)) * CONTENT_MATCH_WEIGHT;
+          reasons.push(`正文提到「${tag.name}」${count} 次`);
+        }
+      }
+
+      // 与文章已有标签的共现
+      let cooccurrence = 0;
+      let partner: TagInfo | undefined;
+      existing.forEach(existingId => {
+        const support = this.tagDocumentCounts.get(existingId) || 0;
+        if (support < MIN_COOCCURRENCE_SUPPORT) return;
+        const probability = (this.cooccurrences.get(existingId)?.get(tag.id) || 0) / support;
+        if (probability > cooccurrence) {
+          cooccurrence = probability;
+          partner = this.tags.get(existingId);
+        }
+      });
+      const cooccurrenceSignal = cooccurrence * COOCCURRENCE_WEIGHT;
+      if (partner && cooccurrence > 0) {
+        reasons.push(`${Math.round(cooccurrence * 100)}% 使用「${partner.name}」的文章同时使用该标签`);
+      }
+
+      const combined = combineSignals([similaritySignal, nameMatch, cooccurrenceSignal]);
+      if (combined <= 0) return;
+
+      const feedback = this.getFeedbackFactor(tag.id);
+      if (feedback !== 1) {
+        const stats = this.feedback.get(tag.id)!;
+        reasons.push(`历史建议采纳 ${stats.accepted} 次、拒绝 ${stats.rejected} 次`);
+      }
+
+      candidates.push({
+        tag,
+        score: roundScore(combined * feedback),
+        reasons,
+        signals: {
+          similarity: Number(similarity.toFixed(4)),
+          nameMatch: Number(nameMatch.toFixed(4)),
+          cooccurrence: Number(cooccurrence.toFixed(4)),
+          feedback: Number(feedback.toFixed(4)),
+        },
+      });
+    });
+
+    return candidates.sort((a, b) => b.score - a.score);
+  }
+}
+
+// ==================== 建议服务 ====================
+
+export class TagSuggestionService {
+  private supabase: SupabaseService;
+  private ai: AIService | null;
+  private modelTtl: number;
+  private model: TagSuggestionModel | null = null;
+  private modelBuiltAt = 0;
+
+  // ai 为 null 时只使用本地模型
+  constructor(
+    supabase: SupabaseService = getSupabaseService(),
+    ai: AIService | null = null,
+    options: TagSuggestionServiceOptions = {}
+  ) {
+    this.supabase = supabase;
+    this.ai = ai;
+    this.modelTtl = options.modelTtl ?? DEFAULT_MODEL_TTL;
+  }
+
+  // 丢弃缓存的模型，下次生成建议时重新训练
+  invalidate(): void {
+    this.model = null;
+  }
+
+  // 获取模型（按 modelTtl 缓存）
+  async getModel(): Promise<TagSuggestionModel> {
+    if (!this.model || Date.now() - this.modelBuiltAt > this.modelTtl) {
+      const [tags, documents, feedback] = await Promise.all([
+        this.loadTags(),
+        this.loadTrainingDocuments(),
+        this.loadFeedback(),
+      ]);
+      this.model = TagSuggestionModel.build(tags, documents, feedback);
+      this.modelBuiltAt = Date.now();
+    }
+    return this.model;
+  }
+
+  // ==================== 生成与查询 ====================
+
+  // 为文章生成标签建议，替换该文章尚未处理的旧建议；已拒绝的标签不会再次建议
+  async suggest(postId: string, options: TagSuggestOptions = {}): Promise<TagSuggestion[]> {
+    const client = this.supabase.getServiceClient();
+    const limit = options.limit || DEFAULT_LIMIT;
+    const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+
+    const { data: post, error } = await client
+      .from('posts')
+      .select('id, title, content, excerpt, post_tags(tag_id)')
+      .eq('id', postId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!post) {
+      throw new Error('文章不存在');
+    }
+
+    const { data: rejected, error: rejectedError } = await client
+      .from('ai_tag_suggestions')
+      .select('tag_id')
+      .eq('post_id', postId)
+      .eq('status', 'rejected');
+    if (rejectedError) throw rejectedError;
+
+    const model = await this.getModel();
+    const existingTagIds = ((post.post_tags || []) as Array<{ tag_id: string }>).map(row => row.tag_id);
+    const rejectedTagIds = ((rejected || []) as Array<{ tag_id: string }>).map(row => row.tag_id);
+    const content = [post.excerpt, post.content].filter(Boolean).join('\n\n');
+    let candidates = model.score({
+      title: post.title,
+      content,
+      existingTagIds,
+      excludedTagIds: rejectedTagIds,
+    });
+
+    if (this.ai && options.useAI !== false) {
+      const reviewed = await this.reviewWithAI(
+        post.id,
+        post.title,
+        content,
+        candidates,
+        [...existingTagIds, ...rejectedTagIds],
+        model,
+        options.userId
+      );
+      if (reviewed) candidates = reviewed;
+    }
+
+    const selected = candidates.filter(candidate => candidate.score >= minScore).slice(0, limit);
+
+    const { error: deleteError } = await client
+      .from('ai_tag_suggestions')
+      .delete()
+      .eq('post_id', postId)
+      .eq('status', 'pending');
+    if (deleteError) throw deleteError;
+
+    if (selected.length === 0) return [];
+
+    const rows: SuggestionInsert[] = selected.map(candidate => ({
+      post_id: postId,
+      tag_id: candidate.tag.id,
+      confidence_score: candidate.score,
+      suggestion_reason: candidate.reasons.join('；'),
+      status: 'pending',
+      source: candidate.signals.ai !== undefined ? 'ai' : 'local',
+    }));
+
+    const { data, error: insertError } = await client
+      .from('ai_tag_suggestions')
+      .insert(rows)
+      .select('*');
+    if (insertError) throw insertError;
+
+    const tags = new Map(selected.map(candidate => [candidate.tag.id, candidate.tag]));
+    return ((data || []) as SuggestionRow[])
+      .map(row => ({ ...row, tag: tags.get(row.tag_id) || null }))
+      .sort((a, b) => b.confidence_score - a.confidence_score);
+  }
+
+  // 查询文章的标签建议
+  async list(postId: string, status?: TagSuggestionStatus): Promise<TagSuggestion[]> {
+    let query = this.supabase.getServiceClient()
+      .from('ai_tag_suggestions')
+      .select('*, tag:tags(id, name, slug)')
+      .eq('post_id', postId);
+
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query.order('confidence_score', { ascending: false });
+    if (error) throw error;
+    return (data || []) as TagSuggestion[];
+  }
+
+  // 获取单条建议
+  async get(id: string): Promise<TagSuggestion | null> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('ai_tag_suggestions')
+      .select('*, tag:tags(id, name, slug)')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    return (data as TagSuggestion) || null;
+  }
+
+  // ==================== 采纳与拒绝 ====================
+
+  // 采纳建议：为文章添加标签，已发布文章同时更新标签计数
+  async accept(id: string, reviewerId: string | null = null): Promise<TagSuggestion> {
+    const client = this.supabase.getServiceClient();
+    const suggestion = await this.review(id, 'accepted', reviewerId);
+
+    const { data: existing, error: existingError } = await client
+      .from('post_tags')
+      .select('tag_id')
+      .eq('post_id', suggestion.post_id)
+      .eq('tag_id', suggestion.tag_id)
+      .maybeSingle();
+    if (existingError) throw existingError;
+
+    if (!existing) {
+      const { error } = await client
+        .from('post_tags')
+        .insert({ post_id: suggestion.post_id, tag_id: suggestion.tag_id });
+      if (error) throw error;
+      await this.incrementTagCount(suggestion.post_id, suggestion.tag_id);
+    }
+
+    this.invalidate();
+    return suggestion;
+  }
+
+  // 拒绝建议：之后不会再为该文章建议此标签，并降低该标签的评分
+  async reject(id: string, reviewerId: string | null = null): Promise<TagSuggestion> {
+    const suggestion = await this.review(id, 'rejected', reviewerId);
+    this.invalidate();
+    return suggestion;
+  }
+
+  // 将待处理的建议标记为已采纳或已拒绝
+  private async review(id: string, status: TagSuggestionStatus, reviewerId: string | null): Promise<TagSuggestion> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('ai_tag_suggestions')
+      .update({ status, reviewed_by: reviewerId, reviewed_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('*, tag:tags(id, name, slug)')
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) {
+      throw new Error('标签建议不存在或已处理');
+    }
+    return data as TagSuggestion;
+  }
+
+  // post_count 只统计已发布文章（与 update_post_counts 触发器一致）
+  private async incrementTagCount(postId: string, tagId: string): Promise<void> {
+    const client = this.supabase.getServiceClient();
+
+    const { data: post, error: postError } = await client
+      .from('posts')
+      .select('status')
+      .eq('id', postId)
+      .maybeSingle();
+    if (postError) throw postError;
+    if (!post || post.status !== 'published') return;
+
+    const { data: tag, error: tagError } = await client
+      .from('tags')
+      .select('post_count')
+      .eq('id', tagId)
+      .maybeSingle();
+    if (tagError) throw tagError;
+    if (!tag) return;
+
+    const { error } = await client
+      .from('tags')
+      .update({ post_count: (tag.post_count || 0) + 1 })
+      .eq('id', tagId);
+    if (error) throw error;
+  }
+
+  // ==================== AI 复核 ====================
+
+  // 请模型从候选标签中挑选，与本地评分合并；调用失败时返回 null 并沿用本地结果
+  private async reviewWithAI(
+    postId: string,
+    title: string,
+    content: string,
+    candidates: TagCandidate[],
+    excludedTagIds: string[],
+    model: TagSuggestionModel,
+    userId?: string | null
+  ): Promise<TagCandidate[] | null> {
+    // 本地候选不足时用其余可选标签补足，便于模型在训练数据很少时仍能挑选
+    const pool = candidates.slice(0, AI_CANDIDATE_COUNT);
+    const pooled = new Set([...excludedTagIds, ...candidates.map(candidate => candidate.tag.id)]);
+    model.getTags()
+      .filter(tag => !pooled.has(tag.id))
+      .slice(0, Math.max(AI_CANDIDATE_COUNT - pool.length, 0))
+      .forEach(tag => pool.push({
+        tag,
+        score: 0,
+        reasons: [],
+        signals: { similarity: 0, nameMatch: 0, cooccurrence: 0, feedback: model.getFeedbackFactor(tag.id) },
+      }));
+    if (pool.length === 0) return null;
+
+    try {
+      const result = await this.ai!.complete({
+        messages: [
+          {
+            role: 'system',
+            content: '你是博客编辑助手，负责从给定的标签列表中为文章挑选合适的标签。只能使用列表中的标签，只输出 JSON 数组。',
+          },
+          {
+            role: 'user',
+            content: [
+              `标题：${title}`,
+              `正文：${stripMarkdown(content).slice(0, AI_CONTENT_LENGTH)}`,
+              `可选标签：${pool.map(candidate => candidate.tag.name).join('、')}`,
+              '请输出最多 5 个合适的标签，格式：[{"tag": "标签名", "confidence": 0到1之间的数字, "reason": "一句话理由"}]',
+            ].join('\n\n'),
+          },
+        ],
+        temperature: 0,
+        maxTokens: 500,
+      }, { userId, postId, feature: 'tag_suggestion' });
+
+      const picks = this.parseAIResponse(result.content);
+      if (!picks) return null;
+
+      const byName = new Map(pool.map(candidate => [candidate.tag.name.toLowerCase(), candidate]));
+      const reviewed = new Map(candidates.map(candidate => [candidate.tag.id, candidate]));
+
+      picks.forEach(pick => {
+        const candidate = byName.get(pick.tag.toLowerCase());
+        if (!candidate) return;
+
+        const ai = Math.min(Math.max(pick.confidence, 0), 1);
+        const local = candidate.score / candidate.signals.feedback;
+        const combined = combineSignals([local, ai * AI_WEIGHT]);
+        reviewed.set(candidate.tag.id, {
+          ...candidate,
+          score: roundScore(combined * candidate.signals.feedback),
+          reasons: [...candidate.reasons, `AI 建议${pick.reason ? `：${pick.reason}` : ''}`],
+          signals: { ...candidate.signals, ai: Number(ai.toFixed(4)) },
+        });
+      });
+
+      return Array.from(reviewed.values()).sort((a, b) => b.score - a.score);
+    } catch (error) {
+      console.error('AI 标签复核失败，使用本地评分:', error);
+      return null;
+    }
+  }
+
+  // 解析模型输出中的 JSON 数组
+  private parseAIResponse(content: string): Array<{ tag: string; confidence: number; reason?: string }> | null {
+    const match = content.match(/\[[\s\S]*\]/);
+    if (!match) return null;
+
+    try {
+      const parsed = JSON.parse(match[0]);
+      if (!Array.isArray(parsed)) return null;
+      return parsed
+        .filter(item => item && typeof item.tag === 'string')
+        .map(item => ({
+          tag: item.tag.trim(),
+          confidence: typeof item.confidence === 'number' ? item.confidence : 0.5,
+          reason: typeof item.reason === 'string' ? item.reason.trim() : undefined,
+        }));
+    } catch {
+      return null;
+    }
+  }
+
+  // ==================== 训练数据 ====================
+
+  // 全部标签
+  private async loadTags(): Promise<TagInfo[]> {
+    const tags: TagInfo[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.supabase.getServiceClient()
+        .from('tags')
+        .select('id, name, slug')
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw error;
+
+      const rows = (data || []) as TagInfo[];
+      tags.push(...rows);
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    return tags;
+  }
+
+  // 已打标签且未删除的文章
+  private async loadTrainingDocuments(): Promise<TagTrainingDocument[]> {
+    const documents: TagTrainingDocument[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.supabase.getServiceClient()
+        .from('posts')
+        .select('id, title, excerpt, content, post_tags!inner(tag_id)')
+        .neq('status', 'deleted')
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw error;
+
+      const rows = (data || []) as Array<{
+        id: string;
+        title: string;
+        excerpt: string | null;
+        content: string;
+        post_tags: Array<{ tag_id: string }>;
+      }>;
+      rows.forEach(row => documents.push({
+        postId: row.id,
+        title: row.title,
+        content: [row.excerpt, row.content].filter(Boolean).join('\n\n'),
+        tagIds: row.post_tags.map(tag => tag.tag_id),
+      }));
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    return documents;
+  }
+
+  // 各标签的历史采纳与拒绝次数
+  private async loadFeedback(): Promise<Map<string, TagFeedback>> {
+    const feedback = new Map<string, TagFeedback>();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.supabase.getServiceClient()
+        .from('ai_tag_suggestions')
+        .select('tag_id, status')
+        .in('status', ['accepted', 'rejected'])
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw error;
+
+      const rows = (data || []) as Array<{ tag_id: string; status: TagSuggestionStatus }>;
+      rows.forEach(row => {
+        const stats = feedback.get(row.tag_id) || { accepted: 0, rejected: 0 };
+        if (row.status === 'accepted') stats.accepted += 1;
+        else stats.rejected += 1;
+        feedback.set(row.tag_id, stats);
+      });
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    return feedback;
+  }
+}
+
+export default TagSuggestionService;
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  cosineSimilarity,
+  inverseDocumentFrequencies,
+  normalizeVector,
+  stripMarkdown,
+  tfidfVector,
+  tokenize,
+  topTerms,
+} from './text';
+
+describe('stripMarkdown', () => {
+  it('去除代码块与语法符号，保留链接和图片文字', () => {
+    const markdown = '# 标题\n\n**加粗** 与 `code`\n\n```ts\nconst a = 1;\n```\n\n[链接](https://example.com) ![图片](a.png)\n\n- 列表';
+    expect(stripMarkdown(markdown)).toBe('标题 加粗 与 code 链接 图片 列表');
+  });
+});
+
+describe('tokenize', () => {
+  it.each([
+    ['英文转小写并去除停用词与纯数字', 'The React Hooks in 2024', ['react', 'hooks']],
+    ['保留 c++、c#、node.js 等写法，去掉句末标点', 'Use C++ and C# with Node.js.', ['c++', 'c#', 'node.js']],
+    ['中文按相邻两字组合', '前端框架', ['前端', '端框', '框架']],
+    ['停用字切断组合，单独的汉字保留', '我的博客', ['我', '博客']],
+    ['中英文混排时分别处理', 'Vue组件开发', ['vue', '组件', '件开', '开发']],
+  ])('%s', (_name, text, expected) => {
+    expect(tokenize(text)).toEqual(expected);
+  });
+});
+
+describe('inverseDocumentFrequencies', () => {
+  it('按 log((N + 1) / (df + 1)) + 1 计算，文档内重复只计一次', () => {
+    const idf = inverseDocumentFrequencies([['a', 'a', 'b'], ['a'], ['c']]);
+    expect(idf.get('a')).toBeCloseTo(Math.log(4 / 3) + 1);
+    expect(idf.get('b')).toBeCloseTo(Math.log(4 / 2) + 1);
+    expect(idf.has('d')).toBe(false);
+  });
+});
+
+describe('tfidfVector', () => {
+  it('词频取对数并乘以 IDF，结果为单位向量', () => {
+    const idf = new Map([['a', 1], ['b', 2]]);
+    const vector = tfidfVector(['a', 'a', 'b'], idf);
+    const a = 1 + Math.log(2);
+    const norm = Math.sqrt(a * a + 4);
+    expect(vector.get('a')).toBeCloseTo(a / norm);
+    expect(vector.get('b')).toBeCloseTo(2 / norm);
+  });
+
+  it('未知词使用 defaultIdf', () => {
+    const vector = tfidfVector(['a', 'x'], new Map([['a', 1]]), 3);
+    expect(vector.get('x')! / vector.get('a')!).toBeCloseTo(3);
+  });
+});
+
+describe('normalizeVector / cosineSimilarity / topTerms', () => {
+  it('零向量保持不变', () => {
+    expect(normalizeVector(new Map([['a', 0]]))).toEqual(new Map([['a', 0]]));
+  });
+
+  it('单位向量的余弦相似度即点积', () => {
+    const a = normalizeVector(new Map([['x', 1], ['y', 1]]));
+    const b = normalizeVector(new Map([['x', 1]]));
+    expect(cosineSimilarity(a, b)).toBeCloseTo(Math.SQRT1_2);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+    expect(cosineSimilarity(b, new Map([['z', 1]]))).toBe(0);
+  });
+
+  it('按权重取前几个词', () => {
+    expect(topTerms(new Map([['a', 0.1], ['b', 0.5], ['c', 0.3]]), 2)).toEqual(['b', 'c']);
+  });
+});
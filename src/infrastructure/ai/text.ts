@@ -0,0 +1,151 @@
+// 文本分析工具
+// 为标签建议等本地模型提供 Markdown 清洗、中英文分词与 TF-IDF 向量计算
+
+// 稀疏向量：词 → 权重
+export type TermVector = Map<string, number>;
+
+// 英文停用词
+const ENGLISH_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has',
+  'have', 'how', 'if', 'in', 'into', 'is', 'it', 'its', 'more', 'most', 'not', 'of', 'on', 'or', 'our',
+  'so', 'than', 'that', 'the', 'their', 'then', 'there', 'these', 'this', 'to', 'use', 'using', 'was',
+  'we', 'what', 'when', 'which', 'will', 'with', 'you', 'your',
+]);
+
+// 中文停用字（分词时这些字会切断双字组合）
+const CJK_STOP_CHARS = new Set(Array.from('的了和是在也就都而及与或着把被让给对从向之其这那有个'));
+
+// 中日韩统一表意文字
+const CJK_PATTERN = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/;
+
+/**
+ * 去除 Markdown 语法，保留可读文本（代码块整体移除，链接与图片保留文字）
+ */
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/~~~[\s\S]*?~~~/g, ' ')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_~]{1,3}/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 分词：英文按单词（小写、去停用词），中文按相邻两字组合，单独出现的汉字保留为单字
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const lower = text.toLowerCase();
+  let cjkRun: string[] = [];
+
+  const flushCjk = () => {
+    if (cjkRun.length === 1) {
+      tokens.push(cjkRun[0]);
+    }
+    for (let i = 0; i + 1 < cjkRun.length; i++) {
+      tokens.push(cjkRun[i] + cjkRun[i + 1]);
+    }
+    cjkRun = [];
+  };
+
+  for (const match of lower.matchAll(/[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]|[a-z0-9][a-z0-9+#.-]*/g)) {
+    const token = match[0];
+    if (CJK_PATTERN.test(token)) {
+      const previous = match.index! > 0 ? lower[match.index! - 1] : '';
+      if (cjkRun.length > 0 && !CJK_PATTERN.test(previous)) flushCjk();
+      if (CJK_STOP_CHARS.has(token)) {
+        flushCjk();
+      } else {
+        cjkRun.push(token);
+      }
+      continue;
+    }
+
+    flushCjk();
+    const word = token.replace(/[.-]+$/, '');
+    if (word.length >= 2 && !ENGLISH_STOP_WORDS.has(word) && !/^\d+$/.test(word)) {
+      tokens.push(word);
+    }
+  }
+  flushCjk();
+
+  return tokens;
+}
+
+/**
+ * 统计词频
+ */
+export function termFrequencies(tokens: string[]): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  tokens.forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1));
+  return frequencies;
+}
+
+/**
+ * 按文档频率计算 IDF（平滑：log((N + 1) / (df + 1)) + 1）
+ */
+export function inverseDocumentFrequencies(documents: Array<Iterable<string>>): Map<string, number> {
+  const documentFrequencies = new Map<string, number>();
+  documents.forEach(terms => {
+    new Set(terms).forEach(term => documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1));
+  });
+
+  const idf = new Map<string, number>();
+  documentFrequencies.forEach((df, term) => {
+    idf.set(term, Math.log((documents.length + 1) / (df + 1)) + 1);
+  });
+  return idf;
+}
+
+/**
+ * 计算 TF-IDF 向量并归一化为单位长度；未出现在 IDF 表中的词使用 defaultIdf
+ */
+export function tfidfVector(tokens: string[], idf: Map<string, number>, defaultIdf: number = 1): TermVector {
+  const vector: TermVector = new Map();
+  termFrequencies(tokens).forEach((count, term) => {
+    vector.set(term, (1 + Math.log(count)) * (idf.get(term) ?? defaultIdf));
+  });
+  return normalizeVector(vector);
+}
+
+/**
+ * 归一化为单位向量
+ */
+export function normalizeVector(vector: TermVector): TermVector {
+  let norm = 0;
+  vector.forEach(value => { norm += value * value; });
+  norm = Math.sqrt(norm);
+  if (norm === 0) return vector;
+
+  const normalized: TermVector = new Map();
+  vector.forEach((value, term) => normalized.set(term, value / norm));
+  return normalized;
+}
+
+/**
+ * 余弦相似度（输入为单位向量时即点积）
+ */
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((value, term) => {
+    const other = large.get(term);
+    if (other !== undefined) dot += value * other;
+  });
+  return dot;
+}
+
+/**
+ * 取权重最高的若干个词
+ */
+export function topTerms(vector: TermVector, count: number): string[] {
+  return Array.from(vector.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([term]) => term);
+}
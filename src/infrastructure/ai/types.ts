@@ -0,0 +1,102 @@
+// AI 模块类型定义
+// 统一的补全、流式输出与向量化接口，屏蔽各提供者的 HTTP 协议差异
+
+import type { AppConfig } from '../types';
+
+// 提供者名称
+export type AIProviderName = AppConfig['ai']['provider'];
+
+// 对话消息
+export interface AIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Token 用量
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// 补全请求
+export interface AICompletionRequest {
+  messages: AIMessage[];
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  stop?: string[];
+}
+
+// 补全结果
+export interface AICompletionResult {
+  content: string;
+  model: string;
+  usage: AIUsage;
+  finishReason: 'stop' | 'length' | 'error' | 'unknown';
+  generationId?: string;
+}
+
+// 流式输出片段，最后一个片段 done 为 true 并携带用量
+export interface AIStreamChunk {
+  delta: string;
+  done: boolean;
+  model?: string;
+  usage?: AIUsage;
+  generationId?: string;
+}
+
+// 向量化请求
+export interface AIEmbeddingRequest {
+  input: string | string[];
+  model?: string;
+}
+
+// 向量化结果
+export interface AIEmbeddingResult {
+  embeddings: number[][];
+  model: string;
+  usage: AIUsage;
+  generationId?: string;
+}
+
+// AI 提供者接口
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly defaultModel: string;
+  complete(request: AICompletionRequest): Promise<AICompletionResult>;
+  stream(request: AICompletionRequest): AsyncIterable<AIStreamChunk>;
+  embed(request: AIEmbeddingRequest): Promise<AIEmbeddingResult>;
+}
+
+// 提供者通用选项
+export interface AIProviderOptions {
+  apiKey?: string;
+  model?: string;
+  embeddingModel?: string;
+  baseUrl?: string;
+  timeout?: number;
+}
+
+// 调用来源，用于 ai_content_generations 记录
+export interface AICallContext {
+  userId?: string | null;
+  postId?: string | null;
+  feature?: string;
+  metadata?: Record<string, any>;
+  // 已有记录 ID（异步任务），设置时写回该记录而不是新建记录
+  generationId?: string;
+}
+
+// 提供者调用失败
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: AIProviderName,
+    public readonly status?: number,
+    public readonly data?: any
+  ) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
@@ -0,0 +1,132 @@
+// AI 工具函数
+// 提供 HTTP 请求、SSE 解析与 Token 估算等提供者共用的功能
+
+import { AIProviderError } from './types';
+import type { AIProviderName, AIUsage } from './types';
+
+/**
+ * 发送 JSON 请求，非 2xx 响应转换为 AIProviderError
+ * timeout 只计算到收到响应头为止，流式响应的读取由 readServerSentEvents 的空闲超时控制
+ */
+export async function postJson(
+  provider: AIProviderName,
+  url: string,
+  body: Record<string, any>,
+  headers: Record<string, string>,
+  timeout: number
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error(`请求超时（${timeout}ms）`)), timeout);
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new AIProviderError(`${provider} 请求失败: ${message}`, provider);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    let data: any = null;
+    try {
+      data = await response.json();
+    } catch {
+      // 忽略非 JSON 错误体
+    }
+    const detail = data?.error?.message || response.statusText;
+    throw new AIProviderError(`${provider} 返回 ${response.status}: ${detail}`, provider, response.status, data);
+  }
+
+  return response;
+}
+
+/**
+ * 逐条读取 SSE 事件的 data 字段；超过 idleTimeout 没有收到数据时中断读取
+ */
+export async function* readServerSentEvents(
+  response: Response,
+  provider: AIProviderName,
+  idleTimeout?: number
+): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await readChunk(reader, provider, idleTimeout);
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const event = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = event
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (data) yield data;
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+// 读取下一段响应数据，等待超过 idleTimeout 时取消读取
+async function readChunk(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  provider: AIProviderName,
+  idleTimeout?: number
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  if (!idleTimeout) return reader.read();
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new AIProviderError(`${provider} 流式输出超过 ${idleTimeout}ms 没有数据`, provider));
+      reader.cancel().catch(() => undefined);
+    }, idleTimeout);
+  });
+  try {
+    return await Promise.race([reader.read(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 粗略估算 Token 数（中文按字计，其余按 4 个字符 1 个 Token）
+ */
+export function estimateTokens(text: string): number {
+  const cjk = (text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g) || []).length;
+  const rest = text.length - cjk;
+  return cjk + Math.ceil(rest / 4);
+}
+
+/**
+ * 构造用量对象
+ */
+export function createUsage(promptTokens: number, completionTokens: number): AIUsage {
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+}
+
+/**
+ * 去除 URL 末尾的斜杠
+ */
+export function trimBaseUrl(url: string): string {
+  return url.replace(/\/+$/, '');
+}
@@ -17,9 +17,12 @@ const defaultConfig: AppConfig = {
   },
   ai: {
     enabled: process.env.AI_ENABLED === 'true',
-    provider: (process.env.AI_PROVIDER as 'openai' | 'anthropic' | 'local') || 'openai',
+    provider: (process.env.AI_PROVIDER as 'openai' | 'anthropic' | 'local' | 'mock') || 'openai',
     apiKey: process.env.AI_API_KEY,
-    model: process.env.AI_MODEL || 'gpt-3.5-turbo',
+    model: process.env.AI_MODEL || undefined,
+    embeddingModel: process.env.AI_EMBEDDING_MODEL || undefined,
+    baseUrl: process.env.AI_BASE_URL || undefined,
+    timeout: process.env.AI_TIMEOUT ? parseInt(process.env.AI_TIMEOUT, 10) : undefined,
   },
 };
 
@@ -30,7 +33,9 @@ export const validateConfig = (config: AppConfig): boolean => {
     return false;
   }
 
-  if (config.ai.enabled && !config.ai.apiKey) {
+  // 本地与模拟提供者不需要 API 密钥
+  const requiresApiKey = config.ai.provider === 'openai' || config.ai.provider === 'anthropic';
+  if (config.ai.enabled && requiresApiKey && !config.ai.apiKey) {
     console.error('AI 功能已启用但 API 密钥缺失');
     return false;
   }
@@ -0,0 +1,109 @@
+// 站点设置
+// 读取与更新 settings 表中的运行时设置，带短时缓存
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import type { Database } from '../types/database';
+
+type SettingType = Database['public']['Tables']['settings']['Row']['type'];
+
+// 缓存条目
+interface CacheEntry {
+  value: any;
+  expiresAt: number;
+}
+
+// 写入选项
+export interface SettingWriteOptions {
+  description?: string;
+  type?: SettingType;
+  isSystem?: boolean;
+}
+
+export class SettingsStore {
+  private supabase: SupabaseService;
+  private ttl: number;
+  private cache = new Map<string, CacheEntry>();
+
+  constructor(supabase: SupabaseService = getSupabaseService(), ttl: number = 60 * 1000) {
+    this.supabase = supabase;
+    this.ttl = ttl;
+  }
+
+  // 读取单个设置，不存在时返回默认值
+  async get<T>(key: string, defaultValue: T): Promise<T> {
+    const values = await this.getMany([key]);
+    return key in values ? (values[key] as T) : defaultValue;
+  }
+
+  // 批量读取设置，只返回存在的键
+  async getMany(keys: string[]): Promise<Record<string, any>> {
+    const now = Date.now();
+    const result: Record<string, any> = {};
+    const missing: string[] = [];
+
+    keys.forEach(key => {
+      const cached = this.cache.get(key);
+      if (cached && cached.expiresAt > now) {
+        if (cached.value !== undefined) result[key] = cached.value;
+      } else {
+        missing.push(key);
+      }
+    });
+
+    if (missing.length > 0) {
+      const { data, error } = await this.supabase.getServiceClient()
+        .from('settings')
+        .select('key, value')
+        .in('key', missing);
+      if (error) throw error;
+
+      const found = new Map<string, any>();
+      ((data || []) as Array<{ key: string; value: any }>).forEach(row => found.set(row.key, row.value));
+
+      // 不存在的键也缓存，避免重复查询
+      missing.forEach(key => {
+        const value = found.get(key);
+        this.cache.set(key, { value, expiresAt: now + this.ttl });
+        if (value !== undefined) result[key] = value;
+      });
+    }
+
+    return result;
+  }
+
+  // 写入设置
+  async set(key: string, value: any, options: SettingWriteOptions = {}): Promise<void> {
+    const payload: Database['public']['Tables']['settings']['Insert'] = { key, value };
+    if (options.description !== undefined) payload.description = options.description;
+    if (options.type !== undefined) payload.type = options.type;
+    if (options.isSystem !== undefined) payload.is_system = options.isSystem;
+
+    const { error } = await this.supabase.getServiceClient()
+      .from('settings')
+      .upsert(payload, { onConflict: 'key' });
+    if (error) throw error;
+
+    this.cache.set(key, { value, expiresAt: Date.now() + this.ttl });
+  }
+
+  // 清除缓存
+  invalidate(key?: string): void {
+    if (key) {
+      this.cache.delete(key);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
+
+// 单例
+let settingsStore: SettingsStore | null = null;
+
+export function getSettingsStore(): SettingsStore {
+  if (!settingsStore) {
+    settingsStore = new SettingsStore();
+  }
+  return settingsStore;
+}
+
+export default SettingsStore;
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ARCHIVE_FORMATS, archiveFormatOf, crc32, createArchive, readArchive } from './archive';
+import type { ArchiveEntry } from './archive';
+
+// 秒数为偶数，zip 的 DOS 时间精度为 2 秒
+const MODIFIED_AT = new Date(2024, 0, 15, 8, 30, 42);
+
+const ENTRIES: ArchiveEntry[] = [
+  { path: 'manifest.json', data: Buffer.from('{"version":1}'), modifiedAt: MODIFIED_AT },
+  { path: 'posts/hello-world.md', data: Buffer.from('---\ntitle: "你好"\n---\n\n正文'.repeat(50)), modifiedAt: MODIFIED_AT },
+  { path: 'posts/中文文件名.md', data: Buffer.from('中文内容'), modifiedAt: MODIFIED_AT },
+  { path: `media/${'a'.repeat(120)}/image.png`, data: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 1, 2, 255]), modifiedAt: MODIFIED_AT },
+  { path: 'empty.txt', data: Buffer.alloc(0), modifiedAt: MODIFIED_AT },
+  // 超过 512 字节、不能压缩的内容
+  { path: 'media/random.bin', data: Buffer.from(Array.from({ length: 1500 }, (_, i) => (i * 7919 + 13) % 256)), modifiedAt: MODIFIED_AT },
+];
+
+describe('createArchive / readArchive', () => {
+  it.each(ARCHIVE_FORMATS)('%s 归档读回后与原文件一致', format => {
+    const entries = readArchive(createArchive(ENTRIES, format));
+    expect(entries.map(entry => entry.path)).toEqual(ENTRIES.map(entry => entry.path));
+    entries.forEach((entry, i) => {
+      expect(entry.data.equals(ENTRIES[i].data)).toBe(true);
+      expect(entry.modifiedAt?.getTime()).toBe(MODIFIED_AT.getTime());
+    });
+  });
+
+  it('按文件头识别格式', () => {
+    expect(createArchive(ENTRIES, 'zip').readUInt32LE(0)).toBe(0x04034b50);
+    expect([...createArchive(ENTRIES, 'tar.gz').subarray(0, 2)]).toEqual([0x1f, 0x8b]);
+    expect(createArchive(ENTRIES, 'tar').toString('ascii', 257, 262)).toBe('ustar');
+  });
+
+  it('空归档没有文件', () => {
+    ARCHIVE_FORMATS.forEach(format => expect(readArchive(createArchive([], format))).toEqual([]));
+  });
+
+  it('拒绝绝对路径与包含 .. 的路径', () => {
+    ['/etc/passwd', '../x', 'a/../../x', 'C:/x', 'a//b', ''].forEach(path => {
+      expect(() => createArchive([{ path, data: Buffer.from('x') }], 'zip')).toThrow('归档路径无效');
+    });
+  });
+
+  it('截断的归档报错', () => {
+    const zip = createArchive(ENTRIES, 'zip');
+    expect(() => readArchive(zip.subarray(0, zip.length - 30))).toThrow('zip 归档已损坏');
+    const tar = createArchive(ENTRIES, 'tar');
+    // 在第二个文件的数据中间截断
+    expect(() => readArchive(tar.subarray(0, 1024 + 512 + 100))).toThrow('tar 归档已损坏');
+  });
+});
+
+describe('archiveFormatOf', () => {
+  it('根据扩展名判断格式', () => {
+    expect(archiveFormatOf('backup.ZIP')).toBe('zip');
+    expect(archiveFormatOf('backup.tar')).toBe('tar');
+    expect(archiveFormatOf('backup.tar.gz')).toBe('tar.gz');
+    expect(archiveFormatOf('backup.tgz')).toBe('tar.gz');
+    expect(archiveFormatOf('backup.rar')).toBeNull();
+  });
+});
+
+describe('crc32', () => {
+  it('与标准校验值一致', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+});
@@ -0,0 +1,322 @@
+// 归档文件读写
+// 生成与读取 zip、tar、tar.gz 归档，只依赖 Node 内置的 zlib
+// zip 使用 deflate 压缩（压缩后更大的文件直接存储），文件名为 UTF-8；tar 为 ustar 格式，超长或非 ASCII 路径写入 PAX 扩展头
+
+import { deflateRawSync, gunzipSync, gzipSync, inflateRawSync } from 'zlib';
+
+// 归档格式
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar', 'tar.gz'];
+
+// 归档中的文件
+export interface ArchiveEntry {
+  // / 分隔的相对路径
+  path: string;
+  data: Buffer;
+  modifiedAt?: Date;
+}
+
+/** 根据文件名判断归档格式 */
+export function archiveFormatOf(filename: string): ArchiveFormat | null {
+  const name = filename.toLowerCase();
+  if (name.endsWith('.zip')) return 'zip';
+  if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) return 'tar.gz';
+  if (name.endsWith('.tar')) return 'tar';
+  return null;
+}
+
+/** 生成归档 */
+export function createArchive(entries: ArchiveEntry[], format: ArchiveFormat): Buffer {
+  entries.forEach(entry => assertSafePath(entry.path));
+  if (format === 'zip') return createZip(entries);
+  const tar = createTar(entries);
+  return format === 'tar.gz' ? gzipSync(tar) : tar;
+}
+
+/** 读取归档（按文件头识别格式），只返回文件，不含目录 */
+export function readArchive(buffer: Buffer): ArchiveEntry[] {
+  if (buffer.length >= 4 && buffer.readUInt32LE(0) === ZIP_LOCAL_SIGNATURE) {
+    return readZip(buffer);
+  }
+  if (buffer.length >= 2 && buffer[0] === 0x1f && buffer[1] === 0x8b) {
+    return readTar(gunzipSync(buffer));
+  }
+  return readTar(buffer);
+}
+
+// 归档中的路径必须是相对路径，不能包含 .. 段
+function assertSafePath(path: string): void {
+  if (!path || path.startsWith('/') || /^[a-zA-Z]:/.test(path) || path.split('/').some(part => part === '..' || part === '')) {
+    throw new Error(`归档路径无效: ${path}`);
+  }
+}
+
+// ==================== tar ====================
+
+const TAR_BLOCK = 512;
+
+// 写入 tar 头的数字字段（八进制，以 NUL 结尾）
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(value.toString(8).padStart(length - 1, '0') + '\0', offset, length, 'ascii');
+}
+
+// 生成 tar 头
+function tarHeader(name: string, size: number, mtime: number, type: string): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK);
+  header.write(name, 0, 100, 'utf8');
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.write(type, 156, 1, 'ascii');
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+  // 校验和按校验和字段为 8 个空格计算
+  header.fill(0x20, 148, 156);
+  let sum = 0;
+  for (const byte of header) sum += byte;
+  header.write(sum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii');
+  return header;
+}
+
+// 补齐到 512 字节的整数倍
+function tarPadding(size: number): Buffer {
+  return Buffer.alloc((TAR_BLOCK - (size % TAR_BLOCK)) % TAR_BLOCK);
+}
+
+// PAX 扩展头记录："<长度> path=<值>\n"，长度包括自身
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body) + 1;
+  while (String(length).length + Buffer.byteLength(body) !== length) length++;
+  return `${length}${body}`;
+}
+
+function createTar(entries: ArchiveEntry[]): Buffer {
+  const chunks: Buffer[] = [];
+  for (const entry of entries) {
+    const mtime = Math.floor((entry.modifiedAt || new Date()).getTime() / 1000);
+    let name = entry.path;
+    if (Buffer.byteLength(name) > 100 || /[^\x20-\x7e]/.test(name)) {
+      const pax = Buffer.from(paxRecord('path', entry.path), 'utf8');
+      chunks.push(tarHeader('PaxHeader', pax.length, mtime, 'x'), pax, tarPadding(pax.length));
+      name = name.replace(/[^\x20-\x7e]/g, '_').slice(-100);
+    }
+    chunks.push(tarHeader(name, entry.data.length, mtime, '0'), entry.data, tarPadding(entry.data.length));
+  }
+  chunks.push(Buffer.alloc(TAR_BLOCK * 2));
+  return Buffer.concat(chunks);
+}
+
+// 读取 tar 头中的字符串字段
+function readString(buffer: Buffer, offset: number, length: number): string {
+  const end = buffer.indexOf(0, offset);
+  return buffer.toString('utf8', offset, end < 0 || end > offset + length ? offset + length : end);
+}
+
+// 读取 tar 头中的八进制数字
+function readOctal(buffer: Buffer, offset: number, length: number): number {
+  const text = readString(buffer, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+// 解析 PAX 扩展头
+function parsePax(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space < 0) break;
+    const length = parseInt(data.toString('ascii', offset, space), 10);
+    if (!length) break;
+    const record = data.toString('utf8', space + 1, offset + length - 1);
+    const eq = record.indexOf('=');
+    if (eq > 0) records[record.slice(0, eq)] = record.slice(eq + 1);
+    offset += length;
+  }
+  return records;
+}
+
+function readTar(buffer: Buffer): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let nextPath: string | null = null;
+
+  while (offset + TAR_BLOCK <= buffer.length) {
+    const header = buffer.subarray(offset, offset + TAR_BLOCK);
+    if (header.every(byte => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const data = buffer.subarray(offset + TAR_BLOCK, offset + TAR_BLOCK + size);
+    if (data.length < size) {
+      throw new Error('tar 归档已损坏');
+    }
+    offset += TAR_BLOCK + size + tarPadding(size).length;
+
+    if (type === 'x') {
+      nextPath = parsePax(data).path ?? nextPath;
+    } else if (type === 'L') {
+      nextPath = readString(data, 0, data.length);
+    } else if (type === '0' || type === '7') {
+      const prefix = readString(header, 345, 155);
+      const name = readString(header, 0, 100);
+      entries.push({
+        path: nextPath ?? (prefix ? `${prefix}/${name}` : name),
+        data: Buffer.from(data),
+        modifiedAt: new Date(readOctal(header, 136, 12) * 1000),
+      });
+      nextPath = null;
+    } else if (type !== 'g') {
+      // 目录、链接等不是普通文件
+      nextPath = null;
+    }
+  }
+  return entries;
+}
+
+// ==================== zip ====================
+
+const ZIP_LOCAL_SIGNATURE = 0x04034b50;
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50;
+const ZIP_END_SIGNATURE = 0x06054b50;
+// 通用标志位 11：文件名为 UTF-8
+const ZIP_UTF8_FLAG = 0x0800;
+const ZIP_MAX_SIZE = 0xffffffff;
+
+// CRC-32 查找表
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** 计算 CRC-32 */
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 转换为 DOS 日期与时间
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function createZip(entries: ArchiveEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, 'utf8');
+    const deflated = deflateRawSync(entry.data);
+    const stored = deflated.length >= entry.data.length;
+    const payload = stored ? entry.data : deflated;
+    if (entry.data.length > ZIP_MAX_SIZE || offset > ZIP_MAX_SIZE) {
+      throw new Error('zip 归档超过 4GB，请使用 tar 格式');
+    }
+    const { time, date } = dosDateTime(entry.modifiedAt || new Date());
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(ZIP_LOCAL_SIGNATURE, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(ZIP_UTF8_FLAG, 6);
+    local.writeUInt16LE(stored ? 0 : 8, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(payload.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, payload);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(ZIP_CENTRAL_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(ZIP_UTF8_FLAG, 8);
+    central.writeUInt16LE(stored ? 0 : 8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(payload.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(0o100644 * 0x10000, 38);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + payload.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(ZIP_END_SIGNATURE, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function readZip(buffer: Buffer): ArchiveEntry[] {
+  // 从末尾查找目录结束记录（之后最多有 65535 字节的注释）
+  let endOffset = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('zip 归档已损坏');
+  }
+
+  const count = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  const entries: ArchiveEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== ZIP_CENTRAL_SIGNATURE) {
+      throw new Error('zip 归档已损坏');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const time = buffer.readUInt16LE(offset + 12);
+    const date = buffer.readUInt16LE(offset + 14);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method !== 0 && method !== 8) {
+      throw new Error(`不支持的 zip 压缩方式: ${name}`);
+    }
+    entries.push({
+      path: name,
+      data: method === 8 ? inflateRawSync(raw) : Buffer.from(raw),
+      modifiedAt: new Date(
+        (date >> 9) + 1980, ((date >> 5) & 0x0f) - 1, date & 0x1f,
+        time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2
+      ),
+    });
+  }
+  return entries;
+}
@@ -0,0 +1,14 @@
+// 全站导出模块导出
+// 把文章导出为带 front-matter 的 Markdown，分类、标签、评论、设置与媒体清单导出为 JSON，打包为 zip 或 tar 归档
+
+export { EXPORT_FORMAT, EXPORT_VERSION, ExportService } from './service';
+export type {
+  ExportedComment,
+  ExportedMedia,
+  ExportManifest,
+  ExportOptions,
+  ExportResult,
+  ExportServiceOptions,
+} from './service';
+export { ARCHIVE_FORMATS, archiveFormatOf, crc32, createArchive, readArchive } from './archive';
+export type { ArchiveEntry, ArchiveFormat } from './archive';
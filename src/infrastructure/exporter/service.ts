@@ -0,0 +1,380 @@
+// 全站导出服务
+// 每篇文章导出为带 YAML front-matter 的 Markdown 文件，分类、标签、评论、设置与媒体清单导出为 JSON，打包为 zip 或 tar 归档
+// 归档可以由 ImportService.importArchive 导入，既用于备份，也用于迁移到其他站点；回收站中的内容不导出
+
+import { promises as fs } from 'fs';
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { stringifyFrontMatter } from '../importer/frontmatter';
+import type { FrontMatterData } from '../importer/frontmatter';
+import type { PostRow, PostStatus } from '../posts/types';
+import type { Database } from '../types/database';
+import { argValue, cliArgs, errorMessage } from '../utils/cli';
+import { archiveFormatOf, ARCHIVE_FORMATS, createArchive } from './archive';
+import type { ArchiveEntry, ArchiveFormat } from './archive';
+
+type Tables = Database['public']['Tables'];
+type CategoryRow = Tables['categories']['Row'];
+type TagRow = Tables['tags']['Row'];
+type CommentRow = Tables['comments']['Row'];
+type MediaRow = Tables['media']['Row'];
+type SettingRow = Tables['settings']['Row'];
+
+// 归档格式标识与版本
+export const EXPORT_FORMAT = 'blog-mcp-export';
+export const EXPORT_VERSION = 1;
+
+// 服务选项
+export interface ExportServiceOptions {
+  // 媒体文件所在的存储桶
+  mediaBucket?: string;
+  // 每页读取的行数
+  pageSize?: number;
+}
+
+// 导出选项
+export interface ExportOptions {
+  format?: ArchiveFormat;
+  // 导出的文章状态，默认为除回收站外的全部文章
+  statuses?: PostStatus[];
+  // 同时打包存储桶中的媒体文件
+  includeMedia?: boolean;
+}
+
+// 导出的评论
+export interface ExportedComment {
+  id: string;
+  post_id: string;
+  parent_id: string | null;
+  author_id: string | null;
+  // 注册用户为用户名，游客为填写的名称
+  author_name: string;
+  guest_email: string | null;
+  content: string;
+  status: CommentRow['status'];
+  like_count: number;
+  created_at: string;
+}
+
+// 导出的媒体
+export type ExportedMedia = Omit<MediaRow, 'status' | 'deleted_at' | 'deleted_by'> & {
+  // 归档中的文件路径，未打包文件时为 null
+  archive_path: string | null;
+};
+
+// 归档清单（manifest.json）
+export interface ExportManifest {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  site: { title: string | null; url: string | null };
+  counts: {
+    posts: number;
+    categories: number;
+    tags: number;
+    comments: number;
+    media: number;
+    media_files: number;
+    settings: number;
+  };
+  warnings: string[];
+}
+
+// 导出结果
+export interface ExportResult {
+  archive: Buffer;
+  format: ArchiveFormat;
+  manifest: ExportManifest;
+}
+
+// 默认存储桶
+const DEFAULT_MEDIA_BUCKET = 'blog-images';
+
+// 默认每页行数；文章的关联查询按文章 ID 列表进行，页数不宜过大
+const DEFAULT_PAGE_SIZE = 100;
+
+// 默认导出的文章状态
+const DEFAULT_STATUSES: PostStatus[] = ['published', 'draft', 'archived'];
+
+// 评论导出的字段
+const COMMENT_COLUMNS = 'id, post_id, parent_id, author_id, guest_name, guest_email, content, status, like_count, created_at';
+
+export class ExportService {
+  private supabase: SupabaseService;
+  private mediaBucket: string;
+  private pageSize: number;
+
+  constructor(supabase: SupabaseService = getSupabaseService(), options: ExportServiceOptions = {}) {
+    this.supabase = supabase;
+    this.mediaBucket = options.mediaBucket || DEFAULT_MEDIA_BUCKET;
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  }
+
+  // ==================== 导出 ====================
+
+  // 导出并写入文件；未指定格式时按文件扩展名判断
+  async exportToFile(file: string, options: ExportOptions = {}): Promise<ExportManifest> {
+    const format = options.format || archiveFormatOf(file);
+    if (!format) {
+      throw new Error(`无法从文件名判断归档格式，请使用 ${ARCHIVE_FORMATS.join('、')}`);
+    }
+    const result = await this.export({ ...options, format });
+    await fs.writeFile(file, result.archive);
+    return result.manifest;
+  }
+
+  // 导出为归档
+  async export(options: ExportOptions = {}): Promise<ExportResult> {
+    const format = options.format || 'zip';
+    const { entries, manifest } = await this.collect(options);
+    return { archive: createArchive(entries, format), format, manifest };
+  }
+
+  // 生成归档中的文件
+  async collect(options: ExportOptions = {}): Promise<{ entries: ArchiveEntry[]; manifest: ExportManifest }> {
+    const statuses = options.statuses || DEFAULT_STATUSES;
+    if (statuses.includes('deleted')) {
+      throw new Error('回收站中的文章不能导出');
+    }
+
+    const exportedAt = new Date();
+    const warnings: string[] = [];
+    const entries: ArchiveEntry[] = [];
+    const json = (path: string, value: unknown) =>
+      entries.push({ path, data: Buffer.from(JSON.stringify(value, null, 2) + '\n', 'utf8'), modifiedAt: exportedAt });
+
+    const categories = await this.supabase.fetchAll<'categories', CategoryRow>('categories', '*', { pageSize: this.pageSize });
+    const tags = await this.supabase.fetchAll<'tags', TagRow>('tags', '*', { pageSize: this.pageSize });
+    const categoryPaths = buildCategoryPaths(categories);
+    const tagNames = new Map(tags.map(tag => [tag.id, tag.name]));
+
+    const posts = await this.supabase.fetchAll<'posts', PostRow>('posts', '*', {
+      filter: query => query.in('status', statuses),
+      pageSize: this.pageSize,
+    });
+    const postIds = new Set(posts.map(post => post.id));
+    const comments = (await this.supabase.fetchAll<'comments', CommentRow>('comments', COMMENT_COLUMNS, {
+      filter: query => query.neq('status', 'deleted'),
+      pageSize: this.pageSize,
+    }))
+      .filter(comment => comment.post_id && postIds.has(comment.post_id));
+    const usernames = await this.supabase.fetchUsernames([
+      ...posts.map(post => post.author_id),
+      ...comments.map(comment => comment.author_id),
+    ], this.pageSize);
+
+    // 文章
+    for (let i = 0; i < posts.length; i += this.pageSize) {
+      const page = posts.slice(i, i + this.pageSize);
+      const links = await this.supabase.fetchPostLinks(page.map(post => post.id), this.pageSize);
+      for (const post of page) {
+        const data = postFrontMatter(post, {
+          author: usernames.get(post.author_id) || null,
+          categories: (links.categories.get(post.id) || [])
+            .map(id => categoryPaths.get(id))
+            .filter((names): names is string[] => !!names),
+          tags: (links.tags.get(post.id) || [])
+            .map(id => tagNames.get(id))
+            .filter((name): name is string => !!name),
+        });
+        entries.push({
+          path: `posts/${post.slug}.md`,
+          data: Buffer.from(stringifyFrontMatter(data, post.content), 'utf8'),
+          modifiedAt: new Date(post.updated_at),
+        });
+      }
+    }
+
+    // 分类与标签：父级以别名表示
+    const categorySlugs = new Map(categories.map(category => [category.id, category.slug]));
+    json('categories.json', categories.map(category => ({
+      name: category.name,
+      slug: category.slug,
+      description: category.description,
+      color: category.color,
+      icon: category.icon,
+      parent: category.parent_id ? categorySlugs.get(category.parent_id) || null : null,
+      sort_order: category.sort_order,
+    })));
+    json('tags.json', tags.map(tag => ({
+      name: tag.name,
+      slug: tag.slug,
+      description: tag.description,
+      color: tag.color,
+    })));
+
+    // 评论
+    const exportedComments: ExportedComment[] = comments.map(comment => ({
+      id: comment.id,
+      post_id: comment.post_id!,
+      parent_id: comment.parent_id,
+      author_id: comment.author_id,
+      author_name: (comment.author_id && usernames.get(comment.author_id)) || comment.guest_name || 'Anonymous',
+      guest_email: comment.guest_email,
+      content: comment.content,
+      status: comment.status,
+      like_count: comment.like_count,
+      created_at: comment.created_at,
+    }));
+    json('comments.json', exportedComments);
+
+    // 设置
+    const settings = await this.supabase.fetchAll<'settings', SettingRow>('settings', 'id, key, value, description, type, is_system', {
+      pageSize: this.pageSize,
+    });
+    json('settings.json', settings.map(({ key, value, description, type, is_system }) => ({ key, value, description, type, is_system })));
+
+    // 媒体清单与文件
+    const media = await this.supabase.fetchAll<'media', MediaRow>('media', '*', {
+      filter: query => query.eq('status', 'active'),
+      pageSize: this.pageSize,
+    });
+    const exportedMedia: ExportedMedia[] = [];
+    let mediaFiles = 0;
+    for (const item of media) {
+      const { status: _status, deleted_at: _deletedAt, deleted_by: _deletedBy, ...fields } = item;
+      let archivePath: string | null = null;
+      if (options.includeMedia) {
+        try {
+          const data = await this.downloadMedia(item.file_path);
+          archivePath = `media/${item.file_path.replace(/^\/+/, '')}`;
+          entries.push({ path: archivePath, data, modifiedAt: new Date(item.updated_at) });
+          mediaFiles++;
+        } catch (error) {
+          warnings.push(`下载媒体文件失败: ${item.file_path} (${errorMessage(error)})`);
+        }
+      }
+      exportedMedia.push({ ...fields, archive_path: archivePath });
+    }
+    json('media.json', exportedMedia);
+
+    const siteSettings = new Map(settings.map(setting => [setting.key, setting.value as unknown]));
+    const manifest: ExportManifest = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exported_at: exportedAt.toISOString(),
+      site: {
+        title: typeof siteSettings.get('site_title') === 'string' ? siteSettings.get('site_title') as string : null,
+        url: typeof siteSettings.get('site_url') === 'string' ? siteSettings.get('site_url') as string : null,
+      },
+      counts: {
+        posts: posts.length,
+        categories: categories.length,
+        tags: tags.length,
+        comments: exportedComments.length,
+        media: exportedMedia.length,
+        media_files: mediaFiles,
+        settings: settings.length,
+      },
+      warnings,
+    };
+    entries.unshift({
+      path: 'manifest.json',
+      data: Buffer.from(JSON.stringify(manifest, null, 2) + '\n', 'utf8'),
+      modifiedAt: exportedAt,
+    });
+
+    return { entries, manifest };
+  }
+
+  // ==================== 存储 ====================
+
+  // 下载媒体文件
+  private async downloadMedia(filePath: string): Promise<Buffer> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .storage
+      .from(this.mediaBucket)
+      .download(filePath);
+    if (error) throw error;
+    return Buffer.from(await data.arrayBuffer());
+  }
+}
+
+// ==================== 辅助方法 ====================
+
+// 计算每个分类从顶级开始的名称路径
+function buildCategoryPaths(categories: CategoryRow[]): Map<string, string[]> {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const paths = new Map<string, string[]>();
+  for (const category of categories) {
+    const names: string[] = [];
+    const visited = new Set<string>();
+    let current: CategoryRow | undefined = category;
+    // 父级缺失或形成环时停止
+    while (current && !visited.has(current.id)) {
+      visited.add(current.id);
+      names.unshift(current.name);
+      current = current.parent_id ? byId.get(current.parent_id) : undefined;
+    }
+    paths.set(category.id, names);
+  }
+  return paths;
+}
+
+// 文章的 front-matter；分类为从顶级开始的路径列表
+function postFrontMatter(
+  post: PostRow,
+  extra: { author: string | null; categories: string[][]; tags: string[] }
+): FrontMatterData {
+  return {
+    id: post.id,
+    title: post.title,
+    slug: post.slug,
+    status: post.status,
+    visibility: post.visibility,
+    ...(post.password ? { password_hash: post.password } : {}),
+    author: extra.author,
+    date: post.published_at,
+    created: post.created_at,
+    updated: post.updated_at,
+    categories: extra.categories,
+    tags: extra.tags,
+    excerpt: post.excerpt,
+    cover: post.featured_image,
+    seo_title: post.seo_title,
+    description: post.seo_description,
+    keywords: post.seo_keywords || [],
+    featured: post.featured,
+    pinned: post.pinned,
+    comment_enabled: post.comment_enabled,
+  };
+}
+
+// 命令行入口：content:export -- --out <文件> [--format zip|tar|tar.gz] [--include-media] [--published-only]
+export async function main() {
+  const args = cliArgs();
+  const out = argValue(args, '--out');
+  const format = argValue(args, '--format');
+
+  if (!out) {
+    console.error('用法: content:export -- --out <文件> [--format zip|tar|tar.gz] [--include-media] [--published-only]');
+    process.exit(1);
+  }
+  if (format && !ARCHIVE_FORMATS.includes(format as ArchiveFormat)) {
+    console.error(`❌ 不支持的归档格式: ${format}`);
+    process.exit(1);
+  }
+
+  try {
+    const manifest = await new ExportService().exportToFile(out!, {
+      format: format as ArchiveFormat | undefined,
+      includeMedia: args.includes('--include-media'),
+      statuses: args.includes('--published-only') ? ['published'] : undefined,
+    });
+    const { counts } = manifest;
+    console.log(`📦 已导出到 ${out}`);
+    console.log(`📄 文章 ${counts.posts}，分类 ${counts.categories}，标签 ${counts.tags}，评论 ${counts.comments}，媒体 ${counts.media}（文件 ${counts.media_files}），设置 ${counts.settings}`);
+    manifest.warnings.forEach(warning => console.log(`⚠️ ${warning}`));
+    console.log(manifest.warnings.length > 0 ? `⚠️ 导出完成，${manifest.warnings.length} 个警告` : '✅ 导出完成');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ 导出失败:', errorMessage(error));
+    process.exit(1);
+  }
+}
+
+// 如果直接运行此文件
+if (require.main === module) {
+  main();
+}
+
+export default ExportService;
@@ -0,0 +1,189 @@
+// 导出归档导入
+// 读取 ExportService 生成的 zip / tar 归档（manifest.json、posts/*.md 与 JSON 清单），转换为 ImportBundle
+// 归档被解压后重新打包、多出一层目录时同样可以读取
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { readArchive } from '../exporter/archive';
+import type { ArchiveEntry } from '../exporter/archive';
+import { EXPORT_FORMAT, EXPORT_VERSION } from '../exporter/service';
+import { errorMessage } from '../utils/cli';
+import { parseFrontMatter } from './frontmatter';
+import type { FrontMatterData, FrontMatterValue } from './frontmatter';
+import type { ImportAsset, ImportBundle, ImportedComment, ImportedPost, ImportedTaxonomy } from './types';
+
+// 评论状态映射；回收站中的评论不会导出
+const COMMENT_STATUSES: Record<string, ImportedComment['status']> = {
+  approved: 'approved',
+  spam: 'spam',
+  pending: 'pending',
+};
+
+/** 读取导出归档文件 */
+export async function readExportArchive(file: string): Promise<ImportBundle> {
+  let buffer: Buffer;
+  try {
+    buffer = await fs.readFile(file);
+  } catch {
+    throw new Error(`归档文件不存在: ${file}`);
+  }
+  return parseExportArchive(buffer);
+}
+
+/** 解析导出归档 */
+export function parseExportArchive(buffer: Buffer): ImportBundle {
+  const entries = readArchive(buffer);
+  const manifestEntry = entries
+    .filter(entry => path.posix.basename(entry.path) === 'manifest.json')
+    .sort((a, b) => a.path.length - b.path.length)[0];
+  if (!manifestEntry) {
+    throw new Error('归档中没有 manifest.json，不是导出归档');
+  }
+
+  const manifest = parseJson<{ format?: string; version?: number }>(manifestEntry);
+  if (manifest.format !== EXPORT_FORMAT) {
+    throw new Error('不是 Blog-MCP 导出归档');
+  }
+  if (!manifest.version || manifest.version > EXPORT_VERSION) {
+    throw new Error(`不支持的归档版本: ${manifest.version}`);
+  }
+
+  // 去掉外层目录
+  const prefix = manifestEntry.path.slice(0, -'manifest.json'.length);
+  const files = new Map<string, ArchiveEntry>();
+  entries.forEach(entry => {
+    if (entry.path.startsWith(prefix)) files.set(entry.path.slice(prefix.length), entry);
+  });
+  const readJson = <T>(name: string): T[] => {
+    const entry = files.get(name);
+    return entry ? parseJson<T[]>(entry) : [];
+  };
+
+  const warnings: string[] = [];
+  const comments = groupComments(readJson<Record<string, any>>('comments.json'));
+  const posts: ImportedPost[] = [];
+  for (const [name, entry] of files) {
+    if (!/^posts\/[^/]+\.md$/.test(name)) continue;
+    try {
+      const { data, body } = parseFrontMatter(entry.data.toString('utf8'));
+      const post = toImportedPost(data, body, name);
+      posts.push({ ...post, comments: comments.get(post.sourceId) || [] });
+    } catch (error) {
+      warnings.push(`读取 ${name} 失败: ${errorMessage(error)}`);
+    }
+  }
+
+  // 分类、标签：父级在归档中以别名表示，转换为名称
+  const categoryRows = readJson<Record<string, any>>('categories.json');
+  const categoryNames = new Map(categoryRows.map(row => [String(row.slug), String(row.name)]));
+  const categories: ImportedTaxonomy[] = categoryRows.map(row => ({
+    name: String(row.name),
+    slug: row.slug ?? null,
+    description: row.description ?? null,
+    color: row.color ?? null,
+    icon: row.icon ?? null,
+    parent: row.parent ? categoryNames.get(String(row.parent)) || null : null,
+    sortOrder: typeof row.sort_order === 'number' ? row.sort_order : null,
+  }));
+  const tags: ImportedTaxonomy[] = readJson<Record<string, any>>('tags.json').map(row => ({
+    name: String(row.name),
+    slug: row.slug ?? null,
+    description: row.description ?? null,
+    color: row.color ?? null,
+  }));
+
+  const settings: Record<string, unknown> = {};
+  readJson<{ key: string; value: unknown }>('settings.json').forEach(row => {
+    if (row && typeof row.key === 'string') settings[row.key] = row.value;
+  });
+
+  // 媒体：原地址 -> 归档中的文件
+  const media = new Map<string, { sourceId: string; filename: string; entry: ArchiveEntry }>();
+  for (const row of readJson<Record<string, any>>('media.json')) {
+    const entry = row.archive_path ? files.get(String(row.archive_path)) : undefined;
+    if (entry && row.file_url) {
+      media.set(String(row.file_url), {
+        sourceId: String(row.file_path),
+        filename: String(row.original_name || path.posix.basename(String(row.file_path))),
+        entry,
+      });
+    }
+  }
+
+  if (posts.length === 0) {
+    warnings.push('归档中没有文章');
+  }
+
+  const resolveAsset = (ref: string): ImportAsset | null => {
+    const item = media.get(ref.trim());
+    if (!item) return null;
+    return { sourceId: item.sourceId, filename: item.filename, load: async () => item.entry.data };
+  };
+
+  return { format: 'archive', posts, categories, tags, settings, warnings, resolveAsset };
+}
+
+// ==================== 辅助方法 ====================
+
+// 解析 JSON 文件
+function parseJson<T>(entry: ArchiveEntry): T {
+  try {
+    return JSON.parse(entry.data.toString('utf8')) as T;
+  } catch {
+    throw new Error(`归档中的 ${entry.path} 不是有效的 JSON`);
+  }
+}
+
+// 转换文章
+function toImportedPost(data: FrontMatterData, body: string, name: string): Omit<ImportedPost, 'comments'> {
+  const text = (value: FrontMatterValue | undefined) => (typeof value === 'string' && value !== '' ? value : null);
+  const flag = (value: FrontMatterValue | undefined) => (typeof value === 'boolean' ? value : undefined);
+  const list = (value: FrontMatterValue | undefined) =>
+    (Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []);
+  const status = data.status === 'published' || data.status === 'archived' ? data.status : 'draft';
+  const visibility = data.visibility === 'private' || data.visibility === 'password_protected' ? data.visibility : 'public';
+
+  return {
+    sourceId: text(data.id) || name,
+    title: text(data.title) || path.posix.basename(name, '.md'),
+    slug: text(data.slug),
+    content: body,
+    excerpt: text(data.excerpt),
+    status,
+    publishedAt: text(data.date),
+    createdAt: text(data.created),
+    categories: Array.isArray(data.categories)
+      ? data.categories.map(item => (Array.isArray(item) ? list(item) : list([item]))).filter(names => names.length > 0)
+      : [],
+    tags: list(data.tags),
+    featuredImage: text(data.cover),
+    seoTitle: text(data.seo_title),
+    seoDescription: text(data.description),
+    seoKeywords: list(data.keywords).length > 0 ? list(data.keywords) : null,
+    visibility,
+    passwordHash: text(data.password_hash),
+    featured: flag(data.featured),
+    pinned: flag(data.pinned),
+    commentEnabled: flag(data.comment_enabled),
+  };
+}
+
+// 按文章分组评论
+function groupComments(rows: Array<Record<string, any>>): Map<string, ImportedComment[]> {
+  const groups = new Map<string, ImportedComment[]>();
+  for (const row of rows) {
+    const status = COMMENT_STATUSES[String(row.status)];
+    if (!status || !row.post_id || typeof row.content !== 'string') continue;
+    const comment: ImportedComment = {
+      sourceId: String(row.id),
+      parentSourceId: row.parent_id ? String(row.parent_id) : null,
+      authorName: String(row.author_name || 'Anonymous'),
+      authorEmail: row.guest_email || null,
+      content: row.content,
+      status,
+      createdAt: row.created_at || null,
+    };
+    groups.set(String(row.post_id), [...(groups.get(String(row.post_id)) || []), comment]);
+  }
+  return groups;
+}
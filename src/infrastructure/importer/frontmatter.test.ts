@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { parseFrontMatter, parseToml, parseYaml, stringifyFrontMatter, stringifyYaml } from './frontmatter';
+import type { FrontMatterData } from './frontmatter';
+
+// 导出时可能出现的各种值
+const DATA: FrontMatterData = {
+  title: '标题: 带冒号 # 与井号',
+  slug: 'hello-world',
+  date: '2024-01-15T08:30:00.000Z',
+  draft: false,
+  weight: 3,
+  rating: -1.5,
+  empty: '',
+  nothing: null,
+  quotes: 'say "hi" and \'bye\'',
+  escapes: 'a\\b\tc\r\nd\u0000e\u001f',
+  separators: '第一行\u2028第二行\u2029第三段',
+  leading: '  - 不是列表项',
+  looksLikeNumber: '123',
+  looksLikeBoolean: 'true',
+  emoji: '😀 𠀀',
+  tags: ['前端', 'Vue 3', 'a, b', '[x]', '\u2028'],
+  categories: [['技术', '前端'], '随笔'],
+  authors: [{ name: '张三', email: 'zhang@example.com' }, { name: '李四\u2029' }],
+  emptyList: [],
+  seo: { title: 'SEO 标题', keywords: ['a', 'b'], nested: { deep: true } },
+  emptyMap: {},
+  'key with spaces': 1,
+  '中文键\u2028': 'x',
+};
+
+describe('stringifyFrontMatter / parseFrontMatter', () => {
+  it('生成的文档可以原样读回', () => {
+    const body = '# 正文\n\n---\n\n分隔线之后的内容';
+    const result = parseFrontMatter(stringifyFrontMatter(DATA, body));
+    expect(result.format).toBe('yaml');
+    expect(result.data).toEqual(DATA);
+    expect(result.body).toBe(body);
+  });
+
+  it('U+2028、U+2029 转义输出，不出现在生成的文本中', () => {
+    const yaml = stringifyYaml({ text: 'a\u2028b\u2029c' });
+    expect(yaml).toBe('text: "a\\u2028b\\u2029c"\n');
+    expect(yaml).not.toMatch(/[\u2028\u2029]/);
+    expect(parseYaml(yaml)).toEqual({ text: 'a\u2028b\u2029c' });
+  });
+
+  it('读取未转义的 U+2028、U+2029', () => {
+    expect(parseYaml('title: "a\u2028b"\nplain: c\u2029d\nlist:\n  - "e\u2028"')).toEqual({
+      title: 'a\u2028b',
+      plain: 'c\u2029d',
+      list: ['e\u2028'],
+    });
+  });
+
+  it('没有 front-matter 时 data 为空', () => {
+    expect(parseFrontMatter('正文')).toEqual({ data: {}, body: '正文', format: null });
+  });
+});
+
+describe('parseYaml', () => {
+  it('解析缩进列表、行内列表、嵌套映射与注释', () => {
+    const yaml = [
+      'title: Hello # 注释',
+      'tags: [a, "b, c"]',
+      'categories:',
+      '- 技术',
+      '- [前端, Vue]',
+      'author:',
+      '  name: 张三',
+      '  links:',
+      '    - url: https://example.com',
+      '      label: 主页',
+    ].join('\n');
+    expect(parseYaml(yaml)).toEqual({
+      title: 'Hello',
+      tags: ['a', 'b, c'],
+      categories: ['技术', ['前端', 'Vue']],
+      author: { name: '张三', links: [{ url: 'https://example.com', label: '主页' }] },
+    });
+  });
+
+  it('解析 | 与 > 多行文本', () => {
+    const yaml = ['keep: |', '  第一行', '    缩进行', '', 'fold: >-', '  a', '  b', 'next: 1'].join('\n');
+    expect(parseYaml(yaml)).toEqual({ keep: '第一行\n  缩进行\n', fold: 'a b', next: 1 });
+  });
+});
+
+describe('parseToml', () => {
+  it('解析表、表数组与多行数组', () => {
+    const toml = [
+      'title = "Hello"',
+      'draft = true',
+      'tags = [',
+      '  "a",',
+      '  "b",',
+      ']',
+      '[params]',
+      'cover = "x.png" # 注释',
+      '[[authors]]',
+      'name = "张三"',
+    ].join('\n');
+    expect(parseToml(toml)).toEqual({
+      title: 'Hello',
+      draft: true,
+      tags: ['a', 'b'],
+      params: { cover: 'x.png' },
+      authors: [{ name: '张三' }],
+    });
+  });
+});
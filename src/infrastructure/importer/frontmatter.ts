@@ -0,0 +1,377 @@
+// Front-matter 解析
+// 支持 YAML（--- 包围，Hexo、Hugo、Jekyll）与 TOML（+++ 包围，Hugo）front-matter 的常用子集：
+// 标量、引号字符串、行内与缩进列表、嵌套映射、| 与 > 多行文本；不支持锚点、标签等高级语法
+// 导出时生成的 YAML 只使用上述子集
+
+export type FrontMatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FrontMatterValue[]
+  | { [key: string]: FrontMatterValue };
+
+export type FrontMatterData = Record<string, FrontMatterValue>;
+
+// 解析结果
+export interface FrontMatterResult {
+  data: FrontMatterData;
+  body: string;
+  format: 'yaml' | 'toml' | null;
+}
+
+// 去掉缩进后的行
+interface Line {
+  indent: number;
+  text: string;
+}
+
+/** 分离并解析 front-matter；没有 front-matter 时 data 为空对象 */
+export function parseFrontMatter(source: string): FrontMatterResult {
+  const text = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const match = text.match(/^(---|\+\+\+)[ \t]*\n(?:([\s\S]*?)\n)?\1[ \t]*(?:\n|$)/);
+  if (!match) {
+    return { data: {}, body: text, format: null };
+  }
+
+  const body = text.slice(match[0].length).replace(/^\n+/, '');
+  if (match[1] === '+++') {
+    return { data: parseToml(match[2] || ''), body, format: 'toml' };
+  }
+  return { data: parseYaml(match[2] || ''), body, format: 'yaml' };
+}
+
+// ==================== YAML ====================
+
+/** 解析 YAML 子集，顶层必须是映射 */
+export function parseYaml(source: string): FrontMatterData {
+  const lines = source.split('\n').map(raw => {
+    // 只把空格与制表符视为缩进，U+2028、U+2029 等其他空白属于值的一部分
+    const text = raw.replace(/\t/g, '  ');
+    const trimmed = text.replace(/^ +/, '');
+    return { indent: text.length - trimmed.length, text: trimmed.replace(/[ \t]+$/, '') };
+  });
+  const value = parseYamlBlock(lines, 0, 0).value;
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+// 是否为空行或注释行
+function isBlank(line: Line): boolean {
+  return line.text === '' || line.text.startsWith('#');
+}
+
+// 跳过空行与注释行
+function skipBlank(lines: Line[], index: number): number {
+  while (index < lines.length && isBlank(lines[index])) index++;
+  return index;
+}
+
+// 是否为列表项
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+// 解析从 index 开始、缩进为 indent 的块
+function parseYamlBlock(lines: Line[], index: number, indent: number): { value: FrontMatterValue; next: number } {
+  index = skipBlank(lines, index);
+  if (index >= lines.length || lines[index].indent < indent) {
+    return { value: null, next: index };
+  }
+  const blockIndent = lines[index].indent;
+  return isSequenceItem(lines[index].text)
+    ? parseYamlSequence(lines, index, blockIndent)
+    : parseYamlMap(lines, index, blockIndent);
+}
+
+// 解析映射
+function parseYamlMap(lines: Line[], index: number, indent: number): { value: FrontMatterValue; next: number } {
+  const result: Record<string, FrontMatterValue> = {};
+
+  for (index = skipBlank(lines, index); index < lines.length; index = skipBlank(lines, index)) {
+    const line = lines[index];
+    if (line.indent !== indent || isSequenceItem(line.text)) break;
+
+    const match = line.text.match(/^("(?:[^"\\]|\\[\s\S])*"|'(?:[^']|'')*'|[^:#][^:]*?)\s*:(?:\s+([\s\S]*))?$/);
+    if (!match) {
+      index++;
+      continue;
+    }
+    const key = String(parseScalar(match[1], ':'));
+    const rest = stripComment(match[2] || '');
+    index++;
+
+    if (/^[|>][+-]?$/.test(rest)) {
+      const block = readBlockScalar(lines, index, indent, rest);
+      result[key] = block.value;
+      index = block.next;
+      continue;
+    }
+    if (rest !== '') {
+      result[key] = parseScalar(rest, ':');
+      continue;
+    }
+
+    // 值在下面的行中：更深缩进的块，或与键同一缩进的列表
+    const next = skipBlank(lines, index);
+    if (next < lines.length && (lines[next].indent > indent || (lines[next].indent === indent && isSequenceItem(lines[next].text)))) {
+      const nested = parseYamlBlock(lines, next, lines[next].indent);
+      result[key] = nested.value;
+      index = nested.next;
+    } else {
+      result[key] = null;
+    }
+  }
+
+  return { value: result, next: index };
+}
+
+// 解析列表
+function parseYamlSequence(lines: Line[], index: number, indent: number): { value: FrontMatterValue; next: number } {
+  const result: FrontMatterValue[] = [];
+
+  for (index = skipBlank(lines, index); index < lines.length; index = skipBlank(lines, index)) {
+    const line = lines[index];
+    if (line.indent !== indent || !isSequenceItem(line.text)) break;
+
+    const rest = line.text.slice(1).trimStart();
+    if (rest === '') {
+      const nested = parseYamlBlock(lines, index + 1, indent + 1);
+      result.push(nested.value);
+      index = nested.next;
+    } else if (/^("(?:[^"\\]|\\[\s\S])*"|'(?:[^']|'')*'|[^:#"'[{][^:]*?)\s*:(\s|$)/.test(rest) || isSequenceItem(rest)) {
+      // 列表项本身是映射或列表：把 "- " 之后的内容视为更深一级的块
+      const itemIndent = indent + (line.text.length - rest.length);
+      lines[index] = { indent: itemIndent, text: rest };
+      const nested = parseYamlBlock(lines, index, itemIndent);
+      result.push(nested.value);
+      index = nested.next;
+    } else {
+      result.push(parseScalar(stripComment(rest), ':'));
+      index++;
+    }
+  }
+
+  return { value: result, next: index };
+}
+
+// 读取 | 或 > 多行文本
+function readBlockScalar(lines: Line[], index: number, indent: number, style: string): { value: string; next: number } {
+  const collected: Line[] = [];
+  while (index < lines.length && (lines[index].text === '' || lines[index].indent > indent)) {
+    collected.push(lines[index]);
+    index++;
+  }
+  while (collected.length > 0 && collected[collected.length - 1].text === '') collected.pop();
+
+  const base = collected.reduce((min, line) => (line.text === '' ? min : Math.min(min, line.indent)), Infinity);
+  const texts = collected.map(line => (line.text === '' ? '' : ' '.repeat(line.indent - base) + line.text));
+  let value = style.startsWith('|')
+    ? texts.join('\n')
+    : texts.join('\n').replace(/([^\n])\n(?=[^\n])/g, '$1 ');
+  if (!style.endsWith('-') && value !== '') value += '\n';
+  return { value, next: index };
+}
+
+// 去掉未加引号值末尾的注释
+function stripComment(text: string): string {
+  const trimmed = text.trim();
+  if (/^["'[{]/.test(trimmed)) return trimmed;
+  return trimmed.replace(/\s+#[\s\S]*$/, '');
+}
+
+// ==================== 生成 ====================
+
+/** 生成带 YAML front-matter 的文档，parseFrontMatter 可以原样读回 */
+export function stringifyFrontMatter(data: FrontMatterData, body: string): string {
+  return `---\n${stringifyYaml(data)}---\n\n${body}`;
+}
+
+/** 生成 YAML 子集：字符串一律使用双引号，列表元素中的列表与映射使用行内写法 */
+export function stringifyYaml(data: FrontMatterData, indent: string = ''): string {
+  return Object.entries(data).map(([key, value]) => {
+    const name = /^[A-Za-z_][\w-]*$/.test(key) ? key : quote(key);
+    if (Array.isArray(value) && value.length > 0) {
+      return `${indent}${name}:\n${value.map(item => `${indent}  - ${stringifyInline(item)}\n`).join('')}`;
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length > 0) {
+      return `${indent}${name}:\n${stringifyYaml(value, `${indent}  `)}`;
+    }
+    return `${indent}${name}: ${stringifyInline(value)}\n`;
+  }).join('');
+}
+
+// 生成行内值
+function stringifyInline(value: FrontMatterValue): string {
+  if (value === null) return 'null';
+  if (typeof value === 'string') return quote(value);
+  if (Array.isArray(value)) return `[${value.map(stringifyInline).join(', ')}]`;
+  if (typeof value === 'object') {
+    return `{${Object.entries(value).map(([key, item]) => `${quote(key)}: ${stringifyInline(item)}`).join(', ')}}`;
+  }
+  return String(value);
+}
+
+// 生成双引号字符串；JSON.stringify 不转义 U+2028、U+2029，这里一并转义，避免被当作换行
+function quote(text: string): string {
+  return JSON.stringify(text).replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+}
+
+// ==================== TOML ====================
+
+/** 解析 TOML 子集：键值对、[表]、[[表数组]]、多行数组 */
+export function parseToml(source: string): FrontMatterData {
+  const result: FrontMatterData = {};
+  let current: Record<string, FrontMatterValue> = result;
+  const lines = source.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const arrayTable = line.match(/^\[\[\s*([^\]]+?)\s*\]\]$/);
+    const table = line.match(/^\[\s*([^\]]+?)\s*\]$/);
+    if (arrayTable || table) {
+      const path = splitKey((arrayTable || table)![1]);
+      const parent = ensureTable(result, path.slice(0, -1));
+      const last = path[path.length - 1];
+      if (arrayTable) {
+        const list = Array.isArray(parent[last]) ? (parent[last] as FrontMatterValue[]) : [];
+        const entry: Record<string, FrontMatterValue> = {};
+        list.push(entry);
+        parent[last] = list;
+        current = entry;
+      } else {
+        current = ensureTable(parent, [last]);
+      }
+      continue;
+    }
+
+    const eq = findSeparator(line, '=');
+    if (eq < 0) continue;
+    let value = line.slice(eq + 1).trim();
+    // 多行数组：读到括号闭合为止
+    while (value.startsWith('[') && bracketDepth(value) > 0 && i + 1 < lines.length) {
+      value += ' ' + lines[++i].trim();
+    }
+    const path = splitKey(line.slice(0, eq));
+    ensureTable(current, path.slice(0, -1))[path[path.length - 1]] = parseScalar(stripTomlComment(value), '=');
+  }
+
+  return result;
+}
+
+// 拆分点号分隔的键
+function splitKey(key: string): string[] {
+  return splitTopLevel(key.trim(), '.').map(part => String(parseScalar(part.trim(), '=')));
+}
+
+// 取得（必要时创建）嵌套表
+function ensureTable(root: Record<string, FrontMatterValue>, path: string[]): Record<string, FrontMatterValue> {
+  let table = root;
+  for (const key of path) {
+    const next = table[key];
+    if (!next || typeof next !== 'object' || Array.isArray(next)) {
+      table[key] = {};
+    }
+    table = table[key] as Record<string, FrontMatterValue>;
+  }
+  return table;
+}
+
+// 去掉 TOML 行末注释
+function stripTomlComment(text: string): string {
+  const index = findSeparator(text, '#');
+  return (index < 0 ? text : text.slice(0, index)).trim();
+}
+
+// ==================== 标量 ====================
+
+/** 解析标量、行内列表与行内映射；sep 为行内映射的键值分隔符（YAML 为 :，TOML 为 =） */
+export function parseScalar(text: string, sep: ':' | '=' = ':'): FrontMatterValue {
+  const value = text.trim();
+  if (value === '' || value === '~' || value === 'null') return null;
+
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    return value.slice(1, -1).replace(/\\(u[0-9a-fA-F]{4}|[\s\S])/g, (_, escape: string) => {
+      if (escape.length > 1) return String.fromCharCode(parseInt(escape.slice(1), 16));
+      return ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' } as Record<string, string>)[escape] ?? escape;
+    });
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return sep === ':' ? value.slice(1, -1).replace(/''/g, "'") : value.slice(1, -1);
+  }
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return splitTopLevel(value.slice(1, -1), ',')
+      .map(item => item.trim())
+      .filter(item => item !== '')
+      .map(item => parseScalar(item, sep));
+  }
+  if (value.startsWith('{') && value.endsWith('}')) {
+    const result: Record<string, FrontMatterValue> = {};
+    splitTopLevel(value.slice(1, -1), ',').forEach(entry => {
+      const index = findSeparator(entry, sep);
+      if (index > 0) {
+        result[String(parseScalar(entry.slice(0, index), sep))] = parseScalar(entry.slice(index + 1), sep);
+      }
+    });
+    return result;
+  }
+
+  if (/^(true|yes)$/i.test(value)) return true;
+  if (/^(false|no)$/i.test(value)) return false;
+  if (/^[-+]?(\d+|\d*\.\d+)$/.test(value) && !/^[-+]?0\d/.test(value)) return Number(value);
+  return value;
+}
+
+// 按分隔符拆分，忽略引号和括号内的分隔符
+function splitTopLevel(text: string, sep: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === sep && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+// 查找不在引号和括号内的分隔符
+function findSeparator(text: string, sep: string): number {
+  const parts = splitTopLevel(text, sep);
+  return parts.length > 1 ? parts[0].length : -1;
+}
+
+// 计算未闭合的括号层数
+function bracketDepth(text: string): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    }
+  }
+  return depth;
+}
@@ -0,0 +1,26 @@
+// 内容导入模块导出
+// 从 Markdown 目录（Hexo、Hugo、Jekyll）、WordPress WXR 导出文件或本站导出归档批量导入文章、分类、标签、评论与图片
+
+export { collectImageRefs, ImportService, rewriteImageRefs } from './service';
+export type { ImportServiceOptions } from './service';
+export { detectMarkdownLayout, readMarkdownDirectory } from './markdown';
+export type { MarkdownImportOptions, MarkdownLayout } from './markdown';
+export { parseWxr, readWxrFile } from './wxr';
+export { parseExportArchive, readExportArchive } from './archive';
+export type { WxrImportOptions } from './wxr';
+export { parseFrontMatter, parseToml, parseYaml, stringifyFrontMatter, stringifyYaml } from './frontmatter';
+export type { FrontMatterData, FrontMatterResult, FrontMatterValue } from './frontmatter';
+export type {
+  ImportAction,
+  ImportAsset,
+  ImportBundle,
+  ImportCounts,
+  ImportedComment,
+  ImportedPost,
+  ImportedTaxonomy,
+  ImportEntityType,
+  ImportFormat,
+  ImportOptions,
+  ImportReport,
+  ImportReportItem,
+} from './types';
@@ -0,0 +1,259 @@
+// Markdown 目录导入
+// 读取 Hexo、Hugo、Jekyll 站点或任意目录中带 front-matter 的 Markdown 文件，转换为 ImportBundle
+// 图片引用按站点布局解析为本地文件（相对路径、站点静态目录、Hexo 文章资源目录），远程图片保留原始地址
+
+import { existsSync, promises as fs, statSync } from 'fs';
+import path from 'path';
+import { parseZonedDateTime } from '../utils/date';
+import { errorMessage } from '../utils/cli';
+import { parseFrontMatter } from './frontmatter';
+import type { FrontMatterData, FrontMatterValue } from './frontmatter';
+import type { ImportAsset, ImportBundle, ImportedPost } from './types';
+
+// Markdown 目录格式
+export type MarkdownLayout = 'hexo' | 'hugo' | 'jekyll' | 'markdown';
+
+// 读取选项
+export interface MarkdownImportOptions {
+  // 指定站点布局，默认自动识别
+  layout?: MarkdownLayout;
+  // 解释不带偏移的日期使用的时区
+  timezone?: string;
+}
+
+// 各布局的文章目录，draft 为草稿目录
+interface LayoutDirectory {
+  dir: string;
+  draft: boolean;
+}
+
+// Markdown 文件扩展名
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+
+// 扫描时跳过的目录
+const IGNORED_DIRECTORIES = ['node_modules', 'public', '_site', 'resources'];
+
+// 以 / 开头的图片地址对应的静态目录
+const STATIC_DIRECTORIES: Record<MarkdownLayout, string[]> = {
+  hexo: ['source'],
+  hugo: ['static', 'assets'],
+  jekyll: [''],
+  markdown: [''],
+};
+
+/** 根据目录结构识别站点布局 */
+export function detectMarkdownLayout(root: string): MarkdownLayout {
+  const exists = (...parts: string[]) => existsSync(path.join(root, ...parts));
+  if (exists('source', '_posts') || exists('scaffolds')) return 'hexo';
+  if (exists('content') && ['hugo.toml', 'hugo.yaml', 'config.toml', 'config.yaml', 'config.yml', 'archetypes'].some(file => exists(file))) {
+    return 'hugo';
+  }
+  if (exists('_posts') || exists('_config.yml')) return 'jekyll';
+  return 'markdown';
+}
+
+/** 读取 Markdown 目录 */
+export async function readMarkdownDirectory(root: string, options: MarkdownImportOptions = {}): Promise<ImportBundle> {
+  const base = path.resolve(root);
+  if (!existsSync(base) || !statSync(base).isDirectory()) {
+    throw new Error(`导入目录不存在: ${root}`);
+  }
+
+  const layout = options.layout || detectMarkdownLayout(base);
+  const timezone = options.timezone || 'UTC';
+  const warnings: string[] = [];
+  const posts: ImportedPost[] = [];
+  // 文章的额外图片目录（Hexo 文章资源目录）
+  const assetDirs = new Map<string, string>();
+
+  for (const { dir, draft } of layoutDirectories(base, layout)) {
+    for (const file of await listMarkdownFiles(dir)) {
+      const relative = toPosix(path.relative(base, file));
+      try {
+        const { data, body } = parseFrontMatter(await fs.readFile(file, 'utf8'));
+        const post = toImportedPost(data, body, { file, relative, layout, draft, timezone });
+        if (!post) continue;
+        posts.push(post);
+        if (layout === 'hexo') {
+          assetDirs.set(post.sourceId, file.slice(0, -path.extname(file).length));
+        }
+      } catch (error) {
+        warnings.push(`读取 ${relative} 失败: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  if (posts.length === 0) {
+    warnings.push(`未在 ${root} 中找到 Markdown 文章（布局: ${layout}）`);
+  }
+
+  const resolveAsset = (ref: string, post: ImportedPost): ImportAsset | null => {
+    const target = stripUrlSuffix(ref);
+    if (!target || /^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(target)) return null;
+
+    const candidates = target.startsWith('/')
+      ? STATIC_DIRECTORIES[layout].map(dir => path.join(base, dir, target))
+      : [
+        ...(post.baseDir ? [path.resolve(post.baseDir, target)] : []),
+        ...(assetDirs.has(post.sourceId) ? [path.resolve(assetDirs.get(post.sourceId)!, target)] : []),
+      ];
+    const file = candidates.find(candidate => isInside(base, candidate) && existsSync(candidate) && statSync(candidate).isFile());
+    if (!file) return null;
+
+    return {
+      sourceId: toPosix(path.relative(base, file)),
+      filename: path.basename(file),
+      load: () => fs.readFile(file),
+    };
+  };
+
+  return { format: layout, posts, warnings, resolveAsset };
+}
+
+// ==================== 辅助方法 ====================
+
+// 各布局的文章目录
+function layoutDirectories(base: string, layout: MarkdownLayout): LayoutDirectory[] {
+  const existing = (dirs: LayoutDirectory[]) => dirs.filter(({ dir }) => existsSync(dir) && statSync(dir).isDirectory());
+  switch (layout) {
+    case 'hexo':
+      return existing([
+        { dir: path.join(base, 'source', '_posts'), draft: false },
+        { dir: path.join(base, 'source', '_drafts'), draft: true },
+      ]);
+    case 'jekyll':
+      return existing([
+        { dir: path.join(base, '_posts'), draft: false },
+        { dir: path.join(base, '_drafts'), draft: true },
+      ]);
+    case 'hugo': {
+      const sections = existing(['posts', 'post', 'blog'].map(name => ({ dir: path.join(base, 'content', name), draft: false })));
+      return sections.length > 0 ? sections : existing([{ dir: path.join(base, 'content'), draft: false }]);
+    }
+    default:
+      return [{ dir: base, draft: false }];
+  }
+}
+
+// 递归列出 Markdown 文件，跳过隐藏目录与构建输出
+async function listMarkdownFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.includes(entry.name)) files.push(...(await listMarkdownFiles(full)));
+    } else if (MARKDOWN_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+// 转换单个文件；Hugo 的分区首页（_index.md）不是文章
+function toImportedPost(
+  data: FrontMatterData,
+  body: string,
+  source: { file: string; relative: string; layout: MarkdownLayout; draft: boolean; timezone: string }
+): ImportedPost | null {
+  const { file, relative, layout, timezone } = source;
+  const name = path.basename(file, path.extname(file));
+  if (layout === 'hugo' && name === '_index') return null;
+
+  // Hugo 页面包（xxx/index.md）与 Jekyll 日期前缀文件名
+  const baseName = name === 'index' ? path.basename(path.dirname(file)) : name;
+  const jekyllMatch = baseName.match(/^(\d{4}-\d{2}-\d{2})-(.+)$/);
+  const fileSlug = jekyllMatch ? jekyllMatch[2] : baseName;
+
+  const title = toText(data.title) || fileSlug.replace(/[-_]+/g, ' ').trim();
+  const date = toText(data.date) || (jekyllMatch ? jekyllMatch[1] : '');
+  const publishedAt = date ? parseZonedDateTime(date, timezone) || parseLooseDate(date) : null;
+  const draft = source.draft || data.draft === true || data.published === false;
+
+  return {
+    sourceId: toText(data.id) || toText(data.uuid) || relative,
+    title,
+    slug: toText(data.slug) || fileSlug,
+    content: body,
+    excerpt: toText(data.excerpt) || toText(data.summary) || null,
+    status: draft ? 'draft' : 'published',
+    publishedAt: publishedAt ? publishedAt.toISOString() : null,
+    categories: toCategoryPaths(data.categories ?? data.category, layout),
+    tags: toList(data.tags ?? data.tag, layout === 'jekyll'),
+    featuredImage: toText(data.cover) || toText(data.image) || toText(data.featured_image)
+      || toText(data.thumbnail) || toList(data.images, false)[0] || null,
+    seoDescription: toText(data.description) || null,
+    seoKeywords: toKeywords(data.keywords),
+    comments: [],
+    baseDir: path.dirname(file),
+  };
+}
+
+// 读取文本值
+function toText(value: FrontMatterValue | undefined): string {
+  if (value === null || value === undefined || typeof value === 'object') return '';
+  return String(value).trim();
+}
+
+// 读取列表；Jekyll 允许用空格分隔的字符串
+function toList(value: FrontMatterValue | undefined, splitSpaces: boolean): string[] {
+  if (Array.isArray(value)) {
+    return value.map(item => toText(item)).filter(item => item !== '');
+  }
+  const text = toText(value);
+  if (!text) return [];
+  return splitSpaces ? text.split(/\s+/) : [text];
+}
+
+// 读取分类路径：Hexo 的列表表示层级（[[A, B], C] 为 A > B 与 C），其他布局为并列的分类
+function toCategoryPaths(value: FrontMatterValue | undefined, layout: MarkdownLayout): string[][] {
+  if (layout !== 'hexo' || !Array.isArray(value)) {
+    return toList(value, layout === 'jekyll').map(name => [name]);
+  }
+  if (value.some(item => Array.isArray(item))) {
+    return value
+      .map(item => toList(item, false))
+      .filter(pathNames => pathNames.length > 0);
+  }
+  const names = toList(value, false);
+  return names.length > 0 ? [names] : [];
+}
+
+// 读取关键词（列表或逗号分隔的字符串）
+function toKeywords(value: FrontMatterValue | undefined): string[] | null {
+  const keywords = Array.isArray(value)
+    ? toList(value, false)
+    : toText(value).split(/[,，]/).map(item => item.trim()).filter(item => item !== '');
+  return keywords.length > 0 ? keywords : null;
+}
+
+// 解析带其他格式偏移的日期（如 Jekyll 的 2020-01-01 10:00:00 +0800）
+function parseLooseDate(value: string): Date | null {
+  const normalized = value.trim().replace(/^(\d{4}-\d{2}-\d{2})\s+(\d{2}:\d{2}(?::\d{2})?)\s*([+-]\d{2}):?(\d{2})$/, '$1T$2$3:$4');
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// 去掉地址中的查询串、锚点与标题，并还原百分号编码
+function stripUrlSuffix(ref: string): string {
+  const target = ref.trim().replace(/^<|>$/g, '').split(/\s+/)[0].replace(/[?#].*$/, '');
+  try {
+    return decodeURI(target);
+  } catch {
+    return target;
+  }
+}
+
+// 路径是否在根目录内
+function isInside(root: string, file: string): boolean {
+  const relative = path.relative(root, file);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+// 转换为 / 分隔的路径
+function toPosix(value: string): string {
+  return value.split(path.sep).join('/');
+}
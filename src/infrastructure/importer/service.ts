@@ -0,0 +1,728 @@
+// 内容导入服务
+// 把 Markdown 目录、WordPress WXR 或导出归档的解析结果写入文章、分类、标签、评论与媒体
+// 每个来源条目在 import_records 中记录对应的实体和内容摘要，重复导入时更新有变化的文章、跳过已导入的评论与图片
+// dryRun 只查询已有数据并生成报告，不上传图片也不写入任何表
+
+import path from 'path';
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { SettingsStore } from '../config/settings';
+import { renderCommentHtml } from '../render/pipeline';
+import { PostService } from '../posts/service';
+import type { PostRow, PostUpdate } from '../posts/types';
+import type { Database } from '../types/database';
+import { argValue, cliArgs, errorMessage } from '../utils/cli';
+import { checksum } from '../utils/checksum';
+import { readExportArchive } from './archive';
+import { readMarkdownDirectory } from './markdown';
+import type { MarkdownLayout } from './markdown';
+import { readWxrFile } from './wxr';
+import type {
+  ImportAction,
+  ImportAsset,
+  ImportBundle,
+  ImportCounts,
+  ImportedComment,
+  ImportedPost,
+  ImportedTaxonomy,
+  ImportEntityType,
+  ImportOptions,
+  ImportReport,
+  ImportReportItem,
+} from './types';
+
+type ImportRecordRow = Database['public']['Tables']['import_records']['Row'];
+
+// 服务选项
+export interface ImportServiceOptions {
+  // 图片上传的存储桶
+  mediaBucket?: string;
+}
+
+// 默认存储桶
+const DEFAULT_MEDIA_BUCKET = 'blog-images';
+
+// 图片在存储桶中的目录
+const MEDIA_FOLDER = 'imports';
+
+// 分类、标签名称的最大长度（与表结构一致）
+const TAXONOMY_NAME_MAX_LENGTH = 50;
+
+// 默认的上传限制（settings 未配置时使用）
+const DEFAULT_MAX_FILE_SIZE = 52428800;
+const DEFAULT_ALLOWED_FILE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// 扩展名对应的 MIME 类型
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.svg': 'image/svg+xml',
+};
+
+// 正文中的图片引用：Markdown 图片、HTML img 标签、Hexo asset_img 标签
+const MARKDOWN_IMAGE_PATTERN = /!\[([^\]]*)\]\(\s*(<[^>]+>|[^\s)]+)((?:\s+["'(][^)]*)?)\)/g;
+const HTML_IMAGE_PATTERN = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])([^"']+)\2/gi;
+const ASSET_IMG_PATTERN = /\{%\s*asset_img\s+(\S+)(?:\s+([^%]*?))?\s*%\}/g;
+
+/** 收集正文中引用的图片地址 */
+export function collectImageRefs(content: string): string[] {
+  const refs = new Set<string>();
+  for (const match of content.matchAll(MARKDOWN_IMAGE_PATTERN)) refs.add(match[2]);
+  for (const match of content.matchAll(HTML_IMAGE_PATTERN)) refs.add(match[3]);
+  for (const match of content.matchAll(ASSET_IMG_PATTERN)) refs.add(match[1]);
+  return [...refs];
+}
+
+/** 把正文中的图片地址替换为上传后的地址；asset_img 标签转换为 Markdown 图片 */
+export function rewriteImageRefs(content: string, urls: Map<string, string>): string {
+  return content
+    .replace(MARKDOWN_IMAGE_PATTERN, (match, alt: string, ref: string, title: string) =>
+      (urls.has(ref) ? `![${alt}](${urls.get(ref)}${title})` : match))
+    .replace(HTML_IMAGE_PATTERN, (match, prefix: string, quote: string, ref: string) =>
+      (urls.has(ref) ? `${prefix}${quote}${urls.get(ref)}${quote}` : match))
+    .replace(ASSET_IMG_PATTERN, (match, ref: string, title?: string) =>
+      (urls.has(ref) ? `![${(title || '').replace(/^["']|["']$/g, '')}](${urls.get(ref)})` : match));
+}
+
+// 创建空统计
+function emptyCounts(): ImportCounts {
+  return { created: 0, updated: 0, skipped: 0, failed: 0 };
+}
+
+// 单次导入的状态
+interface ImportRun {
+  source: string;
+  options: ImportOptions;
+  report: ImportReport;
+  // 分类路径、标签名称 -> ID（dryRun 中待创建的为 null）
+  categories: Map<string, string | null>;
+  tags: Map<string, string | null>;
+  // 来源提供的分类、标签信息（名称 -> 别名、描述等），新建时写入
+  categoryInfo: Map<string, ImportedTaxonomy>;
+  tagInfo: Map<string, ImportedTaxonomy>;
+  // 图片来源标识 -> 上传后的地址（dryRun 中待上传或上传失败的为 null，同一次导入中不再重试）
+  mediaUrls: Map<string, string | null>;
+  maxFileSize: number;
+  allowedFileTypes: string[];
+}
+
+export class ImportService {
+  private supabase: SupabaseService;
+  private settings: SettingsStore;
+  private posts: PostService;
+  private mediaBucket: string;
+
+  constructor(
+    supabase: SupabaseService = getSupabaseService(),
+    settings?: SettingsStore,
+    options: ImportServiceOptions = {}
+  ) {
+    this.supabase = supabase;
+    this.settings = settings || new SettingsStore(supabase);
+    this.posts = new PostService(supabase);
+    this.mediaBucket = options.mediaBucket || DEFAULT_MEDIA_BUCKET;
+  }
+
+  // ==================== 读取来源 ====================
+
+  // 导入 Markdown 目录；不带偏移的日期按站点时区解释
+  async importDirectory(dir: string, options: ImportOptions & { layout?: MarkdownLayout }): Promise<ImportReport> {
+    const timezone = await this.settings.get<string>('timezone', 'UTC');
+    const bundle = await readMarkdownDirectory(dir, { layout: options.layout, timezone });
+    return this.import(bundle, { ...options, source: options.source || `${bundle.format}:${path.basename(path.resolve(dir))}` });
+  }
+
+  // 导入 WordPress WXR 文件
+  async importWxr(file: string, options: ImportOptions): Promise<ImportReport> {
+    const bundle = await readWxrFile(file);
+    return this.import(bundle, { ...options, source: options.source || `wxr:${path.basename(file, path.extname(file))}` });
+  }
+
+  // 导入 ExportService 生成的归档
+  async importArchive(file: string, options: ImportOptions): Promise<ImportReport> {
+    const bundle = await readExportArchive(file);
+    return this.import(bundle, { ...options, source: options.source || `archive:${path.basename(file).replace(/\.(zip|tar|tar\.gz|tgz)$/i, '')}` });
+  }
+
+  // ==================== 导入 ====================
+
+  // 导入解析结果；单篇文章失败不影响其他文章
+  async import(bundle: ImportBundle, options: ImportOptions): Promise<ImportReport> {
+    if (!options.authorId) {
+      throw new Error('必须指定导入文章的作者');
+    }
+
+    const source = options.source || bundle.format;
+    const run: ImportRun = {
+      source,
+      options,
+      report: {
+        format: bundle.format,
+        source,
+        dryRun: !!options.dryRun,
+        posts: emptyCounts(),
+        comments: emptyCounts(),
+        media: emptyCounts(),
+        categoriesCreated: [],
+        tagsCreated: [],
+        settingsRestored: [],
+        items: [],
+        warnings: [...bundle.warnings],
+      },
+      categories: new Map(),
+      tags: new Map(),
+      categoryInfo: new Map((bundle.categories || []).map(category => [category.name, category])),
+      tagInfo: new Map((bundle.tags || []).map(tag => [tag.name, tag])),
+      mediaUrls: new Map(),
+      maxFileSize: await this.settings.get<number>('max_file_size', DEFAULT_MAX_FILE_SIZE),
+      allowedFileTypes: await this.settings.get<string[]>('allowed_file_types', DEFAULT_ALLOWED_FILE_TYPES),
+    };
+
+    if (options.restoreSettings && bundle.settings) {
+      await this.restoreSettings(run, bundle.settings);
+    }
+    await this.importTaxonomy(run, bundle);
+
+    for (const post of bundle.posts) {
+      let postId: string | null = null;
+      try {
+        const prepared = options.skipMedia ? post : await this.importPostMedia(run, bundle, post);
+        postId = await this.importPost(run, prepared);
+      } catch (error) {
+        this.addItem(run, 'post', post.sourceId, 'error', { title: post.title, message: errorMessage(error) });
+        continue;
+      }
+
+      if (!options.skipComments && post.comments.length > 0) {
+        await this.importComments(run, post, postId);
+      }
+    }
+
+    return run.report;
+  }
+
+  // ==================== 文章 ====================
+
+  // 写入文章；返回文章 ID（dryRun 中新建的文章为 null）
+  private async importPost(run: ImportRun, post: ImportedPost): Promise<string | null> {
+    const { options } = run;
+    const digest = checksum({
+      title: post.title,
+      slug: post.slug || null,
+      content: post.content,
+      excerpt: post.excerpt || null,
+      status: post.status,
+      publishedAt: post.publishedAt || null,
+      categories: post.categories,
+      tags: post.tags,
+      featuredImage: post.featuredImage || null,
+      seoDescription: post.seoDescription || null,
+      seoKeywords: post.seoKeywords || null,
+      seoTitle: post.seoTitle,
+      visibility: post.visibility,
+      passwordHash: post.passwordHash,
+      featured: post.featured,
+      pinned: post.pinned,
+      commentEnabled: post.commentEnabled,
+    });
+
+    const record = await this.findRecord(run.source, 'post', post.sourceId);
+    const existing = record ? await this.posts.getRepository().findById(record.entity_id, { includeDeleted: true }) : null;
+    if (existing?.status === 'deleted') {
+      this.addItem(run, 'post', post.sourceId, 'skip', { title: post.title, entityId: existing.id, message: '文章在回收站中' });
+      return existing.id;
+    }
+    if (existing && record?.checksum === digest) {
+      this.addItem(run, 'post', post.sourceId, 'skip', { title: post.title, entityId: existing.id });
+      return existing.id;
+    }
+
+    const categoryIds = await this.resolveCategories(run, post.categories);
+    const tagIds = await this.resolveTags(run, post.tags);
+    const fields: PostUpdate & { title: string; content: string } = {
+      title: post.title,
+      content: post.content,
+      excerpt: post.excerpt || null,
+      featured_image: post.featuredImage || null,
+      seo_description: post.seoDescription || null,
+      seo_keywords: post.seoKeywords || null,
+      // 归档提供的字段
+      ...(post.seoTitle !== undefined ? { seo_title: post.seoTitle } : {}),
+      ...(post.visibility !== undefined ? { visibility: post.visibility } : {}),
+      ...(post.passwordHash !== undefined ? { password: post.passwordHash } : {}),
+      ...(post.featured !== undefined ? { featured: post.featured } : {}),
+      ...(post.pinned !== undefined ? { pinned: post.pinned } : {}),
+      ...(post.commentEnabled !== undefined ? { comment_enabled: post.commentEnabled } : {}),
+    };
+
+    if (options.dryRun) {
+      this.addItem(run, 'post', post.sourceId, existing ? 'update' : 'create', { title: post.title, entityId: existing?.id });
+      return existing?.id || null;
+    }
+
+    let saved: PostRow;
+    if (existing) {
+      saved = await this.posts.update(existing.id, fields, { editorId: options.authorId, message: '重新导入' });
+      await this.posts.getRepository().replaceCategories(existing.id, categoryIds);
+      await this.posts.getRepository().replaceTags(existing.id, tagIds);
+    } else {
+      saved = await this.posts.createDraft(
+        {
+          ...fields,
+          author_id: options.authorId,
+          slug: await this.generateSlug('posts', post.slug || post.title),
+          ...(post.createdAt ? { created_at: post.createdAt } : {}),
+        },
+        { categoryIds, tagIds }
+      );
+      // 先记录新建的文章（不带摘要），之后的步骤失败时重新导入会更新这篇文章，而不是再建一篇
+      await this.saveRecord(run.source, 'post', post.sourceId, saved.id, null);
+    }
+    saved = await this.reconcileStatus(saved, post);
+
+    await this.saveRecord(run.source, 'post', post.sourceId, saved.id, digest);
+    this.addItem(run, 'post', post.sourceId, existing ? 'update' : 'create', { title: post.title, entityId: saved.id });
+    return saved.id;
+  }
+
+  // 把文章状态调整为来源中的状态
+  private async reconcileStatus(saved: PostRow, post: ImportedPost): Promise<PostRow> {
+    if (saved.status === post.status) return saved;
+
+    if (post.status === 'published') {
+      return this.posts.publish(saved.id, { publishedAt: post.publishedAt || undefined });
+    }
+    if (post.status === 'archived') {
+      // 草稿有发布时间时先发布，保留发布时间
+      if (saved.status === 'draft' && post.publishedAt) {
+        saved = await this.posts.publish(saved.id, { publishedAt: post.publishedAt });
+      }
+      return this.posts.archive(saved.id);
+    }
+    return saved.status === 'archived' ? this.posts.restore(saved.id) : this.posts.unpublish(saved.id);
+  }
+
+  // 生成不冲突的别名
+  private async generateSlug(table: 'posts' | 'categories' | 'tags', text: string): Promise<string> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .rpc('generate_slug', { p_table: table, p_text: text });
+    if (error) throw error;
+    return data as string;
+  }
+
+  // ==================== 分类与标签 ====================
+
+  // 写入来源提供的分类树与标签，包括没有文章的分类、标签
+  private async importTaxonomy(run: ImportRun, bundle: ImportBundle): Promise<void> {
+    for (const category of bundle.categories || []) {
+      const names: string[] = [];
+      const visited = new Set<string>();
+      let current: ImportedTaxonomy | undefined = category;
+      // 父级缺失或形成环时停止
+      while (current && !visited.has(current.name)) {
+        visited.add(current.name);
+        names.unshift(current.name);
+        current = current.parent ? run.categoryInfo.get(current.parent) : undefined;
+      }
+      await this.resolveCategories(run, [names]);
+    }
+    await this.resolveTags(run, (bundle.tags || []).map(tag => tag.name));
+  }
+
+  // 新建分类、标签时写入的字段；来源中的别名冲突时由 generate_slug 追加后缀，没有别名时由触发器生成
+  private async taxonomyFields(table: 'categories' | 'tags', info?: ImportedTaxonomy) {
+    return {
+      slug: info?.slug ? await this.generateSlug(table, info.slug) : '',
+      ...(info?.description ? { description: info.description } : {}),
+      ...(info?.color ? { color: info.color } : {}),
+    };
+  }
+
+  // 按路径查找或创建分类，返回每条路径末级分类的 ID
+  private async resolveCategories(run: ImportRun, paths: string[][]): Promise<string[]> {
+    const ids = new Set<string>();
+    for (const names of paths) {
+      let parentId: string | null = null;
+      let key = '';
+      for (const rawName of names) {
+        const name = rawName.slice(0, TAXONOMY_NAME_MAX_LENGTH).trim();
+        if (!name) continue;
+        key = key ? `${key}/${name}` : name;
+
+        if (!run.categories.has(key)) {
+          const found = await this.findTaxonomy('categories', name);
+          if (found) {
+            run.categories.set(key, found);
+          } else if (run.options.dryRun) {
+            run.categories.set(key, null);
+            run.report.categoriesCreated.push(name);
+          } else {
+            const info = run.categoryInfo.get(name);
+            const { data, error } = await this.supabase.getServiceClient()
+              .from('categories')
+              .insert({
+                name,
+                parent_id: parentId,
+                ...(await this.taxonomyFields('categories', info)),
+                ...(info?.icon ? { icon: info.icon } : {}),
+                ...(typeof info?.sortOrder === 'number' ? { sort_order: info.sortOrder } : {}),
+              })
+              .select('id')
+              .single();
+            if (error) throw error;
+            run.categories.set(key, (data as { id: string }).id);
+            run.report.categoriesCreated.push(name);
+          }
+        }
+        parentId = run.categories.get(key) || null;
+      }
+      if (parentId) ids.add(parentId);
+    }
+    return [...ids];
+  }
+
+  // 按名称查找或创建标签
+  private async resolveTags(run: ImportRun, names: string[]): Promise<string[]> {
+    const ids = new Set<string>();
+    for (const rawName of names) {
+      const name = rawName.slice(0, TAXONOMY_NAME_MAX_LENGTH).trim();
+      if (!name) continue;
+
+      if (!run.tags.has(name)) {
+        const found = await this.findTaxonomy('tags', name);
+        if (found) {
+          run.tags.set(name, found);
+        } else if (run.options.dryRun) {
+          run.tags.set(name, null);
+          run.report.tagsCreated.push(name);
+        } else {
+          const { data, error } = await this.supabase.getServiceClient()
+            .from('tags')
+            .insert({ name, ...(await this.taxonomyFields('tags', run.tagInfo.get(name))) })
+            .select('id')
+            .single();
+          if (error) throw error;
+          run.tags.set(name, (data as { id: string }).id);
+          run.report.tagsCreated.push(name);
+        }
+      }
+      const id = run.tags.get(name);
+      if (id) ids.add(id);
+    }
+    return [...ids];
+  }
+
+  // 按名称或别名查找分类、标签（名称全局唯一，同名的子分类会复用已有分类）
+  private async findTaxonomy(table: 'categories' | 'tags', name: string): Promise<string | null> {
+    const client = this.supabase.getServiceClient();
+    for (const [column, value] of [['name', name], ['slug', name.toLowerCase()]]) {
+      const { data, error } = await client.from(table).select('id').eq(column, value).maybeSingle();
+      if (error) throw error;
+      if (data) return (data as { id: string }).id;
+    }
+    return null;
+  }
+
+  // ==================== 图片 ====================
+
+  // 上传文章引用的图片并替换正文与特色图片中的地址；单张图片失败时保留原始地址
+  private async importPostMedia(run: ImportRun, bundle: ImportBundle, post: ImportedPost): Promise<ImportedPost> {
+    const urls = new Map<string, string>();
+    const refs = new Set(collectImageRefs(post.content));
+    if (post.featuredImage) refs.add(post.featuredImage);
+
+    for (const ref of refs) {
+      const asset = bundle.resolveAsset(ref, post);
+      if (!asset) continue;
+
+      const url = await this.importMedia(run, asset);
+      if (url) urls.set(ref, url);
+    }
+
+    if (urls.size === 0) return post;
+    return {
+      ...post,
+      content: rewriteImageRefs(post.content, urls),
+      featuredImage: post.featuredImage ? urls.get(post.featuredImage) || post.featuredImage : post.featuredImage,
+    };
+  }
+
+  // 上传单张图片，返回公开地址；内容相同的图片只保存一份
+  private async importMedia(run: ImportRun, asset: ImportAsset): Promise<string | null> {
+    if (run.mediaUrls.has(asset.sourceId)) {
+      return run.mediaUrls.get(asset.sourceId) || null;
+    }
+
+    try {
+      const record = await this.findRecord(run.source, 'media', asset.sourceId);
+      const existing = record ? await this.findMedia('id', record.entity_id) : null;
+      if (existing) {
+        run.mediaUrls.set(asset.sourceId, existing.file_url);
+        this.addItem(run, 'media', asset.sourceId, 'skip', { title: asset.filename, entityId: existing.id });
+        return existing.file_url;
+      }
+      if (run.options.dryRun) {
+        run.mediaUrls.set(asset.sourceId, null);
+        this.addItem(run, 'media', asset.sourceId, 'create', { title: asset.filename });
+        return null;
+      }
+
+      const extension = path.extname(asset.filename).toLowerCase();
+      const mimeType = IMAGE_MIME_TYPES[extension];
+      if (!mimeType || !run.allowedFileTypes.includes(mimeType)) {
+        throw new Error(`不支持的图片类型: ${asset.filename}`);
+      }
+      const buffer = await asset.load();
+      if (buffer.length > run.maxFileSize) {
+        throw new Error(`图片超过大小限制: ${asset.filename}`);
+      }
+
+      const hash = checksum(buffer);
+      const filename = `${hash.slice(0, 32)}${extension}`;
+      const filePath = `${MEDIA_FOLDER}/${filename}`;
+      let media = await this.findMedia('file_path', filePath);
+      if (!media) {
+        const client = this.supabase.getServiceClient();
+        const { error: uploadError } = await client.storage
+          .from(this.mediaBucket)
+          .upload(filePath, buffer, { contentType: mimeType, upsert: true });
+        if (uploadError) throw uploadError;
+
+        const fileUrl = client.storage.from(this.mediaBucket).getPublicUrl(filePath).data.publicUrl;
+        const { data, error } = await client
+          .from('media')
+          .insert({
+            author_id: run.options.authorId,
+            filename,
+            original_name: asset.filename,
+            file_path: filePath,
+            file_url: fileUrl,
+            file_type: 'image',
+            file_size: buffer.length,
+            mime_type: mimeType,
+            folder_path: `/${MEDIA_FOLDER}`,
+          })
+          .select('id, file_url')
+          .single();
+        if (error) throw error;
+        media = data as { id: string; file_url: string };
+      }
+
+      await this.saveRecord(run.source, 'media', asset.sourceId, media.id, hash);
+      run.mediaUrls.set(asset.sourceId, media.file_url);
+      this.addItem(run, 'media', asset.sourceId, 'create', { title: asset.filename, entityId: media.id });
+      return media.file_url;
+    } catch (error) {
+      run.mediaUrls.set(asset.sourceId, null);
+      this.addItem(run, 'media', asset.sourceId, 'error', { title: asset.filename, message: errorMessage(error) });
+      return null;
+    }
+  }
+
+  // 查询未删除的媒体
+  private async findMedia(column: 'id' | 'file_path', value: string): Promise<{ id: string; file_url: string } | null> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('media')
+      .select('id, file_url')
+      .eq(column, value)
+      .eq('status', 'active')
+      .maybeSingle();
+    if (error) throw error;
+    return (data as { id: string; file_url: string } | null) || null;
+  }
+
+  // ==================== 评论 ====================
+
+  // 以游客评论写入文章的评论；父评论先于回复写入
+  private async importComments(run: ImportRun, post: ImportedPost, postId: string | null): Promise<void> {
+    const ids = new Map<string, string | null>();
+
+    for (const comment of orderComments(post.comments)) {
+      try {
+        const record = await this.findRecord(run.source, 'comment', comment.sourceId);
+        if (record) {
+          ids.set(comment.sourceId, record.entity_id);
+          this.addItem(run, 'comment', comment.sourceId, 'skip', { title: comment.authorName, entityId: record.entity_id });
+          continue;
+        }
+        if (run.options.dryRun || !postId) {
+          ids.set(comment.sourceId, null);
+          this.addItem(run, 'comment', comment.sourceId, 'create', { title: comment.authorName });
+          continue;
+        }
+
+        const parentId = comment.parentSourceId ? ids.get(comment.parentSourceId) || null : null;
+        const { data, error } = await this.supabase.getServiceClient()
+          .from('comments')
+          .insert({
+            post_id: postId,
+            author_id: null,
+            parent_id: parentId,
+            guest_name: comment.authorName.slice(0, 100),
+            guest_email: comment.authorEmail || null,
+            content: comment.content,
+            content_html: renderCommentHtml(comment.content),
+            status: comment.status,
+            ...(comment.createdAt ? { created_at: comment.createdAt } : {}),
+          })
+          .select('id')
+          .single();
+        if (error) throw error;
+
+        const id = (data as { id: string }).id;
+        ids.set(comment.sourceId, id);
+        await this.saveRecord(run.source, 'comment', comment.sourceId, id, null);
+        this.addItem(run, 'comment', comment.sourceId, 'create', { title: comment.authorName, entityId: id });
+      } catch (error) {
+        this.addItem(run, 'comment', comment.sourceId, 'error', { title: comment.authorName, message: errorMessage(error) });
+      }
+    }
+  }
+
+  // ==================== 设置 ====================
+
+  // 写入来源中的站点设置；单项失败记录为警告
+  private async restoreSettings(run: ImportRun, settings: Record<string, unknown>): Promise<void> {
+    for (const [key, value] of Object.entries(settings)) {
+      try {
+        if (!run.options.dryRun) await this.settings.set(key, value);
+        run.report.settingsRestored.push(key);
+      } catch (error) {
+        run.report.warnings.push(`写入设置 ${key} 失败: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  // ==================== 导入记录 ====================
+
+  // 查询导入记录
+  private async findRecord(source: string, type: ImportEntityType, sourceId: string): Promise<ImportRecordRow | null> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('import_records')
+      .select('*')
+      .eq('source', source)
+      .eq('entity_type', type)
+      .eq('source_id', sourceId)
+      .maybeSingle();
+    if (error) throw error;
+    return (data as ImportRecordRow | null) || null;
+  }
+
+  // 写入或更新导入记录
+  private async saveRecord(
+    source: string,
+    type: ImportEntityType,
+    sourceId: string,
+    entityId: string,
+    digest: string | null
+  ): Promise<void> {
+    const { error } = await this.supabase.getServiceClient()
+      .from('import_records')
+      .upsert(
+        { source, entity_type: type, source_id: sourceId, entity_id: entityId, checksum: digest },
+        { onConflict: 'source,entity_type,source_id' }
+      );
+    if (error) throw error;
+  }
+
+  // 记录结果并更新统计
+  private addItem(
+    run: ImportRun,
+    type: ImportEntityType,
+    sourceId: string,
+    action: ImportAction,
+    details: Omit<ImportReportItem, 'type' | 'sourceId' | 'action'> = {}
+  ): void {
+    const counts = type === 'post' ? run.report.posts : type === 'comment' ? run.report.comments : run.report.media;
+    if (action === 'create') counts.created++;
+    else if (action === 'update') counts.updated++;
+    else if (action === 'skip') counts.skipped++;
+    else counts.failed++;
+    run.report.items.push({ type, sourceId, action, ...details });
+  }
+}
+
+// 按回复关系排序：父评论在前，父评论不存在时作为顶级评论
+function orderComments(comments: ImportedComment[]): ImportedComment[] {
+  const bySource = new Map(comments.map(comment => [comment.sourceId, comment]));
+  const ordered: ImportedComment[] = [];
+  const visited = new Set<string>();
+
+  const visit = (comment: ImportedComment) => {
+    if (visited.has(comment.sourceId)) return;
+    visited.add(comment.sourceId);
+    const parent = comment.parentSourceId ? bySource.get(comment.parentSourceId) : undefined;
+    if (parent) visit(parent);
+    ordered.push(comment);
+  };
+  comments.forEach(visit);
+  return ordered;
+}
+
+// 命令行入口：
+// content:import -- --dir <目录> | --wxr <文件> | --archive <文件> --author <用户 ID>
+//   [--layout hexo|hugo|jekyll|markdown] [--source <名称>] [--dry-run] [--skip-media] [--skip-comments] [--restore-settings]
+export async function main() {
+  const args = cliArgs();
+  const dir = argValue(args, '--dir');
+  const wxr = argValue(args, '--wxr');
+  const archive = argValue(args, '--archive');
+  const authorId = argValue(args, '--author');
+  const layout = argValue(args, '--layout');
+
+  if ([dir, wxr, archive].filter(Boolean).length !== 1 || !authorId) {
+    console.error('用法: content:import -- --dir <目录> | --wxr <文件> | --archive <文件> --author <用户 ID> [--dry-run]');
+    process.exit(1);
+  }
+  if (layout && !['hexo', 'hugo', 'jekyll', 'markdown'].includes(layout)) {
+    console.error(`❌ 不支持的目录布局: ${layout}`);
+    process.exit(1);
+  }
+
+  try {
+    const service = new ImportService();
+    const options: ImportOptions = {
+      authorId: authorId!,
+      source: argValue(args, '--source'),
+      dryRun: args.includes('--dry-run'),
+      skipMedia: args.includes('--skip-media'),
+      skipComments: args.includes('--skip-comments'),
+      restoreSettings: args.includes('--restore-settings'),
+    };
+    const report = dir
+      ? await service.importDirectory(dir, { ...options, layout: layout as MarkdownLayout | undefined })
+      : wxr
+        ? await service.importWxr(wxr, options)
+        : await service.importArchive(archive!, options);
+
+    console.log(`📦 来源: ${report.source}（${report.format}）${report.dryRun ? '，试运行，未写入' : ''}`);
+    report.items
+      .filter(item => item.action !== 'skip')
+      .forEach(item => console.log(`  ${item.action.padEnd(6)} ${item.type.padEnd(7)} ${item.sourceId}${item.title ? ` ${item.title}` : ''}${item.message ? ` - ${item.message}` : ''}`));
+    (['posts', 'comments', 'media'] as const).forEach(type => {
+      const counts = report[type];
+      console.log(`📄 ${type}: 新建 ${counts.created}，更新 ${counts.updated}，跳过 ${counts.skipped}，失败 ${counts.failed}`);
+    });
+    if (report.categoriesCreated.length > 0) console.log(`🗂️ 新建分类: ${report.categoriesCreated.join(', ')}`);
+    if (report.tagsCreated.length > 0) console.log(`🏷️ 新建标签: ${report.tagsCreated.join(', ')}`);
+    if (report.settingsRestored.length > 0) console.log(`⚙️ 写入设置: ${report.settingsRestored.join(', ')}`);
+    report.warnings.forEach(warning => console.log(`⚠️ ${warning}`));
+
+    const failed = report.posts.failed + report.comments.failed + report.media.failed;
+    console.log(failed > 0 ? `⚠️ 导入完成，${failed} 个条目失败` : '✅ 导入完成');
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('❌ 导入失败:', errorMessage(error));
+    process.exit(1);
+  }
+}
+
+// 如果直接运行此文件
+if (require.main === module) {
+  main();
+}
+
+export default ImportService;
@@ -0,0 +1,138 @@
+// 导入类型定义
+// Markdown 目录与 WordPress WXR 解析后统一转换为以下结构，再由 ImportService 写入数据库
+
+// 导入来源格式（archive 为 ExportService 生成的归档）
+export type ImportFormat = 'hexo' | 'hugo' | 'jekyll' | 'markdown' | 'wxr' | 'archive';
+
+// 导入的评论（作为游客评论写入）
+export interface ImportedComment {
+  // 来源中的评论 ID，用于重复导入时识别
+  sourceId: string;
+  parentSourceId?: string | null;
+  authorName: string;
+  authorEmail?: string | null;
+  // Markdown 或纯文本
+  content: string;
+  status: 'pending' | 'approved' | 'spam';
+  createdAt?: string | null;
+}
+
+// 导入的文章
+export interface ImportedPost {
+  // 来源中的文章标识（Markdown 为相对路径或 front-matter 中的 id，WXR 为 wp:post_id）
+  sourceId: string;
+  title: string;
+  // 为空时由数据库按标题生成
+  slug?: string | null;
+  content: string;
+  excerpt?: string | null;
+  status: 'draft' | 'published' | 'archived';
+  publishedAt?: string | null;
+  createdAt?: string | null;
+  // 分类路径：每项从顶级分类到末级分类
+  categories: string[][];
+  tags: string[];
+  featuredImage?: string | null;
+  seoDescription?: string | null;
+  seoKeywords?: string[] | null;
+  // 以下字段只有归档提供，未提供时使用默认值
+  seoTitle?: string | null;
+  visibility?: 'public' | 'private' | 'password_protected';
+  // bcrypt 哈希，写入后保持不变
+  passwordHash?: string | null;
+  featured?: boolean;
+  pinned?: boolean;
+  commentEnabled?: boolean;
+  comments: ImportedComment[];
+  // 解析相对图片路径使用的目录（Markdown 文件所在目录）
+  baseDir?: string;
+}
+
+// 可上传的图片
+export interface ImportAsset {
+  // 来源中的图片标识（本地相对路径或原始 URL），用于重复导入时识别
+  sourceId: string;
+  filename: string;
+  load: () => Promise<Buffer>;
+}
+
+// 导入的分类、标签（归档提供完整的分类树与没有文章的分类、标签）
+export interface ImportedTaxonomy {
+  name: string;
+  slug?: string | null;
+  description?: string | null;
+  color?: string | null;
+  icon?: string | null;
+  // 父分类名称
+  parent?: string | null;
+  sortOrder?: number | null;
+}
+
+// 解析结果
+export interface ImportBundle {
+  format: ImportFormat;
+  posts: ImportedPost[];
+  categories?: ImportedTaxonomy[];
+  tags?: ImportedTaxonomy[];
+  // 站点设置，只有 restoreSettings 时写入
+  settings?: Record<string, unknown>;
+  warnings: string[];
+  // 把正文中引用的图片地址解析为可上传的图片；无法解析或不需要上传时返回 null
+  resolveAsset: (ref: string, post: ImportedPost) => ImportAsset | null;
+}
+
+// 导入记录中的实体类型
+export type ImportEntityType = 'post' | 'comment' | 'media';
+
+// 单条导入结果
+export type ImportAction = 'create' | 'update' | 'skip' | 'error';
+
+export interface ImportReportItem {
+  type: ImportEntityType;
+  sourceId: string;
+  action: ImportAction;
+  title?: string;
+  entityId?: string | null;
+  message?: string;
+}
+
+// 单类实体的统计
+export interface ImportCounts {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+// 导入报告
+export interface ImportReport {
+  format: ImportFormat;
+  source: string;
+  dryRun: boolean;
+  posts: ImportCounts;
+  comments: ImportCounts;
+  media: ImportCounts;
+  // 新建的分类、标签名称
+  categoriesCreated: string[];
+  tagsCreated: string[];
+  // 写入的设置键
+  settingsRestored: string[];
+  items: ImportReportItem[];
+  warnings: string[];
+}
+
+// 导入选项
+export interface ImportOptions {
+  // 导入文章的作者
+  authorId: string;
+  // 导入记录的来源名称，区分不同站点，默认使用格式名
+  source?: string;
+  // 只生成报告，不写入
+  dryRun?: boolean;
+  // 不上传图片，保留原始地址
+  skipMedia?: boolean;
+  // 不导入评论
+  skipComments?: boolean;
+  // 写入来源中的站点设置（覆盖已有的值）
+  restoreSettings?: boolean;
+}
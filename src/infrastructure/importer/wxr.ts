@@ -0,0 +1,241 @@
+// WordPress WXR 导入
+// 读取 WordPress 导出的 WXR 文件（RSS 2.0 + wp 命名空间），转换为 ImportBundle
+// 只导入 post 类型的条目；附件用于解析特色图片与正文图片，正文保留 HTML（文章渲染配置允许 HTML）
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { htmlToText } from '../render/markdown';
+import { childElements, childText, findElement, parseXml } from './xml';
+import type { XmlElement } from './xml';
+import type { ImportAsset, ImportBundle, ImportedComment, ImportedPost } from './types';
+
+// 读取选项
+export interface WxrImportOptions {
+  // 下载图片的超时时间（毫秒）
+  fetchTimeout?: number;
+}
+
+// 文章状态映射；未列出的状态（trash、auto-draft、inherit）不导入
+const STATUS_MAP: Record<string, ImportedPost['status']> = {
+  publish: 'published',
+  draft: 'draft',
+  pending: 'draft',
+  private: 'draft',
+  future: 'draft',
+};
+
+/** 读取 WXR 文件 */
+export async function readWxrFile(file: string, options: WxrImportOptions = {}): Promise<ImportBundle> {
+  let xml: string;
+  try {
+    xml = await fs.readFile(file, 'utf8');
+  } catch {
+    throw new Error(`WXR 文件不存在: ${file}`);
+  }
+  return parseWxr(xml, options);
+}
+
+/** 解析 WXR 文档 */
+export function parseWxr(xml: string, options: WxrImportOptions = {}): ImportBundle {
+  const channel = findElement(parseXml(xml), 'channel');
+  if (!channel || !findElement(channel, 'wp:wxr_version')) {
+    throw new Error('不是有效的 WordPress WXR 导出文件');
+  }
+
+  const fetchTimeout = options.fetchTimeout ?? 30000;
+  const warnings: string[] = [];
+  const siteUrl = childText(channel, 'wp:base_blog_url') || childText(channel, 'wp:base_site_url') || childText(channel, 'link');
+  const siteHost = hostOf(siteUrl);
+  const categoryPaths = readCategoryPaths(channel);
+  const items = childElements(channel, 'item');
+
+  // 附件：ID -> 地址
+  const attachments = new Map<string, string>();
+  for (const item of items) {
+    if (childText(item, 'wp:post_type') === 'attachment') {
+      const url = childText(item, 'wp:attachment_url') || childText(item, 'guid');
+      if (url) attachments.set(childText(item, 'wp:post_id'), url);
+    }
+  }
+  const attachmentUrls = new Set(attachments.values());
+
+  const posts: ImportedPost[] = [];
+  for (const item of items) {
+    if (childText(item, 'wp:post_type') !== 'post') continue;
+
+    const sourceId = childText(item, 'wp:post_id');
+    const title = htmlToText(childText(item, 'title')) || `untitled-${sourceId}`;
+    const wpStatus = childText(item, 'wp:status');
+    const status = STATUS_MAP[wpStatus];
+    if (!status) {
+      if (wpStatus !== 'trash' && wpStatus !== 'auto-draft' && wpStatus !== 'inherit') {
+        warnings.push(`跳过状态为 ${wpStatus || '未知'} 的文章: ${title}`);
+      }
+      continue;
+    }
+
+    const categories: string[][] = [];
+    const tags: string[] = [];
+    for (const term of childElements(item, 'category')) {
+      const name = decodeTermName(term.text);
+      if (!name) continue;
+      if (term.attributes.domain === 'category') {
+        categories.push(categoryPaths.get(term.attributes.nicename) || [name]);
+      } else if (term.attributes.domain === 'post_tag') {
+        tags.push(name);
+      }
+    }
+
+    const meta = readPostMeta(item);
+    const thumbnailId = meta.get('_thumbnail_id');
+
+    posts.push({
+      sourceId,
+      title,
+      slug: decodeSlug(childText(item, 'wp:post_name')) || null,
+      content: childText(item, 'content:encoded'),
+      excerpt: htmlToText(childText(item, 'excerpt:encoded')).trim() || null,
+      status,
+      publishedAt: parseWxrDate(childText(item, 'wp:post_date_gmt')) || parseWxrDate(childText(item, 'wp:post_date')),
+      categories,
+      tags,
+      featuredImage: (thumbnailId && attachments.get(thumbnailId)) || null,
+      seoDescription: meta.get('_yoast_wpseo_metadesc') || null,
+      seoKeywords: null,
+      comments: readComments(item),
+    });
+  }
+
+  if (posts.length === 0) {
+    warnings.push('WXR 文件中没有可导入的文章');
+  }
+
+  // 只下载附件与本站上传目录中的图片，其他外部图片保留原始地址
+  const resolveAsset = (ref: string): ImportAsset | null => {
+    const url = ref.trim();
+    if (!/^https?:\/\//i.test(url)) return null;
+    const isUpload = siteHost !== null && hostOf(url) === siteHost && url.includes('/wp-content/uploads/');
+    if (!attachmentUrls.has(url) && !isUpload) return null;
+
+    return {
+      sourceId: url,
+      filename: path.posix.basename(new URL(url).pathname) || 'image',
+      load: () => downloadAsset(url, fetchTimeout),
+    };
+  };
+
+  return { format: 'wxr', posts, warnings, resolveAsset };
+}
+
+// ==================== 辅助方法 ====================
+
+// 读取分类层级：别名 -> 从顶级分类开始的名称路径
+function readCategoryPaths(channel: XmlElement): Map<string, string[]> {
+  const categories = new Map<string, { name: string; parent: string }>();
+  for (const category of childElements(channel, 'wp:category')) {
+    const nicename = childText(category, 'wp:category_nicename');
+    const name = decodeTermName(childText(category, 'wp:cat_name'));
+    if (nicename && name) {
+      categories.set(nicename, { name, parent: childText(category, 'wp:category_parent') });
+    }
+  }
+
+  const paths = new Map<string, string[]>();
+  for (const nicename of categories.keys()) {
+    const names: string[] = [];
+    const visited = new Set<string>();
+    let current = categories.get(nicename);
+    let key = nicename;
+    // 父级缺失或形成环时停止
+    while (current && !visited.has(key)) {
+      visited.add(key);
+      names.unshift(current.name);
+      key = current.parent;
+      current = key ? categories.get(key) : undefined;
+    }
+    paths.set(nicename, names);
+  }
+  return paths;
+}
+
+// 读取文章自定义字段
+function readPostMeta(item: XmlElement): Map<string, string> {
+  const meta = new Map<string, string>();
+  for (const entry of childElements(item, 'wp:postmeta')) {
+    const key = childText(entry, 'wp:meta_key');
+    if (key) meta.set(key, childText(entry, 'wp:meta_value'));
+  }
+  return meta;
+}
+
+// 读取评论；跳过 pingback、trackback 与已删除的评论
+function readComments(item: XmlElement): ImportedComment[] {
+  const comments: ImportedComment[] = [];
+  for (const comment of childElements(item, 'wp:comment')) {
+    const type = childText(comment, 'wp:comment_type');
+    const approved = childText(comment, 'wp:comment_approved');
+    if (type === 'pingback' || type === 'trackback' || approved === 'trash') continue;
+
+    const content = commentHtmlToText(childText(comment, 'wp:comment_content'));
+    if (!content) continue;
+
+    const parent = childText(comment, 'wp:comment_parent');
+    comments.push({
+      sourceId: childText(comment, 'wp:comment_id'),
+      parentSourceId: parent && parent !== '0' ? parent : null,
+      authorName: htmlToText(childText(comment, 'wp:comment_author')).trim() || 'Anonymous',
+      authorEmail: childText(comment, 'wp:comment_author_email') || null,
+      content,
+      status: approved === '1' ? 'approved' : approved === 'spam' ? 'spam' : 'pending',
+      createdAt: parseWxrDate(childText(comment, 'wp:comment_date_gmt')) || parseWxrDate(childText(comment, 'wp:comment_date')),
+    });
+  }
+  return comments;
+}
+
+// 评论 HTML 转换为纯文本，保留换行与段落
+function commentHtmlToText(html: string): string {
+  return htmlToText(html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/p>\s*/gi, '\n\n'))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// WordPress 的日期格式为 YYYY-MM-DD HH:mm:ss，_gmt 字段为 UTC，未设置时为全零
+function parseWxrDate(value: string): string | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})$/);
+  if (!match || match[1] === '0000') return null;
+  const date = new Date(`${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}Z`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// 分类与标签名称可能包含 HTML 实体
+function decodeTermName(value: string): string {
+  return htmlToText(value).trim();
+}
+
+// WordPress 以百分号编码保存非 ASCII 别名
+function decodeSlug(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// 读取 URL 的主机名
+function hostOf(url: string): string | null {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+// 下载远程图片
+async function downloadAsset(url: string, timeout: number): Promise<Buffer> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(timeout) });
+  if (!response.ok) {
+    throw new Error(`下载图片失败: ${url} (${response.status})`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
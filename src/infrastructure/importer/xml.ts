@@ -0,0 +1,133 @@
+// XML 解析
+// 读取 WordPress WXR 导出文件所需的最小 XML 解析器：元素、属性、文本与 CDATA
+// 忽略声明、注释、处理指令与 DOCTYPE；不校验文档结构，未闭合的元素在文档结束时自动闭合
+
+// XML 元素
+export interface XmlElement {
+  // 带命名空间前缀的名称，例如 wp:post_id
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  // 直接包含的文本（含 CDATA），已还原字符实体
+  text: string;
+}
+
+// 预定义的字符实体
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/** 还原 XML 字符实体 */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+/** 解析 XML 文档，返回根元素 */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let index = 0;
+
+  while (index < source.length) {
+    const open = source.indexOf('<', index);
+    const current = stack[stack.length - 1];
+    if (open < 0) {
+      current.text += decodeXmlEntities(source.slice(index));
+      break;
+    }
+    if (open > index) {
+      current.text += decodeXmlEntities(source.slice(index, open));
+    }
+
+    if (source.startsWith('<![CDATA[', open)) {
+      const end = source.indexOf(']]>', open + 9);
+      const stop = end < 0 ? source.length : end;
+      current.text += source.slice(open + 9, stop);
+      index = stop + 3;
+    } else if (source.startsWith('<!--', open)) {
+      const end = source.indexOf('-->', open + 4);
+      index = end < 0 ? source.length : end + 3;
+    } else if (source.startsWith('<?', open) || source.startsWith('<!', open)) {
+      const end = source.indexOf('>', open);
+      index = end < 0 ? source.length : end + 1;
+    } else if (source.startsWith('</', open)) {
+      const end = source.indexOf('>', open);
+      const name = source.slice(open + 2, end < 0 ? source.length : end).trim();
+      // 关闭到同名元素为止，容忍缺少结束标签的元素
+      const position = stack.map(element => element.name).lastIndexOf(name);
+      if (position > 0) stack.length = position;
+      index = end < 0 ? source.length : end + 1;
+    } else {
+      const end = findTagEnd(source, open);
+      const body = source.slice(open + 1, end);
+      const selfClosing = body.endsWith('/');
+      const match = (selfClosing ? body.slice(0, -1) : body).match(/^([^\s/>]+)([\s\S]*)$/);
+      if (match) {
+        const element: XmlElement = { name: match[1], attributes: parseAttributes(match[2]), children: [], text: '' };
+        current.children.push(element);
+        if (!selfClosing) stack.push(element);
+      }
+      index = end + 1;
+    }
+  }
+
+  return root;
+}
+
+// 查找开始标签的结束位置（跳过属性值中的 >）
+function findTagEnd(source: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return source.length;
+}
+
+// 解析属性
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    attributes[match[1]] = decodeXmlEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/** 查找直接子元素 */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => child.name === name);
+}
+
+/** 读取第一个同名直接子元素的文本，不存在时返回空字符串 */
+export function childText(element: XmlElement, name: string): string {
+  const child = element.children.find(item => item.name === name);
+  return child ? child.text.trim() : '';
+}
+
+/** 深度优先查找第一个同名元素 */
+export function findElement(element: XmlElement, name: string): XmlElement | null {
+  for (const child of element.children) {
+    if (child.name === name) return child;
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return null;
+}
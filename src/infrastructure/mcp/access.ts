@@ -0,0 +1,52 @@
+// MCP 文章访问工具
+// 验证密码保护文章的密码，换取可传给 get_post 的解锁令牌
+
+import { InvalidPostPasswordError, PostAccessService, PostPasswordRateLimitError } from '../posts/access';
+import { MCPToolError } from './types';
+import type { MCPToolDefinition } from './types';
+
+// stdio 传输没有客户端地址，按本机处理
+const LOCAL_CLIENT_IP = '127.0.0.1';
+
+// 创建文章访问工具
+export function createAccessTools(service: PostAccessService): MCPToolDefinition[] {
+  const unlockPost: MCPToolDefinition = {
+    name: 'unlock_post',
+    description: 'Verify the password of a password-protected post and get a short-lived unlock token for get_post; repeated wrong passwords are rate-limited per client IP',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Post id',
+        },
+        password: {
+          type: 'string',
+          minLength: 1,
+          maxLength: 255,
+          description: 'Post password',
+        },
+      },
+      required: ['post_id', 'password'],
+    },
+    handler: async (args, context) => {
+      try {
+        const result = await service.unlock(args.post_id, args.password, {
+          ipAddress: context.clientIp || LOCAL_CLIENT_IP,
+        });
+        return { unlock_token: result.token, expires_at: result.expiresAt };
+      } catch (error) {
+        if (error instanceof PostPasswordRateLimitError) {
+          throw new MCPToolError(error.message, { retry_after: error.retryAfter });
+        }
+        if (error instanceof InvalidPostPasswordError) {
+          throw new MCPToolError(error.message);
+        }
+        throw error;
+      }
+    },
+  };
+
+  return [unlockPost];
+}
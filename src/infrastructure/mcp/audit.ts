@@ -0,0 +1,313 @@
+// MCP 工具调用审计
+// 将每次工具调用写入 user_activities（activity_type = 'mcp_tool_call'），并为管理员提供查询与导出接口
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import type { Database } from '../types/database';
+import type { MCPToolCallRecord, MCPToolCallRecorder, MCPToolDefinition } from './types';
+
+type ActivityRow = Database['public']['Tables']['user_activities']['Row'];
+
+// 审计记录的活动类型
+export const MCP_TOOL_CALL_ACTIVITY = 'mcp_tool_call';
+
+// 审计条目（含记录 ID 与写入时间）
+export interface MCPAuditEntry extends MCPToolCallRecord {
+  id: string;
+  created_at: string;
+}
+
+// 查询条件
+export interface MCPAuditFilter {
+  tool?: string;
+  callerId?: string;
+  sessionId?: string;
+  success?: boolean;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// 导出格式
+export type MCPAuditExportFormat = 'json' | 'csv';
+
+// 参数中需要脱敏的字段
+const SENSITIVE_KEY_PATTERN = /password|token|secret|api_?key/i;
+
+// 单个字符串参数的最大保留长度
+const MAX_PARAM_STRING_LENGTH = 2000;
+
+// 分页与导出上限
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+const MAX_EXPORT_ROWS = 10000;
+
+// CSV 列
+const CSV_COLUMNS: Array<keyof MCPAuditEntry> = [
+  'id',
+  'created_at',
+  'started_at',
+  'tool',
+  'success',
+  'error',
+  'duration_ms',
+  'caller_id',
+  'caller_role',
+  'session_id',
+  'params',
+];
+
+// ==================== 辅助函数 ====================
+
+// 脱敏并截断参数，避免在审计表中保存密码、令牌或超长正文
+export function sanitizeAuditParams(value: unknown, key?: string): unknown {
+  if (key && SENSITIVE_KEY_PATTERN.test(key)) {
+    return '[REDACTED]';
+  }
+  if (typeof value === 'string' && value.length > MAX_PARAM_STRING_LENGTH) {
+    return `${value.slice(0, MAX_PARAM_STRING_LENGTH)}…(+${value.length - MAX_PARAM_STRING_LENGTH} chars)`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => sanitizeAuditParams(item));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([childKey, child]) => {
+      result[childKey] = sanitizeAuditParams(child, childKey);
+    });
+    return result;
+  }
+  return value;
+}
+
+// CSV 单元格转义
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 将数据库行转换为审计条目
+function toAuditEntry(row: ActivityRow): MCPAuditEntry {
+  const data = (row.activity_data || {}) as Partial<MCPToolCallRecord>;
+  return {
+    id: row.id,
+    created_at: row.created_at,
+    tool: data.tool || '',
+    params: data.params ?? {},
+    success: Boolean(data.success),
+    error: data.error,
+    caller_id: row.user_id,
+    caller_role: data.caller_role ?? null,
+    session_id: data.session_id ?? null,
+    duration_ms: data.duration_ms ?? 0,
+    started_at: data.started_at || row.created_at,
+  };
+}
+
+// ==================== 审计日志 ====================
+
+export class MCPAuditLog {
+  private supabase: SupabaseService;
+
+  constructor(supabase: SupabaseService = getSupabaseService()) {
+    this.supabase = supabase;
+  }
+
+  // 写入一条工具调用记录
+  async record(record: MCPToolCallRecord): Promise<void> {
+    const { caller_id, ...data } = record;
+
+    const { error } = await this.supabase.getServiceClient()
+      .from('user_activities')
+      .insert({
+        user_id: caller_id,
+        activity_type: MCP_TOOL_CALL_ACTIVITY,
+        activity_data: {
+          ...data,
+          params: sanitizeAuditParams(record.params),
+        },
+      });
+
+    if (error) throw error;
+  }
+
+  // 返回可传给 MCPServer 的记录函数
+  recorder(): MCPToolCallRecorder {
+    return record => this.record(record);
+  }
+
+  // 分页查询工具调用记录
+  async list(filter: MCPAuditFilter = {}): Promise<{ calls: MCPAuditEntry[]; total: number }> {
+    const limit = Math.min(Math.max(filter.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const offset = Math.max(filter.offset || 0, 0);
+
+    const { data, error, count } = await this.buildQuery(filter)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+
+    return {
+      calls: ((data || []) as ActivityRow[]).map(toAuditEntry),
+      total: count || 0,
+    };
+  }
+
+  // 导出符合条件的全部记录（最多 10000 条）
+  async export(filter: MCPAuditFilter = {}, format: MCPAuditExportFormat = 'json'): Promise<string> {
+    const entries: MCPAuditEntry[] = [];
+
+    while (entries.length < MAX_EXPORT_ROWS) {
+      const { calls } = await this.list({ ...filter, limit: MAX_LIMIT, offset: entries.length });
+      entries.push(...calls);
+      if (calls.length < MAX_LIMIT) break;
+    }
+
+    if (format === 'csv') {
+      const lines = entries.map(entry => CSV_COLUMNS.map(column => toCsvCell(entry[column])).join(','));
+      return [CSV_COLUMNS.join(','), ...lines].join('\n');
+    }
+
+    return JSON.stringify(entries, null, 2);
+  }
+
+  // 构造带过滤条件的查询
+  private buildQuery(filter: MCPAuditFilter) {
+    let query = this.supabase.getServiceClient()
+      .from('user_activities')
+      .select('*', { count: 'exact' })
+      .eq('activity_type', MCP_TOOL_CALL_ACTIVITY);
+
+    if (filter.tool) {
+      query = query.eq('activity_data->>tool', filter.tool);
+    }
+    if (filter.callerId) {
+      query = query.eq('user_id', filter.callerId);
+    }
+    if (filter.sessionId) {
+      query = query.eq('activity_data->>session_id', filter.sessionId);
+    }
+    if (filter.success !== undefined) {
+      query = query.eq('activity_data->>success', String(filter.success));
+    }
+    if (filter.from) {
+      query = query.gte('created_at', filter.from);
+    }
+    if (filter.to) {
+      query = query.lte('created_at', filter.to);
+    }
+
+    return query;
+  }
+}
+
+// ==================== 管理员工具 ====================
+
+// 公共过滤参数
+const AUDIT_FILTER_PROPERTIES = {
+  tool: {
+    type: 'string',
+    description: 'Only calls of this tool',
+  },
+  caller_id: {
+    type: 'string',
+    format: 'uuid',
+    description: 'Only calls made by this user',
+  },
+  session_id: {
+    type: 'string',
+    description: 'Only calls made in this session',
+  },
+  success: {
+    type: 'boolean',
+    description: 'Only successful (true) or failed (false) calls',
+  },
+  from: {
+    type: 'string',
+    format: 'date-time',
+    description: 'Only calls at or after this time',
+  },
+  to: {
+    type: 'string',
+    format: 'date-time',
+    description: 'Only calls at or before this time',
+  },
+};
+
+// 将工具参数转换为查询条件
+function toAuditFilter(args: Record<string, any>): MCPAuditFilter {
+  return {
+    tool: args.tool,
+    callerId: args.caller_id,
+    sessionId: args.session_id,
+    success: typeof args.success === 'boolean' ? args.success : undefined,
+    from: args.from,
+    to: args.to,
+    limit: typeof args.limit === 'number' ? args.limit : undefined,
+    offset: typeof args.offset === 'number' ? args.offset : undefined,
+  };
+}
+
+// 创建审计查询工具（仅管理员可用）
+export function createAuditTools(auditLog: MCPAuditLog): MCPToolDefinition[] {
+  const listToolCalls: MCPToolDefinition = {
+    name: 'list_tool_calls',
+    description: 'List recorded MCP tool calls, newest first (admin only)',
+    permission: 'canManage',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...AUDIT_FILTER_PROPERTIES,
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_LIMIT,
+          description: 'Maximum number of calls to return',
+          default: DEFAULT_LIMIT,
+        },
+        offset: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Number of calls to skip',
+          default: 0,
+        },
+      },
+      required: [],
+    },
+    handler: async (args) => {
+      const filter = toAuditFilter(args);
+      const result = await auditLog.list(filter);
+      return { ...result, limit: filter.limit || DEFAULT_LIMIT, offset: filter.offset || 0 };
+    },
+  };
+
+  const exportToolCalls: MCPToolDefinition = {
+    name: 'export_tool_calls',
+    description: 'Export recorded MCP tool calls as JSON or CSV (admin only)',
+    permission: 'canManage',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...AUDIT_FILTER_PROPERTIES,
+        format: {
+          type: 'string',
+          enum: ['json', 'csv'],
+          description: 'Export format',
+          default: 'json',
+        },
+      },
+      required: [],
+    },
+    handler: async (args) => {
+      const format: MCPAuditExportFormat = args.format === 'csv' ? 'csv' : 'json';
+      const { limit: _limit, offset: _offset, ...filter } = toAuditFilter(args);
+      return {
+        format,
+        content: await auditLog.export(filter, format),
+      };
+    },
+  };
+
+  return [listToolCalls, exportToolCalls];
+}
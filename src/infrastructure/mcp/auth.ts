@@ -0,0 +1,62 @@
+// MCP 调用方认证
+// 将用户 ID 或 Bearer 令牌解析为 profiles 记录，并按角色计算工具权限
+
+import SupabaseService, { getSupabaseService, getPermissionsByRole } from '../supabase/client';
+import type { UserPermissions } from '../supabase/client';
+import type { MCPCaller } from './types';
+
+// Bearer 令牌认证函数
+export type MCPAuthenticator = (token: string) => Promise<MCPCaller | null>;
+
+// 无调用方时的权限
+const NO_PERMISSIONS: UserPermissions = {
+  canRead: false,
+  canWrite: false,
+  canDelete: false,
+  canManage: false,
+};
+
+// 获取调用方权限，规则与 SupabaseService.getUserPermissions 一致
+export function getCallerPermissions(caller: MCPCaller | null): UserPermissions {
+  if (!caller) {
+    return { ...NO_PERMISSIONS };
+  }
+  return getPermissionsByRole(caller.role, caller.status);
+}
+
+// 根据用户 ID 加载调用方资料
+export async function resolveCaller(
+  userId: string,
+  supabase: SupabaseService = getSupabaseService()
+): Promise<MCPCaller | null> {
+  const { data, error } = await supabase.getServiceClient()
+    .from('profiles')
+    .select('id, role, status')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// 创建基于 Supabase 访问令牌的认证函数
+export function createSupabaseAuthenticator(
+  supabase: SupabaseService = getSupabaseService()
+): MCPAuthenticator {
+  return async (token: string) => {
+    const { data: { user }, error } = await supabase.getServiceClient().auth.getUser(token);
+    if (error || !user) {
+      return null;
+    }
+    return resolveCaller(user.id, supabase);
+  };
+}
+
+// 从 Authorization 头中提取 Bearer 令牌
+export function extractBearerToken(header: string | string[] | undefined): string | null {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) return null;
+
+  const match = /^Bearer\s+(.+)$/i.exec(value.trim());
+  return match ? match[1].trim() : null;
+}
@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { HttpTransport, MCP_SESSION_HEADER, isAllowedOrigin } from './http';
+import type { HttpTransportOptions } from './http';
+import { MCPServer } from './server';
+import type { MCPCaller } from './types';
+
+const TOKEN = 'token-1';
+const CALLER: MCPCaller = { id: 'user-1', role: 'user', status: 'active' };
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+let transport: HttpTransport | null = null;
+
+afterEach(async () => {
+  await transport?.close();
+  transport = null;
+});
+
+// 启动监听随机端口的 HTTP 传输层，只有一个回显工具
+async function startTransport(options: Partial<HttpTransportOptions> = {}): Promise<string> {
+  const server = new MCPServer().registerTool({
+    name: 'echo',
+    description: '回显参数',
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+    handler: async (args, context) => ({ text: args.text, caller: context.caller?.id }),
+  });
+  transport = new HttpTransport(server, {
+    authenticate: async token => (token === TOKEN ? CALLER : null),
+    ...options,
+  });
+  const port = await transport.listen(0);
+  return `http://127.0.0.1:${port}/mcp`;
+}
+
+// 发送 JSON-RPC 消息
+function post(url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+// 完成握手，返回会话 ID
+async function initialize(url: string): Promise<string> {
+  const response = await post(url, INITIALIZE);
+  expect(response.status).toBe(200);
+  const sessionId = response.headers.get(MCP_SESSION_HEADER)!;
+  await post(url, { jsonrpc: '2.0', method: 'notifications/initialized' }, { [MCP_SESSION_HEADER]: sessionId });
+  return sessionId;
+}
+
+// 打开 SSE 流，读取到包含 until 的内容后返回
+async function readStream(url: string, sessionId: string, until: string, controller = new AbortController()): Promise<string> {
+  const response = await fetch(url, {
+    headers: { Authorization: `Bearer ${TOKEN}`, Accept: 'text/event-stream', [MCP_SESSION_HEADER]: sessionId },
+    signal: controller.signal,
+  });
+  expect(response.status).toBe(200);
+  expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  while (!text.includes(until)) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value);
+  }
+  return text;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('HttpTransport', () => {
+  it('缺少或无效的令牌返回 401', async () => {
+    const url = await startTransport();
+    const missing = await fetch(url, { method: 'POST', body: JSON.stringify(INITIALIZE) });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toContain('Bearer');
+
+    const invalid = await post(url, INITIALIZE, { Authorization: 'Bearer wrong' });
+    expect(invalid.status).toBe(401);
+  });
+
+  it('initialize 创建会话并在响应头中返回会话 ID', async () => {
+    const url = await startTransport();
+    const response = await post(url, INITIALIZE);
+    expect(response.status).toBe(200);
+    expect(response.headers.get(MCP_SESSION_HEADER)).toMatch(/^[0-9a-f-]{36}$/);
+    expect((await response.json()).result.protocolVersion).toBe('2024-11-05');
+    expect(transport!.getSessionCount()).toBe(1);
+  });
+
+  it('在会话中调用工具', async () => {
+    const url = await startTransport();
+    const sessionId = await initialize(url);
+    const response = await post(
+      url,
+      { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'echo', arguments: { text: '你好' } } },
+      { [MCP_SESSION_HEADER]: sessionId }
+    );
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(JSON.parse(body.result.content[0].text)).toEqual({ text: '你好', caller: CALLER.id });
+  });
+
+  it('缺少会话 ID 返回 400，未知会话返回 404', async () => {
+    const url = await startTransport();
+    const message = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+    expect((await post(url, message)).status).toBe(400);
+    expect((await post(url, message, { [MCP_SESSION_HEADER]: 'missing' })).status).toBe(404);
+  });
+
+  it('SSE 流发送连接确认与心跳', async () => {
+    const url = await startTransport({ heartbeatInterval: 20 });
+    const sessionId = await initialize(url);
+    const controller = new AbortController();
+    const text = await readStream(url, sessionId, ': ping', controller);
+    controller.abort();
+    expect(text).toContain(': connected\n\n');
+    expect(text).toContain(': ping\n\n');
+  });
+
+  it('空闲超过 sessionTtl 的会话过期', async () => {
+    const url = await startTransport({ sessionTtl: 20 });
+    const sessionId = await initialize(url);
+    await sleep(50);
+    const response = await post(url, { jsonrpc: '2.0', id: 2, method: 'ping' }, { [MCP_SESSION_HEADER]: sessionId });
+    expect(response.status).toBe(404);
+  });
+
+  it('DELETE 结束会话', async () => {
+    const url = await startTransport();
+    const sessionId = await initialize(url);
+    const response = await fetch(url, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${TOKEN}`, [MCP_SESSION_HEADER]: sessionId },
+    });
+    expect(response.status).toBe(204);
+    expect(transport!.getSessionCount()).toBe(0);
+  });
+
+  it('拒绝不在白名单中的 Origin', async () => {
+    const url = await startTransport();
+    expect((await post(url, INITIALIZE, { Origin: 'http://evil.example.com' })).status).toBe(403);
+    expect((await post(url, INITIALIZE, { Origin: 'http://localhost:3000' })).status).toBe(200);
+  });
+
+  it('会话达到上限时淘汰最久未使用的空闲会话，全部有 SSE 流时返回 503', async () => {
+    const url = await startTransport({ maxSessions: 1 });
+    const first = await initialize(url);
+    const second = await initialize(url);
+    expect(transport!.getSession(first)).toBeUndefined();
+    expect(transport!.getSessionCount()).toBe(1);
+
+    const controller = new AbortController();
+    await readStream(url, second, ': connected', controller);
+    const response = await post(url, INITIALIZE);
+    expect(response.status).toBe(503);
+    expect(transport!.getSession(second)).toBeDefined();
+    controller.abort();
+  });
+});
+
+describe('isAllowedOrigin', () => {
+  it.each([
+    ['http://localhost:3000', undefined, true],
+    ['http://127.0.0.1', undefined, true],
+    ['http://[::1]:8080', undefined, true],
+    ['http://evil.example.com', undefined, false],
+    ['http://localhost.evil.example.com', undefined, false],
+    ['null', undefined, false],
+    ['https://admin.example.com', ['https://admin.example.com/'], true],
+    ['http://localhost:3000', ['https://admin.example.com'], false],
+  ])('%s（白名单 %j）→ %s', (origin, allowedOrigins, expected) => {
+    expect(isAllowedOrigin(origin, allowedOrigins)).toBe(expected);
+  });
+});
@@ -0,0 +1,413 @@
+// MCP HTTP 传输层
+// POST 接收 JSON-RPC 消息，GET 建立 SSE 流，DELETE 结束会话；所有请求都需要 Bearer 令牌
+// 浏览器请求的 Origin 必须在白名单中（默认只允许本机地址），防止 DNS 重绑定
+// 服务器目前没有主动推送的消息，SSE 流只发送心跳，所有响应都在 POST 的响应体中返回
+
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import type { MCPServer } from './server';
+import { extractBearerToken } from './auth';
+import type { MCPAuthenticator } from './auth';
+import type { JsonRpcResponse, MCPCaller } from './types';
+import { JSON_RPC_ERRORS } from './types';
+
+// 会话 ID 请求头
+export const MCP_SESSION_HEADER = 'mcp-session-id';
+
+// HTTP 传输选项
+export interface HttpTransportOptions {
+  authenticate: MCPAuthenticator;
+  path?: string;
+  sessionTtl?: number;
+  maxBodySize?: number;
+  heartbeatInterval?: number;
+  // 位于反向代理之后时从 X-Forwarded-For 读取客户端 IP
+  trustProxy?: boolean;
+  // 会话数量上限；达到上限时淘汰最久未使用的空闲会话，所有会话都有 SSE 流时拒绝新的 initialize
+  maxSessions?: number;
+  // 允许的浏览器来源（如 https://admin.example.com）；未设置时只允许本机地址，不带 Origin 的请求不受限制
+  allowedOrigins?: string[];
+}
+
+// 会话
+export interface MCPHttpSession {
+  id: string;
+  caller: MCPCaller;
+  createdAt: number;
+  lastSeenAt: number;
+  streams: Set<ServerResponse>;
+}
+
+// 请求体过大
+class PayloadTooLargeError extends Error {}
+
+// 本机地址
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/** 判断浏览器来源是否允许访问；未设置白名单时只允许本机地址 */
+export function isAllowedOrigin(origin: string, allowedOrigins?: string[]): boolean {
+  if (allowedOrigins) {
+    return allowedOrigins.some(allowed => allowed.replace(/\/+$/, '') === origin);
+  }
+  try {
+    return LOOPBACK_HOSTNAMES.includes(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+export class HttpTransport {
+  private path: string;
+  private sessionTtl: number;
+  private maxBodySize: number;
+  private heartbeatInterval: number;
+  private trustProxy: boolean;
+  private maxSessions: number;
+  private allowedOrigins?: string[];
+  private authenticate: MCPAuthenticator;
+  private sessions = new Map<string, MCPHttpSession>();
+  private httpServer: Server | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(private server: MCPServer, options: HttpTransportOptions) {
+    this.authenticate = options.authenticate;
+    this.path = options.path || '/mcp';
+    this.sessionTtl = options.sessionTtl || 30 * 60 * 1000;
+    this.maxBodySize = options.maxBodySize || 1024 * 1024;
+    this.heartbeatInterval = options.heartbeatInterval || 15 * 1000;
+    this.trustProxy = options.trustProxy === true;
+    this.maxSessions = options.maxSessions || 1000;
+    this.allowedOrigins = options.allowedOrigins;
+  }
+
+  // ==================== 生命周期 ====================
+
+  // 启动 HTTP 服务器，返回实际监听端口
+  listen(port: number = 0, host: string = '127.0.0.1'): Promise<number> {
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('MCP HTTP 请求处理失败:', error);
+        if (!res.headersSent) {
+          this.sendJson(res, 500, this.errorBody(JSON_RPC_ERRORS.INTERNAL_ERROR, 'Internal error'));
+        } else {
+          res.end();
+        }
+      });
+    });
+    this.httpServer = httpServer;
+
+    this.heartbeat = setInterval(() => this.sendHeartbeat(), this.heartbeatInterval);
+    this.heartbeat.unref();
+
+    return new Promise((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(port, host, () => {
+        const address = httpServer.address();
+        resolve(typeof address === 'object' && address ? address.port : port);
+      });
+    });
+  }
+
+  // 关闭所有会话与 HTTP 服务器
+  close(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+
+    Array.from(this.sessions.keys()).forEach(id => this.closeSession(id));
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    if (!httpServer) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      httpServer.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  // ==================== 会话管理 ====================
+
+  // 获取会话
+  getSession(id: string): MCPHttpSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  // 会话数量
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  // 结束会话
+  closeSession(id: string): void {
+    const session = this.sessions.get(id);
+    if (!session) return;
+
+    session.streams.forEach(stream => stream.end());
+    this.sessions.delete(id);
+    this.server.endSession(id);
+  }
+
+  // 清理过期会话
+  private pruneSessions(): void {
+    const now = Date.now();
+    this.sessions.forEach((session, id) => {
+      if (session.streams.size === 0 && now - session.lastSeenAt > this.sessionTtl) {
+        this.closeSession(id);
+      }
+    });
+  }
+
+  // 淘汰最久未使用的空闲会话；所有会话都有 SSE 流时返回 false
+  private evictIdleSession(): boolean {
+    let oldest: MCPHttpSession | undefined;
+    this.sessions.forEach(session => {
+      if (session.streams.size === 0 && (!oldest || session.lastSeenAt < oldest.lastSeenAt)) {
+        oldest = session;
+      }
+    });
+    if (!oldest) return false;
+    this.closeSession(oldest.id);
+    return true;
+  }
+
+  // SSE 心跳，防止代理断开空闲连接
+  private sendHeartbeat(): void {
+    this.sessions.forEach(session => {
+      session.streams.forEach(stream => stream.write(': ping\n\n'));
+    });
+  }
+
+  // ==================== 请求处理 ====================
+
+  // 处理 HTTP 请求，可直接挂载到已有的 http 服务器上
+  async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== this.path) {
+      this.sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const origin = req.headers.origin;
+    if (origin && !isAllowedOrigin(origin, this.allowedOrigins)) {
+      this.sendJson(res, 403, this.errorBody(JSON_RPC_ERRORS.INVALID_REQUEST, 'Origin not allowed'));
+      return;
+    }
+
+    this.pruneSessions();
+
+    const token = extractBearerToken(req.headers.authorization);
+    const caller = token ? await this.authenticate(token) : null;
+    if (!caller) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="blog-mcp"');
+      this.sendJson(res, 401, this.errorBody(JSON_RPC_ERRORS.INVALID_REQUEST, 'Unauthorized'));
+      return;
+    }
+    if (caller.status !== 'active') {
+      this.sendJson(res, 403, this.errorBody(JSON_RPC_ERRORS.INVALID_REQUEST, 'Account is not active'));
+      return;
+    }
+
+    switch (req.method) {
+      case 'POST':
+        await this.handlePost(req, res, caller);
+        return;
+      case 'GET':
+        this.handleStream(req, res, caller);
+        return;
+      case 'DELETE':
+        this.handleDelete(req, res, caller);
+        return;
+      default:
+        res.setHeader('Allow', 'GET, POST, DELETE');
+        this.sendJson(res, 405, { error: 'Method not allowed' });
+    }
+  }
+
+  // POST：处理 JSON-RPC 消息
+  private async handlePost(req: IncomingMessage, res: ServerResponse, caller: MCPCaller): Promise<void> {
+    let body: string;
+    try {
+      body = await this.readBody(req);
+    } catch (error) {
+      if (error instanceof PayloadTooLargeError) {
+        this.sendJson(res, 413, this.errorBody(JSON_RPC_ERRORS.INVALID_REQUEST, 'Payload too large'));
+        return;
+      }
+      throw error;
+    }
+
+    let message: any;
+    try {
+      message = JSON.parse(body);
+    } catch {
+      this.sendJson(res, 400, this.errorBody(JSON_RPC_ERRORS.PARSE_ERROR, 'Parse error'));
+      return;
+    }
+
+    const messages: any[] = Array.isArray(message) ? message : [message];
+    const isInitialize = messages.some(item => item && item.method === 'initialize');
+
+    let session: MCPHttpSession | undefined;
+    if (isInitialize) {
+      session = this.createSession(caller);
+      if (!session) {
+        this.sendJson(res, 503, this.errorBody(JSON_RPC_ERRORS.INVALID_REQUEST, 'Too many sessions'));
+        return;
+      }
+    } else {
+      session = this.resolveSession(req, res, caller);
+      if (!session) return;
+    }
+
+    const context = { caller: session.caller, sessionId: session.id, clientIp: this.getClientIp(req) };
+    const responses = (await Promise.all(messages.map(item => this.server.handleMessage(item, context))))
+      .filter((item): item is JsonRpcResponse => item !== null);
+
+    res.setHeader('Mcp-Session-Id', session.id);
+
+    // 只有通知时返回 202
+    if (responses.length === 0) {
+      res.writeHead(202);
+      res.end();
+      return;
+    }
+
+    this.sendJson(res, 200, Array.isArray(message) ? responses : responses[0]);
+  }
+
+  // GET：建立 SSE 流
+  private handleStream(req: IncomingMessage, res: ServerResponse, caller: MCPCaller): void {
+    const accept = req.headers.accept || '';
+    if (!accept.includes('text/event-stream')) {
+      this.sendJson(res, 406, { error: 'Client must accept text/event-stream' });
+      return;
+    }
+
+    const session = this.resolveSession(req, res, caller);
+    if (!session) return;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'Mcp-Session-Id': session.id,
+    });
+    res.write(': connected\n\n');
+
+    session.streams.add(res);
+    req.on('close', () => {
+      session.streams.delete(res);
+      session.lastSeenAt = Date.now();
+    });
+  }
+
+  // DELETE：结束会话
+  private handleDelete(req: IncomingMessage, res: ServerResponse, caller: MCPCaller): void {
+    const session = this.resolveSession(req, res, caller);
+    if (!session) return;
+
+    this.closeSession(session.id);
+    res.writeHead(204);
+    res.end();
+  }
+
+  // ==================== 辅助方法 ====================
+
+  // 创建会话；达到上限且没有可淘汰的空闲会话时返回 undefined
+  private createSession(caller: MCPCaller): MCPHttpSession | undefined {
+    if (this.sessions.size >= this.maxSessions && !this.evictIdleSession()) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const session: MCPHttpSession = {
+      id: randomUUID(),
+      caller,
+      createdAt: now,
+      lastSeenAt: now,
+      streams: new Set(),
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  // 根据请求头查找会话，并校验会话归属；失败时直接写出错误响应
+  private resolveSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    caller: MCPCaller
+  ): MCPHttpSession | undefined {
+    const header = req.headers[MCP_SESSION_HEADER];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+
+    if (!sessionId) {
+      this.sendJson(res, 400, this.errorBody(JSON_RPC_ERRORS.INVALID_REQUEST, 'Missing Mcp-Session-Id header'));
+      return undefined;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      this.sendJson(res, 404, this.errorBody(JSON_RPC_ERRORS.INVALID_REQUEST, 'Session not found'));
+      return undefined;
+    }
+
+    if (session.caller.id !== caller.id) {
+      this.sendJson(res, 403, this.errorBody(JSON_RPC_ERRORS.INVALID_REQUEST, 'Session belongs to another user'));
+      return undefined;
+    }
+
+    // 使用最新的资料，角色变更后立即生效
+    session.caller = caller;
+    session.lastSeenAt = Date.now();
+    return session;
+  }
+
+  // 客户端 IP；信任代理时取 X-Forwarded-For 中的第一个地址
+  private getClientIp(req: IncomingMessage): string | undefined {
+    if (this.trustProxy) {
+      const header = req.headers['x-forwarded-for'];
+      const forwarded = (Array.isArray(header) ? header[0] : header || '').split(',')[0].trim();
+      if (forwarded) return forwarded;
+    }
+    const address = req.socket.remoteAddress;
+    // IPv4 映射地址（::ffff:127.0.0.1）按 IPv4 处理
+    return address ? address.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '') : undefined;
+  }
+
+  // 读取请求体
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.maxBodySize) {
+          // 丢弃剩余数据，保证客户端能收到 413 响应
+          req.removeAllListeners('data');
+          req.resume();
+          reject(new PayloadTooLargeError());
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  // 构造 JSON-RPC 错误体
+  private errorBody(code: number, message: string): JsonRpcResponse {
+    return { jsonrpc: '2.0', id: null, error: { code, message } };
+  }
+
+  // 写出 JSON 响应
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+export default HttpTransport;
@@ -0,0 +1,219 @@
+// MCP 模块导出
+// 提供博客 MCP 服务器的创建与 stdio / HTTP 启动入口
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { AIJobQueue } from '../ai/queue';
+import { AIQuotaService } from '../ai/quota';
+import { AIService, getAIService, isAIEnabled } from '../ai/service';
+import { TagSuggestionService } from '../ai/tags';
+import { SeoService } from '../seo/service';
+import { RecommendationService } from '../recommendations/service';
+import { PostAccessService } from '../posts/access';
+import { PostMetricsService } from '../posts/metrics';
+import { PostPreviewService } from '../posts/previews';
+import { PostScheduler } from '../posts/scheduler';
+import { PostRevisionService } from '../posts/revisions';
+import { RenderService } from '../render/service';
+import { SlugRedirectService } from '../redirects/service';
+import { TrashService } from '../trash/service';
+import { getEnv, getEnvBool, getEnvNumber } from '../config';
+import { errorMessage } from '../utils/cli';
+import { createAccessTools } from './access';
+import { MCPAuditLog, createAuditTools } from './audit';
+import { createSupabaseAuthenticator, resolveCaller } from './auth';
+import { createAIJobTools } from './jobs';
+import { createMetricsTools } from './metrics';
+import { createPreviewTools } from './previews';
+import { createRecommendationTools } from './recommendations';
+import { createRedirectTools } from './redirects';
+import { createRenderTools } from './render';
+import { createReportTools } from './reports';
+import { createRevisionTools } from './revisions';
+import { createSchedulingTools } from './scheduling';
+import { createSeoTools } from './seo';
+import { createTagSuggestionTools } from './suggestions';
+import { createTrashTools } from './trash';
+import { HttpTransport } from './http';
+import { MCPServer } from './server';
+import type { MCPServerOptions } from './server';
+import { BlogPromptProvider, registerBlogPrompts } from './prompts';
+import { BlogResourceProvider, registerBlogResources } from './resources';
+import { StdioTransport } from './stdio';
+import { createBlogTools } from './tools';
+
+export { MCPServer } from './server';
+export type { MCPServerOptions } from './server';
+export { StdioTransport } from './stdio';
+export type { StdioTransportOptions } from './stdio';
+export { HttpTransport, MCP_SESSION_HEADER, isAllowedOrigin } from './http';
+export type { HttpTransportOptions, MCPHttpSession } from './http';
+export {
+  getCallerPermissions,
+  resolveCaller,
+  createSupabaseAuthenticator,
+  extractBearerToken,
+} from './auth';
+export type { MCPAuthenticator } from './auth';
+export {
+  MCPAuditLog,
+  createAuditTools,
+  sanitizeAuditParams,
+  MCP_TOOL_CALL_ACTIVITY,
+} from './audit';
+export type { MCPAuditEntry, MCPAuditFilter, MCPAuditExportFormat } from './audit';
+export { validateToolArguments } from './schema';
+export { createReportTools } from './reports';
+export { createAIJobTools } from './jobs';
+export { createTagSuggestionTools } from './suggestions';
+export { createSeoTools } from './seo';
+export { createRecommendationTools } from './recommendations';
+export { createSchedulingTools } from './scheduling';
+export { createRevisionTools } from './revisions';
+export { createRenderTools } from './render';
+export { createMetricsTools } from './metrics';
+export { createAccessTools } from './access';
+export { createPreviewTools } from './previews';
+export { createRedirectTools } from './redirects';
+export { createTrashTools } from './trash';
+export type { JsonSchema, JsonSchemaType } from './schema';
+export { createBlogTools, applyPostVisibility, requireActiveCaller, requirePostEditor } from './tools';
+export {
+  BlogResourceProvider,
+  registerBlogResources,
+  buildResourceUri,
+  parseResourceUri,
+  BLOG_RESOURCE_SCHEME,
+  BLOG_RESOURCE_TEMPLATES,
+} from './resources';
+export type {
+  MCPResource,
+  MCPResourceTemplate,
+  MCPResourceContents,
+  BlogResourceKind,
+} from './resources';
+export {
+  BlogPromptProvider,
+  registerBlogPrompts,
+  BLOG_PROMPTS,
+  PROMPT_TONES,
+} from './prompts';
+export type {
+  MCPPrompt,
+  MCPPromptArgument,
+  MCPPromptMessage,
+  MCPPromptResult,
+  BlogPromptArgument,
+  BlogPromptData,
+  BlogPromptDefinition,
+} from './prompts';
+export * from './types';
+
+// 博客 MCP 服务器选项
+export interface BlogMCPServerOptions extends MCPServerOptions {
+  supabase?: SupabaseService;
+  auditLog?: MCPAuditLog;
+  ai?: AIService;
+  aiJobs?: AIJobQueue;
+}
+
+// 创建挂载全部博客能力的 MCP 服务器
+export function createBlogMCPServer(options: BlogMCPServerOptions = {}): MCPServer {
+  const supabase = options.supabase || getSupabaseService();
+  const auditLog = options.auditLog || new MCPAuditLog(supabase);
+  const server = new MCPServer({
+    name: options.name || 'blog-mcp',
+    version: options.version,
+    instructions: options.instructions || 'Tools, resources and editorial prompts for the Blog-MCP blog.',
+    onToolCall: options.onToolCall || auditLog.recorder(),
+  });
+
+  server.registerTools(createBlogTools(supabase));
+  server.registerTools(createAuditTools(auditLog));
+  server.registerTools(createReportTools(new AIQuotaService(supabase)));
+  server.registerTools(createTagSuggestionTools(new TagSuggestionService(supabase, options.ai || null), supabase));
+  server.registerTools(createSeoTools(new SeoService(supabase, options.ai || null), supabase));
+  server.registerTools(createRecommendationTools(new RecommendationService(supabase), supabase));
+  server.registerTools(createSchedulingTools(new PostScheduler(supabase), supabase));
+  server.registerTools(createRevisionTools(new PostRevisionService(supabase), supabase));
+  server.registerTools(createRenderTools(new RenderService(supabase)));
+  server.registerTools(createMetricsTools(new PostMetricsService(supabase), supabase));
+  server.registerTools(createAccessTools(new PostAccessService(supabase)));
+  server.registerTools(createPreviewTools(new PostPreviewService(supabase), supabase));
+  server.registerTools(createRedirectTools(new SlugRedirectService(supabase)));
+  server.registerTools(createTrashTools(new TrashService(supabase)));
+  if (options.aiJobs) {
+    server.registerTools(createAIJobTools(options.aiJobs));
+  }
+  registerBlogResources(server, new BlogResourceProvider(supabase));
+  registerBlogPrompts(server, new BlogPromptProvider(supabase));
+
+  return server;
+}
+
+// 启用 AI 功能时创建 AI 服务与任务队列，未启用时相关工具只使用本地能力或不挂载
+function createAIOptions(supabase: SupabaseService): Pick<BlogMCPServerOptions, 'ai' | 'aiJobs'> {
+  if (!isAIEnabled()) return {};
+  const ai = getAIService();
+  return { ai, aiJobs: new AIJobQueue(ai, supabase) };
+}
+
+// 主函数：以 stdio 方式启动 MCP 服务器
+// 通过 MCP_USER_ID 环境变量指定调用方身份，未设置时以匿名身份运行
+export async function main() {
+  try {
+    const supabase = getSupabaseService({ persistSession: false, detectSessionInUrl: false });
+    const userId = process.env.MCP_USER_ID;
+    const caller = userId ? await resolveCaller(userId, supabase) : null;
+
+    if (userId && !caller) {
+      console.error(`❌ 未找到 MCP_USER_ID 对应的用户: ${userId}`);
+      process.exit(1);
+    }
+
+    const server = createBlogMCPServer({ supabase, ...createAIOptions(supabase) });
+    const transport = new StdioTransport(server, { context: { caller } });
+
+    console.error('🚀 Blog-MCP 服务器已通过 stdio 启动');
+    await transport.start();
+  } catch (error) {
+    console.error('❌ MCP 服务器启动失败:', errorMessage(error));
+    process.exit(1);
+  }
+}
+
+// 主函数：以 HTTP 方式启动 MCP 服务器
+// 调用方身份来自请求中的 Supabase 访问令牌（Authorization: Bearer <token>）
+export async function mainHttp() {
+  try {
+    const supabase = getSupabaseService({ persistSession: false, detectSessionInUrl: false });
+    const server = createBlogMCPServer({ supabase, ...createAIOptions(supabase) });
+    const path = process.env.MCP_HTTP_PATH || '/mcp';
+    const host = process.env.MCP_HTTP_HOST || '127.0.0.1';
+    const allowedOrigins = getEnv('MCP_HTTP_ALLOWED_ORIGINS', '').split(',').map(origin => origin.trim()).filter(Boolean);
+    const transport = new HttpTransport(server, {
+      authenticate: createSupabaseAuthenticator(supabase),
+      path,
+      trustProxy: getEnvBool('MCP_HTTP_TRUST_PROXY'),
+      maxSessions: getEnvNumber('MCP_HTTP_MAX_SESSIONS', 1000),
+      allowedOrigins: allowedOrigins.length > 0 ? allowedOrigins : undefined,
+    });
+
+    const port = await transport.listen(getEnvNumber('MCP_HTTP_PORT', 3333), host);
+    console.log(`🚀 Blog-MCP 服务器已在 http://${host}:${port}${path} 启动`);
+
+    const shutdown = async () => {
+      await transport.close();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  } catch (error) {
+    console.error('❌ MCP HTTP 服务器启动失败:', errorMessage(error));
+    process.exit(1);
+  }
+}
+
+// 如果直接运行此文件
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,90 @@
+// MCP AI 任务工具
+// 为管理员提供 AI 异步任务的查询、重试与取消
+
+import { AIJobQueue } from '../ai/queue';
+import type { AIJobStatus } from '../ai/queue';
+import type { MCPToolDefinition } from './types';
+
+// 任务 ID 参数
+const JOB_ID_SCHEMA: MCPToolDefinition['inputSchema'] = {
+  type: 'object',
+  properties: {
+    id: {
+      type: 'string',
+      format: 'uuid',
+      description: 'Job (ai_content_generations) id',
+    },
+  },
+  required: ['id'],
+};
+
+// 创建 AI 任务工具（仅管理员可用）
+export function createAIJobTools(queue: AIJobQueue): MCPToolDefinition[] {
+  const listJobs: MCPToolDefinition = {
+    name: 'list_ai_jobs',
+    description: 'List queued AI generation jobs, newest first (admin only)',
+    permission: 'canManage',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'],
+          description: 'Only jobs in this status',
+        },
+        user_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Only jobs submitted by this user',
+        },
+        post_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Only jobs for this post',
+        },
+        feature: {
+          type: 'string',
+          description: 'Only jobs of this feature',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 500,
+          description: 'Page size (default 50)',
+        },
+        offset: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Number of jobs to skip',
+        },
+      },
+      required: [],
+    },
+    handler: async (args) => queue.list({
+      status: args.status as AIJobStatus | undefined,
+      userId: args.user_id,
+      postId: args.post_id,
+      feature: args.feature,
+      limit: args.limit,
+      offset: args.offset,
+    }),
+  };
+
+  const retryJob: MCPToolDefinition = {
+    name: 'retry_ai_job',
+    description: 'Re-queue a failed or cancelled AI generation job (admin only)',
+    permission: 'canManage',
+    inputSchema: JOB_ID_SCHEMA,
+    handler: async (args) => queue.retry(args.id),
+  };
+
+  const cancelJob: MCPToolDefinition = {
+    name: 'cancel_ai_job',
+    description: 'Cancel a pending or running AI generation job (admin only)',
+    permission: 'canManage',
+    inputSchema: JOB_ID_SCHEMA,
+    handler: async (args) => queue.cancel(args.id),
+  };
+
+  return [listJobs, retryJob, cancelJob];
+}
@@ -0,0 +1,48 @@
+// MCP 字数统计工具
+// 编辑时查看正文的字数与阅读时间构成，统计方式与保存时写入 reading_time 的一致
+
+import SupabaseService from '../supabase/client';
+import { PostMetricsService } from '../posts/metrics';
+import { requirePostEditor } from './tools';
+import { MCPToolError } from './types';
+import type { MCPToolDefinition } from './types';
+
+// 统计内容的最大长度
+const MAX_CONTENT_LENGTH = 200000;
+
+// 创建字数统计工具
+export function createMetricsTools(service: PostMetricsService, supabase: SupabaseService): MCPToolDefinition[] {
+  const getContentMetrics: MCPToolDefinition = {
+    name: 'get_content_metrics',
+    description: 'Count CJK characters, Latin words, images and code lines of a Markdown draft or a saved post, and break the reading time down into text, images and code',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        content: {
+          type: 'string',
+          maxLength: MAX_CONTENT_LENGTH,
+          description: 'Markdown source to measure',
+        },
+        post_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Measure the saved content of this post instead',
+        },
+      },
+      required: [],
+    },
+    handler: async (args, context) => {
+      if ((args.content === undefined) === !args.post_id) {
+        throw new MCPToolError('必须且只能提供 content 或 post_id 之一');
+      }
+      if (args.post_id) {
+        await requirePostEditor(supabase, args.post_id, context);
+        return service.getPostMetrics(args.post_id);
+      }
+      return service.measure(args.content);
+    },
+  };
+
+  return [getContentMetrics];
+}
@@ -0,0 +1,169 @@
+// MCP 文章预览工具
+// 作者为文章版本生成可分享的预览链接；持有令牌的人无需账号即可读取；作者与管理员可以查看和撤销链接
+
+import SupabaseService from '../supabase/client';
+import { PostPreviewService } from '../posts/previews';
+import { getCallerPermissions } from './auth';
+import type { JsonSchema } from './schema';
+import { requireActiveCaller, requirePostEditor } from './tools';
+import { MCPToolError } from './types';
+import type { MCPToolDefinition } from './types';
+
+// 文章 ID 参数
+const POST_ID_PROPERTY: JsonSchema = {
+  type: 'string',
+  format: 'uuid',
+  description: 'Post id',
+};
+
+// 创建文章预览工具
+export function createPreviewTools(service: PostPreviewService, supabase: SupabaseService): MCPToolDefinition[] {
+  const createPreviewLink: MCPToolDefinition = {
+    name: 'create_preview_link',
+    description: 'Create a signed, expiring preview link for a post revision that anyone holding the token can open without an account, even before the post is published',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: POST_ID_PROPERTY,
+        revision: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Revision number to share (default: latest revision)',
+        },
+        expires_in_hours: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 720,
+          description: 'Hours until the link expires (default 168)',
+        },
+        note: {
+          type: 'string',
+          maxLength: 200,
+          description: 'Who the link is for, shown when listing links',
+        },
+      },
+      required: ['post_id'],
+    },
+    handler: async (args, context) => {
+      await requirePostEditor(supabase, args.post_id, context);
+      const result = await service.create(args.post_id, {
+        revisionNumber: args.revision,
+        expiresIn: args.expires_in_hours !== undefined ? args.expires_in_hours * 60 * 60 * 1000 : undefined,
+        createdBy: context.caller!.id,
+        note: args.note,
+      });
+      return {
+        link_id: result.link.id,
+        revision: result.revisionNumber,
+        token: result.token,
+        url: result.url,
+        expires_at: result.link.expires_at,
+      };
+    },
+  };
+
+  const getPreview: MCPToolDefinition = {
+    name: 'get_preview',
+    description: 'Read the post revision shared by a preview link token',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        token: {
+          type: 'string',
+          minLength: 1,
+          maxLength: 512,
+          description: 'Preview token from create_preview_link',
+        },
+      },
+      required: ['token'],
+    },
+    handler: async (args) => {
+      const preview = await service.read(args.token);
+      if (!preview) {
+        throw new MCPToolError('预览链接无效、已过期或已撤销');
+      }
+      return preview;
+    },
+  };
+
+  const listPreviewLinks: MCPToolDefinition = {
+    name: 'list_preview_links',
+    description: 'List preview links, newest first. With post_id lists the links of that post; otherwise admins see all links and authors see the links they created',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: POST_ID_PROPERTY,
+        include_inactive: {
+          type: 'boolean',
+          description: 'Also list revoked and expired links (default false)',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 100,
+          description: 'Page size (default 20)',
+        },
+        offset: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Number of links to skip',
+        },
+      },
+      required: [],
+    },
+    handler: async (args, context) => {
+      const caller = requireActiveCaller(context);
+      if (args.post_id) {
+        await requirePostEditor(supabase, args.post_id, context);
+      }
+      const createdBy = (args.post_id || getCallerPermissions(caller).canManage) ? undefined : caller.id;
+      return service.list({
+        postId: args.post_id,
+        createdBy,
+        includeInactive: args.include_inactive === true,
+        limit: args.limit,
+        offset: args.offset,
+      });
+    },
+  };
+
+  const revokePreviewLink: MCPToolDefinition = {
+    name: 'revoke_preview_link',
+    description: 'Revoke a preview link by link_id, or every active preview link of a post by post_id',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        link_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Preview link id',
+        },
+        post_id: POST_ID_PROPERTY,
+      },
+      required: [],
+    },
+    handler: async (args, context) => {
+      const caller = requireActiveCaller(context);
+      if (!args.link_id === !args.post_id) {
+        throw new MCPToolError('必须且只能提供 link_id 或 post_id 之一');
+      }
+
+      if (args.post_id) {
+        await requirePostEditor(supabase, args.post_id, context);
+        return { revoked: await service.revokeAll(args.post_id, { revokedBy: caller.id }) };
+      }
+
+      const link = await service.get(args.link_id);
+      if (!link) {
+        throw new MCPToolError('预览链接不存在');
+      }
+      await requirePostEditor(supabase, link.post_id, context);
+      return service.revoke(link.id, { revokedBy: caller.id });
+    },
+  };
+
+  return [createPreviewLink, getPreview, listPreviewLinks, revokePreviewLink];
+}
@@ -0,0 +1,344 @@
+// MCP 编辑提示词目录
+// 通过 prompts/list、prompts/get 发布统一维护的编辑类提示词，并嵌入相关文章与评论
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import type { Database } from '../types/database';
+import { isUuid } from '../utils/validation';
+import type { MCPServer } from './server';
+import { applyPostVisibility } from './tools';
+import { JSON_RPC_ERRORS, MCPProtocolError } from './types';
+import type { MCPContent, MCPContext } from './types';
+import { buildResourceUri } from './resources';
+
+type PostRow = Database['public']['Tables']['posts']['Row'];
+type CommentRow = Database['public']['Tables']['comments']['Row'];
+
+// 提示词参数（MCP 协议字段）
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+// 提示词描述（MCP 协议字段）
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+// 提示词消息
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPContent;
+}
+
+// prompts/get 返回结果
+export interface MCPPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+// 带类型约束的提示词参数
+export interface BlogPromptArgument extends MCPPromptArgument {
+  type: 'uuid' | 'enum' | 'locale' | 'string';
+  enum?: string[];
+  default?: string;
+}
+
+// 提示词渲染所需的数据
+export interface BlogPromptData {
+  post: PostRow;
+  comments: CommentRow[];
+  args: Record<string, string>;
+}
+
+// 提示词定义
+export interface BlogPromptDefinition {
+  name: string;
+  description: string;
+  arguments: BlogPromptArgument[];
+  includeComments?: boolean;
+  render: (data: BlogPromptData) => string;
+}
+
+// 语气选项
+export const PROMPT_TONES = ['neutral', 'friendly', 'professional', 'playful'];
+
+// 评论嵌入上限
+const MAX_EMBEDDED_COMMENTS = 50;
+
+// 通用参数
+const POST_ID_ARGUMENT: BlogPromptArgument = {
+  name: 'post_id',
+  description: 'Id of the post to work on',
+  required: true,
+  type: 'uuid',
+};
+
+const TONE_ARGUMENT: BlogPromptArgument = {
+  name: 'tone',
+  description: `Writing tone: ${PROMPT_TONES.join(', ')}`,
+  required: false,
+  type: 'enum',
+  enum: PROMPT_TONES,
+  default: 'neutral',
+};
+
+const LOCALE_ARGUMENT: BlogPromptArgument = {
+  name: 'locale',
+  description: 'Output language as a BCP 47 tag, e.g. zh-CN or en-US',
+  required: false,
+  type: 'locale',
+  default: 'zh-CN',
+};
+
+// ==================== 提示词目录 ====================
+
+export const BLOG_PROMPTS: BlogPromptDefinition[] = [
+  {
+    name: 'write_excerpt',
+    description: 'Write a short excerpt for a post',
+    arguments: [POST_ID_ARGUMENT, TONE_ARGUMENT, LOCALE_ARGUMENT],
+    render: ({ post, args }) => [
+      `Write an excerpt for the blog post "${post.title}" attached above.`,
+      `- Language: ${args.locale}`,
+      `- Tone: ${args.tone}`,
+      '- Length: one or two sentences, at most 160 characters',
+      '- Summarize the main takeaway; do not start with the title and do not use Markdown',
+      post.excerpt ? `The current excerpt is: "${post.excerpt}". Improve on it.` : 'The post has no excerpt yet.',
+      'Reply with the excerpt text only.',
+    ].join('\n'),
+  },
+  {
+    name: 'propose_seo_title',
+    description: 'Propose SEO titles for a post',
+    arguments: [POST_ID_ARGUMENT, TONE_ARGUMENT, LOCALE_ARGUMENT],
+    render: ({ post, args }) => [
+      `Propose three SEO titles for the blog post "${post.title}" attached above.`,
+      `- Language: ${args.locale}`,
+      `- Tone: ${args.tone}`,
+      '- Each title must be at most 60 characters and contain the main keyword near the start',
+      post.seo_title ? `The current SEO title is: "${post.seo_title}".` : 'The post has no SEO title yet.',
+      post.seo_keywords && post.seo_keywords.length > 0
+        ? `Target keywords: ${post.seo_keywords.join(', ')}.`
+        : 'Pick the keywords from the content.',
+      'Reply with a numbered list of titles, each followed by a one-line rationale.',
+    ].join('\n'),
+  },
+  {
+    name: 'summarize_comments',
+    description: 'Summarize reader comments on a post',
+    arguments: [POST_ID_ARGUMENT, TONE_ARGUMENT, LOCALE_ARGUMENT],
+    includeComments: true,
+    render: ({ post, comments, args }) => [
+      `Summarize the ${comments.length} approved reader comments on the blog post "${post.title}" attached above.`,
+      `- Language: ${args.locale}`,
+      `- Tone: ${args.tone}`,
+      '- Group the feedback into themes, note questions that deserve an answer and any factual corrections',
+      '- Do not quote commenters by name',
+      comments.length === 0 ? 'There are no approved comments yet; say so briefly.' : '',
+    ].filter(Boolean).join('\n'),
+  },
+  {
+    name: 'draft_follow_up',
+    description: 'Draft an outline for a follow-up post',
+    arguments: [
+      POST_ID_ARGUMENT,
+      TONE_ARGUMENT,
+      LOCALE_ARGUMENT,
+      {
+        name: 'angle',
+        description: 'Optional angle or question the follow-up should address',
+        required: false,
+        type: 'string',
+      },
+    ],
+    includeComments: true,
+    render: ({ post, comments, args }) => [
+      `Draft a follow-up to the blog post "${post.title}" attached above.`,
+      `- Language: ${args.locale}`,
+      `- Tone: ${args.tone}`,
+      args.angle ? `- Angle: ${args.angle}` : '- Pick the angle from open questions in the post and its comments',
+      comments.length > 0 ? `- Take the ${comments.length} reader comments into account` : '',
+      'Reply in Markdown with a proposed title, a one-paragraph introduction and an outline of H2 sections.',
+    ].filter(Boolean).join('\n'),
+  },
+];
+
+// ==================== 提示词提供者 ====================
+
+export class BlogPromptProvider {
+  private supabase: SupabaseService;
+  private prompts = new Map<string, BlogPromptDefinition>();
+
+  constructor(
+    supabase: SupabaseService = getSupabaseService(),
+    prompts: BlogPromptDefinition[] = BLOG_PROMPTS
+  ) {
+    this.supabase = supabase;
+    prompts.forEach(prompt => this.prompts.set(prompt.name, prompt));
+  }
+
+  // 列出提示词
+  list(): { prompts: MCPPrompt[] } {
+    return {
+      prompts: Array.from(this.prompts.values()).map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments.map(({ name, description, required }) => ({
+          name,
+          description,
+          required,
+        })),
+      })),
+    };
+  }
+
+  // 渲染提示词
+  async get(name: unknown, rawArgs: unknown, context: MCPContext): Promise<MCPPromptResult> {
+    const prompt = typeof name === 'string' ? this.prompts.get(name) : undefined;
+    if (!prompt) {
+      throw new MCPProtocolError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown prompt: ${String(name)}`);
+    }
+
+    const args = this.resolveArguments(prompt, rawArgs);
+    const post = await this.loadPost(args.post_id, context);
+    const comments = prompt.includeComments ? await this.loadComments(post.id) : [];
+
+    const messages: MCPPromptMessage[] = [
+      {
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: buildResourceUri('posts', post.slug),
+            mimeType: 'text/markdown',
+            text: this.formatPost(post),
+          },
+        },
+      },
+    ];
+
+    if (comments.length > 0) {
+      messages.push({
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: `${buildResourceUri('posts', post.slug)}/comments`,
+            mimeType: 'application/json',
+            text: JSON.stringify(comments.map(comment => ({
+              id: comment.id,
+              parent_id: comment.parent_id,
+              content: comment.content,
+              created_at: comment.created_at,
+            })), null, 2),
+          },
+        },
+      });
+    }
+
+    messages.push({
+      role: 'user',
+      content: { type: 'text', text: prompt.render({ post, comments, args }) },
+    });
+
+    return {
+      description: `${prompt.description}: ${post.title}`,
+      messages,
+    };
+  }
+
+  // 校验参数并填充默认值
+  private resolveArguments(prompt: BlogPromptDefinition, rawArgs: unknown): Record<string, string> {
+    const input = rawArgs && typeof rawArgs === 'object' ? rawArgs as Record<string, unknown> : {};
+    const errors: Array<{ field: string; message: string }> = [];
+    const args: Record<string, string> = {};
+
+    for (const argument of prompt.arguments) {
+      const value = input[argument.name];
+
+      if (value === undefined || value === null || value === '') {
+        if (argument.required) {
+          errors.push({ field: argument.name, message: `${argument.name} is required` });
+        } else if (argument.default !== undefined) {
+          args[argument.name] = argument.default;
+        }
+        continue;
+      }
+
+      if (typeof value !== 'string') {
+        errors.push({ field: argument.name, message: `${argument.name} must be a string` });
+        continue;
+      }
+
+      if (argument.type === 'uuid' && !isUuid(value)) {
+        errors.push({ field: argument.name, message: `${argument.name} must be a valid UUID` });
+      } else if (argument.type === 'enum' && argument.enum && !argument.enum.includes(value)) {
+        errors.push({ field: argument.name, message: `${argument.name} must be one of: ${argument.enum.join(', ')}` });
+      } else if (argument.type === 'locale' && !/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(value)) {
+        errors.push({ field: argument.name, message: `${argument.name} must be a locale tag such as zh-CN` });
+      } else {
+        args[argument.name] = value;
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new MCPProtocolError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid prompt arguments', errors);
+    }
+
+    return args;
+  }
+
+  // 加载调用方可见的文章
+  private async loadPost(postId: string, context: MCPContext): Promise<PostRow> {
+    const query = this.supabase.getServiceClient()
+      .from('posts')
+      .select('*')
+      .eq('id', postId)
+      .neq('status', 'deleted');
+
+    const { data, error } = await applyPostVisibility(query, context).maybeSingle();
+    if (error) throw error;
+    if (!data) {
+      throw new MCPProtocolError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Post not found', { post_id: postId });
+    }
+
+    return data as PostRow;
+  }
+
+  // 加载已审核评论
+  private async loadComments(postId: string): Promise<CommentRow[]> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('comments')
+      .select('*')
+      .eq('post_id', postId)
+      .eq('status', 'approved')
+      .order('created_at', { ascending: true })
+      .limit(MAX_EMBEDDED_COMMENTS);
+    if (error) throw error;
+
+    return (data || []) as CommentRow[];
+  }
+
+  // 将文章格式化为带标题的 Markdown
+  private formatPost(post: PostRow): string {
+    const lines = [`# ${post.title}`, ''];
+    if (post.excerpt) {
+      lines.push(`> ${post.excerpt}`, '');
+    }
+    lines.push(post.content);
+    return lines.join('\n');
+  }
+}
+
+// 在服务器上注册提示词相关方法
+export function registerBlogPrompts(
+  server: MCPServer,
+  provider: BlogPromptProvider = new BlogPromptProvider()
+): MCPServer {
+  return server
+    .registerMethod('prompts/list', async () => provider.list())
+    .registerMethod('prompts/get', (params, context) => provider.get(params.name, params.arguments, context));
+}
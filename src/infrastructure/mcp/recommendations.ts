@@ -0,0 +1,74 @@
+// MCP 推荐工具
+// 提供个性化文章推荐与相关文章，结果只包含公开已发布文章
+
+import SupabaseService from '../supabase/client';
+import { RecommendationService } from '../recommendations/service';
+import { applyPostVisibility } from './tools';
+import { MCPToolError } from './types';
+import type { MCPToolDefinition } from './types';
+
+// 创建推荐工具
+export function createRecommendationTools(
+  service: RecommendationService,
+  supabase: SupabaseService
+): MCPToolDefinition[] {
+  const getRecommendations: MCPToolDefinition = {
+    name: 'get_recommendations',
+    description: 'Recommend published posts for the caller based on reading history, shared tags and categories, co-viewing, popularity and recency, with per-signal scores',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 50,
+          description: 'Maximum number of posts (default 10)',
+        },
+      },
+      required: [],
+    },
+    handler: async (args, context) => {
+      const userId = context.caller && context.caller.status === 'active' ? context.caller.id : null;
+      const recommendations = await service.recommend(userId, args.limit);
+      return { recommendations, personalized: userId !== null };
+    },
+  };
+
+  const getRelatedPosts: MCPToolDefinition = {
+    name: 'get_related_posts',
+    description: 'List published posts related to a post, with per-signal scores explaining each match',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Post id',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 50,
+          description: 'Maximum number of posts (default 5)',
+        },
+      },
+      required: ['post_id'],
+    },
+    handler: async (args, context) => {
+      const query = supabase.getServiceClient()
+        .from('posts')
+        .select('id')
+        .eq('id', args.post_id)
+        .neq('status', 'deleted');
+      const { data, error } = await applyPostVisibility(query, context).maybeSingle();
+      if (error) throw error;
+      if (!data) {
+        throw new MCPToolError('文章不存在或无权访问');
+      }
+
+      return { postId: args.post_id, related: await service.related(args.post_id, args.limit) };
+    },
+  };
+
+  return [getRecommendations, getRelatedPosts];
+}
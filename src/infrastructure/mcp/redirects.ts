@@ -0,0 +1,95 @@
+// MCP 别名重定向工具
+// 解析文章、分类、标签的历史别名；管理员可以查看和删除别名历史
+
+import { SlugRedirectService } from '../redirects/service';
+import type { JsonSchema } from './schema';
+import { MCPToolError } from './types';
+import type { MCPToolDefinition } from './types';
+
+// 实体类型参数
+const ENTITY_TYPE_PROPERTY: JsonSchema = {
+  type: 'string',
+  enum: ['post', 'category', 'tag'],
+  description: 'Entity type',
+};
+
+// 创建别名重定向工具
+export function createRedirectTools(service: SlugRedirectService): MCPToolDefinition[] {
+  const resolveSlug: MCPToolDefinition = {
+    name: 'resolve_slug',
+    description: 'Resolve a post, category or tag slug. Old slugs return a 301 redirect to the current location; redirect loops are reported instead of followed',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: ENTITY_TYPE_PROPERTY,
+        slug: {
+          type: 'string',
+          minLength: 1,
+          maxLength: 200,
+          description: 'Slug to resolve',
+        },
+      },
+      required: ['type', 'slug'],
+    },
+    handler: async (args) => {
+      return service.resolve(args.type, args.slug);
+    },
+  };
+
+  const listRedirects: MCPToolDefinition = {
+    name: 'list_slug_redirects',
+    description: 'List recorded old slugs and the current slug they redirect to, most recently changed first',
+    permission: 'canManage',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: ENTITY_TYPE_PROPERTY,
+        entity_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Only list old slugs of this post, category or tag',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 200,
+          description: 'Page size (default 50)',
+        },
+        offset: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Number of redirects to skip',
+        },
+      },
+      required: [],
+    },
+    handler: async (args) => {
+      return service.list({ entityType: args.type, entityId: args.entity_id, limit: args.limit, offset: args.offset });
+    },
+  };
+
+  const deleteRedirect: MCPToolDefinition = {
+    name: 'delete_slug_redirect',
+    description: 'Delete a recorded old slug so it no longer redirects',
+    permission: 'canManage',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Redirect id',
+        },
+      },
+      required: ['id'],
+    },
+    handler: async (args) => {
+      if (!(await service.remove(args.id))) {
+        throw new MCPToolError('重定向记录不存在');
+      }
+      return { id: args.id, deleted: true };
+    },
+  };
+
+  return [resolveSlug, listRedirects, deleteRedirect];
+}
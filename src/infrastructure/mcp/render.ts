@@ -0,0 +1,35 @@
+// MCP 渲染工具
+// 使用与保存时相同的管线预览 Markdown 渲染结果
+
+import { RenderService } from '../render/service';
+import type { MCPToolDefinition } from './types';
+
+// 预览内容的最大长度
+const MAX_PREVIEW_LENGTH = 200000;
+
+// 创建渲染工具
+export function createRenderTools(service: RenderService): MCPToolDefinition[] {
+  const previewMarkdown: MCPToolDefinition = {
+    name: 'preview_markdown',
+    description: 'Render Markdown to sanitized HTML exactly as it would be stored for a post or a comment, without saving anything',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        content: {
+          type: 'string',
+          maxLength: MAX_PREVIEW_LENGTH,
+          description: 'Markdown source',
+        },
+        profile: {
+          type: 'string',
+          enum: ['post', 'comment'],
+          description: 'Rendering profile: post allows headings, tables, footnotes, images and inline HTML; comment is restricted (default post)',
+        },
+      },
+      required: ['content'],
+    },
+    handler: async args => service.preview(args.content, args.profile || 'post'),
+  };
+
+  return [previewMarkdown];
+}
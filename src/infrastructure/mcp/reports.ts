@@ -0,0 +1,72 @@
+// MCP 报表工具
+// 为管理员提供 AI 费用报表与预算查询
+
+import { AIQuotaService } from '../ai/quota';
+import type { AISpendGroupBy } from '../ai/quota';
+import type { MCPToolDefinition } from './types';
+
+// 创建报表工具（仅管理员可用）
+export function createReportTools(quota: AIQuotaService): MCPToolDefinition[] {
+  const aiSpendReport: MCPToolDefinition = {
+    name: 'get_ai_spend_report',
+    description: 'Aggregate AI generation spend by user, model or day (admin only)',
+    permission: 'canManage',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        group_by: {
+          type: 'string',
+          enum: ['user', 'model', 'day'],
+          description: 'Grouping dimension',
+        },
+        from: {
+          type: 'string',
+          format: 'date-time',
+          description: 'Only generations at or after this time',
+        },
+        to: {
+          type: 'string',
+          format: 'date-time',
+          description: 'Only generations before this time',
+        },
+        user_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Only generations of this user',
+        },
+        model: {
+          type: 'string',
+          description: 'Only generations of this model',
+        },
+      },
+      required: ['group_by'],
+    },
+    handler: async (args) => quota.getSpendReport({
+      groupBy: args.group_by as AISpendGroupBy,
+      from: args.from,
+      to: args.to,
+      userId: args.user_id,
+      model: args.model,
+    }),
+  };
+
+  const aiBudgetStatus: MCPToolDefinition = {
+    name: 'get_ai_budget_status',
+    description: "Show a user's AI budget and spend for the current month (admin only)",
+    permission: 'canManage',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'User id',
+        },
+      },
+      required: ['user_id'],
+    },
+    handler: async (args) => quota.getBudgetStatus(args.user_id),
+  };
+
+  return [aiSpendReport, aiBudgetStatus];
+}
@@ -0,0 +1,243 @@
+// MCP 博客资源
+// 以 blog:// URI 暴露文章、分类和标签，文章返回 Markdown，分类与标签返回 JSON
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import type { Database } from '../types/database';
+import type { MCPServer } from './server';
+import { applyPostVisibility } from './tools';
+import { JSON_RPC_ERRORS, MCPProtocolError } from './types';
+import type { MCPContext } from './types';
+
+type Tables = Database['public']['Tables'];
+type ResourceRow = { name: string; slug: string; description: string | null };
+
+// 资源描述
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+// 资源模板描述
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+// 资源内容
+export interface MCPResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+// 资源类型
+export type BlogResourceKind = 'posts' | 'categories' | 'tags';
+
+// URI 协议前缀
+export const BLOG_RESOURCE_SCHEME = 'blog://';
+
+// resources/list 每页文章数量
+const RESOURCE_PAGE_SIZE = 100;
+
+// 资源模板
+export const BLOG_RESOURCE_TEMPLATES: MCPResourceTemplate[] = [
+  {
+    uriTemplate: 'blog://posts/{slug}',
+    name: 'Blog post',
+    description: 'Markdown content of a post visible to the caller',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'blog://categories/{slug}',
+    name: 'Blog category',
+    description: 'Category row as JSON',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'blog://tags/{slug}',
+    name: 'Blog tag',
+    description: 'Tag row as JSON',
+    mimeType: 'application/json',
+  },
+];
+
+// ==================== URI 工具 ====================
+
+// 构造资源 URI
+export function buildResourceUri(kind: BlogResourceKind, slug: string): string {
+  return `${BLOG_RESOURCE_SCHEME}${kind}/${encodeURIComponent(slug)}`;
+}
+
+// 解析资源 URI
+export function parseResourceUri(uri: string): { kind: BlogResourceKind; slug: string } | null {
+  const match = /^blog:\/\/(posts|categories|tags)\/([^/?#]+)$/.exec(uri);
+  if (!match) return null;
+
+  try {
+    return { kind: match[1] as BlogResourceKind, slug: decodeURIComponent(match[2]) };
+  } catch {
+    return null;
+  }
+}
+
+// 编码分页游标
+function encodeCursor(offset: number): string {
+  return Buffer.from(String(offset)).toString('base64');
+}
+
+// 解码分页游标
+function decodeCursor(cursor: unknown): number {
+  if (typeof cursor !== 'string' || !cursor) return 0;
+  const offset = parseInt(Buffer.from(cursor, 'base64').toString(), 10);
+  if (isNaN(offset) || offset < 0) {
+    throw new MCPProtocolError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid cursor');
+  }
+  return offset;
+}
+
+// ==================== 资源提供者 ====================
+
+export class BlogResourceProvider {
+  private supabase: SupabaseService;
+
+  constructor(supabase: SupabaseService = getSupabaseService()) {
+    this.supabase = supabase;
+  }
+
+  // 列出资源：文章分页返回，分类与标签在第一页一次性返回
+  async list(cursor: unknown, context: MCPContext): Promise<{ resources: MCPResource[]; nextCursor?: string }> {
+    const client = this.supabase.getServiceClient();
+    const offset = decodeCursor(cursor);
+    const resources: MCPResource[] = [];
+
+    const postQuery = client
+      .from('posts')
+      .select('title, slug, excerpt')
+      .neq('status', 'deleted');
+
+    const { data: posts, error } = await applyPostVisibility(postQuery, context)
+      .order('published_at', { ascending: false, nullsFirst: false })
+      .range(offset, offset + RESOURCE_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    const postRows = (posts || []) as Array<Pick<Tables['posts']['Row'], 'title' | 'slug' | 'excerpt'>>;
+    postRows.forEach((post) => {
+      resources.push({
+        uri: buildResourceUri('posts', post.slug),
+        name: post.title,
+        description: post.excerpt || undefined,
+        mimeType: 'text/markdown',
+      });
+    });
+
+    if (offset === 0) {
+      const [categories, tags] = await Promise.all([
+        client.from('categories').select('name, slug, description').order('sort_order'),
+        client.from('tags').select('name, slug, description').order('name'),
+      ]);
+      if (categories.error) throw categories.error;
+      if (tags.error) throw tags.error;
+
+      ((categories.data || []) as ResourceRow[]).forEach((category) => {
+        resources.push({
+          uri: buildResourceUri('categories', category.slug),
+          name: category.name,
+          description: category.description || undefined,
+          mimeType: 'application/json',
+        });
+      });
+
+      ((tags.data || []) as ResourceRow[]).forEach((tag) => {
+        resources.push({
+          uri: buildResourceUri('tags', tag.slug),
+          name: tag.name,
+          description: tag.description || undefined,
+          mimeType: 'application/json',
+        });
+      });
+    }
+
+    const result: { resources: MCPResource[]; nextCursor?: string } = { resources };
+    if (postRows.length === RESOURCE_PAGE_SIZE) {
+      result.nextCursor = encodeCursor(offset + RESOURCE_PAGE_SIZE);
+    }
+    return result;
+  }
+
+  // 读取资源
+  async read(uri: unknown, context: MCPContext): Promise<{ contents: MCPResourceContents[] }> {
+    if (typeof uri !== 'string') {
+      throw new MCPProtocolError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Resource uri is required');
+    }
+
+    const parsed = parseResourceUri(uri);
+    if (!parsed) {
+      throw new MCPProtocolError(JSON_RPC_ERRORS.INVALID_PARAMS, `Invalid resource uri: ${uri}`);
+    }
+
+    const contents = parsed.kind === 'posts'
+      ? await this.readPost(uri, parsed.slug, context)
+      : await this.readTaxonomy(uri, parsed.kind, parsed.slug);
+
+    if (!contents) {
+      throw new MCPProtocolError(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND, 'Resource not found', { uri });
+    }
+
+    return { contents: [contents] };
+  }
+
+  // 读取文章 Markdown
+  private async readPost(uri: string, slug: string, context: MCPContext): Promise<MCPResourceContents | null> {
+    const query = this.supabase.getServiceClient()
+      .from('posts')
+      .select('content')
+      .eq('slug', slug)
+      .neq('status', 'deleted');
+
+    const { data, error } = await applyPostVisibility(query, context).maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      uri,
+      mimeType: 'text/markdown',
+      text: data.content,
+    };
+  }
+
+  // 读取分类或标签 JSON
+  private async readTaxonomy(
+    uri: string,
+    kind: 'categories' | 'tags',
+    slug: string
+  ): Promise<MCPResourceContents | null> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from(kind)
+      .select('*')
+      .eq('slug', slug)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(data, null, 2),
+    };
+  }
+}
+
+// 在服务器上注册资源相关方法
+export function registerBlogResources(
+  server: MCPServer,
+  provider: BlogResourceProvider = new BlogResourceProvider()
+): MCPServer {
+  return server
+    .registerMethod('resources/list', (params, context) => provider.list(params.cursor, context))
+    .registerMethod('resources/templates/list', async () => ({ resourceTemplates: BLOG_RESOURCE_TEMPLATES }))
+    .registerMethod('resources/read', (params, context) => provider.read(params.uri, context));
+}
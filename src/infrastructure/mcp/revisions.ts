@@ -0,0 +1,136 @@
+// MCP 文章版本工具
+// 为文章作者提供版本历史的查询、比较与恢复
+
+import SupabaseService from '../supabase/client';
+import { PostRevisionService } from '../posts/revisions';
+import type { JsonSchema } from './schema';
+import { requirePostEditor } from './tools';
+import type { MCPToolDefinition } from './types';
+
+// 文章 ID 参数
+const POST_ID_PROPERTY: JsonSchema = {
+  type: 'string',
+  format: 'uuid',
+  description: 'Post id',
+};
+
+// 创建文章版本工具
+export function createRevisionTools(service: PostRevisionService, supabase: SupabaseService): MCPToolDefinition[] {
+  const listRevisions: MCPToolDefinition = {
+    name: 'list_post_revisions',
+    description: 'List saved revisions of a post, newest first, without content',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: POST_ID_PROPERTY,
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 100,
+          description: 'Page size (default 20)',
+        },
+        offset: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Number of revisions to skip',
+        },
+      },
+      required: ['post_id'],
+    },
+    handler: async (args, context) => {
+      await requirePostEditor(supabase, args.post_id, context);
+      return service.list(args.post_id, { limit: args.limit, offset: args.offset });
+    },
+  };
+
+  const getRevision: MCPToolDefinition = {
+    name: 'get_post_revision',
+    description: 'Get the full snapshot (title, excerpt, content and SEO fields) of a post revision',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: POST_ID_PROPERTY,
+        revision: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Revision number',
+        },
+      },
+      required: ['post_id', 'revision'],
+    },
+    handler: async (args, context) => {
+      await requirePostEditor(supabase, args.post_id, context);
+      return service.get(args.post_id, args.revision);
+    },
+  };
+
+  const diffRevisions: MCPToolDefinition = {
+    name: 'diff_post_revisions',
+    description: 'Compare two revisions of a post: a unified line diff of the content plus word diffs of changed fields',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: POST_ID_PROPERTY,
+        from: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Older revision number',
+        },
+        to: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Newer revision number',
+        },
+        words: {
+          type: 'boolean',
+          description: 'Also return a word-level diff of the content (default false)',
+        },
+        context: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 20,
+          description: 'Unchanged lines around each change in the unified diff (default 3)',
+        },
+      },
+      required: ['post_id', 'from', 'to'],
+    },
+    handler: async (args, context) => {
+      await requirePostEditor(supabase, args.post_id, context);
+      return service.diff(args.post_id, args.from, args.to, { words: args.words === true, context: args.context });
+    },
+  };
+
+  const restoreRevision: MCPToolDefinition = {
+    name: 'restore_post_revision',
+    description: 'Restore a revision by writing its fields back to the post and saving the result as a new revision',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: POST_ID_PROPERTY,
+        revision: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Revision number to restore',
+        },
+      },
+      required: ['post_id', 'revision'],
+    },
+    handler: async (args, context) => {
+      await requirePostEditor(supabase, args.post_id, context);
+      const result = await service.restore(args.post_id, args.revision, { authorId: context.caller!.id });
+      return {
+        post_id: result.post.id,
+        restored_from: result.restoredFrom,
+        revision: result.revision
+          ? { id: result.revision.id, revision_number: result.revision.revision_number, created_at: result.revision.created_at }
+          : null,
+      };
+    },
+  };
+
+  return [listRevisions, getRevision, diffRevisions, restoreRevision];
+}
@@ -0,0 +1,97 @@
+// MCP 定时发布工具
+// 为文章作者提供草稿的定时发布设置、取消与查询
+
+import SupabaseService from '../supabase/client';
+import { PostScheduler } from '../posts/scheduler';
+import { getCallerPermissions } from './auth';
+import { requireActiveCaller, requirePostEditor } from './tools';
+import type { MCPToolDefinition } from './types';
+
+// 创建定时发布工具
+export function createSchedulingTools(scheduler: PostScheduler, supabase: SupabaseService): MCPToolDefinition[] {
+  const schedulePost: MCPToolDefinition = {
+    name: 'schedule_post',
+    description: 'Schedule or reschedule a draft for automatic publishing. Local times without an offset are read in the site timezone unless timezone is given',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Draft post id',
+        },
+        at: {
+          type: 'string',
+          minLength: 10,
+          description: 'Publish time, e.g. "2024-05-01 09:30" (local) or "2024-05-01T01:30:00Z"',
+        },
+        timezone: {
+          type: 'string',
+          description: 'IANA timezone used for local times, e.g. "Asia/Shanghai"',
+        },
+      },
+      required: ['post_id', 'at'],
+    },
+    handler: async (args, context) => {
+      await requirePostEditor(supabase, args.post_id, context);
+      return scheduler.schedule(args.post_id, args.at, { timezone: args.timezone });
+    },
+  };
+
+  const cancelSchedule: MCPToolDefinition = {
+    name: 'cancel_scheduled_post',
+    description: 'Cancel the scheduled publishing of a draft; the post stays a draft',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Draft post id',
+        },
+      },
+      required: ['post_id'],
+    },
+    handler: async (args, context) => {
+      await requirePostEditor(supabase, args.post_id, context);
+      return { post_id: args.post_id, cancelled: await scheduler.cancel(args.post_id) };
+    },
+  };
+
+  const listScheduled: MCPToolDefinition = {
+    name: 'list_scheduled_posts',
+    description: 'List scheduled drafts in publishing order; non-admin callers only see their own posts',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        author_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Only posts by this author (admin only)',
+        },
+        timezone: {
+          type: 'string',
+          description: 'IANA timezone for scheduled_local (default: site timezone)',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 100,
+          description: 'Maximum number of posts (default 50)',
+        },
+      },
+      required: [],
+    },
+    handler: async (args, context) => {
+      const caller = requireActiveCaller(context);
+      const authorId = getCallerPermissions(caller).canManage ? args.author_id : caller.id;
+      const posts = await scheduler.list({ authorId, limit: args.limit ?? 50 }, args.timezone);
+      return { posts, timezone: posts[0]?.timezone ?? await scheduler.getTimezone() };
+    },
+  };
+
+  return [schedulePost, cancelSchedule, listScheduled];
+}
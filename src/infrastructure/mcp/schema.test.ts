@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { validateToolArguments } from './schema';
+import type { JsonSchema } from './schema';
+
+// 以单个属性 value 包装 schema，便于逐条校验关键字
+function check(schema: JsonSchema, value: unknown): string[] {
+  return validateToolArguments({ properties: { value: schema } }, { value }).map(error => error.message);
+}
+
+describe('validateToolArguments', () => {
+  it.each<[string, JsonSchema, unknown, string[]]>([
+    ['string 类型', { type: 'string' }, 'a', []],
+    ['string 类型不匹配', { type: 'string' }, 1, ['value must be of type string']],
+    ['integer 拒绝小数', { type: 'integer' }, 1.5, ['value must be of type integer']],
+    ['number 接受整数', { type: 'number' }, 2, []],
+    ['多个类型', { type: ['string', 'null'] }, null, []],
+    ['array 类型', { type: 'array' }, {}, ['value must be of type array']],
+    ['object 类型拒绝数组', { type: 'object' }, [], ['value must be of type object']],
+    ['enum 通过', { enum: ['draft', 'published'] }, 'draft', []],
+    ['enum 不通过', { enum: ['draft', 'published'] }, 'archived', ['value must be one of: draft, published']],
+    ['const', { const: 'post' }, 'comment', ['value must be "post"']],
+    ['uuid 格式', { type: 'string', format: 'uuid' }, 'not-a-uuid', ['value must be a valid uuid']],
+    ['uuid 格式通过', { type: 'string', format: 'uuid' }, '6f1c2a9e-3b4d-4c8e-9f10-2a3b4c5d6e7f', []],
+    ['email 格式', { type: 'string', format: 'email' }, 'a@', ['value must be a valid email']],
+    ['date-time 格式', { type: 'string', format: 'date-time' }, '2024-01-15T10:00:00Z', []],
+    ['date-time 缺少时区', { type: 'string', format: 'date-time' }, '2024-01-15T10:00:00', ['value must be a valid date-time']],
+    ['date 格式', { type: 'string', format: 'date' }, '2024-13-40', ['value must be a valid date']],
+    ['未知格式不校验', { type: 'string', format: 'color' }, 'red', []],
+    ['minLength', { type: 'string', minLength: 2 }, 'a', ['value must be at least 2 characters']],
+    ['maxLength', { type: 'string', maxLength: 2 }, 'abc', ['value must be at most 2 characters']],
+    ['pattern', { type: 'string', pattern: '^[a-z]+$' }, 'A1', ['value must match pattern ^[a-z]+$']],
+    ['minimum', { type: 'integer', minimum: 1 }, 0, ['value must be at least 1']],
+    ['maximum', { type: 'integer', maximum: 100 }, 101, ['value must be at most 100']],
+    ['边界值通过', { type: 'integer', minimum: 1, maximum: 100 }, 100, []],
+    ['exclusiveMinimum', { type: 'number', exclusiveMinimum: 0 }, 0, ['value must be greater than 0']],
+    ['exclusiveMaximum', { type: 'number', exclusiveMaximum: 1 }, 1, ['value must be less than 1']],
+    ['minItems', { type: 'array', minItems: 1 }, [], ['value must have at least 1 items']],
+    ['maxItems', { type: 'array', maxItems: 1 }, [1, 2], ['value must have at most 1 items']],
+    ['uniqueItems', { type: 'array', uniqueItems: true }, ['a', 'a'], ['value must not contain duplicate items']],
+    ['数组元素', { type: 'array', items: { type: 'string' } }, ['a', 1], ['value[1] must be of type string']],
+    ['嵌套对象', { type: 'object', properties: { id: { type: 'string' } } }, { id: 1 }, ['value.id must be of type string']],
+  ])('%s', (_name, schema, value, expected) => {
+    expect(check(schema, value)).toEqual(expected);
+  });
+
+  it('列出所有缺少的必填字段', () => {
+    const schema: JsonSchema = { properties: { title: { type: 'string' }, content: { type: 'string' } }, required: ['title', 'content'] };
+    expect(validateToolArguments(schema, {})).toEqual([
+      { field: 'title', message: 'title is required' },
+      { field: 'content', message: 'content is required' },
+    ]);
+  });
+
+  it.each<[string, JsonSchema['additionalProperties'], Record<string, unknown>, string[]]>([
+    ['默认允许额外属性', undefined, { extra: 1 }, []],
+    ['false 时拒绝', false, { extra: 1 }, ['extra is not allowed']],
+    ['按 schema 校验额外属性', { type: 'string' }, { extra: 1 }, ['extra must be of type string']],
+    ['原型链上的键视为额外属性', false, { constructor: 1, toString: 'x' }, ['constructor is not allowed', 'toString is not allowed']],
+    ['__proto__ 视为额外属性', false, JSON.parse('{"__proto__": {"polluted": true}}'), ['__proto__ is not allowed']],
+  ])('additionalProperties：%s', (_name, additionalProperties, args, expected) => {
+    const schema: JsonSchema = { properties: { title: { type: 'string' } }, additionalProperties };
+    expect(validateToolArguments(schema, args).map(error => error.message)).toEqual(expected);
+  });
+
+  it('参数不是对象时报错', () => {
+    expect(validateToolArguments({}, 'text')).toEqual([
+      { field: 'arguments', message: 'arguments must be of type object', value: 'text' },
+    ]);
+  });
+
+  it('错误中只回显较短的字符串值', () => {
+    const [short] = validateToolArguments({ properties: { id: { type: 'string', format: 'uuid' } } }, { id: 'x' });
+    expect(short.value).toBe('x');
+    const [long] = validateToolArguments({ properties: { id: { type: 'string', format: 'uuid' } } }, { id: 'x'.repeat(101) });
+    expect(long).not.toHaveProperty('value');
+  });
+});
@@ -0,0 +1,215 @@
+// MCP 工具参数校验
+// 按照工具声明的 JSON Schema（子集）校验 tools/call 参数，返回结构化的 ValidationError 列表
+
+import {
+  isArray,
+  isBoolean,
+  isEmail,
+  isInteger,
+  isNumber,
+  isObject,
+  isString,
+  isUnique,
+  isUrl,
+  isUuid,
+} from '../utils/validation';
+import type { ValidationError } from '../utils/validation';
+
+// 支持的 JSON Schema 关键字
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: any[];
+  const?: any;
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  description?: string;
+  default?: any;
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+// 参数根路径名称
+const ROOT_FIELD = 'arguments';
+
+// 错误中回显字符串值的最大长度
+const MAX_ECHO_LENGTH = 100;
+
+// 字符串格式校验
+const FORMAT_CHECKERS: Record<string, (value: string) => boolean> = {
+  uuid: isUuid,
+  email: isEmail,
+  uri: isUrl,
+  url: isUrl,
+  'date-time': value => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/i.test(value) && !isNaN(Date.parse(value)),
+  date: value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+};
+
+// ==================== 辅助函数 ====================
+
+// 拼接字段路径
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path === ROOT_FIELD ? key : `${path}.${key}`;
+}
+
+// 获取值的 JSON 类型
+function typeOf(value: unknown): JsonSchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (isArray(value)) return 'array';
+  if (isInteger(value)) return 'integer';
+  if (isNumber(value)) return 'number';
+  if (isString(value)) return 'string';
+  if (isBoolean(value)) return 'boolean';
+  if (isObject(value)) return 'object';
+  return 'undefined';
+}
+
+// 值是否满足类型声明
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+// 构造错误，只回显较短的原始值
+function createError(field: string, message: string, value: unknown): ValidationError {
+  const error: ValidationError = { field, message };
+  const echo = typeof value !== 'object' || value === null;
+  if (echo && !(isString(value) && value.length > MAX_ECHO_LENGTH)) {
+    error.value = value;
+  }
+  return error;
+}
+
+// ==================== 校验 ====================
+
+// 按 schema 校验单个值
+function validateValue(schema: JsonSchema, value: unknown, path: string, errors: ValidationError[]): void {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(createError(path, `${path} must be of type ${types.join(' or ')}`, value));
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(createError(path, `${path} must be ${JSON.stringify(schema.const)}`, value));
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(createError(path, `${path} must be one of: ${schema.enum.join(', ')}`, value));
+  }
+
+  if (isString(value)) {
+    validateString(schema, value, path, errors);
+  } else if (isNumber(value)) {
+    validateNumber(schema, value, path, errors);
+  } else if (isArray(value)) {
+    validateArray(schema, value, path, errors);
+  } else if (isObject(value)) {
+    validateObject(schema, value as Record<string, unknown>, path, errors);
+  }
+}
+
+// 字符串：长度、格式、正则
+function validateString(schema: JsonSchema, value: string, path: string, errors: ValidationError[]): void {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(createError(path, `${path} must be at least ${schema.minLength} characters`, value));
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push(createError(path, `${path} must be at most ${schema.maxLength} characters`, value));
+  }
+  if (schema.format) {
+    const checker = FORMAT_CHECKERS[schema.format];
+    if (checker && !checker(value)) {
+      errors.push(createError(path, `${path} must be a valid ${schema.format}`, value));
+    }
+  }
+  if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    errors.push(createError(path, `${path} must match pattern ${schema.pattern}`, value));
+  }
+}
+
+// 数字：范围
+function validateNumber(schema: JsonSchema, value: number, path: string, errors: ValidationError[]): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(createError(path, `${path} must be at least ${schema.minimum}`, value));
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push(createError(path, `${path} must be at most ${schema.maximum}`, value));
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    errors.push(createError(path, `${path} must be greater than ${schema.exclusiveMinimum}`, value));
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    errors.push(createError(path, `${path} must be less than ${schema.exclusiveMaximum}`, value));
+  }
+}
+
+// 数组：长度、唯一性、元素
+function validateArray(schema: JsonSchema, value: unknown[], path: string, errors: ValidationError[]): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push(createError(path, `${path} must have at least ${schema.minItems} items`, value));
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push(createError(path, `${path} must have at most ${schema.maxItems} items`, value));
+  }
+  if (schema.uniqueItems && !isUnique(value)) {
+    errors.push(createError(path, `${path} must not contain duplicate items`, value));
+  }
+  if (schema.items) {
+    value.forEach((item, index) => validateValue(schema.items!, item, joinPath(path, index), errors));
+  }
+}
+
+// 对象：必填字段、属性、额外属性
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: string,
+  errors: ValidationError[]
+): void {
+  const properties = schema.properties || {};
+
+  (schema.required || []).forEach(key => {
+    if (value[key] === undefined) {
+      const field = joinPath(path, key);
+      errors.push({ field, message: `${field} is required` });
+    }
+  });
+
+  Object.entries(value).forEach(([key, child]) => {
+    if (child === undefined) return;
+
+    const field = joinPath(path, key);
+    // 只认自身声明的属性，避免 constructor、__proto__ 等键命中原型链
+    if (Object.prototype.hasOwnProperty.call(properties, key)) {
+      validateValue(properties[key], child, field, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push(createError(field, `${field} is not allowed`, child));
+    } else if (isObject(schema.additionalProperties)) {
+      validateValue(schema.additionalProperties as JsonSchema, child, field, errors);
+    }
+  });
+}
+
+// 校验工具参数，返回全部错误（为空表示通过）
+export function validateToolArguments(schema: JsonSchema, args: unknown): ValidationError[] {
+  const errors: ValidationError[] = [];
+  validateValue({ ...schema, type: 'object' }, args, ROOT_FIELD, errors);
+  return errors;
+}
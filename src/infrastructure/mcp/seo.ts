@@ -0,0 +1,105 @@
+// MCP SEO 工具
+// 为文章作者提供 SEO 分析、AI 优化与字段写回
+
+import SupabaseService from '../supabase/client';
+import { SeoService } from '../seo/service';
+import { requirePostEditor } from './tools';
+import { MCPToolError } from './types';
+import type { MCPToolDefinition } from './types';
+
+// 创建 SEO 工具；未配置 AI 时不提供 optimize_post_seo
+export function createSeoTools(service: SeoService, supabase: SupabaseService): MCPToolDefinition[] {
+  const analyzePostSeo: MCPToolDefinition = {
+    name: 'analyze_post_seo',
+    description: 'Score a post on title, description, keywords, headings, image alt text, internal links and slug',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Post id',
+        },
+      },
+      required: ['post_id'],
+    },
+    handler: async (args, context) => {
+      await requirePostEditor(supabase, args.post_id, context);
+      return service.analyze(args.post_id);
+    },
+  };
+
+  const optimizePostSeo: MCPToolDefinition = {
+    name: 'optimize_post_seo',
+    description: 'Propose seo_title, seo_description and seo_keywords with the AI provider, optionally applying them',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Post id',
+        },
+        apply: {
+          type: 'boolean',
+          description: 'Write the proposed values to the post (default false)',
+        },
+      },
+      required: ['post_id'],
+    },
+    handler: async (args, context) => {
+      await requirePostEditor(supabase, args.post_id, context);
+      return service.optimize(args.post_id, { apply: args.apply === true, userId: context.caller!.id });
+    },
+  };
+
+  const applyPostSeo: MCPToolDefinition = {
+    name: 'apply_post_seo',
+    description: 'Update the SEO fields of a post; omitted fields are left unchanged',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Post id',
+        },
+        seo_title: {
+          type: ['string', 'null'],
+          maxLength: 200,
+          description: 'Search engine title',
+        },
+        seo_description: {
+          type: ['string', 'null'],
+          description: 'Search engine description',
+        },
+        seo_keywords: {
+          type: ['array', 'null'],
+          items: { type: 'string', minLength: 1 },
+          maxItems: 10,
+          description: 'Keywords, primary keyword first',
+        },
+      },
+      required: ['post_id'],
+    },
+    handler: async (args, context) => {
+      await requirePostEditor(supabase, args.post_id, context);
+      if (['seo_title', 'seo_description', 'seo_keywords'].every(key => args[key] === undefined)) {
+        throw new MCPToolError('至少需要提供一个 SEO 字段');
+      }
+      const result = await service.apply(args.post_id, {
+        seo_title: args.seo_title,
+        seo_description: args.seo_description,
+        seo_keywords: args.seo_keywords,
+      }, { userId: context.caller!.id });
+      return { ...result, report: await service.analyze(args.post_id) };
+    },
+  };
+
+  return service.canOptimize()
+    ? [analyzePostSeo, optimizePostSeo, applyPostSeo]
+    : [analyzePostSeo, applyPostSeo];
+}
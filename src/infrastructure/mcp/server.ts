@@ -0,0 +1,332 @@
+// MCP 服务器
+// 负责 JSON-RPC 消息分发以及 initialize / tools 握手流程
+
+import type { MCPTool } from '../types';
+import { getCallerPermissions } from './auth';
+import { validateToolArguments } from './schema';
+import {
+  JSON_RPC_ERRORS,
+  MCP_PROTOCOL_VERSION,
+  MCP_SUPPORTED_PROTOCOL_VERSIONS,
+  MCPProtocolError,
+  MCPToolError,
+} from './types';
+import type {
+  JsonRpcRequest,
+  JsonRpcResponse,
+  MCPContext,
+  MCPInitializeResult,
+  MCPServerCapabilities,
+  MCPServerInfo,
+  MCPToolCallRecord,
+  MCPToolCallRecorder,
+  MCPToolDefinition,
+  MCPToolResult,
+} from './types';
+
+// 服务器选项
+export interface MCPServerOptions {
+  name?: string;
+  version?: string;
+  instructions?: string;
+  onToolCall?: MCPToolCallRecorder;
+}
+
+// 方法处理函数
+type MethodHandler = (params: Record<string, any>, context: MCPContext) => Promise<any>;
+
+export class MCPServer {
+  private info: MCPServerInfo;
+  private instructions?: string;
+  private onToolCall?: MCPToolCallRecorder;
+  private tools = new Map<string, MCPToolDefinition>();
+  private methods = new Map<string, MethodHandler>();
+  // 已完成握手的会话；stdio 等没有会话 ID 的连接记为空字符串
+  private initializedSessions = new Set<string>();
+
+  constructor(options: MCPServerOptions = {}) {
+    this.info = {
+      name: options.name || 'blog-mcp',
+      version: options.version || '1.0.0',
+    };
+    this.instructions = options.instructions;
+    this.onToolCall = options.onToolCall;
+
+    this.methods.set('initialize', async (params) => this.initialize(params));
+    this.methods.set('ping', async () => ({}));
+    this.methods.set('tools/list', async (_params, context) => this.listTools(context));
+    this.methods.set('tools/call', async (params, context) => this.callTool(params, context));
+  }
+
+  // ==================== 注册方法 ====================
+
+  // 注册工具
+  registerTool(tool: MCPToolDefinition): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`MCP 工具 ${tool.name} 已注册`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  // 批量注册工具
+  registerTools(tools: MCPToolDefinition[]): this {
+    tools.forEach(tool => this.registerTool(tool));
+    return this;
+  }
+
+  // 注册自定义方法（供 resources / prompts 等扩展使用）
+  registerMethod(method: string, handler: MethodHandler): this {
+    this.methods.set(method, handler);
+    return this;
+  }
+
+  // 获取工具定义
+  getTool(name: string): MCPToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  // 会话是否已完成握手
+  isInitialized(sessionId: string = ''): boolean {
+    return this.initializedSessions.has(sessionId);
+  }
+
+  // 会话结束时清除握手状态
+  endSession(sessionId: string): void {
+    this.initializedSessions.delete(sessionId);
+  }
+
+  // ==================== 消息处理 ====================
+
+  // 处理原始 JSON 文本，返回需要回写的 JSON 文本（通知无返回）
+  async handleRaw(raw: string, context: MCPContext = { caller: null }): Promise<string | null> {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return JSON.stringify(this.errorResponse(null, JSON_RPC_ERRORS.PARSE_ERROR, 'Parse error'));
+    }
+
+    if (Array.isArray(message)) {
+      const responses = await Promise.all(message.map(item => this.handleMessage(item, context)));
+      const filtered = responses.filter((item): item is JsonRpcResponse => item !== null);
+      return filtered.length > 0 ? JSON.stringify(filtered) : null;
+    }
+
+    const response = await this.handleMessage(message, context);
+    return response ? JSON.stringify(response) : null;
+  }
+
+  // 处理单条 JSON-RPC 消息
+  async handleMessage(message: any, context: MCPContext = { caller: null }): Promise<JsonRpcResponse | null> {
+    if (!this.isValidRequest(message)) {
+      return this.errorResponse(
+        message && message.id !== undefined ? message.id : null,
+        JSON_RPC_ERRORS.INVALID_REQUEST,
+        'Invalid Request'
+      );
+    }
+
+    const request = message as JsonRpcRequest;
+    const isNotification = request.id === undefined || request.id === null;
+
+    // 通知消息不需要响应
+    if (isNotification) {
+      if (request.method === 'notifications/initialized') {
+        this.initializedSessions.add(context.sessionId || '');
+      }
+      return null;
+    }
+
+    const handler = this.methods.get(request.method);
+    if (!handler) {
+      return this.errorResponse(
+        request.id!,
+        JSON_RPC_ERRORS.METHOD_NOT_FOUND,
+        `Method not found: ${request.method}`
+      );
+    }
+
+    try {
+      const result = await handler(request.params || {}, context);
+      return { jsonrpc: '2.0', id: request.id!, result };
+    } catch (error) {
+      if (error instanceof MCPProtocolError) {
+        return this.errorResponse(request.id!, error.code, error.message, error.data);
+      }
+      console.error(`MCP 方法 ${request.method} 执行失败:`, error);
+      return this.errorResponse(
+        request.id!,
+        JSON_RPC_ERRORS.INTERNAL_ERROR,
+        error instanceof Error ? error.message : 'Internal error'
+      );
+    }
+  }
+
+  // ==================== 协议方法 ====================
+
+  // 握手；客户端请求的协议版本受支持时沿用，否则返回默认版本，由客户端决定是否断开
+  private initialize(params: Record<string, any>): MCPInitializeResult {
+    const result: MCPInitializeResult = {
+      protocolVersion: MCP_SUPPORTED_PROTOCOL_VERSIONS.includes(params.protocolVersion)
+        ? params.protocolVersion
+        : MCP_PROTOCOL_VERSION,
+      capabilities: this.getCapabilities(),
+      serverInfo: this.info,
+    };
+
+    if (this.instructions) {
+      result.instructions = this.instructions;
+    }
+
+    return result;
+  }
+
+  // 根据已注册的方法声明能力
+  private getCapabilities(): MCPServerCapabilities {
+    const capabilities: MCPServerCapabilities = {};
+
+    if (this.methods.has('tools/list')) {
+      capabilities.tools = { listChanged: false };
+    }
+    if (this.methods.has('resources/list')) {
+      capabilities.resources = { subscribe: false, listChanged: false };
+    }
+    if (this.methods.has('prompts/list')) {
+      capabilities.prompts = { listChanged: false };
+    }
+
+    return capabilities;
+  }
+
+  // 调用方是否拥有工具所需权限
+  canUseTool(tool: MCPToolDefinition, context: MCPContext): boolean {
+    if (!tool.permission) return true;
+    return getCallerPermissions(context.caller)[tool.permission];
+  }
+
+  // 列出调用方可用的工具
+  private listTools(context: MCPContext): { tools: MCPTool[] } {
+    return {
+      tools: Array.from(this.tools.values())
+        .filter(tool => this.canUseTool(tool, context))
+        .map(({ name, description, inputSchema }) => ({
+          name,
+          description,
+          inputSchema,
+        })),
+    };
+  }
+
+  // 调用工具，并将调用结果交给审计记录函数
+  private async callTool(params: Record<string, any>, context: MCPContext): Promise<MCPToolResult> {
+    if (!this.onToolCall) {
+      return this.executeTool(params, context);
+    }
+
+    const startedAt = new Date();
+    let result: MCPToolResult | undefined;
+    let failure: unknown;
+    try {
+      result = await this.executeTool(params, context);
+      return result;
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      const errorText = result
+        ? (result.isError ? result.content.map(item => (item.type === 'text' ? item.text : '')).join('\n') : undefined)
+        : (failure instanceof Error ? failure.message : String(failure));
+
+      await this.recordToolCall({
+        tool: typeof params.name === 'string' ? params.name : String(params.name),
+        params: params.arguments || {},
+        success: Boolean(result && !result.isError),
+        error: errorText,
+        caller_id: context.caller ? context.caller.id : null,
+        caller_role: context.caller ? context.caller.role : null,
+        session_id: context.sessionId || null,
+        duration_ms: Date.now() - startedAt.getTime(),
+        started_at: startedAt.toISOString(),
+      });
+    }
+  }
+
+  // 写入审计记录，失败时只记录日志，不影响工具结果
+  private async recordToolCall(record: MCPToolCallRecord): Promise<void> {
+    try {
+      await this.onToolCall!(record);
+    } catch (error) {
+      console.error(`MCP 工具 ${record.tool} 调用记录失败:`, error);
+    }
+  }
+
+  // 执行工具
+  private async executeTool(params: Record<string, any>, context: MCPContext): Promise<MCPToolResult> {
+    const name = params.name;
+    if (typeof name !== 'string') {
+      throw new MCPProtocolError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Tool name is required');
+    }
+
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new MCPProtocolError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+
+    if (!this.canUseTool(tool, context)) {
+      return {
+        content: [{ type: 'text', text: `权限不足：工具 ${name} 需要 ${tool.permission} 权限` }],
+        isError: true,
+      };
+    }
+
+    const args = params.arguments ?? {};
+    const errors = validateToolArguments(tool.inputSchema, args);
+    if (errors.length > 0) {
+      throw new MCPProtocolError(JSON_RPC_ERRORS.INVALID_PARAMS, `Invalid arguments for tool ${name}`, errors);
+    }
+
+    try {
+      const data = await tool.handler(args, context);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      };
+    } catch (error) {
+      if (error instanceof MCPToolError) {
+        return {
+          content: [{ type: 'text', text: error.message }],
+          isError: true,
+        };
+      }
+      throw error;
+    }
+  }
+
+  // ==================== 辅助方法 ====================
+
+  // 校验请求结构
+  private isValidRequest(message: any): boolean {
+    return (
+      message !== null &&
+      typeof message === 'object' &&
+      message.jsonrpc === '2.0' &&
+      typeof message.method === 'string'
+    );
+  }
+
+  // 构造错误响应
+  private errorResponse(
+    id: JsonRpcResponse['id'],
+    code: number,
+    message: string,
+    data?: any
+  ): JsonRpcResponse {
+    const error: JsonRpcResponse['error'] = { code, message };
+    if (data !== undefined) {
+      error.data = data;
+    }
+    return { jsonrpc: '2.0', id, error };
+  }
+}
+
+export default MCPServer;
@@ -0,0 +1,66 @@
+// MCP stdio 传输层
+// 按行读取 JSON-RPC 消息，响应写回 stdout；日志只能写到 stderr
+
+import { createInterface } from 'readline';
+import type { Readable, Writable } from 'stream';
+import type { MCPServer } from './server';
+import type { MCPContext } from './types';
+
+// stdio 传输选项
+export interface StdioTransportOptions {
+  input?: Readable;
+  output?: Writable;
+  context?: MCPContext;
+}
+
+export class StdioTransport {
+  private input: Readable;
+  private output: Writable;
+  private context: MCPContext;
+  private pending = new Set<Promise<void>>();
+
+  constructor(private server: MCPServer, options: StdioTransportOptions = {}) {
+    this.input = options.input || process.stdin;
+    this.output = options.output || process.stdout;
+    this.context = options.context || { caller: null };
+  }
+
+  // 开始监听输入，输入流结束时 resolve
+  start(): Promise<void> {
+    const reader = createInterface({ input: this.input, crlfDelay: Infinity });
+
+    reader.on('line', (line) => {
+      if (!line.trim()) return;
+
+      const task = this.server
+        .handleRaw(line, this.context)
+        .then((response) => {
+          if (response !== null) {
+            this.send(response);
+          }
+        })
+        .catch((error) => {
+          console.error('MCP 消息处理失败:', error);
+        })
+        .finally(() => {
+          this.pending.delete(task);
+        });
+
+      this.pending.add(task);
+    });
+
+    return new Promise((resolve) => {
+      reader.on('close', async () => {
+        await Promise.all(Array.from(this.pending));
+        resolve();
+      });
+    });
+  }
+
+  // 写出一条消息
+  private send(message: string): void {
+    this.output.write(message + '\n');
+  }
+}
+
+export default StdioTransport;
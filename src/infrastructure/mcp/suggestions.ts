@@ -0,0 +1,136 @@
+// MCP 标签建议工具
+// 为文章作者生成、查看、采纳和拒绝标签建议
+
+import SupabaseService from '../supabase/client';
+import { TagSuggestionService } from '../ai/tags';
+import { requirePostEditor } from './tools';
+import { MCPToolError } from './types';
+import type { MCPContext, MCPToolDefinition } from './types';
+
+// 创建标签建议工具
+export function createTagSuggestionTools(service: TagSuggestionService, supabase: SupabaseService): MCPToolDefinition[] {
+  // 按建议 ID 校验权限，只能处理待处理的建议
+  const requirePendingSuggestion = async (id: string, context: MCPContext) => {
+    const suggestion = await service.get(id);
+    if (!suggestion) {
+      throw new MCPToolError('标签建议不存在');
+    }
+    await requirePostEditor(supabase, suggestion.post_id, context);
+    if (suggestion.status !== 'pending') {
+      throw new MCPToolError(`标签建议已处理（${suggestion.status}）`);
+    }
+  };
+
+  const suggestTags: MCPToolDefinition = {
+    name: 'suggest_tags',
+    description: 'Suggest existing tags for a post and store them as pending suggestions',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Post id',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 20,
+          description: 'Maximum number of suggestions (default 5)',
+        },
+        min_score: {
+          type: 'number',
+          minimum: 0,
+          maximum: 1,
+          description: 'Minimum confidence score (default 0.15)',
+        },
+        use_ai: {
+          type: 'boolean',
+          description: 'Let the configured AI provider review the candidates (default true)',
+        },
+      },
+      required: ['post_id'],
+    },
+    handler: async (args, context) => {
+      await requirePostEditor(supabase, args.post_id, context);
+      const suggestions = await service.suggest(args.post_id, {
+        limit: args.limit,
+        minScore: args.min_score,
+        useAI: args.use_ai,
+        userId: context.caller!.id,
+      });
+      return { post_id: args.post_id, suggestions };
+    },
+  };
+
+  const listSuggestions: MCPToolDefinition = {
+    name: 'list_tag_suggestions',
+    description: 'List tag suggestions of a post',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        post_id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Post id',
+        },
+        status: {
+          type: 'string',
+          enum: ['pending', 'accepted', 'rejected'],
+          description: 'Only suggestions in this status',
+        },
+      },
+      required: ['post_id'],
+    },
+    handler: async (args, context) => {
+      await requirePostEditor(supabase, args.post_id, context);
+      return { post_id: args.post_id, suggestions: await service.list(args.post_id, args.status) };
+    },
+  };
+
+  const acceptSuggestion: MCPToolDefinition = {
+    name: 'accept_tag_suggestion',
+    description: 'Accept a pending tag suggestion and add the tag to the post',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Suggestion id',
+        },
+      },
+      required: ['id'],
+    },
+    handler: async (args, context) => {
+      await requirePendingSuggestion(args.id, context);
+      return service.accept(args.id, context.caller!.id);
+    },
+  };
+
+  const rejectSuggestion: MCPToolDefinition = {
+    name: 'reject_tag_suggestion',
+    description: 'Reject a pending tag suggestion; the tag will not be suggested for the post again',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Suggestion id',
+        },
+      },
+      required: ['id'],
+    },
+    handler: async (args, context) => {
+      await requirePendingSuggestion(args.id, context);
+      return service.reject(args.id, context.caller!.id);
+    },
+  };
+
+  return [suggestTags, listSuggestions, acceptSuggestion, rejectSuggestion];
+}
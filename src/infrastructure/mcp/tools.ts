@@ -0,0 +1,356 @@
+// MCP 博客工具
+// 基于 SupabaseService 提供文章、标签相关的工具
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { PostAccessService } from '../posts/access';
+import { PostService } from '../posts/service';
+import type { PostRow } from '../posts/types';
+import { MCPToolError } from './types';
+import { getCallerPermissions } from './auth';
+import type { MCPContext, MCPToolDefinition } from './types';
+
+// 列表查询时返回的文章字段（不含正文）
+const POST_LIST_COLUMNS =
+  'id, title, slug, excerpt, status, visibility, featured, pinned, reading_time, view_count, like_count, comment_count, published_at, created_at, updated_at';
+
+// 默认与最大分页大小
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// ==================== 辅助函数 ====================
+
+// 规范化分页参数
+function normalizeLimit(limit: unknown): number {
+  const value = typeof limit === 'number' ? Math.floor(limit) : DEFAULT_LIMIT;
+  return Math.min(Math.max(value, 1), MAX_LIMIT);
+}
+
+// 规范化偏移量
+function normalizeOffset(offset: unknown): number {
+  return typeof offset === 'number' && offset > 0 ? Math.floor(offset) : 0;
+}
+
+// 去除 PostgREST 过滤语法中的保留字符
+function sanitizeSearchTerm(term: string): string {
+  return term.replace(/[%,()"\\*]/g, ' ').trim();
+}
+
+// 按照 posts 表 RLS 策略追加可见性过滤
+// 管理员可见全部；登录用户可见公开已发布文章和自己的文章；匿名只可见公开已发布文章
+// includeProtected 时同时包含已发布的密码保护文章（调用方需自行隐藏正文）
+export function applyPostVisibility<T extends { or: (filters: string) => T }>(
+  query: T,
+  context: MCPContext,
+  options: { includeProtected?: boolean } = {}
+): T {
+  const caller = context.caller;
+  if (caller && caller.status === 'active' && caller.role === 'admin') {
+    return query;
+  }
+  const visible = options.includeProtected
+    ? 'and(status.eq.published,visibility.in.(public,password_protected))'
+    : 'and(status.eq.published,visibility.eq.public)';
+  if (caller && caller.status === 'active') {
+    return query.or(`${visible},author_id.eq.${caller.id}`);
+  }
+  return query.or(visible);
+}
+
+// 要求调用方已登录且为活跃状态
+export function requireActiveCaller(context: MCPContext) {
+  if (!context.caller) {
+    throw new MCPToolError('该工具需要登录用户身份');
+  }
+  if (context.caller.status !== 'active') {
+    throw new MCPToolError('当前用户状态不允许执行该操作');
+  }
+  return context.caller;
+}
+
+// 要求调用方是文章作者或拥有管理权限
+export async function requirePostEditor(supabase: SupabaseService, postId: string, context: MCPContext): Promise<void> {
+  const caller = requireActiveCaller(context);
+  if (getCallerPermissions(caller).canManage) return;
+
+  const { data, error } = await supabase.getServiceClient()
+    .from('posts')
+    .select('author_id')
+    .eq('id', postId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) {
+    throw new MCPToolError('文章不存在');
+  }
+  if (data.author_id !== caller.id) {
+    throw new MCPToolError('只能操作自己的文章');
+  }
+}
+
+// ==================== 工具定义 ====================
+
+// 创建博客工具集
+export function createBlogTools(supabase: SupabaseService = getSupabaseService()): MCPToolDefinition[] {
+  const client = supabase.getServiceClient();
+  const posts = new PostService(supabase);
+  const access = new PostAccessService(supabase);
+
+  const listPosts: MCPToolDefinition = {
+    name: 'list_posts',
+    description: 'List blog posts visible to the caller, newest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['draft', 'published', 'archived'],
+          description: 'Filter by post status',
+        },
+        featured: {
+          type: 'boolean',
+          description: 'Only return featured posts',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_LIMIT,
+          description: 'Maximum number of posts to return',
+          default: DEFAULT_LIMIT,
+        },
+        offset: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Number of posts to skip',
+          default: 0,
+        },
+      },
+      required: [],
+    },
+    handler: async (args, context) => {
+      const limit = normalizeLimit(args.limit);
+      const offset = normalizeOffset(args.offset);
+
+      let query = client
+        .from('posts')
+        .select(POST_LIST_COLUMNS, { count: 'exact' })
+        .neq('status', 'deleted');
+
+      if (args.status) {
+        query = query.eq('status', args.status);
+      }
+      if (args.featured !== undefined) {
+        query = query.eq('featured', Boolean(args.featured));
+      }
+
+      query = applyPostVisibility(query, context)
+        .order('pinned', { ascending: false })
+        .order('published_at', { ascending: false, nullsFirst: false })
+        .range(offset, offset + limit - 1);
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+
+      return {
+        posts: data || [],
+        total: count || 0,
+        limit,
+        offset,
+      };
+    },
+  };
+
+  const getPost: MCPToolDefinition = {
+    name: 'get_post',
+    description: 'Get a single blog post with its content, categories and tags by id or slug; password-protected posts return locked without content unless a valid unlock token is given',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Post id',
+        },
+        slug: {
+          type: 'string',
+          description: 'Post slug',
+        },
+        unlock_token: {
+          type: 'string',
+          description: 'Token returned by unlock_post for a password-protected post',
+        },
+      },
+      required: [],
+    },
+    handler: async (args, context) => {
+      if (!args.id && !args.slug) {
+        throw new MCPToolError('必须提供 id 或 slug');
+      }
+
+      let query = client
+        .from('posts')
+        .select('*, post_categories(categories(id, name, slug)), post_tags(tags(id, name, slug))')
+        .neq('status', 'deleted');
+
+      query = args.id ? query.eq('id', args.id) : query.eq('slug', args.slug);
+
+      const { data, error } = await applyPostVisibility(query, context, { includeProtected: true }).maybeSingle();
+      if (error) throw error;
+      if (!data) {
+        throw new MCPToolError('文章不存在或无权访问');
+      }
+
+      const caller = context.caller && context.caller.status === 'active' ? context.caller : null;
+      return access.protect(data as PostRow, {
+        unlockToken: args.unlock_token,
+        viewer: caller ? { id: caller.id, isAdmin: caller.role === 'admin' } : null,
+      });
+    },
+  };
+
+  const searchPosts: MCPToolDefinition = {
+    name: 'search_posts',
+    description: 'Search posts by keyword in title, excerpt and content',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          minLength: 1,
+          description: 'Search keyword',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_LIMIT,
+          description: 'Maximum number of results',
+          default: DEFAULT_LIMIT,
+        },
+      },
+      required: ['query'],
+    },
+    handler: async (args, context) => {
+      const term = sanitizeSearchTerm(String(args.query));
+      if (!term) {
+        throw new MCPToolError('搜索关键词不能为空');
+      }
+
+      const pattern = `%${term}%`;
+      const query = client
+        .from('posts')
+        .select(POST_LIST_COLUMNS)
+        .neq('status', 'deleted')
+        .or(`title.ilike.${pattern},excerpt.ilike.${pattern},content.ilike.${pattern}`);
+
+      const { data, error } = await applyPostVisibility(query, context)
+        .order('published_at', { ascending: false, nullsFirst: false })
+        .limit(normalizeLimit(args.limit));
+      if (error) throw error;
+
+      return {
+        query: term,
+        posts: data || [],
+      };
+    },
+  };
+
+  const createDraft: MCPToolDefinition = {
+    name: 'create_draft',
+    description: 'Create a new draft post authored by the caller',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        title: {
+          type: 'string',
+          minLength: 1,
+          maxLength: 200,
+          description: 'Post title',
+        },
+        content: {
+          type: 'string',
+          description: 'Post content in Markdown',
+        },
+        excerpt: {
+          type: 'string',
+          description: 'Short summary of the post',
+        },
+        slug: {
+          type: 'string',
+          maxLength: 200,
+          description: 'Custom slug, generated from the title when omitted',
+        },
+        category_ids: {
+          type: 'array',
+          items: { type: 'string', format: 'uuid' },
+          description: 'Category ids to attach',
+        },
+        tag_ids: {
+          type: 'array',
+          items: { type: 'string', format: 'uuid' },
+          description: 'Tag ids to attach',
+        },
+      },
+      required: ['title', 'content'],
+    },
+    handler: async (args, context) => {
+      const caller = requireActiveCaller(context);
+
+      const categoryIds: string[] = Array.isArray(args.category_ids) ? args.category_ids : [];
+      const tagIds: string[] = Array.isArray(args.tag_ids) ? args.tag_ids : [];
+      const { id, title, slug, status, created_at } = await posts.createDraft({
+        author_id: caller.id,
+        title: String(args.title),
+        content: String(args.content),
+        excerpt: args.excerpt ?? null,
+        ...(args.slug ? { slug: String(args.slug) } : {}),
+      }, { categoryIds, tagIds });
+
+      return {
+        id,
+        title,
+        slug,
+        status,
+        created_at,
+        category_ids: categoryIds,
+        tag_ids: tagIds,
+      };
+    },
+  };
+
+  const listTags: MCPToolDefinition = {
+    name: 'list_tags',
+    description: 'List blog tags ordered by usage or name',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        order_by: {
+          type: 'string',
+          enum: ['post_count', 'name'],
+          description: 'Sort order',
+          default: 'post_count',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_LIMIT,
+          description: 'Maximum number of tags',
+          default: DEFAULT_LIMIT,
+        },
+      },
+      required: [],
+    },
+    handler: async (args) => {
+      const orderBy = args.order_by === 'name' ? 'name' : 'post_count';
+
+      const { data, error } = await client
+        .from('tags')
+        .select('id, name, slug, description, color, post_count')
+        .order(orderBy, { ascending: orderBy === 'name' })
+        .limit(normalizeLimit(args.limit));
+      if (error) throw error;
+
+      return { tags: data || [] };
+    },
+  };
+
+  return [listPosts, getPost, searchPosts, createDraft, listTags];
+}
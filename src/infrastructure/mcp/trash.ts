@@ -0,0 +1,144 @@
+// MCP 回收站工具
+// 删除文章、评论、媒体时移入回收站，可以列出与恢复；管理员可以永久删除
+// 管理员可以处理全部条目，版主可以处理全部评论与媒体，其他用户只能处理自己创建的内容
+
+import { TrashService, TRASH_TYPE_LABELS } from '../trash/service';
+import type { TrashType } from '../trash/service';
+import { getCallerPermissions } from './auth';
+import type { JsonSchema } from './schema';
+import { requireActiveCaller } from './tools';
+import { MCPToolError } from './types';
+import type { MCPCaller, MCPContext, MCPToolDefinition } from './types';
+
+// 条目类型参数
+const TYPE_PROPERTY: JsonSchema = {
+  type: 'string',
+  enum: ['post', 'comment', 'media'],
+  description: 'Item type',
+};
+
+// 条目 ID 参数
+const ID_PROPERTY: JsonSchema = {
+  type: 'string',
+  format: 'uuid',
+  description: 'Post, comment or media id',
+};
+
+// 调用方能否处理该类型的全部条目
+function canHandleAll(caller: MCPCaller, type: TrashType): boolean {
+  const permissions = getCallerPermissions(caller);
+  return permissions.canManage || (type !== 'post' && permissions.canDelete);
+}
+
+// 要求调用方可以处理该条目
+async function requireTrashAccess(service: TrashService, type: TrashType, id: string, context: MCPContext): Promise<MCPCaller> {
+  const caller = requireActiveCaller(context);
+  const entity = await service.find(type, id);
+  if (!entity) {
+    throw new MCPToolError(`${TRASH_TYPE_LABELS[type]}不存在`);
+  }
+  if (!canHandleAll(caller, type) && entity.author_id !== caller.id) {
+    throw new MCPToolError(`只能操作自己的${TRASH_TYPE_LABELS[type]}`);
+  }
+  return caller;
+}
+
+// 创建回收站工具
+export function createTrashTools(service: TrashService): MCPToolDefinition[] {
+  const moveToTrash: MCPToolDefinition = {
+    name: 'move_to_trash',
+    description: 'Delete a post, comment or media file by moving it to the trash. It can be restored until the retention period ends',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: TYPE_PROPERTY,
+        id: ID_PROPERTY,
+      },
+      required: ['type', 'id'],
+    },
+    handler: async (args, context) => {
+      const caller = await requireTrashAccess(service, args.type, args.id, context);
+      const moved = await service.moveToTrash(args.type, args.id, { deletedBy: caller.id });
+      return { type: args.type, id: args.id, moved };
+    },
+  };
+
+  const listTrash: MCPToolDefinition = {
+    name: 'list_trash',
+    description: 'List trashed posts, comments or media files, most recently deleted first, with the time each will be purged',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: TYPE_PROPERTY,
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 100,
+          description: 'Page size (default 20)',
+        },
+        offset: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Number of items to skip',
+        },
+      },
+      required: ['type'],
+    },
+    handler: async (args, context) => {
+      const caller = requireActiveCaller(context);
+      return service.list(args.type, {
+        authorId: canHandleAll(caller, args.type) ? undefined : caller.id,
+        limit: args.limit,
+        offset: args.offset,
+      });
+    },
+  };
+
+  const restoreFromTrash: MCPToolDefinition = {
+    name: 'restore_from_trash',
+    description: 'Restore a trashed item. Posts come back as drafts and are re-linked to their categories and tags that still exist; comments get their previous status back',
+    permission: 'canWrite',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: TYPE_PROPERTY,
+        id: ID_PROPERTY,
+      },
+      required: ['type', 'id'],
+    },
+    handler: async (args, context) => {
+      await requireTrashAccess(service, args.type, args.id, context);
+      return service.restore(args.type, args.id);
+    },
+  };
+
+  const purgeTrash: MCPToolDefinition = {
+    name: 'purge_trash',
+    description: 'Permanently delete one trashed item by type and id, or every item past the retention period when no id is given',
+    permission: 'canManage',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: TYPE_PROPERTY,
+        id: ID_PROPERTY,
+      },
+      required: [],
+    },
+    handler: async (args) => {
+      if (!args.id) {
+        return service.purgeExpired();
+      }
+      if (!args.type) {
+        throw new MCPToolError('永久删除单个条目时必须提供 type');
+      }
+      if (!(await service.purge(args.type, args.id))) {
+        throw new MCPToolError(`${TRASH_TYPE_LABELS[args.type as TrashType]}不在回收站中`);
+      }
+      return { type: args.type, id: args.id, purged: true };
+    },
+  };
+
+  return [moveToTrash, listTrash, restoreFromTrash, purgeTrash];
+}
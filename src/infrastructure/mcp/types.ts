@@ -0,0 +1,146 @@
+// MCP 协议类型定义
+// 基于 JSON-RPC 2.0 的 Model Context Protocol 消息结构
+
+import type { MCPTool, MCPToolCall } from '../types';
+import type { UserPermissions } from '../supabase/client';
+
+// ==================== JSON-RPC 基础类型 ====================
+
+// 请求 ID
+export type JsonRpcId = string | number;
+
+// JSON-RPC 请求（无 id 时为通知）
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId | null;
+  method: string;
+  params?: Record<string, any>;
+}
+
+// JSON-RPC 错误
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+// JSON-RPC 响应
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  result?: any;
+  error?: JsonRpcError;
+}
+
+// 标准错误码
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  // MCP 扩展错误码
+  RESOURCE_NOT_FOUND: -32002,
+} as const;
+
+// ==================== MCP 协议类型 ====================
+
+// 默认协议版本；客户端请求的版本不受支持时使用
+export const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+// 支持的协议版本
+export const MCP_SUPPORTED_PROTOCOL_VERSIONS: readonly string[] = ['2025-03-26', MCP_PROTOCOL_VERSION];
+
+// 服务器信息
+export interface MCPServerInfo {
+  name: string;
+  version: string;
+}
+
+// 服务器能力声明
+export interface MCPServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, never>;
+}
+
+// initialize 返回结果
+export interface MCPInitializeResult {
+  protocolVersion: string;
+  capabilities: MCPServerCapabilities;
+  serverInfo: MCPServerInfo;
+  instructions?: string;
+}
+
+// 内容块
+export type MCPContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'resource'; resource: { uri: string; mimeType?: string; text?: string } };
+
+// tools/call 返回结果
+export interface MCPToolResult {
+  content: MCPContent[];
+  isError?: boolean;
+}
+
+// ==================== 服务端扩展类型 ====================
+
+// 调用方信息
+export interface MCPCaller {
+  id: string;
+  role: 'user' | 'admin' | 'moderator';
+  status: 'active' | 'inactive' | 'suspended' | 'banned';
+}
+
+// 请求上下文
+export interface MCPContext {
+  caller: MCPCaller | null;
+  sessionId?: string;
+  // 客户端 IP（HTTP 传输），用于按 IP 限流
+  clientIp?: string;
+}
+
+// 工具处理函数
+export type MCPToolHandler = (
+  args: Record<string, any>,
+  context: MCPContext
+) => Promise<any>;
+
+// 工具所需权限，对应 getPermissionsByRole 返回的权限位
+export type MCPToolPermission = keyof UserPermissions;
+
+// 带处理函数的工具定义
+export interface MCPToolDefinition extends MCPTool {
+  handler: MCPToolHandler;
+  permission?: MCPToolPermission;
+}
+
+// 工具调用审计记录
+export interface MCPToolCallRecord extends MCPToolCall {
+  caller_id: string | null;
+  caller_role: MCPCaller['role'] | null;
+  session_id: string | null;
+  duration_ms: number;
+  started_at: string;
+}
+
+// 工具调用记录函数
+export type MCPToolCallRecorder = (record: MCPToolCallRecord) => Promise<void> | void;
+
+// 工具执行失败时抛出的业务错误，会以 isError 结果返回给客户端
+export class MCPToolError extends Error {
+  constructor(message: string, public readonly data?: any) {
+    super(message);
+    this.name = 'MCPToolError';
+  }
+}
+
+// 协议层错误，会以 JSON-RPC error 返回给客户端
+export class MCPProtocolError extends Error {
+  constructor(public readonly code: number, message: string, public readonly data?: any) {
+    super(message);
+    this.name = 'MCPProtocolError';
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type SupabaseService from '../supabase/client';
+import { PostAccessService } from './access';
+import type { PostRow } from './types';
+
+// 客户端绕过 PostService 直接写入的正文 HTML
+const STORED_HTML = '<p>正文</p><script>alert(1)</script><img src="x" onerror="alert(1)"><a href="javascript:alert(1)">链接</a>';
+
+const POST = {
+  id: 'post-1',
+  author_id: 'author-1',
+  title: '标题',
+  slug: 'hello',
+  content: '正文',
+  content_html: STORED_HTML,
+  status: 'published',
+  visibility: 'public',
+  password: null,
+} as PostRow;
+
+// 任何查询都返回同一篇文章的 Supabase 服务
+function fakeSupabase(post: PostRow): SupabaseService {
+  const query: any = new Proxy({}, {
+    get: (_target, property) => property === 'then'
+      ? (resolve: (value: unknown) => void) => resolve({ data: post, error: null })
+      : () => query,
+  });
+  return { getServiceClient: () => ({ from: () => query }) } as unknown as SupabaseService;
+}
+
+describe('PostAccessService', () => {
+  it('read 输出前重新净化已保存的 HTML', async () => {
+    const service = new PostAccessService(fakeSupabase(POST), { secret: 'secret' });
+    const view = await service.read({ id: POST.id });
+    expect(view?.content_html).toContain('<p>正文</p>');
+    expect(view?.content_html).not.toMatch(/<script|onerror|javascript:/i);
+  });
+
+  it('作者读取自己的文章时同样净化', () => {
+    const service = new PostAccessService(fakeSupabase(POST), { secret: 'secret' });
+    const view = service.protect(POST, { viewer: { id: POST.author_id } });
+    expect(view.content_html).not.toMatch(/<script|onerror|javascript:/i);
+  });
+
+  it('content_html 为空时保持为空', () => {
+    const service = new PostAccessService(fakeSupabase(POST), { secret: 'secret' });
+    expect(service.protect({ ...POST, content_html: null }).content_html).toBeNull();
+  });
+
+  it('未解锁的密码保护文章不返回正文', () => {
+    const post = { ...POST, visibility: 'password_protected', password: 'hash' } as PostRow;
+    const service = new PostAccessService(fakeSupabase(post), { secret: 'secret' });
+    const view = service.protect(post, { unlockToken: 'invalid' });
+    expect(view).toMatchObject({ content: null, content_html: null, locked: true });
+    expect(view).not.toHaveProperty('password');
+  });
+});
@@ -0,0 +1,202 @@
+// 文章访问控制
+// 密码保护的文章：验证密码后签发只对该文章有效的短期解锁令牌，服务端读取时只有持有有效令牌才返回正文
+// 密码哈希与按 IP 的错误次数限制由数据库完成（见 verify_post_password）
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { getEnv } from '../config';
+import { sanitizePostHtml } from '../render/pipeline';
+import { createSignedToken, readSignedToken } from './tokens';
+import type { PostRow } from './types';
+
+// 访问控制选项
+export interface PostAccessOptions {
+  // 解锁令牌签名密钥，默认读取 POST_UNLOCK_SECRET
+  secret?: string;
+  // 解锁令牌有效期（毫秒）
+  tokenTtl?: number;
+  // 同一 IP 在统计窗口内允许的错误次数
+  maxFailures?: number;
+  // 错误次数统计窗口（毫秒）
+  failureWindow?: number;
+}
+
+// 读取文章的用户
+export interface PostViewer {
+  id: string;
+  isAdmin?: boolean;
+}
+
+// 读取选项
+export interface PostReadOptions {
+  unlockToken?: string | null;
+  viewer?: PostViewer | null;
+}
+
+// 对外返回的文章：不含密码哈希；未解锁时不含正文
+export type PostView = Omit<PostRow, 'password' | 'content' | 'content_html'> & {
+  content: string | null;
+  content_html: string | null;
+  // 受密码保护且未解锁
+  locked: boolean;
+};
+
+// 解锁结果
+export interface PostUnlockResult {
+  token: string;
+  expiresAt: string;
+}
+
+// 默认令牌有效期 2 小时
+const DEFAULT_TOKEN_TTL = 2 * 60 * 60 * 1000;
+const DEFAULT_MAX_FAILURES = 5;
+const DEFAULT_FAILURE_WINDOW = 15 * 60 * 1000;
+
+// 密码错误
+export class InvalidPostPasswordError extends Error {
+  constructor() {
+    super('文章密码错误');
+    this.name = 'InvalidPostPasswordError';
+  }
+}
+
+// 错误次数过多
+export class PostPasswordRateLimitError extends Error {
+  constructor(public readonly retryAfter: number) {
+    super(`密码错误次数过多，请在 ${retryAfter} 秒后重试`);
+    this.name = 'PostPasswordRateLimitError';
+  }
+}
+
+// 作者与管理员不受可见性和密码限制
+function isPostEditor(post: Pick<PostRow, 'author_id'>, viewer?: PostViewer | null): boolean {
+  return !!viewer && (viewer.isAdmin === true || viewer.id === post.author_id);
+}
+
+/** 签发文章解锁令牌；签名包含密码哈希，修改密码后旧令牌失效 */
+export function createUnlockToken(postId: string, passwordHash: string, secret: string, expiresAt: Date): string {
+  return createSignedToken(postId, expiresAt, secret, passwordHash);
+}
+
+/** 校验解锁令牌：签名正确、属于该文章且未过期 */
+export function verifyUnlockToken(
+  token: string,
+  postId: string,
+  passwordHash: string,
+  secret: string,
+  now: Date = new Date()
+): boolean {
+  const payload = readSignedToken(token, secret, passwordHash, now);
+  return !!payload && payload.subject === postId;
+}
+
+export class PostAccessService {
+  private supabase: SupabaseService;
+  private secret: string;
+  private tokenTtl: number;
+  private maxFailures: number;
+  private failureWindow: number;
+
+  constructor(supabase: SupabaseService = getSupabaseService(), options: PostAccessOptions = {}) {
+    this.supabase = supabase;
+    this.secret = options.secret ?? getEnv('POST_UNLOCK_SECRET', '');
+    this.tokenTtl = options.tokenTtl ?? DEFAULT_TOKEN_TTL;
+    this.maxFailures = options.maxFailures ?? DEFAULT_MAX_FAILURES;
+    this.failureWindow = options.failureWindow ?? DEFAULT_FAILURE_WINDOW;
+  }
+
+  // ==================== 解锁 ====================
+
+  // 验证文章密码并签发解锁令牌
+  async unlock(postId: string, password: string, options: { ipAddress: string }): Promise<PostUnlockResult> {
+    const secret = this.requireSecret();
+    if (!options.ipAddress) {
+      throw new Error('缺少客户端 IP 地址');
+    }
+
+    const { data, error } = await this.supabase.getServiceClient()
+      .rpc('verify_post_password', {
+        p_post_id: postId,
+        p_password: password,
+        p_ip_address: options.ipAddress,
+        p_max_failures: this.maxFailures,
+        p_window: `${Math.ceil(this.failureWindow / 1000)} seconds`,
+      });
+    if (error) throw error;
+
+    const result = (data || [])[0];
+    switch (result && result.status) {
+      case 'ok':
+        break;
+      case 'invalid':
+        throw new InvalidPostPasswordError();
+      case 'rate_limited':
+        throw new PostPasswordRateLimitError(result!.retry_after || 1);
+      case 'not_protected':
+        throw new Error('文章未设置访问密码');
+      default:
+        throw new Error('文章不存在');
+    }
+
+    const expiresAt = new Date(Date.now() + this.tokenTtl);
+    return {
+      token: createUnlockToken(postId, result!.password_hash!, secret, expiresAt),
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  // ==================== 读取 ====================
+
+  // 按 ID 或别名读取读者可见的文章；密码保护的文章未解锁时不返回正文
+  async read(key: { id?: string; slug?: string }, options: PostReadOptions = {}): Promise<PostView | null> {
+    if (!key.id && !key.slug) {
+      throw new Error('必须提供文章 ID 或别名');
+    }
+
+    let query = this.supabase.getServiceClient()
+      .from('posts')
+      .select('*')
+      .neq('status', 'deleted');
+    query = key.id ? query.eq('id', key.id) : query.eq('slug', key.slug!);
+
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+
+    const post = data as PostRow | null;
+    if (!post) return null;
+
+    if (!isPostEditor(post, options.viewer) && (post.status !== 'published' || post.visibility === 'private')) {
+      return null;
+    }
+    return this.protect(post, options);
+  }
+
+  // 去掉密码哈希、重新净化正文 HTML；密码保护的文章在读者不是作者、管理员且没有有效令牌时隐藏正文
+  protect(post: PostRow, options: PostReadOptions = {}): PostView {
+    const { password: _password, ...rest } = post;
+    const locked = post.visibility === 'password_protected' &&
+      !isPostEditor(post, options.viewer) &&
+      !this.isUnlocked(post, options.unlockToken);
+
+    return locked
+      ? { ...rest, content: null, content_html: null, locked }
+      : { ...rest, content_html: post.content_html === null ? null : sanitizePostHtml(post.content_html), locked };
+  }
+
+  // 判断令牌能否解锁文章；没有设置密码的文章视为锁定
+  isUnlocked(post: Pick<PostRow, 'id' | 'password'>, token?: string | null): boolean {
+    if (!token || !post.password || !this.secret) return false;
+    return verifyUnlockToken(token, post.id, post.password, this.secret);
+  }
+
+  // ==================== 辅助方法 ====================
+
+  // 获取签名密钥
+  private requireSecret(): string {
+    if (!this.secret) {
+      throw new Error('环境变量 POST_UNLOCK_SECRET 未设置');
+    }
+    return this.secret;
+  }
+}
+
+export default PostAccessService;
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, diffWords, formatUnifiedDiff, splitLines, splitWords } from './diff';
+import type { TextDiff } from './diff';
+
+// 由差异片段还原比较前后的文本
+function reconstruct(diff: TextDiff): { from: string; to: string } {
+  let from = '';
+  let to = '';
+  diff.changes.forEach(change => {
+    if (change.type !== 'insert') from += change.value;
+    if (change.type !== 'delete') to += change.value;
+  });
+  return { from, to };
+}
+
+// 固定种子的伪随机数，保证用例可复现
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+// 随机修改若干行
+function mutateLines(text: string, next: () => number, edits: number): string {
+  const lines = text.split('\n');
+  for (let i = 0; i < edits; i++) {
+    const index = Math.floor(next() * (lines.length + 1));
+    const action = next();
+    if (action < 0.4) lines.splice(index, 1);
+    else if (action < 0.7) lines.splice(index, 0, `新增第 ${i} 行 line ${i}`);
+    else lines[Math.min(index, lines.length - 1)] = `修改 ${i}`;
+  }
+  return lines.join('\n');
+}
+
+const SAMPLE = [
+  '# 标题',
+  '',
+  '第一段：Myers 算法按行比较。',
+  'The quick brown fox jumps over the lazy dog.',
+  '',
+  '```ts',
+  'const a = 1;',
+  '```',
+  '',
+  '最后一行没有换行符',
+].join('\n');
+
+describe('splitLines / splitWords', () => {
+  it('切分结果拼接后与原文一致', () => {
+    expect(splitLines(SAMPLE).join('')).toBe(SAMPLE);
+    expect(splitLines('a\n\nb\n')).toEqual(['a\n', '\n', 'b\n']);
+    expect(splitWords(SAMPLE).join('')).toBe(SAMPLE);
+  });
+
+  it('中文按字切分，英文按单词切分', () => {
+    expect(splitWords('你好 world_1!')).toEqual(['你', '好', ' ', 'world_1', '!']);
+  });
+
+  it('空文本没有片段', () => {
+    expect(splitLines('')).toEqual([]);
+    expect(splitWords('')).toEqual([]);
+  });
+});
+
+describe('diffLines', () => {
+  it('相同文本只有一个 equal 片段', () => {
+    const diff = diffLines(SAMPLE, SAMPLE);
+    expect(diff.changes).toEqual([{ type: 'equal', value: SAMPLE, count: 10 }]);
+    expect(diff.added).toBe(0);
+    expect(diff.removed).toBe(0);
+  });
+
+  it('统计增删行数并合并相邻片段', () => {
+    const diff = diffLines('a\nb\nc\n', 'a\nx\ny\nc\n');
+    expect(diff.changes).toEqual([
+      { type: 'equal', value: 'a\n', count: 1 },
+      { type: 'delete', value: 'b\n', count: 1 },
+      { type: 'insert', value: 'x\ny\n', count: 2 },
+      { type: 'equal', value: 'c\n', count: 1 },
+    ]);
+    expect(diff.added).toBe(2);
+    expect(diff.removed).toBe(1);
+  });
+
+  it('从空文本或到空文本', () => {
+    expect(reconstruct(diffLines('', SAMPLE))).toEqual({ from: '', to: SAMPLE });
+    expect(reconstruct(diffLines(SAMPLE, ''))).toEqual({ from: SAMPLE, to: '' });
+    expect(diffLines('', '').changes).toEqual([]);
+  });
+
+  it('随机修改后可以还原比较前后的文本', () => {
+    const next = random(42);
+    const base = Array.from({ length: 60 }, (_, i) => `第 ${i} 行 line ${i}`).join('\n');
+    for (let round = 0; round < 50; round++) {
+      const from = mutateLines(base, next, 5);
+      const to = mutateLines(from, next, 1 + Math.floor(next() * 10));
+      expect(reconstruct(diffLines(from, to))).toEqual({ from, to });
+    }
+  });
+
+  it('编辑距离超过上限时按整段删除、插入处理，仍可还原', () => {
+    const from = Array.from({ length: 1500 }, (_, i) => `a${i}`).join('\n');
+    const to = Array.from({ length: 1500 }, (_, i) => `b${i}`).join('\n');
+    const diff = diffLines(`head\n${from}\ntail`, `head\n${to}\ntail`);
+    expect(reconstruct(diff)).toEqual({ from: `head\n${from}\ntail`, to: `head\n${to}\ntail` });
+    expect(diff.removed).toBe(1500);
+    expect(diff.added).toBe(1500);
+  });
+});
+
+describe('diffWords', () => {
+  it('中文按字比较并可还原', () => {
+    const from = '今天天气很好，我们去公园散步。';
+    const to = '今天天气不错，我们去河边散步吧。';
+    const diff = diffWords(from, to);
+    expect(reconstruct(diff)).toEqual({ from, to });
+    expect(diff.changes.filter(change => change.type === 'delete').map(change => change.value)).toEqual(['很好', '公园']);
+    expect(diff.changes.filter(change => change.type === 'insert').map(change => change.value)).toEqual(['不错', '河边', '吧']);
+  });
+
+  it('空白变化不计入增删数量', () => {
+    const diff = diffWords('hello world', 'hello   world');
+    expect(reconstruct(diff)).toEqual({ from: 'hello world', to: 'hello   world' });
+    expect(diff.added).toBe(0);
+    expect(diff.removed).toBe(0);
+  });
+
+  it('中英混排的随机修改可以还原', () => {
+    const next = random(7);
+    const words = ['博客', 'MCP', ' ', '文章', 'revision', '，', 'diff', '\n', '测试'];
+    const sentence = (length: number) => Array.from({ length }, () => words[Math.floor(next() * words.length)]).join('');
+    for (let round = 0; round < 50; round++) {
+      const from = sentence(40);
+      const to = sentence(40);
+      expect(reconstruct(diffWords(from, to))).toEqual({ from, to });
+    }
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('生成带上下文的 hunk', () => {
+    const from = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n');
+    const to = ['1', '2', '3', '4', 'five', '6', '7', '8', '9', '10', '11'].join('\n');
+    expect(formatUnifiedDiff(from, to, { context: 1, fromLabel: 'v1', toLabel: 'v2' })).toBe([
+      '--- v1',
+      '+++ v2',
+      '@@ -4,3 +4,3 @@',
+      ' 4',
+      '-5',
+      '+five',
+      ' 6',
+      '@@ -9,2 +9,3 @@',
+      ' 9',
+      '-10',
+      '+10',
+      '+11',
+    ].join('\n'));
+  });
+
+  it('没有差异时返回空字符串', () => {
+    expect(formatUnifiedDiff(SAMPLE, SAMPLE)).toBe('');
+  });
+});
@@ -0,0 +1,233 @@
+// 文本差异
+// 基于 Myers 算法按行或按词比较两段文本，中文按字比较
+
+// 差异片段
+export type DiffChangeType = 'equal' | 'insert' | 'delete';
+
+export interface DiffChange {
+  type: DiffChangeType;
+  value: string;
+  // 片段包含的行数或词数
+  count: number;
+}
+
+// 差异结果
+export interface TextDiff {
+  changes: DiffChange[];
+  added: number;
+  removed: number;
+}
+
+// 统一格式差异选项
+export interface UnifiedDiffOptions {
+  context?: number;
+  fromLabel?: string;
+  toLabel?: string;
+}
+
+// 单个编辑操作
+type EditOp = 'equal' | 'insert' | 'delete';
+
+// 最大编辑距离；回溯需要保存每一步的状态（内存随编辑距离平方增长），超过后按整段删除、插入处理
+const MAX_EDIT_DISTANCE = 2000;
+
+// 中日韩文字、全角标点（逐字比较）
+const CJK_CHAR = '\\u3000-\\u303f\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff\\uff00-\\uffef';
+
+// 词切分：空白、单个中文字符、连续的字母数字、单个其他符号
+const WORD_PATTERN = new RegExp(`\\s+|[${CJK_CHAR}]|(?:(?![${CJK_CHAR}])[\\p{L}\\p{N}_])+|[^\\s]`, 'gu');
+
+/** 按行切分，保留行尾换行符，便于还原原文 */
+export function splitLines(text: string): string[] {
+  if (!text) return [];
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/** 按词切分，保留空白 */
+export function splitWords(text: string): string[] {
+  if (!text) return [];
+  return text.match(WORD_PATTERN) || [];
+}
+
+// Myers 差异算法，返回从 a 到 b 的编辑序列
+function myersDiff(a: string[], b: string[]): EditOp[] {
+  // 去掉相同的首尾，缩小比较范围
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const aMid = a.slice(prefix, a.length - suffix);
+  const bMid = b.slice(prefix, b.length - suffix);
+  const n = aMid.length;
+  const m = bMid.length;
+  const middle: EditOp[] = [];
+
+  if (n === 0 || m === 0) {
+    for (let i = 0; i < n; i++) middle.push('delete');
+    for (let i = 0; i < m; i++) middle.push('insert');
+  } else {
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // 每一步开始前 v 在 [-d, d] 范围内的快照，用于回溯
+    const trace: Int32Array[] = [];
+    let found = -1;
+
+    for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE) && found < 0; d++) {
+      trace.push(v.slice(offset - d, offset + d + 1));
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+        let y = x - k;
+        while (x < n && y < m && aMid[x] === bMid[y]) {
+          x++;
+          y++;
+        }
+        v[offset + k] = x;
+        if (x >= n && y >= m) {
+          found = d;
+          break;
+        }
+      }
+    }
+
+    if (found < 0) {
+      return [
+        ...new Array<EditOp>(prefix).fill('equal'),
+        ...new Array<EditOp>(n).fill('delete'),
+        ...new Array<EditOp>(m).fill('insert'),
+        ...new Array<EditOp>(suffix).fill('equal'),
+      ];
+    }
+
+    let x = n;
+    let y = m;
+    for (let d = found; d > 0; d--) {
+      const snapshot = trace[d];
+      const at = (k: number) => snapshot[k + d];
+      const k = x - y;
+      const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+      const prevX = at(prevK);
+      const prevY = prevX - prevK;
+
+      while (x > prevX && y > prevY) {
+        middle.push('equal');
+        x--;
+        y--;
+      }
+      middle.push(x === prevX ? 'insert' : 'delete');
+      x = prevX;
+      y = prevY;
+    }
+    while (x > 0 && y > 0) {
+      middle.push('equal');
+      x--;
+      y--;
+    }
+    middle.reverse();
+  }
+
+  return [
+    ...new Array<EditOp>(prefix).fill('equal'),
+    ...middle,
+    ...new Array<EditOp>(suffix).fill('equal'),
+  ];
+}
+
+// 比较两个片段序列并合并相邻的同类片段
+function diffTokens(a: string[], b: string[]): TextDiff {
+  const changes: DiffChange[] = [];
+  let added = 0;
+  let removed = 0;
+  let i = 0;
+  let j = 0;
+
+  myersDiff(a, b).forEach(op => {
+    const token = op === 'insert' ? b[j] : a[i];
+    if (op !== 'insert') i++;
+    if (op !== 'delete') j++;
+    if (op === 'insert') added++;
+    if (op === 'delete') removed++;
+
+    const last = changes[changes.length - 1];
+    if (last && last.type === op) {
+      last.value += token;
+      last.count++;
+    } else {
+      changes.push({ type: op, value: token, count: 1 });
+    }
+  });
+
+  return { changes, added, removed };
+}
+
+/** 按行比较两段文本 */
+export function diffLines(from: string, to: string): TextDiff {
+  return diffTokens(splitLines(from), splitLines(to));
+}
+
+/** 按词比较两段文本；空白变化不计入增删数量 */
+export function diffWords(from: string, to: string): TextDiff {
+  const diff = diffTokens(splitWords(from), splitWords(to));
+  let added = 0;
+  let removed = 0;
+  diff.changes.forEach(change => {
+    const words = splitWords(change.value).filter(token => token.trim()).length;
+    if (change.type === 'insert') added += words;
+    if (change.type === 'delete') removed += words;
+  });
+  return { ...diff, added, removed };
+}
+
+/** 生成统一格式（unified）的行差异 */
+export function formatUnifiedDiff(from: string, to: string, options: UnifiedDiffOptions = {}): string {
+  const context = options.context ?? 3;
+  const lines: Array<{ op: EditOp; text: string; fromLine: number; toLine: number }> = [];
+  const a = splitLines(from);
+  const b = splitLines(to);
+  let i = 0;
+  let j = 0;
+
+  myersDiff(a, b).forEach(op => {
+    const text = (op === 'insert' ? b[j] : a[i]).replace(/\n$/, '');
+    lines.push({ op, text, fromLine: i, toLine: j });
+    if (op !== 'insert') i++;
+    if (op !== 'delete') j++;
+  });
+
+  const output = [`--- ${options.fromLabel || 'from'}`, `+++ ${options.toLabel || 'to'}`];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].op === 'equal') {
+      index++;
+      continue;
+    }
+
+    // 向后合并间隔不超过 2 * context 行的改动
+    const start = Math.max(0, index - context);
+    let end = index;
+    let lastChange = index;
+    while (end < lines.length && end - lastChange <= context * 2) {
+      if (lines[end].op !== 'equal') lastChange = end;
+      end++;
+    }
+    end = Math.min(lines.length, lastChange + context + 1);
+
+    const hunk = lines.slice(start, end);
+    const fromCount = hunk.filter(line => line.op !== 'insert').length;
+    const toCount = hunk.filter(line => line.op !== 'delete').length;
+    output.push(`@@ -${hunk[0].fromLine + (fromCount > 0 ? 1 : 0)},${fromCount} +${hunk[0].toLine + (toCount > 0 ? 1 : 0)},${toCount} @@`);
+    hunk.forEach(line => {
+      output.push(`${line.op === 'equal' ? ' ' : line.op === 'insert' ? '+' : '-'}${line.text}`);
+    });
+    index = end;
+  }
+
+  return output.length > 2 ? output.join('\n') : '';
+}
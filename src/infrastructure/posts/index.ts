@@ -0,0 +1,58 @@
+// 文章模块导出
+// 提供类型化的文章仓储、带状态校验的文章服务、版本历史、定时发布、密码访问控制、预览链接与阅读时间统计
+
+export {
+  createUnlockToken,
+  InvalidPostPasswordError,
+  PostAccessService,
+  PostPasswordRateLimitError,
+  verifyUnlockToken,
+} from './access';
+export type { PostAccessOptions, PostReadOptions, PostUnlockResult, PostView, PostViewer } from './access';
+export { diffLines, diffWords, formatUnifiedDiff, splitLines, splitWords } from './diff';
+export type { DiffChange, DiffChangeType, TextDiff, UnifiedDiffOptions } from './diff';
+export { createPreviewToken, PostPreviewService, readPreviewToken } from './previews';
+export type {
+  PostPreview,
+  PostPreviewLink,
+  PostPreviewLinkSummary,
+  PostPreviewOptions,
+  PreviewLinkCreateOptions,
+  PreviewLinkCreateResult,
+  PreviewLinkListOptions,
+} from './previews';
+export { PostMetricsService } from './metrics';
+export type { PostMetricsBackfillOptions, PostMetricsBackfillStats } from './metrics';
+export { PostRepository } from './repository';
+export type { PostFindOptions, PostUpdateOptions } from './repository';
+export { PostRevisionService, REVISION_FIELDS, touchesRevisionFields } from './revisions';
+export type {
+  PostRevision,
+  PostRevisionDiff,
+  PostRevisionSummary,
+  RecordRevisionOptions,
+  RevisionDiffOptions,
+  RevisionField,
+  RevisionListOptions,
+  RevisionRestoreResult,
+} from './revisions';
+export { PostScheduler, resolveScheduleTime } from './scheduler';
+export type {
+  PostScheduleOptions,
+  PostSchedulerOptions,
+  ScheduledPost,
+  ScheduledPostFilter,
+  ScheduledPublishResult,
+  ScheduleTime,
+} from './scheduler';
+export { PostService } from './service';
+export { createSignedToken, readSignedToken } from './tokens';
+export type { SignedTokenPayload } from './tokens';
+export type { PostCreateOptions, PostDeleteOptions, PostDraftInput, PostPublishOptions, PostSaveOptions } from './service';
+export {
+  canTransitionPost,
+  InvalidPostTransitionError,
+  POST_STATUS_LABELS,
+  POST_STATUS_TRANSITIONS,
+} from './types';
+export type { PostInsert, PostRow, PostStatus, PostUpdate } from './types';
@@ -0,0 +1,139 @@
+// 文章字数与阅读时间
+// 按站点设置的阅读速度统计文章正文，保存时写入 posts.reading_time，并回填已有文章
+// 阅读速度：reading_speed（中日韩文字，字/分钟）、reading_speed_words（其他语言，单词/分钟）
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { SettingsStore } from '../config/settings';
+import { measureHtml } from '../render/metrics';
+import type { ContentMetrics, ContentMetricsOptions } from '../render/metrics';
+import { renderPostHtml } from '../render/pipeline';
+import { cliArgs, errorMessage } from '../utils/cli';
+
+// 回填选项
+export interface PostMetricsBackfillOptions {
+  // 只统计需要更新的文章，不写入
+  dryRun?: boolean;
+}
+
+// 回填统计
+export interface PostMetricsBackfillStats {
+  scanned: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+}
+
+// 每页读取的文章数
+const PAGE_SIZE = 500;
+
+export class PostMetricsService {
+  private supabase: SupabaseService;
+  private settings: SettingsStore;
+
+  constructor(supabase: SupabaseService = getSupabaseService(), settings?: SettingsStore) {
+    this.supabase = supabase;
+    this.settings = settings || new SettingsStore(supabase);
+  }
+
+  // ==================== 统计 ====================
+
+  // 读取阅读速度设置；读取失败时使用默认速度，不影响保存
+  async getOptions(): Promise<ContentMetricsOptions> {
+    try {
+      const settings = await this.settings.getMany(['reading_speed', 'reading_speed_words']);
+      return {
+        charsPerMinute: Number(settings.reading_speed) || undefined,
+        wordsPerMinute: Number(settings.reading_speed_words) || undefined,
+      };
+    } catch (error) {
+      console.error('读取阅读速度设置失败:', error);
+      return {};
+    }
+  }
+
+  // 统计 Markdown 正文
+  async measure(markdown: string): Promise<ContentMetrics> {
+    return this.measureHtml(renderPostHtml(markdown));
+  }
+
+  // 统计已渲染的正文
+  async measureHtml(html: string): Promise<ContentMetrics> {
+    return measureHtml(html, await this.getOptions());
+  }
+
+  // 统计已保存的文章
+  async getPostMetrics(postId: string): Promise<ContentMetrics> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('posts')
+      .select('id, content')
+      .eq('id', postId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) {
+      throw new Error('文章不存在');
+    }
+    return this.measure((data as { content: string }).content);
+  }
+
+  // ==================== 回填 ====================
+
+  // 按 id 游标分页重新计算全部文章的阅读时间，只写入有变化的文章
+  async backfill(options: PostMetricsBackfillOptions = {}): Promise<PostMetricsBackfillStats> {
+    const client = this.supabase.getServiceClient();
+    const metricsOptions = await this.getOptions();
+    const stats: PostMetricsBackfillStats = { scanned: 0, updated: 0, unchanged: 0, failed: 0 };
+    const pages = this.supabase.fetchPages<'posts', { id: string; content: string; reading_time: number | null }>(
+      'posts',
+      'id, content, reading_time',
+      { pageSize: PAGE_SIZE }
+    );
+
+    for await (const rows of pages) {
+      for (const row of rows) {
+        stats.scanned++;
+        try {
+          const readingTime = measureHtml(renderPostHtml(row.content), metricsOptions).readingTime;
+          if (readingTime === row.reading_time) {
+            stats.unchanged++;
+            continue;
+          }
+          if (!options.dryRun) {
+            const { error: updateError } = await client
+              .from('posts')
+              .update({ reading_time: readingTime })
+              .eq('id', row.id);
+            if (updateError) throw updateError;
+          }
+          stats.updated++;
+        } catch (measureError) {
+          stats.failed++;
+          console.error(`统计文章 ${row.id} 失败:`, measureError);
+        }
+      }
+    }
+
+    return stats;
+  }
+}
+
+// 命令行入口：--dry-run 只统计
+export async function main() {
+  const args = cliArgs();
+
+  try {
+    const stats = await new PostMetricsService().backfill({ dryRun: args.includes('--dry-run') });
+    console.log(`📄 posts: 扫描 ${stats.scanned}，更新 ${stats.updated}，未变化 ${stats.unchanged}，失败 ${stats.failed}`);
+    console.log(stats.failed > 0 ? `⚠️ 回填完成，${stats.failed} 篇文章统计失败` : '✅ 回填完成');
+    process.exit(stats.failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('❌ 回填失败:', errorMessage(error));
+    process.exit(1);
+  }
+}
+
+// 如果直接运行此文件
+if (require.main === module) {
+  main();
+}
+
+export default PostMetricsService;
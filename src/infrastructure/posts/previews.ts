@@ -0,0 +1,292 @@
+// 文章预览链接
+// 为文章版本签发带签名、会过期、可撤销的预览令牌，持有令牌的人无需账号即可读取该版本（包括未发布的草稿）
+// 令牌只包含链接 ID 与过期时间，撤销记录保存在 post_preview_links，读取时由 use_post_preview_link 校验
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { getEnv } from '../config';
+import { renderPostHtml } from '../render/pipeline';
+import type { Database } from '../types/database';
+import type { PostRevision } from './revisions';
+import { createSignedToken, readSignedToken } from './tokens';
+import type { PostRow } from './types';
+
+export type PostPreviewLink = Database['public']['Tables']['post_preview_links']['Row'];
+
+// 预览链接列表项
+export type PostPreviewLinkSummary = PostPreviewLink & {
+  revision_number: number | null;
+  // 未撤销且未过期
+  active: boolean;
+};
+
+// 预览服务选项
+export interface PostPreviewOptions {
+  // 预览令牌签名密钥，默认读取 POST_PREVIEW_SECRET
+  secret?: string;
+  // 预览地址前缀，默认读取 NEXT_PUBLIC_APP_URL
+  siteUrl?: string;
+  // 默认有效期（毫秒）
+  defaultTtl?: number;
+  // 最长有效期（毫秒）
+  maxTtl?: number;
+}
+
+// 创建预览链接选项
+export interface PreviewLinkCreateOptions {
+  // 版本号，默认最新版本
+  revisionNumber?: number;
+  // 有效期（毫秒）
+  expiresIn?: number;
+  createdBy?: string | null;
+  note?: string | null;
+}
+
+// 创建结果
+export interface PreviewLinkCreateResult {
+  link: PostPreviewLink;
+  revisionNumber: number;
+  token: string;
+  url: string;
+}
+
+// 预览链接列表选项
+export interface PreviewLinkListOptions {
+  postId?: string;
+  createdBy?: string;
+  // 同时返回已撤销与已过期的链接
+  includeInactive?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+// 通过预览令牌读取到的文章版本
+export interface PostPreview {
+  post: Pick<PostRow, 'id' | 'slug' | 'status' | 'featured_image'>;
+  revision: Pick<
+    PostRevision,
+    'revision_number' | 'title' | 'excerpt' | 'content' | 'seo_title' | 'seo_description' | 'seo_keywords' | 'created_at'
+  >;
+  content_html: string;
+  expires_at: string;
+}
+
+// 默认有效期 7 天，最长 30 天
+const DEFAULT_PREVIEW_TTL = 7 * 24 * 60 * 60 * 1000;
+const MAX_PREVIEW_TTL = 30 * 24 * 60 * 60 * 1000;
+
+// 预览时返回的版本字段
+const PREVIEW_REVISION_COLUMNS = 'revision_number, title, excerpt, content, seo_title, seo_description, seo_keywords, created_at';
+
+/** 签发预览令牌：<base64url(链接 ID.过期秒数)>.<base64url(签名)> */
+export function createPreviewToken(linkId: string, secret: string, expiresAt: Date): string {
+  return createSignedToken(linkId, expiresAt, secret);
+}
+
+/** 校验预览令牌签名与有效期，返回链接 ID；撤销状态需查询数据库 */
+export function readPreviewToken(token: string, secret: string, now: Date = new Date()): string | null {
+  const payload = readSignedToken(token, secret, '', now);
+  return payload ? payload.subject : null;
+}
+
+export class PostPreviewService {
+  private supabase: SupabaseService;
+  private secret: string;
+  private siteUrl: string;
+  private defaultTtl: number;
+  private maxTtl: number;
+
+  constructor(supabase: SupabaseService = getSupabaseService(), options: PostPreviewOptions = {}) {
+    this.supabase = supabase;
+    this.secret = options.secret ?? getEnv('POST_PREVIEW_SECRET', '');
+    this.siteUrl = options.siteUrl ?? getEnv('NEXT_PUBLIC_APP_URL', 'http://localhost:3000');
+    this.defaultTtl = options.defaultTtl ?? DEFAULT_PREVIEW_TTL;
+    this.maxTtl = options.maxTtl ?? MAX_PREVIEW_TTL;
+  }
+
+  // ==================== 创建 ====================
+
+  // 为文章版本创建预览链接
+  async create(postId: string, options: PreviewLinkCreateOptions = {}): Promise<PreviewLinkCreateResult> {
+    const secret = this.requireSecret();
+    const expiresIn = options.expiresIn ?? this.defaultTtl;
+    if (!Number.isFinite(expiresIn) || expiresIn <= 0) {
+      throw new Error('预览链接有效期必须大于 0');
+    }
+    if (expiresIn > this.maxTtl) {
+      throw new Error(`预览链接有效期不能超过 ${Math.floor(this.maxTtl / 3600000)} 小时`);
+    }
+
+    const client = this.supabase.getServiceClient();
+    const { data: post, error: postError } = await client
+      .from('posts')
+      .select('id, status')
+      .eq('id', postId)
+      .maybeSingle();
+    if (postError) throw postError;
+    if (!post || post.status === 'deleted') {
+      throw new Error('文章不存在');
+    }
+
+    let revisionQuery = client
+      .from('post_revisions')
+      .select('id, revision_number')
+      .eq('post_id', postId);
+    revisionQuery = options.revisionNumber !== undefined
+      ? revisionQuery.eq('revision_number', options.revisionNumber)
+      : revisionQuery.order('revision_number', { ascending: false }).limit(1);
+
+    const { data: revisions, error: revisionError } = await revisionQuery;
+    if (revisionError) throw revisionError;
+    const revision = (revisions || [])[0] as Pick<PostRevision, 'id' | 'revision_number'> | undefined;
+    if (!revision) {
+      throw new Error(options.revisionNumber !== undefined
+        ? `版本 #${options.revisionNumber} 不存在`
+        : '文章还没有保存的版本');
+    }
+
+    // 过期时间取整到秒，与令牌中的过期时间一致
+    const expiresAt = new Date(Math.floor((Date.now() + expiresIn) / 1000) * 1000);
+    const { data, error } = await client
+      .from('post_preview_links')
+      .insert({
+        post_id: postId,
+        revision_id: revision.id,
+        created_by: options.createdBy || null,
+        note: options.note || null,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select()
+      .single();
+    if (error) throw error;
+
+    const link = data as PostPreviewLink;
+    const token = createPreviewToken(link.id, secret, expiresAt);
+    return {
+      link,
+      revisionNumber: revision.revision_number,
+      token,
+      url: `${this.siteUrl.replace(/\/+$/, '')}/preview/${token}`,
+    };
+  }
+
+  // ==================== 读取 ====================
+
+  // 通过预览令牌读取文章版本；令牌无效、过期、已撤销或文章已删除时返回 null
+  async read(token: string): Promise<PostPreview | null> {
+    if (!token || !this.secret) return null;
+    const linkId = readPreviewToken(token, this.secret);
+    if (!linkId) return null;
+
+    const client = this.supabase.getServiceClient();
+    const { data: links, error: linkError } = await client
+      .rpc('use_post_preview_link', { p_link_id: linkId });
+    if (linkError) throw linkError;
+    const link = ((links || []) as PostPreviewLink[])[0];
+    if (!link) return null;
+
+    const [postResult, revisionResult] = await Promise.all([
+      client.from('posts').select('id, slug, status, featured_image').eq('id', link.post_id).maybeSingle(),
+      client.from('post_revisions').select(PREVIEW_REVISION_COLUMNS).eq('id', link.revision_id).maybeSingle(),
+    ]);
+    if (postResult.error) throw postResult.error;
+    if (revisionResult.error) throw revisionResult.error;
+
+    const post = postResult.data as PostPreview['post'] | null;
+    const revision = revisionResult.data as PostPreview['revision'] | null;
+    if (!post || !revision || post.status === 'deleted') return null;
+
+    return {
+      post,
+      revision,
+      content_html: renderPostHtml(revision.content),
+      expires_at: link.expires_at,
+    };
+  }
+
+  // ==================== 管理 ====================
+
+  // 获取预览链接
+  async get(linkId: string): Promise<PostPreviewLink | null> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('post_preview_links')
+      .select('*')
+      .eq('id', linkId)
+      .maybeSingle();
+    if (error) throw error;
+    return (data as PostPreviewLink) || null;
+  }
+
+  // 按创建时间倒序列出预览链接，默认只返回有效的链接
+  async list(options: PreviewLinkListOptions = {}): Promise<{ links: PostPreviewLinkSummary[]; total: number }> {
+    const limit = options.limit ?? 20;
+    const offset = options.offset ?? 0;
+    const now = new Date();
+
+    let query = this.supabase.getServiceClient()
+      .from('post_preview_links')
+      .select('*, revision:post_revisions(revision_number)', { count: 'exact' });
+    if (options.postId) query = query.eq('post_id', options.postId);
+    if (options.createdBy) query = query.eq('created_by', options.createdBy);
+    if (!options.includeInactive) {
+      query = query.is('revoked_at', null).gt('expires_at', now.toISOString());
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+    if (error) throw error;
+
+    const rows = (data || []) as Array<PostPreviewLink & { revision: { revision_number: number } | null }>;
+    const links = rows.map(({ revision, ...link }) => ({
+      ...link,
+      revision_number: revision ? revision.revision_number : null,
+      active: !link.revoked_at && new Date(link.expires_at).getTime() > now.getTime(),
+    }));
+    return { links, total: count || 0 };
+  }
+
+  // 撤销预览链接；已撤销的链接保持原撤销记录
+  async revoke(linkId: string, options: { revokedBy?: string | null } = {}): Promise<PostPreviewLink> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('post_preview_links')
+      .update({ revoked_at: new Date().toISOString(), revoked_by: options.revokedBy || null })
+      .eq('id', linkId)
+      .is('revoked_at', null)
+      .select()
+      .maybeSingle();
+    if (error) throw error;
+    if (data) return data as PostPreviewLink;
+
+    const existing = await this.get(linkId);
+    if (!existing) {
+      throw new Error('预览链接不存在');
+    }
+    return existing;
+  }
+
+  // 撤销文章所有有效的预览链接，返回撤销数量
+  async revokeAll(postId: string, options: { revokedBy?: string | null } = {}): Promise<number> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('post_preview_links')
+      .update({ revoked_at: now, revoked_by: options.revokedBy || null })
+      .eq('post_id', postId)
+      .is('revoked_at', null)
+      .gt('expires_at', now)
+      .select('id');
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  // ==================== 辅助方法 ====================
+
+  // 获取签名密钥
+  private requireSecret(): string {
+    if (!this.secret) {
+      throw new Error('环境变量 POST_PREVIEW_SECRET 未设置');
+    }
+    return this.secret;
+  }
+}
+
+export default PostPreviewService;
@@ -0,0 +1,131 @@
+// 文章仓储
+// 基于类型化查询读写 posts 表，不包含业务规则
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import type { PostInsert, PostRow, PostStatus, PostUpdate } from './types';
+
+// 查询选项
+export interface PostFindOptions {
+  includeDeleted?: boolean;
+}
+
+// 更新选项
+export interface PostUpdateOptions {
+  // 仅当文章当前处于这些状态时才更新，用于防止并发修改
+  expectedStatus?: PostStatus | PostStatus[];
+}
+
+export class PostRepository {
+  private supabase: SupabaseService;
+
+  constructor(supabase: SupabaseService = getSupabaseService()) {
+    this.supabase = supabase;
+  }
+
+  // 按 ID 查询文章
+  async findById(id: string, options: PostFindOptions = {}): Promise<PostRow | null> {
+    let query = this.supabase.getServiceClient()
+      .from('posts')
+      .select('*')
+      .eq('id', id);
+    if (!options.includeDeleted) {
+      query = query.neq('status', 'deleted');
+    }
+
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    return (data as PostRow | null) || null;
+  }
+
+  // 按 slug 查询文章
+  async findBySlug(slug: string, options: PostFindOptions = {}): Promise<PostRow | null> {
+    let query = this.supabase.getServiceClient()
+      .from('posts')
+      .select('*')
+      .eq('slug', slug);
+    if (!options.includeDeleted) {
+      query = query.neq('status', 'deleted');
+    }
+
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    return (data as PostRow | null) || null;
+  }
+
+  // 插入文章
+  async insert(payload: PostInsert): Promise<PostRow> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('posts')
+      .insert(payload)
+      .select('*')
+      .single();
+    if (error) throw error;
+    return data as PostRow;
+  }
+
+  // 更新文章；设置 expectedStatus 且状态不符时返回 null
+  async update(id: string, changes: PostUpdate, options: PostUpdateOptions = {}): Promise<PostRow | null> {
+    let query = this.supabase.getServiceClient()
+      .from('posts')
+      .update(changes)
+      .eq('id', id);
+    if (options.expectedStatus !== undefined) {
+      query = Array.isArray(options.expectedStatus)
+        ? query.in('status', options.expectedStatus)
+        : query.eq('status', options.expectedStatus);
+    }
+
+    const { data, error } = await query.select('*').maybeSingle();
+    if (error) throw error;
+    return (data as PostRow | null) || null;
+  }
+
+  // 永久删除文章（分类、标签关联与版本随外键级联删除），只用于撤销刚创建的文章
+  async delete(id: string): Promise<void> {
+    const { error } = await this.supabase.getServiceClient()
+      .from('posts')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+
+  // 关联分类
+  async addCategories(postId: string, categoryIds: string[]): Promise<void> {
+    if (categoryIds.length === 0) return;
+    const { error } = await this.supabase.getServiceClient()
+      .from('post_categories')
+      .insert(categoryIds.map(categoryId => ({ post_id: postId, category_id: categoryId })));
+    if (error) throw error;
+  }
+
+  // 关联标签
+  async addTags(postId: string, tagIds: string[]): Promise<void> {
+    if (tagIds.length === 0) return;
+    const { error } = await this.supabase.getServiceClient()
+      .from('post_tags')
+      .insert(tagIds.map(tagId => ({ post_id: postId, tag_id: tagId })));
+    if (error) throw error;
+  }
+
+  // 替换分类关联
+  async replaceCategories(postId: string, categoryIds: string[]): Promise<void> {
+    const { error } = await this.supabase.getServiceClient()
+      .from('post_categories')
+      .delete()
+      .eq('post_id', postId);
+    if (error) throw error;
+    await this.addCategories(postId, categoryIds);
+  }
+
+  // 替换标签关联
+  async replaceTags(postId: string, tagIds: string[]): Promise<void> {
+    const { error } = await this.supabase.getServiceClient()
+      .from('post_tags')
+      .delete()
+      .eq('post_id', postId);
+    if (error) throw error;
+    await this.addTags(postId, tagIds);
+  }
+}
+
+export default PostRepository;
@@ -0,0 +1,227 @@
+// 文章版本历史
+// 保存后记录标题、摘要、正文与 SEO 字段的快照，比较任意两个版本，并把旧版本恢复为新版本
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { SettingsStore } from '../config/settings';
+import { renderPostHtml } from '../render/pipeline';
+import type { Database } from '../types/database';
+import { diffLines, diffWords, formatUnifiedDiff } from './diff';
+import type { TextDiff } from './diff';
+import { PostMetricsService } from './metrics';
+import { PostRepository } from './repository';
+import type { PostRow, PostUpdate } from './types';
+
+export type PostRevision = Database['public']['Tables']['post_revisions']['Row'];
+
+// 版本列表中的字段（不含正文）
+export type PostRevisionSummary = Pick<
+  PostRevision,
+  'id' | 'post_id' | 'revision_number' | 'title' | 'author_id' | 'message' | 'restored_from' | 'created_at'
+>;
+
+// 记录版本的字段
+export const REVISION_FIELDS = ['title', 'excerpt', 'content', 'seo_title', 'seo_description', 'seo_keywords'] as const;
+export type RevisionField = typeof REVISION_FIELDS[number];
+
+// 记录版本选项
+export interface RecordRevisionOptions {
+  authorId?: string | null;
+  message?: string | null;
+  restoredFrom?: string | null;
+}
+
+// 版本列表选项
+export interface RevisionListOptions {
+  limit?: number;
+  offset?: number;
+}
+
+// 版本比较选项
+export interface RevisionDiffOptions {
+  // 同时返回正文的逐词差异
+  words?: boolean;
+  context?: number;
+}
+
+// 版本比较结果
+export interface PostRevisionDiff {
+  postId: string;
+  from: PostRevisionSummary;
+  to: PostRevisionSummary;
+  changedFields: RevisionField[];
+  // 除正文外发生变化的字段（逐词差异）
+  fields: Partial<Record<Exclude<RevisionField, 'content'>, TextDiff>>;
+  // 正文差异，未变化时为 null
+  content: { lines: TextDiff; unified: string; words?: TextDiff } | null;
+}
+
+// 恢复结果
+export interface RevisionRestoreResult {
+  post: PostRow;
+  revision: PostRevision | null;
+  restoredFrom: PostRevisionSummary;
+}
+
+// 版本列表字段
+const REVISION_SUMMARY_COLUMNS = 'id, post_id, revision_number, title, author_id, message, restored_from, created_at';
+
+// 默认保留的版本数（settings 中没有 max_revisions 时使用）
+const DEFAULT_MAX_REVISIONS = 50;
+
+/** 判断修改是否涉及需要记录版本的字段 */
+export function touchesRevisionFields(changes: PostUpdate): boolean {
+  return REVISION_FIELDS.some(field => changes[field] !== undefined);
+}
+
+// 转换为版本摘要
+function toSummary(revision: PostRevision): PostRevisionSummary {
+  return {
+    id: revision.id,
+    post_id: revision.post_id,
+    revision_number: revision.revision_number,
+    title: revision.title,
+    author_id: revision.author_id,
+    message: revision.message,
+    restored_from: revision.restored_from,
+    created_at: revision.created_at,
+  };
+}
+
+export class PostRevisionService {
+  private supabase: SupabaseService;
+  private repository: PostRepository;
+  private settings: SettingsStore;
+  private metrics: PostMetricsService;
+
+  constructor(supabase: SupabaseService = getSupabaseService(), settings?: SettingsStore) {
+    this.supabase = supabase;
+    this.repository = new PostRepository(supabase);
+    this.settings = settings || new SettingsStore(supabase);
+    this.metrics = new PostMetricsService(supabase, this.settings);
+  }
+
+  // ==================== 记录 ====================
+
+  // 将文章当前内容记录为新版本；未启用版本历史或内容未变化时返回 null
+  async record(postId: string, options: RecordRevisionOptions = {}): Promise<PostRevision | null> {
+    const settings = await this.settings.getMany(['enable_revision_history', 'max_revisions']);
+    if (settings.enable_revision_history === false) return null;
+
+    const maxRevisions = Number(settings.max_revisions);
+    const { data, error } = await this.supabase.getServiceClient()
+      .rpc('create_post_revision', {
+        p_post_id: postId,
+        p_author_id: options.authorId || null,
+        p_message: options.message || null,
+        p_restored_from: options.restoredFrom || null,
+        p_keep: Number.isFinite(maxRevisions) ? Math.max(Math.floor(maxRevisions), 0) : DEFAULT_MAX_REVISIONS,
+      });
+    if (error) throw error;
+    return ((data || []) as PostRevision[])[0] || null;
+  }
+
+  // ==================== 查询 ====================
+
+  // 按版本号倒序列出文章版本
+  async list(postId: string, options: RevisionListOptions = {}): Promise<{ revisions: PostRevisionSummary[]; total: number }> {
+    const limit = options.limit ?? 20;
+    const offset = options.offset ?? 0;
+    const { data, error, count } = await this.supabase.getServiceClient()
+      .from('post_revisions')
+      .select(REVISION_SUMMARY_COLUMNS, { count: 'exact' })
+      .eq('post_id', postId)
+      .order('revision_number', { ascending: false })
+      .range(offset, offset + limit - 1);
+    if (error) throw error;
+    return { revisions: (data || []) as PostRevisionSummary[], total: count || 0 };
+  }
+
+  // 获取指定版本
+  async get(postId: string, revisionNumber: number): Promise<PostRevision> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('post_revisions')
+      .select('*')
+      .eq('post_id', postId)
+      .eq('revision_number', revisionNumber)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) {
+      throw new Error(`版本 #${revisionNumber} 不存在`);
+    }
+    return data as PostRevision;
+  }
+
+  // ==================== 比较 ====================
+
+  // 比较同一文章的两个版本
+  async diff(postId: string, fromNumber: number, toNumber: number, options: RevisionDiffOptions = {}): Promise<PostRevisionDiff> {
+    const [from, to] = await Promise.all([this.get(postId, fromNumber), this.get(postId, toNumber)]);
+
+    const changedFields: RevisionField[] = [];
+    const fields: PostRevisionDiff['fields'] = {};
+    (['title', 'excerpt', 'seo_title', 'seo_description', 'seo_keywords'] as const).forEach(field => {
+      const before = field === 'seo_keywords' ? (from.seo_keywords || []).join(', ') : from[field] || '';
+      const after = field === 'seo_keywords' ? (to.seo_keywords || []).join(', ') : to[field] || '';
+      if (before !== after) {
+        changedFields.push(field);
+        fields[field] = diffWords(before, after);
+      }
+    });
+
+    let content: PostRevisionDiff['content'] = null;
+    if (from.content !== to.content) {
+      changedFields.push('content');
+      content = {
+        lines: diffLines(from.content, to.content),
+        unified: formatUnifiedDiff(from.content, to.content, {
+          context: options.context,
+          fromLabel: `#${from.revision_number}`,
+          toLabel: `#${to.revision_number}`,
+        }),
+      };
+      if (options.words) {
+        content.words = diffWords(from.content, to.content);
+      }
+    }
+
+    return { postId, from: toSummary(from), to: toSummary(to), changedFields, fields, content };
+  }
+
+  // ==================== 恢复 ====================
+
+  // 将指定版本的内容写回文章，并记录为新版本
+  async restore(postId: string, revisionNumber: number, options: { authorId?: string | null } = {}): Promise<RevisionRestoreResult> {
+    const revision = await this.get(postId, revisionNumber);
+    const post = await this.repository.findById(postId, { includeDeleted: true });
+    if (!post) {
+      throw new Error('文章不存在');
+    }
+    if (post.status === 'deleted') {
+      throw new Error('文章已删除，请先恢复文章');
+    }
+
+    const contentHtml = renderPostHtml(revision.content);
+    const updated = await this.repository.update(postId, {
+      title: revision.title,
+      excerpt: revision.excerpt,
+      content: revision.content,
+      content_html: contentHtml,
+      reading_time: (await this.metrics.measureHtml(contentHtml)).readingTime,
+      seo_title: revision.seo_title,
+      seo_description: revision.seo_description,
+      seo_keywords: revision.seo_keywords,
+    });
+    if (!updated) {
+      throw new Error('文章不存在');
+    }
+
+    const created = await this.record(postId, {
+      authorId: options.authorId,
+      message: `恢复自版本 #${revision.revision_number}`,
+      restoredFrom: revision.id,
+    });
+    return { post: updated, revision: created, restoredFrom: toSummary(revision) };
+  }
+}
+
+export default PostRevisionService;
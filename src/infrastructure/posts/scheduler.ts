@@ -0,0 +1,250 @@
+// 文章定时发布
+// 为草稿设置、修改、取消 scheduled_at，并通过 publish_scheduled_posts 发布到期文章
+// 发布在数据库函数中原子完成，可由定时任务、Edge Function 或常驻进程重复调用而不会重复发布
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { SettingsStore } from '../config/settings';
+import { errorMessage } from '../utils/cli';
+import { formatZonedDateTime, isValidTimeZone, parseZonedDateTime } from '../utils/date';
+import { PostRepository } from './repository';
+import { POST_STATUS_LABELS } from './types';
+import type { PostRow } from './types';
+
+// 计划时间：Date、带偏移的 ISO 字符串，或按时区解释的本地时间（YYYY-MM-DD HH:mm）
+export type ScheduleTime = Date | string;
+
+// 设置计划时间的选项
+export interface PostScheduleOptions {
+  // 解释本地时间使用的时区，默认取 settings 中的 timezone
+  timezone?: string;
+  now?: Date;
+}
+
+// 定时文章
+export interface ScheduledPost {
+  id: string;
+  title: string;
+  author_id: string;
+  scheduled_at: string;
+  // 计划时间在 timezone 下的本地表示
+  scheduled_local: string;
+  timezone: string;
+}
+
+// 查询定时文章的选项
+export interface ScheduledPostFilter {
+  authorId?: string;
+  limit?: number;
+}
+
+// 定时发布选项
+export interface PostSchedulerOptions {
+  batchSize?: number;
+  // 计划时间至少要晚于当前时间多少毫秒
+  minLeadTime?: number;
+}
+
+// 发布结果
+export interface ScheduledPublishResult {
+  published: Array<Pick<PostRow, 'id' | 'title' | 'slug' | 'published_at'>>;
+  ranAt: string;
+}
+
+// 默认每批发布的数量
+const DEFAULT_BATCH_SIZE = 100;
+
+// 默认时区（settings 中没有 timezone 时使用）
+const DEFAULT_TIMEZONE = 'UTC';
+
+// 定时文章查询字段
+const SCHEDULED_POST_COLUMNS = 'id, title, author_id, scheduled_at';
+
+/** 将计划时间解析为 UTC 时间，无法解析时返回 null */
+export function resolveScheduleTime(value: ScheduleTime, timeZone: string): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  return parseZonedDateTime(value, timeZone);
+}
+
+export class PostScheduler {
+  private supabase: SupabaseService;
+  private repository: PostRepository;
+  private settings: SettingsStore;
+  private batchSize: number;
+  private minLeadTime: number;
+
+  constructor(
+    supabase: SupabaseService = getSupabaseService(),
+    settings?: SettingsStore,
+    options: PostSchedulerOptions = {}
+  ) {
+    this.supabase = supabase;
+    this.repository = new PostRepository(supabase);
+    this.settings = settings || new SettingsStore(supabase);
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.minLeadTime = options.minLeadTime ?? 0;
+  }
+
+  // ==================== 计划 ====================
+
+  // 为草稿设置计划时间；已设置时覆盖
+  async schedule(postId: string, at: ScheduleTime, options: PostScheduleOptions = {}): Promise<ScheduledPost> {
+    const timezone = await this.resolveTimezone(options.timezone);
+    const scheduledAt = this.validateTime(at, timezone, options.now);
+
+    const post = await this.loadDraft(postId);
+    const updated = await this.repository.update(
+      post.id,
+      { scheduled_at: scheduledAt.toISOString() },
+      { expectedStatus: 'draft' }
+    );
+    if (!updated) {
+      throw new Error('文章状态已被修改，请刷新后重试');
+    }
+    return this.toScheduledPost(updated, timezone);
+  }
+
+  // 修改已有的计划时间
+  async reschedule(postId: string, at: ScheduleTime, options: PostScheduleOptions = {}): Promise<ScheduledPost> {
+    const post = await this.loadDraft(postId);
+    if (!post.scheduled_at) {
+      throw new Error('文章没有设置定时发布');
+    }
+    return this.schedule(postId, at, options);
+  }
+
+  // 取消定时发布，返回是否取消了计划
+  async cancel(postId: string): Promise<boolean> {
+    const post = await this.repository.findById(postId);
+    if (!post) {
+      throw new Error('文章不存在');
+    }
+    if (!post.scheduled_at) return false;
+
+    const updated = await this.repository.update(postId, { scheduled_at: null }, { expectedStatus: 'draft' });
+    return updated !== null;
+  }
+
+  // 按计划时间列出定时文章
+  async list(filter: ScheduledPostFilter = {}, timezone?: string): Promise<ScheduledPost[]> {
+    const zone = await this.resolveTimezone(timezone);
+    let query = this.supabase.getServiceClient()
+      .from('posts')
+      .select(SCHEDULED_POST_COLUMNS)
+      .eq('status', 'draft')
+      .not('scheduled_at', 'is', null)
+      .order('scheduled_at', { ascending: true });
+    if (filter.authorId) query = query.eq('author_id', filter.authorId);
+    if (filter.limit) query = query.limit(filter.limit);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return ((data || []) as Array<Pick<PostRow, 'id' | 'title' | 'author_id' | 'scheduled_at'>>)
+      .map(row => this.toScheduledPost(row, zone));
+  }
+
+  // ==================== 发布 ====================
+
+  // 发布所有到期文章；每批在数据库中原子完成，直到没有到期文章
+  async runDue(now: Date = new Date()): Promise<ScheduledPublishResult> {
+    const published: ScheduledPublishResult['published'] = [];
+
+    for (;;) {
+      const { data, error } = await this.supabase.getServiceClient()
+        .rpc('publish_scheduled_posts', { p_now: now.toISOString(), p_limit: this.batchSize });
+      if (error) throw error;
+
+      const rows = (data || []) as PostRow[];
+      rows.forEach(row => published.push({
+        id: row.id,
+        title: row.title,
+        slug: row.slug,
+        published_at: row.published_at,
+      }));
+      if (rows.length < this.batchSize) break;
+    }
+
+    return { published, ranAt: now.toISOString() };
+  }
+
+  // 获取站点时区
+  async getTimezone(): Promise<string> {
+    const timezone = await this.settings.get<string>('timezone', DEFAULT_TIMEZONE);
+    return isValidTimeZone(timezone) ? timezone : DEFAULT_TIMEZONE;
+  }
+
+  // ==================== 辅助方法 ====================
+
+  // 读取可以设置计划的草稿
+  private async loadDraft(postId: string): Promise<PostRow> {
+    const post = await this.repository.findById(postId, { includeDeleted: true });
+    if (!post) {
+      throw new Error('文章不存在');
+    }
+    if (post.status !== 'draft') {
+      throw new Error(`只能为草稿设置定时发布，当前状态为「${POST_STATUS_LABELS[post.status]}」`);
+    }
+    return post;
+  }
+
+  // 解析并校验计划时间
+  private validateTime(at: ScheduleTime, timezone: string, now: Date = new Date()): Date {
+    const scheduledAt = resolveScheduleTime(at, timezone);
+    if (!scheduledAt) {
+      throw new Error('计划时间格式无效，应为 ISO 8601 或 YYYY-MM-DD HH:mm');
+    }
+    if (scheduledAt.getTime() <= now.getTime() + this.minLeadTime) {
+      throw new Error('计划时间必须晚于当前时间');
+    }
+    return scheduledAt;
+  }
+
+  // 确定使用的时区
+  private async resolveTimezone(timezone?: string): Promise<string> {
+    if (timezone === undefined) {
+      return this.getTimezone();
+    }
+    if (!isValidTimeZone(timezone)) {
+      throw new Error(`无效的时区: ${timezone}`);
+    }
+    return timezone;
+  }
+
+  // 转换为定时文章
+  private toScheduledPost(
+    row: Pick<PostRow, 'id' | 'title' | 'author_id' | 'scheduled_at'>,
+    timezone: string
+  ): ScheduledPost {
+    return {
+      id: row.id,
+      title: row.title,
+      author_id: row.author_id,
+      scheduled_at: row.scheduled_at as string,
+      scheduled_local: formatZonedDateTime(row.scheduled_at as string, timezone),
+      timezone,
+    };
+  }
+}
+
+// ==================== 命令行入口 ====================
+
+// 发布一次到期文章后退出，供 cron 等定时任务调用
+export async function main() {
+  try {
+    const result = await new PostScheduler().runDue();
+    result.published.forEach(post => console.log(`📢 已发布: ${post.title} (${post.id})`));
+    console.log(`✅ 定时发布完成，共发布 ${result.published.length} 篇文章`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ 定时发布失败:', errorMessage(error));
+    process.exit(1);
+  }
+}
+
+// 如果直接运行此文件
+if (require.main === module) {
+  main();
+}
+
+export default PostScheduler;
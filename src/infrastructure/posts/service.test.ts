@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import type SupabaseService from '../supabase/client';
+import { PostService } from './service';
+import { InvalidPostTransitionError, POST_STATUS_TRANSITIONS, canTransitionPost } from './types';
+import type { PostStatus } from './types';
+
+type Row = Record<string, any>;
+type Tables = Record<string, Row[]>;
+
+const STATUSES = Object.keys(POST_STATUS_TRANSITIONS) as PostStatus[];
+
+// 内存中的 Supabase 服务；failOn 中的表插入时返回错误
+function fakeSupabase(tables: Tables, failOn: string[] = []): SupabaseService {
+  let nextId = 1;
+
+  function query(table: string) {
+    const filters: Array<(row: Row) => boolean> = [];
+    let action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+    let values: Row | Row[] = {};
+    let single = false;
+
+    const run = () => {
+      const rows = tables[table] || (tables[table] = []);
+      if (action === 'insert') {
+        if (failOn.includes(table)) return { data: null, error: new Error(`${table} 写入失败`) };
+        const inserted = ([] as Row[]).concat(values).map(row => ({ id: `${table}-${nextId++}`, ...row }));
+        rows.push(...inserted);
+        return { data: single ? inserted[0] : inserted, error: null };
+      }
+
+      const matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (action === 'update') matched.forEach(row => Object.assign(row, values));
+      if (action === 'delete') tables[table] = rows.filter(row => !matched.includes(row));
+      return { data: single ? (matched[0] ? { ...matched[0] } : null) : matched, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: (payload: Row | Row[]) => { action = 'insert'; values = payload; return builder; },
+      update: (payload: Row) => { action = 'update'; values = payload; return builder; },
+      delete: () => { action = 'delete'; return builder; },
+      eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+      neq: (column: string, value: unknown) => { filters.push(row => row[column] !== value); return builder; },
+      in: (column: string, list: unknown[]) => { filters.push(row => list.includes(row[column])); return builder; },
+      single: () => { single = true; return builder; },
+      maybeSingle: () => { single = true; return builder; },
+      then: (resolve: (value: unknown) => void, reject: (reason: unknown) => void) => Promise.resolve().then(run).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  const client = {
+    from: query,
+    rpc: async () => ({ data: [], error: null }),
+  };
+  return { getServiceClient: () => client } as unknown as SupabaseService;
+}
+
+// 指定状态的文章
+function post(status: PostStatus, row: Row = {}): Row {
+  return { id: 'post-1', author_id: 'u1', title: '标题', content: '正文', status, published_at: null, scheduled_at: null, ...row };
+}
+
+describe('canTransitionPost', () => {
+  it.each(STATUSES.flatMap(from => STATUSES.filter(to => to !== from).map(to => [from, to] as const)))(
+    '%s → %s',
+    (from, to) => {
+      const allowed = from === 'deleted' ? to === 'draft' : true;
+      expect(canTransitionPost(from, to)).toBe(allowed);
+    }
+  );
+});
+
+describe('PostService 状态流转', () => {
+  it('首次发布设置发布时间并清空计划发布时间', async () => {
+    const tables: Tables = { posts: [post('draft', { scheduled_at: '2030-01-01T00:00:00.000Z' })] };
+    const published = await new PostService(fakeSupabase(tables)).publish('post-1', { publishedAt: '2024-01-15T10:00:00Z' });
+    expect(published).toMatchObject({ status: 'published', published_at: '2024-01-15T10:00:00.000Z', scheduled_at: null });
+  });
+
+  it('从归档重新发布时保留原发布时间', async () => {
+    const tables: Tables = { posts: [post('archived', { published_at: '2023-06-01T00:00:00.000Z' })] };
+    const published = await new PostService(fakeSupabase(tables)).publish('post-1');
+    expect(published.published_at).toBe('2023-06-01T00:00:00.000Z');
+  });
+
+  it('发布时间无效时报错', async () => {
+    const tables: Tables = { posts: [post('draft')] };
+    await expect(new PostService(fakeSupabase(tables)).publish('post-1', { publishedAt: 'invalid' })).rejects.toThrow('发布时间无效');
+  });
+
+  it('撤回为草稿时清空发布时间', async () => {
+    const tables: Tables = { posts: [post('published', { published_at: '2024-01-15T10:00:00.000Z' })] };
+    const service = new PostService(fakeSupabase(tables));
+    expect(await service.unpublish('post-1')).toMatchObject({ status: 'draft', published_at: null });
+
+    const republished = await service.publish('post-1');
+    expect(Date.now() - new Date(republished.published_at!).getTime()).toBeLessThan(5000);
+  });
+
+  it.each<[string, PostStatus, (service: PostService) => Promise<unknown>, PostStatus]>([
+    ['已删除的文章不能直接发布', 'deleted', service => service.publish('post-1'), 'published'],
+    ['已删除的文章不能归档', 'deleted', service => service.archive('post-1'), 'archived'],
+    ['只有已发布的文章可以撤回', 'archived', service => service.unpublish('post-1'), 'draft'],
+    ['草稿不能通过 restore 恢复', 'draft', service => service.restore('post-1'), 'draft'],
+  ])('%s', async (_name, status, run, to) => {
+    const tables: Tables = { posts: [post(status)] };
+    const error = await run(new PostService(fakeSupabase(tables))).catch(reason => reason);
+    expect(error).toBeInstanceOf(InvalidPostTransitionError);
+    expect(error).toMatchObject({ from: status, to });
+    expect(tables.posts[0].status).toBe(status);
+  });
+
+  it('归档文章恢复为草稿', async () => {
+    const tables: Tables = { posts: [post('archived')] };
+    expect((await new PostService(fakeSupabase(tables)).restore('post-1')).status).toBe('draft');
+  });
+
+  it('文章不存在时报错', async () => {
+    await expect(new PostService(fakeSupabase({ posts: [] })).archive('missing')).rejects.toThrow('文章不存在');
+  });
+
+  it('update 不能修改状态与发布时间', async () => {
+    const tables: Tables = { posts: [post('draft')] };
+    await expect(new PostService(fakeSupabase(tables)).update('post-1', { status: 'published' }))
+      .rejects.toThrow('请使用发布、撤回、归档或定时发布操作修改文章状态');
+  });
+});
+
+describe('PostService.createDraft', () => {
+  it('创建草稿并渲染正文、关联分类和标签', async () => {
+    const tables: Tables = { posts: [], post_categories: [], post_tags: [] };
+    const draft = await new PostService(fakeSupabase(tables)).createDraft(
+      { author_id: 'u1', title: ' 标题 ', content: '# 你好', slug: 'hello' },
+      { categoryIds: ['c1'], tagIds: ['t1', 't2'] }
+    );
+
+    expect(draft).toMatchObject({ title: '标题', status: 'draft', published_at: null });
+    expect(draft.content_html).toContain('你好');
+    expect(tables.post_categories).toHaveLength(1);
+    expect(tables.post_tags).toHaveLength(2);
+  });
+
+  it('关联标签失败时删除刚创建的文章', async () => {
+    const tables: Tables = { posts: [], post_categories: [], post_tags: [] };
+    const service = new PostService(fakeSupabase(tables, ['post_tags']));
+    await expect(service.createDraft({ author_id: 'u1', title: '标题', content: '正文', slug: 'hello' }, { categoryIds: ['c1'], tagIds: ['t1'] }))
+      .rejects.toThrow('post_tags 写入失败');
+    expect(tables.posts).toEqual([]);
+  });
+
+  it('标题为空时不写入', async () => {
+    const tables: Tables = { posts: [] };
+    await expect(new PostService(fakeSupabase(tables)).createDraft({ author_id: 'u1', title: '  ', content: '', slug: 'x' }))
+      .rejects.toThrow('文章标题不能为空');
+    expect(tables.posts).toEqual([]);
+  });
+});
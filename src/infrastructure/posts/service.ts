@@ -0,0 +1,248 @@
+// 文章服务
+// 提供创建草稿、编辑、发布、撤回、归档、删除与恢复等操作，校验状态流转并记录版本历史
+// 删除只移入回收站（见 TrashService），恢复时重新关联分类和标签
+// 保存正文时同时生成 content_html 与阅读时间
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { renderPostHtml } from '../render/pipeline';
+import { TrashService } from '../trash/service';
+import { PostMetricsService } from './metrics';
+import { PostRepository } from './repository';
+import { PostRevisionService, touchesRevisionFields } from './revisions';
+import { InvalidPostTransitionError, canTransitionPost } from './types';
+import type { PostInsert, PostRow, PostStatus, PostUpdate } from './types';
+
+// 创建草稿的字段（状态与发布时间由服务决定）
+export type PostDraftInput = Omit<PostInsert, 'status' | 'published_at'>;
+
+// 创建草稿选项
+export interface PostCreateOptions {
+  categoryIds?: string[];
+  tagIds?: string[];
+}
+
+// 更新选项
+export interface PostSaveOptions {
+  // 修改人，记录在版本历史中
+  editorId?: string | null;
+  // 版本说明
+  message?: string | null;
+}
+
+// 发布选项
+export interface PostPublishOptions {
+  // 指定发布时间；未指定时保留已有的发布时间，首次发布使用当前时间
+  publishedAt?: Date | string;
+}
+
+// 删除选项
+export interface PostDeleteOptions {
+  // 删除人，记录在 deleted_by 中
+  deletedBy?: string | null;
+}
+
+// 状态流转选项
+interface PostTransitionOptions {
+  // 限定允许的原状态（在流转规则之上进一步收紧）
+  from?: PostStatus[];
+  // 计算随状态一起写入的字段
+  prepare?: (post: PostRow) => PostUpdate;
+}
+
+export class PostService {
+  private repository: PostRepository;
+  private revisions: PostRevisionService;
+  private metrics: PostMetricsService;
+  private trash: TrashService;
+
+  constructor(supabase: SupabaseService = getSupabaseService()) {
+    this.repository = new PostRepository(supabase);
+    this.revisions = new PostRevisionService(supabase);
+    this.metrics = new PostMetricsService(supabase);
+    this.trash = new TrashService(supabase);
+  }
+
+  // 获取仓储
+  getRepository(): PostRepository {
+    return this.repository;
+  }
+
+  // 获取版本历史服务
+  getRevisions(): PostRevisionService {
+    return this.revisions;
+  }
+
+  // 获取字数与阅读时间统计服务
+  getMetrics(): PostMetricsService {
+    return this.metrics;
+  }
+
+  // ==================== 创建 ====================
+
+  // 创建草稿并关联分类、标签；关联失败时删除刚创建的文章，不留下不完整的草稿
+  async createDraft(input: PostDraftInput, options: PostCreateOptions = {}): Promise<PostRow> {
+    if (!input.title || !input.title.trim()) {
+      throw new Error('文章标题不能为空');
+    }
+    if (typeof input.content !== 'string') {
+      throw new Error('文章内容必须是字符串');
+    }
+
+    const post = await this.repository.insert({
+      ...input,
+      title: input.title.trim(),
+      ...(await this.renderBody(input.content)),
+      status: 'draft',
+      published_at: null,
+    });
+
+    try {
+      await this.repository.addCategories(post.id, options.categoryIds || []);
+      await this.repository.addTags(post.id, options.tagIds || []);
+    } catch (error) {
+      await this.discardPost(post.id);
+      throw error;
+    }
+    await this.recordRevision(post.id, { editorId: input.author_id, message: '创建草稿' });
+    return post;
+  }
+
+  // ==================== 编辑 ====================
+
+  // 保存文章内容；修改正文时重新渲染 HTML 并更新阅读时间，修改标题、摘要、正文或 SEO 字段时记录新版本
+  // 状态与发布时间必须通过 publish / archive 等操作或 PostScheduler 修改
+  async update(id: string, changes: PostUpdate, options: PostSaveOptions = {}): Promise<PostRow> {
+    if (changes.status !== undefined || changes.published_at !== undefined || changes.scheduled_at !== undefined) {
+      throw new Error('请使用发布、撤回、归档或定时发布操作修改文章状态');
+    }
+
+    const updated = await this.repository.update(
+      id,
+      changes.content !== undefined ? { ...changes, ...(await this.renderBody(changes.content)) } : changes
+    );
+    if (!updated) {
+      throw new Error('文章不存在');
+    }
+    if (touchesRevisionFields(changes)) {
+      await this.recordRevision(id, options);
+    }
+    return updated;
+  }
+
+  // ==================== 状态流转 ====================
+
+  // 发布文章
+  async publish(id: string, options: PostPublishOptions = {}): Promise<PostRow> {
+    return this.transition(id, 'published', {
+      prepare: post => this.preparePublish(post, options),
+    });
+  }
+
+  // 撤回为草稿并清空发布时间，重新发布时按首次发布处理
+  async unpublish(id: string): Promise<PostRow> {
+    return this.transition(id, 'draft', {
+      from: ['published'],
+      prepare: () => ({ published_at: null }),
+    });
+  }
+
+  // 归档文章
+  async archive(id: string): Promise<PostRow> {
+    return this.transition(id, 'archived');
+  }
+
+  // 将文章移入回收站：记录删除人与删除时间，解除分类、标签关联并清空计划发布时间
+  async softDelete(id: string, options: PostDeleteOptions = {}): Promise<PostRow> {
+    const post = await this.findPost(id);
+    if (!canTransitionPost(post.status, 'deleted')) {
+      throw new InvalidPostTransitionError(post.status, 'deleted');
+    }
+    if (!(await this.trash.moveToTrash('post', id, { deletedBy: options.deletedBy }))) {
+      throw new Error('文章状态已被修改，请刷新后重试');
+    }
+    return this.findPost(id);
+  }
+
+  // 将已删除或已归档的文章恢复为草稿；从回收站恢复时重新关联仍然存在的分类和标签
+  async restore(id: string): Promise<PostRow> {
+    const post = await this.findPost(id);
+    if (post.status !== 'deleted') {
+      return this.transition(id, 'draft', { from: ['archived'] });
+    }
+    await this.trash.restore('post', id);
+    return this.findPost(id);
+  }
+
+  // ==================== 辅助方法 ====================
+
+  // 渲染正文并计算阅读时间
+  private async renderBody(content: string): Promise<Pick<PostUpdate, 'content_html' | 'reading_time'>> {
+    const html = renderPostHtml(content);
+    return { content_html: html, reading_time: (await this.metrics.measureHtml(html)).readingTime };
+  }
+
+  // 记录版本；失败只记录日志，不影响已完成的保存
+  private async recordRevision(id: string, options: PostSaveOptions): Promise<void> {
+    try {
+      await this.revisions.record(id, { authorId: options.editorId, message: options.message });
+    } catch (error) {
+      console.error('记录文章版本失败:', error);
+    }
+  }
+
+  // 删除创建失败的文章；删除失败只记录日志，由调用方处理原始错误
+  private async discardPost(id: string): Promise<void> {
+    try {
+      await this.repository.delete(id);
+    } catch (error) {
+      console.error('删除创建失败的文章失败:', error);
+    }
+  }
+
+  // 计算发布时写入的字段
+  private preparePublish(post: PostRow, options: PostPublishOptions): PostUpdate {
+    const publishedAt = options.publishedAt !== undefined
+      ? new Date(options.publishedAt)
+      : post.published_at ? new Date(post.published_at) : new Date();
+    if (isNaN(publishedAt.getTime())) {
+      throw new Error('发布时间无效');
+    }
+    return { published_at: publishedAt.toISOString(), scheduled_at: null };
+  }
+
+  // 读取文章（包括已删除的）
+  private async findPost(id: string): Promise<PostRow> {
+    const post = await this.repository.findById(id, { includeDeleted: true });
+    if (!post) {
+      throw new Error('文章不存在');
+    }
+    return post;
+  }
+
+  // 校验并执行状态流转；更新时要求状态未被其他请求修改
+  private async transition(
+    id: string,
+    to: PostStatus,
+    options: PostTransitionOptions = {}
+  ): Promise<PostRow> {
+    const post = await this.repository.findById(id, { includeDeleted: true });
+    if (!post) {
+      throw new Error('文章不存在');
+    }
+    if (!canTransitionPost(post.status, to) || (options.from && !options.from.includes(post.status))) {
+      throw new InvalidPostTransitionError(post.status, to);
+    }
+
+    const updated = await this.repository.update(
+      id,
+      { ...(options.prepare ? options.prepare(post) : {}), status: to },
+      { expectedStatus: post.status }
+    );
+    if (!updated) {
+      throw new Error('文章状态已被修改，请刷新后重试');
+    }
+    return updated;
+  }
+}
+
+export default PostService;
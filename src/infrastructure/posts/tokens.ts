@@ -0,0 +1,47 @@
+// 签名令牌
+// 格式：<base64url(主体.过期秒数)>.<base64url(HMAC-SHA256 签名)>
+// binding 参与签名但不写入令牌，绑定的值变化后（如修改密码）旧令牌失效
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// 令牌内容
+export interface SignedTokenPayload {
+  subject: string;
+  expiresAt: Date;
+}
+
+// 计算签名
+function signPayload(payload: string, secret: string, binding: string): Buffer {
+  return createHmac('sha256', secret).update(`${payload}.${binding}`).digest();
+}
+
+/** 签发令牌 */
+export function createSignedToken(subject: string, expiresAt: Date, secret: string, binding: string = ''): string {
+  const payload = `${subject}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${Buffer.from(payload).toString('base64url')}.${signPayload(payload, secret, binding).toString('base64url')}`;
+}
+
+/** 校验令牌签名与有效期，返回令牌内容；无效或已过期时返回 null */
+export function readSignedToken(
+  token: string,
+  secret: string,
+  binding: string = '',
+  now: Date = new Date()
+): SignedTokenPayload | null {
+  const [encodedPayload, encodedSignature, extra] = token.split('.');
+  if (!encodedPayload || !encodedSignature || extra !== undefined) return null;
+
+  const payload = Buffer.from(encodedPayload, 'base64url').toString('utf8');
+  const separator = payload.lastIndexOf('.');
+  const expiresAt = Number(payload.slice(separator + 1));
+  if (separator <= 0 || !Number.isInteger(expiresAt) || expiresAt * 1000 <= now.getTime()) {
+    return null;
+  }
+
+  const expected = signPayload(payload, secret, binding);
+  const actual = Buffer.from(encodedSignature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+  return { subject: payload.slice(0, separator), expiresAt: new Date(expiresAt * 1000) };
+}
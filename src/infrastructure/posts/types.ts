@@ -0,0 +1,40 @@
+// 文章类型定义
+// posts 表的类型别名、状态流转规则与相关错误
+
+import type { Database } from '../types/database';
+
+export type PostRow = Database['public']['Tables']['posts']['Row'];
+export type PostInsert = Database['public']['Tables']['posts']['Insert'];
+export type PostUpdate = Database['public']['Tables']['posts']['Update'];
+export type PostStatus = PostRow['status'];
+
+// 允许的状态流转
+// 草稿可以发布、归档或删除；已发布可以撤回为草稿、归档或删除；
+// 已归档可以重新发布、恢复为草稿或删除；已删除只能恢复为草稿
+export const POST_STATUS_TRANSITIONS: Record<PostStatus, readonly PostStatus[]> = {
+  draft: ['published', 'archived', 'deleted'],
+  published: ['draft', 'archived', 'deleted'],
+  archived: ['published', 'draft', 'deleted'],
+  deleted: ['draft'],
+};
+
+// 状态名称
+export const POST_STATUS_LABELS: Record<PostStatus, string> = {
+  draft: '草稿',
+  published: '已发布',
+  archived: '已归档',
+  deleted: '已删除',
+};
+
+/** 判断文章状态能否从 from 变为 to */
+export function canTransitionPost(from: PostStatus, to: PostStatus): boolean {
+  return POST_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// 不允许的状态流转
+export class InvalidPostTransitionError extends Error {
+  constructor(public readonly from: PostStatus, public readonly to: PostStatus) {
+    super(`文章状态不能从「${POST_STATUS_LABELS[from]}」变为「${POST_STATUS_LABELS[to]}」`);
+    this.name = 'InvalidPostTransitionError';
+  }
+}
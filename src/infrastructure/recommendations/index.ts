@@ -0,0 +1,12 @@
+// 推荐模块导出
+// 提供个性化文章推荐、相关文章与阅读记录
+
+export { RecommendationService, POST_VIEW_ACTIVITY, explainRecommendation } from './service';
+export type {
+  PostRecommendation,
+  RecommendationReasons,
+  RecommendationServiceOptions,
+  RecommendationSignal,
+  RecommendationSignalName,
+  RecordViewOptions,
+} from './service';
@@ -0,0 +1,182 @@
+// 文章推荐服务
+// 调用 get_post_recommendations / get_related_posts，并记录用户阅读行为（user_activities 中的 post_view）
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+
+// 阅读记录的活动类型
+export const POST_VIEW_ACTIVITY = 'post_view';
+
+// 推荐信号
+export type RecommendationSignalName = 'tags' | 'categories' | 'co_views' | 'popularity' | 'recency';
+
+// 单个信号的得分（0~1）、权重和依据
+export interface RecommendationSignal {
+  score: number;
+  weight: number;
+  shared?: string[];
+  matched?: string[];
+  viewers?: number;
+  views_30d?: number;
+  age_days?: number;
+}
+
+// 推荐原因
+export type RecommendationReasons = Partial<Record<RecommendationSignalName, RecommendationSignal>> & {
+  history_size?: number;
+};
+
+// 推荐结果
+export interface PostRecommendation {
+  id: string;
+  title: string;
+  slug: string;
+  score: number;
+  reasons: RecommendationReasons;
+  explanation: string[];
+}
+
+// 记录阅读的选项
+export interface RecordViewOptions {
+  userId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+// 推荐服务选项
+export interface RecommendationServiceOptions {
+  viewDedupeWindow?: number;
+}
+
+// 默认及最大返回数量
+const DEFAULT_RECOMMENDATION_LIMIT = 10;
+const DEFAULT_RELATED_LIMIT = 5;
+const MAX_LIMIT = 50;
+
+// 同一用户重复阅读同一文章的去重窗口（毫秒）
+const DEFAULT_VIEW_DEDUPE_WINDOW = 30 * 60 * 1000;
+
+// 贡献低于该值的信号不写入说明
+const EXPLANATION_THRESHOLD = 0.02;
+
+// 规范化返回数量
+function clampLimit(limit: number | undefined, fallback: number): number {
+  if (typeof limit !== 'number' || !Number.isFinite(limit)) return fallback;
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_LIMIT);
+}
+
+/** 将推荐原因转换为可读说明，按贡献从高到低排列 */
+export function explainRecommendation(reasons: RecommendationReasons): string[] {
+  const entries = (Object.keys(reasons) as Array<keyof RecommendationReasons>)
+    .filter((name): name is RecommendationSignalName => name !== 'history_size')
+    .map(name => ({ name, signal: reasons[name] as RecommendationSignal }))
+    .filter(({ signal }) => signal && signal.score * signal.weight >= EXPLANATION_THRESHOLD)
+    .sort((a, b) => b.signal.score * b.signal.weight - a.signal.score * a.signal.weight);
+
+  return entries.map(({ name, signal }) => {
+    switch (name) {
+      case 'tags': {
+        const names = signal.shared || signal.matched || [];
+        return `相同标签：${names.join('、')}`;
+      }
+      case 'categories': {
+        const names = signal.shared || signal.matched || [];
+        return `相同分类：${names.join('、')}`;
+      }
+      case 'co_views':
+        return `${signal.viewers ?? 0} 位读者也读过`;
+      case 'popularity':
+        return `近 30 天阅读 ${signal.views_30d ?? 0} 次`;
+      case 'recency':
+        return `发布于 ${signal.age_days ?? 0} 天前`;
+    }
+  });
+}
+
+export class RecommendationService {
+  private supabase: SupabaseService;
+  private viewDedupeWindow: number;
+
+  constructor(
+    supabase: SupabaseService = getSupabaseService(),
+    options: RecommendationServiceOptions = {}
+  ) {
+    this.supabase = supabase;
+    this.viewDedupeWindow = options.viewDedupeWindow ?? DEFAULT_VIEW_DEDUPE_WINDOW;
+  }
+
+  // ==================== 推荐 ====================
+
+  // 为用户推荐文章；userId 为 null 时按热度和发布时间推荐
+  async recommend(userId: string | null, limit?: number): Promise<PostRecommendation[]> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .rpc('get_post_recommendations', {
+        user_id: userId,
+        limit: clampLimit(limit, DEFAULT_RECOMMENDATION_LIMIT),
+      });
+    if (error) throw error;
+    return this.toRecommendations(data || []);
+  }
+
+  // 获取与指定文章相关的文章
+  async related(postId: string, limit?: number): Promise<PostRecommendation[]> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .rpc('get_related_posts', {
+        p_post_id: postId,
+        p_limit: clampLimit(limit, DEFAULT_RELATED_LIMIT),
+      });
+    if (error) throw error;
+    return this.toRecommendations(data || []);
+  }
+
+  // ==================== 阅读记录 ====================
+
+  // 记录一次阅读；登录用户在去重窗口内重复阅读同一文章时不重复记录
+  async recordView(postId: string, options: RecordViewOptions = {}): Promise<boolean> {
+    const client = this.supabase.getServiceClient();
+    const userId = options.userId || null;
+
+    if (userId && this.viewDedupeWindow > 0) {
+      const since = new Date(Date.now() - this.viewDedupeWindow).toISOString();
+      const { count, error } = await client
+        .from('user_activities')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('activity_type', POST_VIEW_ACTIVITY)
+        .eq('activity_data->>post_id', postId)
+        .gte('created_at', since);
+      if (error) throw error;
+      if ((count || 0) > 0) return false;
+    }
+
+    const { error } = await client
+      .from('user_activities')
+      .insert({
+        user_id: userId,
+        activity_type: POST_VIEW_ACTIVITY,
+        activity_data: { post_id: postId },
+        ip_address: options.ipAddress || null,
+        user_agent: options.userAgent || null,
+      });
+    if (error) throw error;
+    return true;
+  }
+
+  // ==================== 辅助方法 ====================
+
+  // 转换 RPC 返回行并生成说明
+  private toRecommendations(rows: Array<Record<string, any>>): PostRecommendation[] {
+    return rows.map(row => {
+      const reasons = (row.reasons || {}) as RecommendationReasons;
+      return {
+        id: row.id,
+        title: row.title,
+        slug: row.slug,
+        score: Number(row.score),
+        reasons,
+        explanation: explainRecommendation(reasons),
+      };
+    });
+  }
+}
+
+export default RecommendationService;
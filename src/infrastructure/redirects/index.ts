@@ -0,0 +1,5 @@
+// 重定向模块导出
+// 提供文章、分类、标签历史别名的 301 解析与别名历史管理
+
+export { SlugRedirectService, isSlugEntityType } from './service';
+export type { SlugEntityType, SlugRedirect, SlugRedirectFilter, SlugRedirectOptions, SlugResolution } from './service';
@@ -0,0 +1,194 @@
+// 别名重定向服务
+// 把文章、分类、标签的历史别名解析为当前地址（301），别名历史由数据库触发器记录（见 slug_redirects）
+// 逐级跟随 old_slug → new_slug，记录经过的别名以发现重定向循环
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import type { Database } from '../types/database';
+
+export type SlugRedirect = Database['public']['Tables']['slug_redirects']['Row'];
+
+// 别名所属的实体类型
+export type SlugEntityType = SlugRedirect['entity_type'];
+
+// 别名解析结果
+export type SlugResolution =
+  // 别名就是实体当前的别名
+  | { status: 'current'; entityType: SlugEntityType; entityId: string; slug: string; location: string }
+  // 历史别名：永久重定向到当前地址
+  | {
+    status: 'redirect';
+    statusCode: 301;
+    entityType: SlugEntityType;
+    entityId: string;
+    from: string;
+    slug: string;
+    location: string;
+    // 经过的历史别名，从请求的别名开始
+    chain: string[];
+  }
+  // 别名形成循环或超过最大跳转次数
+  | { status: 'loop'; entityType: SlugEntityType; from: string; chain: string[] }
+  | { status: 'not_found'; entityType: SlugEntityType; from: string };
+
+// 重定向服务选项
+export interface SlugRedirectOptions {
+  // 各类实体的地址前缀
+  paths?: Partial<Record<SlugEntityType, string>>;
+  // 最多跟随的重定向次数
+  maxHops?: number;
+}
+
+// 别名历史查询条件
+export interface SlugRedirectFilter {
+  entityType?: SlugEntityType;
+  entityId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// 实体类型对应的表
+const ENTITY_TABLES = {
+  post: 'posts',
+  category: 'categories',
+  tag: 'tags',
+} as const;
+
+// 默认地址前缀
+const DEFAULT_PATHS: Record<SlugEntityType, string> = {
+  post: '/posts',
+  category: '/categories',
+  tag: '/tags',
+};
+
+// 默认最多跟随 10 次重定向
+const DEFAULT_MAX_HOPS = 10;
+
+/** 判断是否为支持的实体类型 */
+export function isSlugEntityType(value: unknown): value is SlugEntityType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ENTITY_TABLES, value);
+}
+
+export class SlugRedirectService {
+  private supabase: SupabaseService;
+  private paths: Record<SlugEntityType, string>;
+  private maxHops: number;
+
+  constructor(supabase: SupabaseService = getSupabaseService(), options: SlugRedirectOptions = {}) {
+    this.supabase = supabase;
+    this.paths = { ...DEFAULT_PATHS, ...options.paths };
+    this.maxHops = options.maxHops ?? DEFAULT_MAX_HOPS;
+  }
+
+  // ==================== 解析 ====================
+
+  // 解析别名：当前别名直接返回，历史别名返回 301 目标；文章只解析公开发布的
+  async resolve(entityType: SlugEntityType, slug: string): Promise<SlugResolution> {
+    const chain: string[] = [slug];
+    let current = slug;
+
+    for (let hop = 0; hop <= this.maxHops; hop++) {
+      const entity = await this.findLive(entityType, current);
+      if (entity) {
+        const location = this.buildLocation(entityType, entity.slug);
+        if (hop === 0) {
+          return { status: 'current', entityType, entityId: entity.id, slug: entity.slug, location };
+        }
+        return {
+          status: 'redirect',
+          statusCode: 301,
+          entityType,
+          entityId: entity.id,
+          from: slug,
+          slug: entity.slug,
+          location,
+          chain: chain.slice(0, -1),
+        };
+      }
+
+      const redirect = await this.findRedirect(entityType, current);
+      if (!redirect) break;
+
+      if (chain.includes(redirect.new_slug)) {
+        return { status: 'loop', entityType, from: slug, chain: [...chain, redirect.new_slug] };
+      }
+      chain.push(redirect.new_slug);
+      current = redirect.new_slug;
+    }
+
+    if (chain.length > this.maxHops + 1) {
+      return { status: 'loop', entityType, from: slug, chain };
+    }
+    return { status: 'not_found', entityType, from: slug };
+  }
+
+  // 构造实体地址
+  buildLocation(entityType: SlugEntityType, slug: string): string {
+    return `${this.paths[entityType].replace(/\/+$/, '')}/${encodeURIComponent(slug)}`;
+  }
+
+  // ==================== 管理 ====================
+
+  // 列出别名历史，按更新时间倒序
+  async list(filter: SlugRedirectFilter = {}): Promise<{ redirects: SlugRedirect[]; total: number }> {
+    const limit = filter.limit ?? 50;
+    const offset = filter.offset ?? 0;
+    let query = this.supabase.getServiceClient()
+      .from('slug_redirects')
+      .select('*', { count: 'exact' });
+    if (filter.entityType) query = query.eq('entity_type', filter.entityType);
+    if (filter.entityId) query = query.eq('entity_id', filter.entityId);
+
+    const { data, error, count } = await query
+      .order('updated_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+    if (error) throw error;
+    return { redirects: (data || []) as SlugRedirect[], total: count || 0 };
+  }
+
+  // 删除一条别名历史，旧地址不再重定向
+  async remove(id: string): Promise<boolean> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('slug_redirects')
+      .delete()
+      .eq('id', id)
+      .select('id');
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  // ==================== 辅助方法 ====================
+
+  // 查询使用该别名的实体；文章只查已发布且不是私密的
+  private async findLive(entityType: SlugEntityType, slug: string): Promise<{ id: string; slug: string } | null> {
+    const client = this.supabase.getServiceClient();
+    const { data, error } = entityType === 'post'
+      ? await client
+        .from('posts')
+        .select('id, slug')
+        .eq('slug', slug)
+        .eq('status', 'published')
+        .neq('visibility', 'private')
+        .maybeSingle()
+      : await client
+        .from(ENTITY_TABLES[entityType])
+        .select('id, slug')
+        .eq('slug', slug)
+        .maybeSingle();
+    if (error) throw error;
+    return (data as { id: string; slug: string } | null) || null;
+  }
+
+  // 查询历史别名
+  private async findRedirect(entityType: SlugEntityType, slug: string): Promise<SlugRedirect | null> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('slug_redirects')
+      .select('*')
+      .eq('entity_type', entityType)
+      .eq('old_slug', slug)
+      .maybeSingle();
+    if (error) throw error;
+    return (data as SlugRedirect) || null;
+  }
+}
+
+export default SlugRedirectService;
@@ -0,0 +1,20 @@
+// 渲染模块导出
+// 提供 Markdown 渲染、白名单 HTML 净化、字数与阅读时间统计，以及文章与评论的渲染服务
+
+export { escapeHtml, htmlToText, renderMarkdown, slugifyHeading } from './markdown';
+export type { MarkdownHeading, MarkdownOptions, MarkdownResult } from './markdown';
+export { DEFAULT_CONTENT_METRICS_OPTIONS, imageReadingSeconds, measureContent, measureHtml, readingTime } from './metrics';
+export type { ContentMetrics, ContentMetricsOptions } from './metrics';
+export {
+  isRenderProfile,
+  RENDER_PROFILES,
+  renderCommentHtml,
+  renderContent,
+  renderPostHtml,
+  sanitizePostHtml,
+} from './pipeline';
+export type { RenderedContent, RenderProfile, RenderProfileName } from './pipeline';
+export { COMMENT_SANITIZE_PROFILE, isSafeUrl, POST_SANITIZE_PROFILE, sanitizeHtml } from './sanitizer';
+export type { SanitizeProfile } from './sanitizer';
+export { RenderService } from './service';
+export type { RenderBackfillOptions, RenderBackfillResult, RenderBackfillStats, RenderTable } from './service';
@@ -0,0 +1,827 @@
+// Markdown 渲染
+// 将 Markdown 转换为 HTML，支持围栏代码块、标题锚点、表格、脚注、任务列表、删除线与自动链接
+// 输出未经过滤，使用前必须经过 sanitizeHtml
+
+// 渲染选项
+export interface MarkdownOptions {
+  // 保留内嵌 HTML（交给净化器过滤）；为 false 时转义
+  html?: boolean;
+  // 为 false 时标题渲染为普通段落
+  headings?: boolean;
+  // 为标题生成 id 和锚点链接
+  headingAnchors?: boolean;
+  tables?: boolean;
+  footnotes?: boolean;
+  // 为 false 时图片渲染为链接
+  images?: boolean;
+  taskLists?: boolean;
+  // 将裸露的 http(s) 地址转换为链接
+  autolink?: boolean;
+  // 标题与脚注 id 的前缀，避免与页面其他元素冲突
+  idPrefix?: string;
+}
+
+// 文章标题（用于目录）
+export interface MarkdownHeading {
+  level: number;
+  text: string;
+  id: string | null;
+}
+
+// 渲染结果
+export interface MarkdownResult {
+  html: string;
+  headings: MarkdownHeading[];
+}
+
+// 链接引用定义
+interface LinkReference {
+  href: string;
+  title: string | null;
+}
+
+// 渲染上下文
+interface RenderContext {
+  options: Required<MarkdownOptions>;
+  references: Map<string, LinkReference>;
+  footnotes: Map<string, string[]>;
+  footnoteOrder: string[];
+  footnoteRefCounts: Map<string, number>;
+  headingIds: Map<string, number>;
+  headings: MarkdownHeading[];
+}
+
+// 默认选项
+const DEFAULT_OPTIONS: Required<MarkdownOptions> = {
+  html: false,
+  headings: true,
+  headingAnchors: true,
+  tables: true,
+  footnotes: true,
+  images: true,
+  taskLists: true,
+  autolink: true,
+  idPrefix: '',
+};
+
+// ==================== 块级语法 ====================
+
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`]*?)[ \t]*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const HTML_BLOCK_START = /^ {0,3}<(?:!--|\/?(?:address|article|aside|blockquote|details|dialog|div|dl|dt|dd|figcaption|figure|footer|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|summary|table|tbody|td|tfoot|th|thead|tr|ul|script|style|iframe)(?:[\s/>]|$))/i;
+const LINK_DEFINITION = /^ {0,3}\[([^\]^][^\]]*)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?[ \t]*$/;
+const FOOTNOTE_DEFINITION = /^ {0,3}\[\^([^\]\s]+)\]:[ \t]?(.*)$/;
+
+// ==================== 行内语法 ====================
+
+const ASCII_PUNCTUATION = /^[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]$/;
+const AUTOLINK = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^<>\s]*)>/;
+const EMAIL_AUTOLINK = /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?)+)>/;
+const INLINE_HTML = /^(?:<!--[\s\S]*?-->|<\/?[a-zA-Z][a-zA-Z0-9-]*(?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*\s*\/?>)/;
+const ENTITY = /^&(?:[a-zA-Z][a-zA-Z0-9]{1,31}|#\d{1,7}|#[xX][0-9a-fA-F]{1,6});/;
+// 裸链接；结尾的标点（含全角标点）不计入地址
+const BARE_URL = /(^|[\s(\u3000-\u303f\uff08])(https?:\/\/[^\s<\u0000\u3000-\u303f\uff01-\uff0f\uff1a-\uff20]+)/g;
+const PLACEHOLDER = /\u0000(\d+)\u0000/g;
+// 需要进一步判断的行内字符
+const INLINE_SPECIAL = new Set(['\\', '`', '<', '!', '[', '&']);
+
+/** 转义 HTML 特殊字符 */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// 数字字符实体对应的字符，码点无效时为空
+function fromCodePoint(code: number): string {
+  return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+}
+
+/** 去掉 HTML 标签并还原常用字符实体，得到纯文本 */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#(\d+);/g, (_, code) => fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/** 生成标题锚点：小写，保留文字、数字、下划线和连字符，空白转换为连字符 */
+export function slugifyHeading(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+  return slug || 'section';
+}
+
+// 规范化链接引用标签
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// 去掉反斜杠转义
+function unescapeMarkdown(text: string): string {
+  return text.replace(/\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g, '$1');
+}
+
+// 将前导制表符展开为空格
+function expandTabs(line: string): string {
+  return line.replace(/^[ \t]+/, indent => indent.replace(/\t/g, '    '));
+}
+
+// 判断空行
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+// 前导空格数
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+// 去掉指定数量的前导空格
+function stripIndent(line: string, count: number): string {
+  return line.slice(Math.min(count, indentOf(line)));
+}
+
+// ==================== 渲染入口 ====================
+
+/** 渲染 Markdown，返回 HTML 与标题列表 */
+export function renderMarkdown(markdown: string, options: MarkdownOptions = {}): MarkdownResult {
+  const ctx: RenderContext = {
+    options: { ...DEFAULT_OPTIONS, ...options },
+    references: new Map(),
+    footnotes: new Map(),
+    footnoteOrder: [],
+    footnoteRefCounts: new Map(),
+    headingIds: new Map(),
+    headings: [],
+  };
+
+  const lines = collectDefinitions(
+    markdown.replace(/\r\n?/g, '\n').replace(/\u0000/g, '\ufffd').split('\n').map(expandTabs),
+    ctx
+  );
+  let html = renderBlocks(lines, ctx);
+  if (ctx.footnoteOrder.length > 0) {
+    html += renderFootnotes(ctx);
+  }
+  return { html, headings: ctx.headings };
+}
+
+// 提取链接引用定义与脚注定义（代码块中的内容除外）
+function collectDefinitions(lines: string[], ctx: RenderContext): string[] {
+  const result: string[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = line.match(FENCE_OPEN);
+    if (fence) {
+      if (fenceMatch && fenceMatch[2][0] === fence[0] && fenceMatch[2].length >= fence.length && !fenceMatch[3]) {
+        fence = null;
+      }
+      result.push(line);
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[2];
+      result.push(line);
+      continue;
+    }
+
+    const footnote = ctx.options.footnotes ? line.match(FOOTNOTE_DEFINITION) : null;
+    if (footnote) {
+      const body = [footnote[2]];
+      // 缩进的后续行（允许中间有空行）属于同一个脚注
+      while (i + 1 < lines.length) {
+        const next = lines[i + 1];
+        if (indentOf(next) >= 2 && !isBlank(next)) {
+          body.push(stripIndent(next, 4));
+        } else if (isBlank(next) && i + 2 < lines.length && indentOf(lines[i + 2]) >= 4 && !isBlank(lines[i + 2])) {
+          body.push('');
+        } else {
+          break;
+        }
+        i++;
+      }
+      const label = normalizeLabel(footnote[1]);
+      if (!ctx.footnotes.has(label)) ctx.footnotes.set(label, body);
+      continue;
+    }
+
+    const definition = line.match(LINK_DEFINITION);
+    if (definition && (i === 0 || isBlank(lines[i - 1]) || LINK_DEFINITION.test(lines[i - 1]))) {
+      const label = normalizeLabel(definition[1]);
+      if (!ctx.references.has(label)) {
+        ctx.references.set(label, {
+          href: unescapeMarkdown(definition[2]),
+          title: definition[3] ?? definition[4] ?? definition[5] ?? null,
+        });
+      }
+      continue;
+    }
+
+    result.push(line);
+  }
+  return result;
+}
+
+// ==================== 块级渲染 ====================
+
+// 判断一行能否打断段落
+function startsBlock(line: string, ctx: RenderContext): boolean {
+  if (FENCE_OPEN.test(line) || ATX_HEADING.test(line) || THEMATIC_BREAK.test(line) || BLOCKQUOTE.test(line)) {
+    return true;
+  }
+  const item = line.match(LIST_ITEM);
+  if (item && item[4] && item[4].trim() && (/^[-+*]$/.test(item[2]) || /^1[.)]$/.test(item[2]))) {
+    return true;
+  }
+  return ctx.options.html && HTML_BLOCK_START.test(line);
+}
+
+// 渲染块级内容；tight 为 true 时段落不包裹 <p>（紧凑列表）
+function renderBlocks(lines: string[], ctx: RenderContext, tight: boolean = false): string {
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // 围栏代码块
+    const fence = line.match(FENCE_OPEN);
+    if (fence) {
+      const indent = fence[1].length;
+      const marker = fence[2];
+      const language = unescapeMarkdown(fence[3].split(/\s+/)[0] || '');
+      const code: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const close = lines[i].match(FENCE_OPEN);
+        if (close && close[2][0] === marker[0] && close[2].length >= marker.length && !close[3]) {
+          i++;
+          break;
+        }
+        code.push(stripIndent(lines[i], indent));
+        i++;
+      }
+      out.push(renderCodeBlock(code.join('\n'), language));
+      continue;
+    }
+
+    // ATX 标题
+    const atx = line.match(ATX_HEADING);
+    if (atx) {
+      out.push(renderHeading(atx[1].length, (atx[2] || '').trim(), ctx));
+      i++;
+      continue;
+    }
+
+    // 分隔线
+    if (THEMATIC_BREAK.test(line)) {
+      out.push('<hr>');
+      i++;
+      continue;
+    }
+
+    // 引用
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length) {
+        const current = lines[i];
+        if (BLOCKQUOTE.test(current)) {
+          quoted.push(current.replace(BLOCKQUOTE, ''));
+        } else if (
+          !isBlank(current) &&
+          quoted.length > 0 &&
+          !isBlank(quoted[quoted.length - 1]) &&
+          !startsBlock(current, ctx)
+        ) {
+          // 段落的延续行可以省略 >
+          quoted.push(current);
+        } else {
+          break;
+        }
+        i++;
+      }
+      out.push(`<blockquote>\n${renderBlocks(quoted, ctx)}</blockquote>`);
+      continue;
+    }
+
+    // 列表
+    if (LIST_ITEM.test(line)) {
+      const list = parseList(lines, i, ctx);
+      if (list) {
+        out.push(list.html);
+        i = list.next;
+        continue;
+      }
+    }
+
+    // 缩进代码块
+    if (indentOf(line) >= 4) {
+      const code: string[] = [];
+      while (i < lines.length && (indentOf(lines[i]) >= 4 || isBlank(lines[i]))) {
+        code.push(stripIndent(lines[i], 4));
+        i++;
+      }
+      while (code.length > 0 && isBlank(code[code.length - 1])) code.pop();
+      out.push(renderCodeBlock(code.join('\n'), ''));
+      continue;
+    }
+
+    // HTML 块（到空行为止）
+    if (ctx.options.html && HTML_BLOCK_START.test(line)) {
+      const block: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        block.push(lines[i]);
+        i++;
+      }
+      out.push(block.join('\n'));
+      continue;
+    }
+
+    // 表格
+    if (ctx.options.tables && i + 1 < lines.length && line.includes('|') && TABLE_DELIMITER.test(lines[i + 1])) {
+      const table = parseTable(lines, i, ctx);
+      if (table) {
+        out.push(table.html);
+        i = table.next;
+        continue;
+      }
+    }
+
+    // 段落（含 Setext 标题）
+    const paragraph: string[] = [line];
+    i++;
+    let setextLevel = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      const setext = lines[i].match(SETEXT_UNDERLINE);
+      if (setext) {
+        setextLevel = setext[1][0] === '=' ? 1 : 2;
+        i++;
+        break;
+      }
+      if (startsBlock(lines[i], ctx)) break;
+      paragraph.push(lines[i]);
+      i++;
+    }
+
+    const text = paragraph.map(part => part.trimStart()).join('\n').replace(/[ \t]+$/, '');
+    if (setextLevel) {
+      out.push(renderHeading(setextLevel, text.replace(/\n/g, ' '), ctx));
+    } else {
+      const html = renderInline(text, ctx);
+      out.push(tight ? html : `<p>${html}</p>`);
+    }
+  }
+
+  return out.join('\n') + (out.length > 0 ? '\n' : '');
+}
+
+// 渲染代码块
+function renderCodeBlock(code: string, language: string): string {
+  const className = language && /^[\w#+.-]+$/.test(language) ? ` class="language-${escapeHtml(language.toLowerCase())}"` : '';
+  return `<pre><code${className}>${escapeHtml(code)}${code ? '\n' : ''}</code></pre>`;
+}
+
+// 渲染标题
+function renderHeading(level: number, text: string, ctx: RenderContext): string {
+  const content = renderInline(text, ctx);
+  const plain = htmlToText(content).trim();
+
+  if (!ctx.options.headings) {
+    ctx.headings.push({ level, text: plain, id: null });
+    return `<p><strong>${content}</strong></p>`;
+  }
+  if (!ctx.options.headingAnchors) {
+    ctx.headings.push({ level, text: plain, id: null });
+    return `<h${level}>${content}</h${level}>`;
+  }
+
+  const base = slugifyHeading(plain);
+  const seen = ctx.headingIds.get(base) || 0;
+  ctx.headingIds.set(base, seen + 1);
+  const id = `${ctx.options.idPrefix}${seen === 0 ? base : `${base}-${seen}`}`;
+  ctx.headings.push({ level, text: plain, id });
+  return `<h${level} id="${escapeHtml(id)}"><a class="heading-anchor" href="#${escapeHtml(id)}" aria-hidden="true">#</a>${content}</h${level}>`;
+}
+
+// 解析列表
+function parseList(lines: string[], start: number, ctx: RenderContext): { html: string; next: number } | null {
+  const first = lines[start].match(LIST_ITEM);
+  if (!first) return null;
+
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: string[][] = [];
+  let loose = false;
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM);
+    if (!match) break;
+    const isOrdered = /\d/.test(match[2]);
+    if (isOrdered !== ordered || match[2].slice(-1) !== delimiter) break;
+
+    // 内容起始列：标记后的空格超过 4 个时只算 1 个
+    const spacing = match[3] || '';
+    const contentOffset = match[1].length + match[2].length + (spacing.length >= 1 && spacing.length <= 4 ? spacing.length : 1);
+    const item: string[] = [spacing.length > 4 ? `${spacing.slice(1)}${match[4]}` : match[4] || ''];
+    i++;
+
+    let pendingBlank = 0;
+    while (i < lines.length) {
+      const current = lines[i];
+      if (isBlank(current)) {
+        pendingBlank++;
+        i++;
+        continue;
+      }
+      if (indentOf(current) >= contentOffset) {
+        if (pendingBlank > 0) {
+          loose = true;
+          for (; pendingBlank > 0; pendingBlank--) item.push('');
+        }
+        item.push(stripIndent(current, contentOffset));
+        i++;
+        continue;
+      }
+      if (
+        pendingBlank === 0 &&
+        !LIST_ITEM.test(current) &&
+        !startsBlock(current, ctx) &&
+        !isBlank(item[item.length - 1])
+      ) {
+        // 段落的延续行
+        item.push(current.trimStart());
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    items.push(item);
+    if (pendingBlank > 0) {
+      const next = i < lines.length ? lines[i].match(LIST_ITEM) : null;
+      if (next && /\d/.test(next[2]) === ordered && next[2].slice(-1) === delimiter) {
+        loose = true;
+      } else {
+        // 列表结束，空行留给外层
+        i -= pendingBlank;
+        break;
+      }
+    }
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+  const open = ordered && startNumber !== 1 ? `<ol start="${startNumber}">` : `<${tag}>`;
+  const body = items.map(item => {
+    let className = '';
+    let checkbox = '';
+    const task = ctx.options.taskLists ? item[0].match(/^\[([ xX])\][ \t]+/) : null;
+    if (task) {
+      item[0] = item[0].slice(task[0].length);
+      className = ' class="task-list-item"';
+      checkbox = `<input type="checkbox" disabled${task[1] === ' ' ? '' : ' checked'}> `;
+    }
+    const content = renderBlocks(item, ctx, !loose).replace(/\n$/, '');
+    return `<li${className}>${checkbox}${loose ? `\n${content}\n` : content}</li>`;
+  });
+  return { html: `${open}\n${body.join('\n')}\n</${tag}>`, next: i };
+}
+
+// 拆分表格行
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.replace(/\\\|/g, '|').trim());
+}
+
+// 解析表格
+function parseTable(lines: string[], start: number, ctx: RenderContext): { html: string; next: number } | null {
+  const header = splitTableRow(lines[start]);
+  const alignments = splitTableRow(lines[start + 1]).map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+  });
+  if (header.length !== alignments.length) return null;
+
+  const cell = (tag: 'th' | 'td', content: string, index: number) => {
+    const align = alignments[index] ? ` align="${alignments[index]}"` : '';
+    return `<${tag}${align}>${renderInline(content, ctx)}</${tag}>`;
+  };
+
+  const rows: string[] = [];
+  let i = start + 2;
+  while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i], ctx)) {
+    const cells = splitTableRow(lines[i]);
+    rows.push(`<tr>${header.map((_, index) => cell('td', cells[index] || '', index)).join('')}</tr>`);
+    i++;
+  }
+
+  const head = `<thead>\n<tr>${header.map((content, index) => cell('th', content, index)).join('')}</tr>\n</thead>`;
+  const body = rows.length > 0 ? `\n<tbody>\n${rows.join('\n')}\n</tbody>` : '';
+  return { html: `<table>\n${head}${body}\n</table>`, next: i };
+}
+
+// 渲染脚注列表
+function renderFootnotes(ctx: RenderContext): string {
+  const items: string[] = [];
+  // 脚注内容中可能引用新的脚注，按引用顺序逐个渲染
+  for (let index = 0; index < ctx.footnoteOrder.length; index++) {
+    const label = ctx.footnoteOrder[index];
+    const id = footnoteId(label, ctx);
+    const refs = ctx.footnoteRefCounts.get(label) || 1;
+    const backrefs = Array.from({ length: refs }, (_, n) => {
+      const refId = n === 0 ? `${ctx.options.idPrefix}fnref-${slugifyHeading(label)}` : `${ctx.options.idPrefix}fnref-${slugifyHeading(label)}-${n + 1}`;
+      return `<a href="#${escapeHtml(refId)}" class="footnote-backref" aria-label="返回正文">&#8617;</a>`;
+    }).join(' ');
+
+    let content = renderBlocks(ctx.footnotes.get(label) || [], ctx).replace(/\n$/, '');
+    content = content.endsWith('</p>')
+      ? `${content.slice(0, -4)} ${backrefs}</p>`
+      : `${content}\n<p>${backrefs}</p>`;
+    items.push(`<li id="${escapeHtml(id)}">\n${content}\n</li>`);
+  }
+  return `<section class="footnotes">\n<ol>\n${items.join('\n')}\n</ol>\n</section>\n`;
+}
+
+// 脚注 id
+function footnoteId(label: string, ctx: RenderContext): string {
+  return `${ctx.options.idPrefix}fn-${slugifyHeading(label)}`;
+}
+
+// ==================== 行内渲染 ====================
+
+// 查找与起始反引号串等长的结束反引号串
+function findClosingBackticks(text: string, from: number, length: number): number {
+  const pattern = /`+/g;
+  pattern.lastIndex = from;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    if (match[0].length === length) return match.index;
+  }
+  return -1;
+}
+
+// 查找与 [ 匹配的 ]，跳过转义字符和代码片段
+function findClosingBracket(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const close = findClosingBackticks(text, i + run.length, run.length);
+      if (close >= 0) i = close + run.length - 1;
+      else i += run.length - 1;
+    } else if (ch === '[') {
+      depth++;
+    } else if (ch === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// 解析行内链接的 (地址 "标题")
+function parseInlineDestination(text: string, open: number): { href: string; title: string | null; end: number } | null {
+  let i = open + 1;
+  while (i < text.length && /[ \t\n]/.test(text[i])) i++;
+
+  let href = '';
+  if (text[i] === '<') {
+    const close = text.indexOf('>', i);
+    if (close < 0 || text.slice(i + 1, close).includes('\n')) return null;
+    href = text.slice(i + 1, close);
+    i = close + 1;
+  } else {
+    let depth = 0;
+    const begin = i;
+    for (; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '\\') {
+        i++;
+        continue;
+      }
+      if (/[ \t\n]/.test(ch)) break;
+      if (ch === '(') depth++;
+      if (ch === ')') {
+        if (depth === 0) break;
+        depth--;
+      }
+    }
+    href = text.slice(begin, i);
+  }
+
+  while (i < text.length && /[ \t\n]/.test(text[i])) i++;
+  let title: string | null = null;
+  const quote = text[i];
+  if (quote === '"' || quote === "'" || quote === '(') {
+    const closeChar = quote === '(' ? ')' : quote;
+    const close = text.indexOf(closeChar, i + 1);
+    if (close < 0) return null;
+    title = text.slice(i + 1, close);
+    i = close + 1;
+    while (i < text.length && /[ \t\n]/.test(text[i])) i++;
+  }
+  if (text[i] !== ')') return null;
+  return { href: unescapeMarkdown(href), title: title === null ? null : unescapeMarkdown(title), end: i + 1 };
+}
+
+// 解析链接或图片，返回生成的 HTML 和消耗的长度
+function parseLink(text: string, start: number, image: boolean, ctx: RenderContext): { html: string; length: number } | null {
+  const open = image ? start + 1 : start;
+  const close = findClosingBracket(text, open);
+  if (close < 0) return null;
+  const label = text.slice(open + 1, close);
+
+  let target: LinkReference | null = null;
+  let end = close + 1;
+  if (text[close + 1] === '(') {
+    const destination = parseInlineDestination(text, close + 1);
+    if (destination) {
+      target = { href: destination.href, title: destination.title };
+      end = destination.end;
+    }
+  }
+  if (!target) {
+    const ref = text.slice(close + 1).match(/^\[([^\]]*)\]/);
+    const key = normalizeLabel(ref && ref[1] ? ref[1] : label);
+    const definition = ctx.references.get(key);
+    if (!definition) return null;
+    target = definition;
+    end = ref ? close + 1 + ref[0].length : close + 1;
+  }
+
+  const title = target.title ? ` title="${escapeHtml(target.title)}"` : '';
+  const href = escapeHtml(target.href);
+  if (image) {
+    const alt = htmlToText(renderInline(label, ctx, false));
+    const html = ctx.options.images
+      ? `<img src="${href}" alt="${escapeHtml(alt)}"${title} loading="lazy">`
+      : `<a href="${href}"${title}>${escapeHtml(alt || target.href)}</a>`;
+    return { html, length: end - start };
+  }
+  return { html: `<a href="${href}"${title}>${renderInline(label, ctx, false)}</a>`, length: end - start };
+}
+
+// 渲染脚注引用
+function renderFootnoteRef(label: string, ctx: RenderContext): string {
+  if (!ctx.footnoteOrder.includes(label)) ctx.footnoteOrder.push(label);
+  const count = (ctx.footnoteRefCounts.get(label) || 0) + 1;
+  ctx.footnoteRefCounts.set(label, count);
+
+  const number = ctx.footnoteOrder.indexOf(label) + 1;
+  const slug = slugifyHeading(label);
+  const refId = `${ctx.options.idPrefix}fnref-${slug}${count > 1 ? `-${count}` : ''}`;
+  return `<sup class="footnote-ref"><a href="#${escapeHtml(footnoteId(label, ctx))}" id="${escapeHtml(refId)}">${number}</a></sup>`;
+}
+
+// 强调、加粗与删除线
+function applyEmphasis(text: string): string {
+  return text
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+}
+
+// 渲染行内内容；links 为 false 时不再解析链接（用于链接文字内部）
+function renderInline(text: string, ctx: RenderContext, links: boolean = true): string {
+  const atoms: string[] = [];
+  const atom = (html: string) => `\u0000${atoms.push(html) - 1}\u0000`;
+  let out = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (!INLINE_SPECIAL.has(ch)) {
+      out += ch === '>' ? '&gt;' : ch === '"' ? '&quot;' : ch;
+      i++;
+      continue;
+    }
+    const rest = text.slice(i);
+
+    // 反斜杠转义与反斜杠换行
+    if (ch === '\\' && i + 1 < text.length) {
+      const next = text[i + 1];
+      if (next === '\n') {
+        out += atom('<br>\n');
+        i += 2;
+        continue;
+      }
+      if (ASCII_PUNCTUATION.test(next)) {
+        out += atom(escapeHtml(next));
+        i += 2;
+        continue;
+      }
+    }
+
+    // 代码片段
+    if (ch === '`') {
+      const run = rest.match(/^`+/)![0];
+      const close = findClosingBackticks(text, i + run.length, run.length);
+      if (close >= 0) {
+        let code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+        if (/^ [\s\S]* $/.test(code) && code.trim()) code = code.slice(1, -1);
+        out += atom(`<code>${escapeHtml(code)}</code>`);
+        i = close + run.length;
+      } else {
+        out += run;
+        i += run.length;
+      }
+      continue;
+    }
+
+    if (ch === '<') {
+      const autolink = links ? rest.match(AUTOLINK) : null;
+      if (autolink) {
+        out += atom(`<a href="${escapeHtml(autolink[1])}">${escapeHtml(autolink[1])}</a>`);
+        i += autolink[0].length;
+        continue;
+      }
+      const email = links ? rest.match(EMAIL_AUTOLINK) : null;
+      if (email) {
+        out += atom(`<a href="mailto:${escapeHtml(email[1])}">${escapeHtml(email[1])}</a>`);
+        i += email[0].length;
+        continue;
+      }
+      const html = ctx.options.html ? rest.match(INLINE_HTML) : null;
+      if (html) {
+        out += atom(html[0]);
+        i += html[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '!' && text[i + 1] === '[') {
+      const image = parseLink(text, i, true, ctx);
+      if (image) {
+        out += atom(image.html);
+        i += image.length;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const footnote = ctx.options.footnotes ? rest.match(/^\[\^([^\]\s]+)\]/) : null;
+      if (footnote && ctx.footnotes.has(normalizeLabel(footnote[1]))) {
+        out += atom(renderFootnoteRef(normalizeLabel(footnote[1]), ctx));
+        i += footnote[0].length;
+        continue;
+      }
+      const link = links ? parseLink(text, i, false, ctx) : null;
+      if (link) {
+        out += atom(link.html);
+        i += link.length;
+        continue;
+      }
+    }
+
+    // 保留已有的字符实体
+    const entity = ch === '&' ? rest.match(ENTITY) : null;
+    out += entity ? entity[0] : escapeHtml(ch);
+    i += entity ? entity[0].length : 1;
+  }
+
+  if (links && ctx.options.autolink) {
+    out = out.replace(BARE_URL, (_, lead: string, url: string) => {
+      const trimmed = url.replace(/[.,;:!?'")\]]+$/, '');
+      const href = htmlToText(trimmed);
+      return `${lead}${atom(`<a href="${escapeHtml(href)}">${trimmed}</a>`)}${url.slice(trimmed.length)}`;
+    });
+  }
+
+  out = applyEmphasis(out).replace(/ {2,}\n/g, '<br>\n');
+  return out.replace(PLACEHOLDER, (_, index) => atoms[Number(index)]);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { imageReadingSeconds, measureContent, measureHtml, readingTime } from './metrics';
+
+describe('imageReadingSeconds', () => {
+  it.each([
+    [0, 0],
+    [1, 12],
+    [3, 12 + 11 + 10],
+    // 第 10 张起每张 3 秒
+    [12, 12 + 11 + 10 + 9 + 8 + 7 + 6 + 5 + 4 + 3 + 3 + 3],
+  ])('%d 张图片 → %d 秒', (count, seconds) => {
+    expect(imageReadingSeconds(count, 12, 3)).toBe(seconds);
+  });
+});
+
+describe('measureHtml', () => {
+  it('中文按字、英文按单词分别计速', () => {
+    const metrics = measureHtml(`<p>${'字'.repeat(300)}</p><p>${'word '.repeat(200)}</p>`);
+    expect(metrics).toMatchObject({ cjkCharacters: 300, latinWords: 200, words: 500, readingSeconds: 120, readingTime: 2 });
+    expect(metrics.breakdown).toEqual({ text: 120, images: 0, code: 0 });
+  });
+
+  it('代码块不计入字数，按非空行计时', () => {
+    const metrics = measureHtml('<p>正文</p><pre><code>const a = 1;\n\nconst b = 2;\n</code></pre><pre><code>x</code></pre>');
+    expect(metrics).toMatchObject({ cjkCharacters: 2, latinWords: 0, codeBlocks: 2, codeLines: 3 });
+    expect(metrics.breakdown.code).toBe(6);
+  });
+
+  it('图片按张数计时，标签与属性不计入字数', () => {
+    const metrics = measureHtml('<p><img src="a.png" alt="示意图"><img src="b.png" alt=""></p>');
+    expect(metrics).toMatchObject({ images: 2, words: 0, readingSeconds: 23, readingTime: 1 });
+  });
+
+  it('字符实体按解码后的文字统计', () => {
+    expect(measureHtml('<p>Tom &amp; Jerry&nbsp;&#x4E2D;</p>')).toMatchObject({ cjkCharacters: 1, latinWords: 2 });
+  });
+
+  it('有内容时至少 1 分钟，没有内容时为 0', () => {
+    expect(measureHtml('<p>短</p>').readingTime).toBe(1);
+    expect(measureHtml('').readingTime).toBe(0);
+    expect(measureHtml('<p> </p>').readingTime).toBe(0);
+  });
+
+  it('使用自定义阅读速度，无效值回退到默认值', () => {
+    const html = `<p>${'字'.repeat(600)}</p>`;
+    expect(measureHtml(html, { charsPerMinute: 600 }).readingSeconds).toBe(60);
+    expect(measureHtml(html, { charsPerMinute: 0 }).readingSeconds).toBe(120);
+    expect(measureHtml(html, { charsPerMinute: NaN }).readingSeconds).toBe(120);
+  });
+
+  it('最少图片时间不超过首张图片时间', () => {
+    expect(measureHtml('<img src="a"><img src="b">', { imageSeconds: 2, minImageSeconds: 5 }).breakdown.images).toBe(4);
+  });
+});
+
+describe('measureContent / readingTime', () => {
+  it('按文章渲染配置统计 Markdown，忽略语法符号与链接地址', () => {
+    const metrics = measureContent('# 标题\n\n**加粗** [链接](https://example.com/a-very-long-path)\n\n![图](a.png)\n\n```js\nlet a;\n```');
+    expect(metrics).toMatchObject({ cjkCharacters: 6, latinWords: 0, images: 1, codeBlocks: 1, codeLines: 1 });
+  });
+
+  it('输出中文阅读时间', () => {
+    expect(readingTime('')).toBe('少于1分钟');
+    expect(readingTime('短文')).toBe('1分钟');
+    expect(readingTime('word '.repeat(500))).toBe('3分钟');
+    expect(readingTime('word '.repeat(500), 500)).toBe('1分钟');
+  });
+});
@@ -0,0 +1,130 @@
+// 内容统计
+// 基于渲染后的 HTML 统计字数与阅读时间：中日韩文字按字、其他语言按单词分别计速
+// 代码块不计入正文字数，按行数单独计时；图片按张数计时，与保存时的渲染结果一致
+
+import { countMixedWords } from '../utils/words';
+import { htmlToText } from './markdown';
+import { renderPostHtml } from './pipeline';
+
+// 阅读速度选项
+export interface ContentMetricsOptions {
+  // 中日韩文字阅读速度（字/分钟）
+  charsPerMinute?: number;
+  // 其他语言阅读速度（单词/分钟）
+  wordsPerMinute?: number;
+  // 第一张图片的阅读时间（秒），之后每张递减 1 秒
+  imageSeconds?: number;
+  // 每张图片最少的阅读时间（秒）
+  minImageSeconds?: number;
+  // 每行代码的阅读时间（秒）
+  codeLineSeconds?: number;
+}
+
+// 内容统计结果
+export interface ContentMetrics {
+  // 中日韩文字数
+  cjkCharacters: number;
+  // 其他语言单词数
+  latinWords: number;
+  // 总字数（cjkCharacters + latinWords）
+  words: number;
+  images: number;
+  codeBlocks: number;
+  // 代码块中的非空行数
+  codeLines: number;
+  // 阅读时间（秒）
+  readingSeconds: number;
+  // 阅读时间（分钟，向上取整；没有内容时为 0），写入 posts.reading_time
+  readingTime: number;
+  // 各部分的阅读时间（秒）
+  breakdown: {
+    text: number;
+    images: number;
+    code: number;
+  };
+}
+
+export const DEFAULT_CONTENT_METRICS_OPTIONS: Required<ContentMetricsOptions> = {
+  charsPerMinute: 300,
+  wordsPerMinute: 200,
+  imageSeconds: 12,
+  minImageSeconds: 3,
+  codeLineSeconds: 2,
+};
+
+// 代码块
+const CODE_BLOCK_PATTERN = /<pre\b[^>]*>([\s\S]*?)<\/pre>/gi;
+
+// 图片
+const IMAGE_PATTERN = /<img\b[^>]*>/gi;
+
+// 读取正数选项，无效时使用默认值
+function positive(value: number | undefined, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/** 图片阅读时间：第一张 imageSeconds 秒，之后每张递减 1 秒，不少于 minImageSeconds 秒 */
+export function imageReadingSeconds(count: number, imageSeconds: number, minImageSeconds: number): number {
+  let seconds = 0;
+  for (let i = 0; i < count; i++) {
+    seconds += Math.max(imageSeconds - i, minImageSeconds);
+  }
+  return seconds;
+}
+
+/** 统计渲染后 HTML 的字数与阅读时间 */
+export function measureHtml(html: string, options: ContentMetricsOptions = {}): ContentMetrics {
+  const charsPerMinute = positive(options.charsPerMinute, DEFAULT_CONTENT_METRICS_OPTIONS.charsPerMinute);
+  const wordsPerMinute = positive(options.wordsPerMinute, DEFAULT_CONTENT_METRICS_OPTIONS.wordsPerMinute);
+  const imageSeconds = positive(options.imageSeconds, DEFAULT_CONTENT_METRICS_OPTIONS.imageSeconds);
+  const minImageSeconds = Math.min(
+    positive(options.minImageSeconds, DEFAULT_CONTENT_METRICS_OPTIONS.minImageSeconds),
+    imageSeconds
+  );
+  const codeLineSeconds = positive(options.codeLineSeconds, DEFAULT_CONTENT_METRICS_OPTIONS.codeLineSeconds);
+
+  let codeBlocks = 0;
+  let codeLines = 0;
+  const prose = (html || '').replace(CODE_BLOCK_PATTERN, (_, code: string) => {
+    codeBlocks++;
+    codeLines += htmlToText(code).split('\n').filter(line => line.trim().length > 0).length;
+    return '\n';
+  });
+  const images = (prose.match(IMAGE_PATTERN) || []).length;
+  const { cjk, words } = countMixedWords(htmlToText(prose.replace(/<[^>]*>/g, ' ')));
+
+  const text = (cjk / charsPerMinute + words / wordsPerMinute) * 60;
+  const image = imageReadingSeconds(images, imageSeconds, minImageSeconds);
+  const code = codeLines * codeLineSeconds;
+  const readingSeconds = Math.round(text + image + code);
+
+  return {
+    cjkCharacters: cjk,
+    latinWords: words,
+    words: cjk + words,
+    images,
+    codeBlocks,
+    codeLines,
+    readingSeconds,
+    readingTime: text + image + code > 0 ? Math.max(Math.ceil(readingSeconds / 60), 1) : 0,
+    breakdown: {
+      text: Math.round(text),
+      images: image,
+      code,
+    },
+  };
+}
+
+/** 按文章渲染配置渲染 Markdown 后统计 */
+export function measureContent(markdown: string, options: ContentMetricsOptions = {}): ContentMetrics {
+  return measureHtml(renderPostHtml(markdown), options);
+}
+
+/** 阅读时间文字（如「3分钟」），按 measureContent 统计 */
+export function readingTime(markdown: string, wordsPerMinute?: number): string {
+  const minutes = measureContent(markdown, { wordsPerMinute }).readingTime;
+
+  if (minutes < 1) return '少于1分钟';
+  if (minutes === 1) return '1分钟';
+  return `${minutes}分钟`;
+}
@@ -0,0 +1,69 @@
+// 渲染管线
+// Markdown 渲染与 HTML 净化的组合：文章与评论使用不同的语法开关和白名单
+
+import { renderMarkdown } from './markdown';
+import type { MarkdownHeading, MarkdownOptions } from './markdown';
+import { COMMENT_SANITIZE_PROFILE, POST_SANITIZE_PROFILE, sanitizeHtml } from './sanitizer';
+import type { SanitizeProfile } from './sanitizer';
+
+// 渲染配置名称
+export type RenderProfileName = 'post' | 'comment';
+
+// 渲染配置
+export interface RenderProfile {
+  markdown: MarkdownOptions;
+  sanitize: SanitizeProfile;
+}
+
+// 渲染结果
+export interface RenderedContent {
+  html: string;
+  headings: MarkdownHeading[];
+}
+
+// 文章允许内嵌 HTML 与全部扩展语法；评论不渲染标题、表格、脚注和图片，内嵌 HTML 原样转义
+export const RENDER_PROFILES: Record<RenderProfileName, RenderProfile> = {
+  post: {
+    markdown: { html: true },
+    sanitize: POST_SANITIZE_PROFILE,
+  },
+  comment: {
+    markdown: {
+      html: false,
+      headings: false,
+      headingAnchors: false,
+      tables: false,
+      footnotes: false,
+      images: false,
+      taskLists: false,
+    },
+    sanitize: COMMENT_SANITIZE_PROFILE,
+  },
+};
+
+/** 判断是否为已知的渲染配置 */
+export function isRenderProfile(value: unknown): value is RenderProfileName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RENDER_PROFILES, value);
+}
+
+/** 按配置渲染 Markdown 并净化输出 */
+export function renderContent(markdown: string, profile: RenderProfileName = 'post'): RenderedContent {
+  const config = RENDER_PROFILES[profile];
+  const result = renderMarkdown(markdown || '', config.markdown);
+  return { html: sanitizeHtml(result.html, config.sanitize), headings: result.headings };
+}
+
+/** 渲染文章正文 */
+export function renderPostHtml(markdown: string): string {
+  return renderContent(markdown, 'post').html;
+}
+
+/** 重新净化已保存的文章 HTML；content_html 可能由客户端直接写入，输出前按文章白名单过滤 */
+export function sanitizePostHtml(html: string): string {
+  return sanitizeHtml(html, POST_SANITIZE_PROFILE);
+}
+
+/** 渲染评论内容 */
+export function renderCommentHtml(markdown: string): string {
+  return renderContent(markdown, 'comment').html;
+}
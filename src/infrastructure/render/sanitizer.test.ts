@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { COMMENT_SANITIZE_PROFILE, isSafeUrl, POST_SANITIZE_PROFILE, sanitizeHtml } from './sanitizer';
+
+// 常见 XSS 载荷
+const XSS_PAYLOADS = [
+  '<script>alert(1)</script>',
+  '<SCRIPT SRC=//evil.example/x.js></SCRIPT>',
+  '<img src=x onerror=alert(1)>',
+  '<img src="x" onerror="alert(1)">',
+  '<img/src="x"/onerror=alert(1)>',
+  '<IMG SRC=`javascript:alert(1)`>',
+  '<img src=x:alert(alt) onerror=eval(src) alt=0>',
+  '<img src="java\nscript:alert(1)">',
+  '<img src="x" alt="a&quot; onerror=&quot;alert(1)">',
+  '<a href="javascript:alert(1)">x</a>',
+  '<a href="JaVaScRiPt:alert(1)">x</a>',
+  '<a href=" javascript:alert(1)">x</a>',
+  '<a href="jav&#x09;ascript:alert(1)">x</a>',
+  '<a href="java\u0000script:alert(1)">x</a>',
+  '<a href="javascript&colon;alert(1)">x</a>',
+  '<a href="&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)">x</a>',
+  '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>',
+  '<a href="vbscript:msgbox(1)">x</a>',
+  '<a/href="javascript:alert(1)">x</a>',
+  '<a href="http://example.com" onmouseover="alert(1)">x</a>',
+  '<svg onload=alert(1)>',
+  '<svg><script>alert(1)</script></svg>',
+  '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>',
+  '<iframe src="javascript:alert(1)"></iframe>',
+  '<object data="javascript:alert(1)"></object>',
+  '<embed src="javascript:alert(1)">',
+  '<body onload=alert(1)>',
+  '<div style="background:url(javascript:alert(1))">x</div>',
+  '<p onclick="alert(1)">x</p>',
+  '<x onclick=alert(1)>x</x>',
+  '<input type="text" onfocus=alert(1) autofocus>',
+  '<details open ontoggle=alert(1)>',
+  '<form action="javascript:alert(1)"><button>x</button></form>',
+  '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+  '<base href="javascript:alert(1)//">',
+  '<link rel="stylesheet" href="javascript:alert(1)">',
+  '<style>@import "javascript:alert(1)";</style>',
+  '<textarea><img src=x onerror=alert(1)></textarea>',
+  '<noscript><p title="</noscript><img src=x onerror=alert(1)>">',
+  '<template><img src=x onerror=alert(1)></template>',
+  '<!--><script>alert(1)</script>-->',
+  '<![CDATA[<script>alert(1)</script>]]>',
+  '<scr<script>ipt>alert(1)</script>',
+  '<<script>alert(1);//<</script>',
+  '"><script>alert(1)</script>',
+  '<a href="x" target="_self" rel="opener">x</a>',
+];
+
+// 输出中的标签
+function tags(html: string): string[] {
+  return html.match(/<[a-zA-Z][^>]*>/g) || [];
+}
+
+// 检查净化结果中没有可执行的内容
+function expectSafe(html: string): void {
+  expect(html).not.toMatch(/<\s*(script|iframe|object|embed|svg|math|style|form|meta|base|link|body|template)/i);
+  tags(html).forEach(tag => {
+    // 属性值已加引号并转义，只检查引号外的属性名
+    const names = tag.replace(/"[^"]*"/g, '""');
+    expect(names).not.toMatch(/\son[a-z]+\s*=/i);
+    expect(names).not.toMatch(/\sstyle\s*=/i);
+    const urls = tag.match(/\s(?:href|src|cite)="([^"]*)"/g) || [];
+    urls.forEach(url => expect(url).not.toMatch(/(?:javascript|vbscript|data):/i));
+  });
+}
+
+describe('sanitizeHtml', () => {
+  describe.each([
+    ['文章', POST_SANITIZE_PROFILE],
+    ['评论', COMMENT_SANITIZE_PROFILE],
+  ])('%s配置', (_, profile) => {
+    it.each(XSS_PAYLOADS)('过滤 %s', payload => {
+      const html = sanitizeHtml(payload, profile);
+      expectSafe(html);
+      // 再次净化结果不变
+      expect(sanitizeHtml(html, profile)).toBe(html);
+    });
+  });
+
+  it('删除脚本及其内容、事件属性与不安全的链接', () => {
+    expect(sanitizeHtml('a<script>alert(1)</script>b', POST_SANITIZE_PROFILE)).toBe('ab');
+    expect(sanitizeHtml('<img src="x" onerror="alert(1)">', POST_SANITIZE_PROFILE)).toBe('<img src="x">');
+    expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>', POST_SANITIZE_PROFILE)).toBe('<a>x</a>');
+    expect(sanitizeHtml('<p onclick="alert(1)">x</p>', POST_SANITIZE_PROFILE)).toBe('<p>x</p>');
+  });
+
+  it('属性值中的引号被转义，不能闭合属性', () => {
+    const html = sanitizeHtml('<img src="x" alt="a&quot; onerror=&quot;alert(1)">', POST_SANITIZE_PROFILE);
+    expect(html).toBe('<img src="x" alt="a&quot; onerror=&quot;alert(1)">');
+  });
+
+  it('不认识的标签去掉标签保留文字', () => {
+    expect(sanitizeHtml('<x onclick=alert(1)>x</x>', POST_SANITIZE_PROFILE)).toBe('x');
+    expect(sanitizeHtml('<div>x</div>', COMMENT_SANITIZE_PROFILE)).toBe('x');
+  });
+
+  it('补全未闭合的标签，忽略多余的结束标签', () => {
+    expect(sanitizeHtml('<p><strong>x', POST_SANITIZE_PROFILE)).toBe('<p><strong>x</strong></p>');
+    expect(sanitizeHtml('x</p></div>', POST_SANITIZE_PROFILE)).toBe('x');
+    expect(sanitizeHtml('<ul><li>a<li>b</ul>', POST_SANITIZE_PROFILE)).toBe('<ul><li>a<li>b</li></li></ul>');
+  });
+
+  it('评论链接强制添加 rel 与 target', () => {
+    expect(sanitizeHtml('<a href="https://example.com" target="_self" rel="opener">x</a>', COMMENT_SANITIZE_PROFILE))
+      .toBe('<a href="https://example.com" rel="nofollow ugc noopener noreferrer" target="_blank">x</a>');
+  });
+
+  it('保留文章中的合法排版', () => {
+    const html = [
+      '<h2 id="intro" class="heading-anchor evil">标题</h2>',
+      '<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>',
+      '<p>a &amp; b &copy; <a href="/posts/x">链接</a> <a href="mailto:a@example.com">邮件</a></p>',
+      '<input type="checkbox" checked disabled>',
+    ].join('');
+    expect(sanitizeHtml(html, POST_SANITIZE_PROFILE)).toBe([
+      '<h2 id="intro" class="heading-anchor">标题</h2>',
+      '<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>',
+      '<p>a &amp; b &copy; <a href="/posts/x">链接</a> <a href="mailto:a@example.com">邮件</a></p>',
+      '<input type="checkbox" checked disabled>',
+    ].join(''));
+  });
+
+  it('转义文本中的尖括号与无效的字符实体', () => {
+    expect(sanitizeHtml('1 < 2 && 3 > 2', POST_SANITIZE_PROFILE)).toBe('1 &lt; 2 &amp;&amp; 3 &gt; 2');
+  });
+});
+
+describe('isSafeUrl', () => {
+  it('只允许白名单协议与相对地址', () => {
+    const protocols = ['http', 'https', 'mailto'];
+    expect(isSafeUrl('https://example.com', protocols)).toBe(true);
+    expect(isSafeUrl('/posts/x', protocols)).toBe(true);
+    expect(isSafeUrl('#top', protocols)).toBe(true);
+    expect(isSafeUrl('javascript:alert(1)', protocols)).toBe(false);
+    expect(isSafeUrl(' \tjava\nscript:alert(1)', protocols)).toBe(false);
+    expect(isSafeUrl('data:text/html,x', protocols)).toBe(false);
+  });
+});
@@ -0,0 +1,275 @@
+// HTML 净化
+// 基于白名单过滤标签、属性与链接协议，并补全未闭合的标签
+// 不在白名单中的标签去掉标签保留文字，脚本、样式等标签连同内容一起删除
+
+// 净化配置
+export interface SanitizeProfile {
+  name: string;
+  // 允许的标签及各自允许的属性
+  tags: Record<string, string[]>;
+  // 所有允许的标签都可使用的属性
+  globalAttributes: string[];
+  // 链接与图片允许的协议；相对地址总是允许
+  protocols: string[];
+  // 允许的 class 值
+  classPatterns: RegExp[];
+  // 强制写入链接的 rel
+  linkRel?: string;
+  // 链接在新窗口打开
+  linkTarget?: string;
+  // 属性的固定取值（如 input 只允许 checkbox）
+  attributeValues?: Record<string, Record<string, string[]>>;
+}
+
+// 连同内容一起删除的标签
+const DROP_CONTENT_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'noscript', 'noembed', 'template', 'textarea', 'title', 'xmp', 'select', 'svg', 'math',
+]);
+
+// 空元素（没有结束标签）
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input', 'wbr']);
+
+// 值为 URL 的属性
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite']);
+
+// 缺少这些属性时删除标签（如没有合法地址的图片、类型不允许的 input）
+const REQUIRED_ATTRIBUTES: Record<string, string> = {
+  img: 'src',
+  input: 'type',
+};
+
+// 布尔属性
+const BOOLEAN_ATTRIBUTES = new Set(['checked', 'disabled', 'open', 'reversed']);
+
+const TAG = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const ENTITY = /^&(?:[a-zA-Z][a-zA-Z0-9]{1,31}|#\d{1,7}|#[xX][0-9a-fA-F]{1,6});/;
+const SCHEME = /^([a-zA-Z][a-zA-Z0-9+.-]*):/;
+
+// 常用命名实体（用于检查 URL）
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", colon: ':', tab: '\t', newline: '\n', nbsp: ' ',
+};
+
+/** 文章净化配置：允许常用排版标签、表格、图片、脚注、折叠块与任务列表 */
+export const POST_SANITIZE_PROFILE: SanitizeProfile = {
+  name: 'post',
+  tags: {
+    p: [], br: [], hr: [], div: [], span: [], section: [],
+    h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+    strong: [], b: [], em: [], i: [], u: [], s: [], del: [], ins: [], mark: [],
+    sub: [], sup: [], small: [], kbd: [], samp: [], var: [], abbr: [], cite: [], q: ['cite'],
+    code: [], pre: [], blockquote: ['cite'],
+    ul: [], ol: ['start', 'reversed'], li: [], dl: [], dt: [], dd: [],
+    table: [], caption: [], thead: [], tbody: [], tfoot: [], tr: [],
+    th: ['align', 'colspan', 'rowspan', 'scope'], td: ['align', 'colspan', 'rowspan'],
+    a: ['href'],
+    img: ['src', 'alt', 'width', 'height', 'loading'],
+    figure: [], figcaption: [],
+    details: ['open'], summary: [],
+    input: ['type', 'checked', 'disabled'],
+  },
+  globalAttributes: ['id', 'class', 'title', 'lang', 'dir', 'aria-hidden', 'aria-label'],
+  protocols: ['http', 'https', 'mailto'],
+  classPatterns: [/^language-[\w#+.-]+$/, /^heading-anchor$/, /^footnotes?$/, /^footnote-(?:ref|backref)$/, /^task-list-item$/],
+  attributeValues: {
+    input: { type: ['checkbox'] },
+    th: { align: ['left', 'center', 'right'], scope: ['row', 'col', 'rowgroup', 'colgroup'] },
+    td: { align: ['left', 'center', 'right'] },
+    img: { loading: ['lazy', 'eager'] },
+    '*': { dir: ['ltr', 'rtl', 'auto'], 'aria-hidden': ['true', 'false'] },
+  },
+};
+
+/** 评论净化配置：只允许基本排版、列表、引用、代码与链接，链接添加 nofollow ugc */
+export const COMMENT_SANITIZE_PROFILE: SanitizeProfile = {
+  name: 'comment',
+  tags: {
+    p: [], br: [],
+    strong: [], b: [], em: [], i: [], s: [], del: [],
+    code: [], pre: [], blockquote: [],
+    ul: [], ol: ['start'], li: [],
+    a: ['href'],
+  },
+  globalAttributes: [],
+  protocols: ['http', 'https', 'mailto'],
+  classPatterns: [],
+  linkRel: 'nofollow ugc noopener noreferrer',
+  linkTarget: '_blank',
+};
+
+/** 转义属性值 */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// 还原字符实体（用于检查属性值）
+function decodeEntities(value: string): string {
+  return value.replace(/&(#[xX][0-9a-fA-F]+|#\d+|[a-zA-Z]+);?/g, (match, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? match;
+  });
+}
+
+/** 检查 URL 是否可用：协议必须在白名单中，没有协议的相对地址允许 */
+export function isSafeUrl(url: string, protocols: string[]): boolean {
+  // 浏览器解析 URL 时会忽略控制字符与空白
+  const normalized = url.replace(/[\u0000- \u007f-\u009f]/g, '');
+  const scheme = normalized.match(SCHEME);
+  if (!scheme) return true;
+  return protocols.includes(scheme[1].toLowerCase());
+}
+
+// 过滤单个标签的属性；缺少必需属性时返回 null
+function sanitizeAttributes(tag: string, source: string, profile: SanitizeProfile): string | null {
+  const allowed = new Set([...(profile.tags[tag] || []), ...profile.globalAttributes]);
+  const values = { ...(profile.attributeValues?.['*'] || {}), ...(profile.attributeValues?.[tag] || {}) };
+  const attributes: string[] = [];
+  const seen = new Set<string>();
+  const kept = new Set<string>();
+
+  let match: RegExpExecArray | null;
+  ATTRIBUTE.lastIndex = 0;
+  while ((match = ATTRIBUTE.exec(source))) {
+    const name = match[1].toLowerCase();
+    if (!allowed.has(name) || seen.has(name)) continue;
+    if (tag === 'a' && (name === 'rel' || name === 'target')) continue;
+    seen.add(name);
+
+    if (BOOLEAN_ATTRIBUTES.has(name)) {
+      attributes.push(name);
+      kept.add(name);
+      continue;
+    }
+
+    let value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    if (values[name] && !values[name].includes(value.toLowerCase())) continue;
+    if (URL_ATTRIBUTES.has(name) && !isSafeUrl(value, profile.protocols)) continue;
+    if (name === 'class') {
+      value = value.split(/\s+/).filter(item => profile.classPatterns.some(pattern => pattern.test(item))).join(' ');
+      if (!value) continue;
+    }
+    if ((name === 'width' || name === 'height' || name === 'colspan' || name === 'rowspan' || name === 'start') && !/^\d{1,5}$/.test(value)) {
+      continue;
+    }
+    attributes.push(`${name}="${escapeAttribute(value)}"`);
+    kept.add(name);
+  }
+
+  if (REQUIRED_ATTRIBUTES[tag] && !kept.has(REQUIRED_ATTRIBUTES[tag])) {
+    return null;
+  }
+  // 链接强制添加 rel 与 target
+  if (tag === 'a' && kept.has('href')) {
+    if (profile.linkRel) attributes.push(`rel="${profile.linkRel}"`);
+    if (profile.linkTarget) attributes.push(`target="${profile.linkTarget}"`);
+  }
+  return attributes.length > 0 ? ` ${attributes.join(' ')}` : '';
+}
+
+// 转义文本中的特殊字符，保留合法的字符实体
+function sanitizeText(text: string): string {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '&') {
+      const entity = text.slice(i, i + 40).match(ENTITY);
+      if (entity) {
+        result += entity[0];
+        i += entity[0].length - 1;
+      } else {
+        result += '&amp;';
+      }
+    } else if (ch === '<') {
+      result += '&lt;';
+    } else if (ch === '>') {
+      result += '&gt;';
+    } else {
+      result += ch;
+    }
+  }
+  return result;
+}
+
+/** 按配置净化 HTML */
+export function sanitizeHtml(html: string, profile: SanitizeProfile): string {
+  const output: string[] = [];
+  const stack: string[] = [];
+  let i = 0;
+
+  while (i < html.length) {
+    const next = html.indexOf('<', i);
+    if (next < 0) {
+      output.push(sanitizeText(html.slice(i)));
+      break;
+    }
+    if (next > i) {
+      output.push(sanitizeText(html.slice(i, next)));
+      i = next;
+    }
+
+    // 注释、文档类型声明与 CDATA 直接删除
+    if (html.startsWith('<!--', i)) {
+      const end = html.indexOf('-->', i + 4);
+      i = end < 0 ? html.length : end + 3;
+      continue;
+    }
+    if (html[i + 1] === '!' || html[i + 1] === '?') {
+      const end = html.indexOf('>', i);
+      i = end < 0 ? html.length : end + 1;
+      continue;
+    }
+
+    TAG.lastIndex = i;
+    const tag = TAG.exec(html);
+    if (!tag) {
+      output.push('&lt;');
+      i++;
+      continue;
+    }
+    i += tag[0].length;
+
+    const closing = tag[1] === '/';
+    const name = tag[2].toLowerCase();
+
+    if (DROP_CONTENT_TAGS.has(name)) {
+      if (!closing && tag[4] !== '/') {
+        const end = html.toLowerCase().indexOf(`</${name}`, i);
+        if (end < 0) {
+          i = html.length;
+        } else {
+          const close = html.indexOf('>', end);
+          i = close < 0 ? html.length : close + 1;
+        }
+      }
+      continue;
+    }
+    if (!profile.tags[name]) continue;
+
+    if (closing) {
+      // 关闭标签时一并关闭其中未闭合的标签；没有对应的开始标签时忽略
+      const index = stack.lastIndexOf(name);
+      if (index < 0) continue;
+      while (stack.length > index) {
+        output.push(`</${stack.pop()}>`);
+      }
+      continue;
+    }
+
+    const attributes = sanitizeAttributes(name, tag[3], profile);
+    if (attributes === null) continue;
+    output.push(`<${name}${attributes}>`);
+    if (!VOID_TAGS.has(name)) {
+      stack.push(name);
+    }
+  }
+
+  while (stack.length > 0) {
+    output.push(`</${stack.pop()}>`);
+  }
+  return output.join('');
+}
@@ -0,0 +1,175 @@
+// 内容渲染服务
+// 提供预览、单篇重新渲染，以及批量回填文章和评论的 content_html
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { RENDER_PROFILES, renderContent } from './pipeline';
+import type { RenderedContent, RenderProfileName } from './pipeline';
+import { cliArgs, errorMessage } from '../utils/cli';
+
+// 存储渲染结果的表
+export type RenderTable = 'posts' | 'comments';
+
+// 回填选项
+export interface RenderBackfillOptions {
+  // 要回填的表，默认全部
+  tables?: RenderTable[];
+  // 只渲染 content_html 为空的记录
+  onlyMissing?: boolean;
+  // 只统计需要更新的记录，不写入
+  dryRun?: boolean;
+}
+
+// 单表回填统计
+export interface RenderBackfillStats {
+  scanned: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+}
+
+// 回填结果
+export type RenderBackfillResult = Partial<Record<RenderTable, RenderBackfillStats>>;
+
+// 每页读取的记录数
+const PAGE_SIZE = 1000;
+
+// 各表使用的渲染配置
+const TABLE_PROFILES: Record<RenderTable, RenderProfileName> = {
+  posts: 'post',
+  comments: 'comment',
+};
+
+export class RenderService {
+  private supabase: SupabaseService;
+
+  constructor(supabase: SupabaseService = getSupabaseService()) {
+    this.supabase = supabase;
+  }
+
+  // ==================== 预览 ====================
+
+  // 渲染 Markdown 但不保存，结果与保存时一致
+  preview(markdown: string, profile: RenderProfileName = 'post'): RenderedContent {
+    if (!RENDER_PROFILES[profile]) {
+      throw new Error(`未知的渲染配置: ${profile}`);
+    }
+    return renderContent(markdown, profile);
+  }
+
+  // ==================== 重新渲染 ====================
+
+  // 重新渲染一篇文章
+  async rerenderPost(id: string): Promise<string> {
+    return this.rerender('posts', id);
+  }
+
+  // 重新渲染一条评论
+  async rerenderComment(id: string): Promise<string> {
+    return this.rerender('comments', id);
+  }
+
+  // ==================== 回填 ====================
+
+  // 按 id 顺序分页重新渲染已保存的内容，只写入结果有变化的记录
+  async backfill(options: RenderBackfillOptions = {}): Promise<RenderBackfillResult> {
+    const result: RenderBackfillResult = {};
+    for (const table of options.tables || (['posts', 'comments'] as RenderTable[])) {
+      result[table] = await this.backfillTable(table, options);
+    }
+    return result;
+  }
+
+  // ==================== 辅助方法 ====================
+
+  // 读取记录内容，渲染后写回
+  private async rerender(table: RenderTable, id: string): Promise<string> {
+    const client = this.supabase.getServiceClient();
+    const { data, error } = await client
+      .from(table)
+      .select('id, content')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) {
+      throw new Error(table === 'posts' ? '文章不存在' : '评论不存在');
+    }
+
+    const html = renderContent((data as { content: string }).content, TABLE_PROFILES[table]).html;
+    const { error: updateError } = await client
+      .from(table)
+      .update({ content_html: html })
+      .eq('id', id);
+    if (updateError) throw updateError;
+    return html;
+  }
+
+  // 回填单个表；使用 id 游标分页，避免更新后的记录改变分页位置
+  private async backfillTable(table: RenderTable, options: RenderBackfillOptions): Promise<RenderBackfillStats> {
+    const client = this.supabase.getServiceClient();
+    const stats: RenderBackfillStats = { scanned: 0, updated: 0, unchanged: 0, failed: 0 };
+    const pages = this.supabase.fetchPages<RenderTable, { id: string; content: string; content_html: string | null }>(
+      table,
+      'id, content, content_html',
+      {
+        filter: query => (options.onlyMissing ? query.is('content_html', null) : query),
+        pageSize: PAGE_SIZE,
+      }
+    );
+
+    for await (const rows of pages) {
+      for (const row of rows) {
+        stats.scanned++;
+        try {
+          const html = renderContent(row.content, TABLE_PROFILES[table]).html;
+          if (html === row.content_html) {
+            stats.unchanged++;
+            continue;
+          }
+          if (!options.dryRun) {
+            const { error: updateError } = await client
+              .from(table)
+              .update({ content_html: html })
+              .eq('id', row.id);
+            if (updateError) throw updateError;
+          }
+          stats.updated++;
+        } catch (renderError) {
+          stats.failed++;
+          console.error(`渲染 ${table} ${row.id} 失败:`, renderError);
+        }
+      }
+    }
+
+    return stats;
+  }
+}
+
+// 命令行入口：--posts / --comments 限定表，--only-missing 只渲染缺失的记录，--dry-run 只统计
+export async function main() {
+  const args = cliArgs();
+  const tables = (['posts', 'comments'] as RenderTable[]).filter(table => args.includes(`--${table}`));
+
+  try {
+    const result = await new RenderService().backfill({
+      tables: tables.length > 0 ? tables : undefined,
+      onlyMissing: args.includes('--only-missing'),
+      dryRun: args.includes('--dry-run'),
+    });
+    Object.entries(result).forEach(([table, stats]) => {
+      console.log(`📄 ${table}: 扫描 ${stats!.scanned}，更新 ${stats!.updated}，未变化 ${stats!.unchanged}，失败 ${stats!.failed}`);
+    });
+    const failed = Object.values(result).reduce((sum, stats) => sum + (stats ? stats.failed : 0), 0);
+    console.log(failed > 0 ? `⚠️ 回填完成，${failed} 条记录渲染失败` : '✅ 回填完成');
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('❌ 回填失败:', errorMessage(error));
+    process.exit(1);
+  }
+}
+
+// 如果直接运行此文件
+if (require.main === module) {
+  main();
+}
+
+export default RenderService;
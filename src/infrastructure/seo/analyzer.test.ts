@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSeo, displayWidth } from './analyzer';
+import type { SeoCheck, SeoInput, SeoReport } from './analyzer';
+
+// 各检查项都能通过的文章
+const GOOD: SeoInput = {
+  title: 'TypeScript 泛型入门：从基础语法到实战应用',
+  slug: 'typescript-generics',
+  content: [
+    'TypeScript 泛型让函数和类型可以复用。本文介绍 TypeScript 泛型的基础语法。',
+    '',
+    '## 基础语法',
+    '',
+    '![泛型示意图](/images/generics.png)',
+    '',
+    `${'泛型参数写在尖括号中，调用时可以显式指定，也可以交给编译器推断。'.repeat(4)}`,
+    '',
+    '## 实战',
+    '',
+    '参考 [上一篇](/posts/typescript-basics) 与 [官方文档](https://www.typescriptlang.org/docs/)。',
+  ].join('\n'),
+  featured_image: '/images/cover.png',
+  seo_title: 'TypeScript 泛型入门：从基础语法到实战应用',
+  seo_description: '本文从基础语法讲起，介绍 TypeScript 泛型的写法、类型推断与约束，并结合实战示例说明泛型函数和泛型接口的用法。',
+  seo_keywords: ['TypeScript'],
+};
+
+// 某个检查项的全部结果级别
+function levels(report: SeoReport, check: SeoCheck): string[] {
+  return report.findings.filter(finding => finding.check === check).map(finding => finding.level);
+}
+
+describe('displayWidth', () => {
+  it.each([
+    ['abc', 3],
+    ['中文', 4],
+    ['SEO 优化', 8],
+    ['，', 2],
+  ])('%s → %d', (text, width) => {
+    expect(displayWidth(text)).toBe(width);
+  });
+});
+
+describe('analyzeSeo', () => {
+  it('各检查项都通过时得 100 分', () => {
+    const report = analyzeSeo(GOOD);
+    expect(report.findings.filter(finding => finding.level === 'warning' || finding.level === 'error')).toEqual([]);
+    expect(report.score).toBe(100);
+    expect(report.stats).toMatchObject({ headings: 2, images: 1, imagesWithoutAlt: 0, internalLinks: 1, externalLinks: 1 });
+  });
+
+  it('总分按各检查项最低级别加权计算', () => {
+    // 描述缺失（error，权重 20）、没有站内链接（warning，权重 10）
+    const report = analyzeSeo({ ...GOOD, seo_description: null, excerpt: null, content: GOOD.content.replace('[上一篇](/posts/typescript-basics) 与 ', '') });
+    expect(report.checks.description).toEqual({ score: 0, weight: 20 });
+    expect(report.checks.links).toEqual({ score: 0.5, weight: 10 });
+    expect(report.score).toBe(75);
+  });
+
+  it.each([
+    ['过短', 'TS 泛型', 'warning'],
+    ['过长', '一'.repeat(31), 'warning'],
+    ['合适', GOOD.seo_title!, 'pass'],
+  ])('标题%s', (_name, seoTitle, level) => {
+    expect(levels(analyzeSeo({ ...GOOD, seo_title: seoTitle }), 'title')).toEqual([level]);
+  });
+
+  it('未设置 SEO 标题与描述时回退到文章标题与摘要', () => {
+    const report = analyzeSeo({ ...GOOD, seo_title: null, seo_description: null, excerpt: GOOD.seo_description });
+    expect(levels(report, 'title')).toEqual(['info', 'pass']);
+    expect(levels(report, 'description')).toEqual(['info', 'pass']);
+  });
+
+  it('计算关键词密度，过高时视为堆砌', () => {
+    const stuffed = analyzeSeo({ ...GOOD, content: 'TypeScript 泛型 TypeScript 类型 TypeScript', seo_keywords: ['TypeScript'] });
+    expect(stuffed.stats.keywordDensity.TypeScript).toBe(42.86);
+    expect(levels(stuffed, 'keywords')).toContain('error');
+
+    const missing = analyzeSeo({ ...GOOD, seo_keywords: ['Rust'] });
+    expect(missing.findings.map(finding => finding.message)).toEqual(expect.arrayContaining([
+      '正文未出现关键词「Rust」',
+      '标题未包含主关键词「Rust」',
+    ]));
+  });
+
+  it('检查一级标题、层级跳跃与长文缺少小标题', () => {
+    const skipped = analyzeSeo({ ...GOOD, content: '# 一级\n\n## 二级\n\n#### 四级' });
+    expect(skipped.findings.filter(finding => finding.check === 'headings').map(finding => finding.message)).toEqual([
+      '正文包含 1 个一级标题，页面标题已占用 H1',
+      '标题层级跳跃：H2 → H4',
+    ]);
+
+    const long = analyzeSeo({ ...GOOD, content: '正文'.repeat(200) });
+    expect(levels(long, 'headings')).toEqual(['warning']);
+  });
+
+  it('代码块中的标题与链接不计入', () => {
+    const report = analyzeSeo({ ...GOOD, content: '```md\n# 标题\n[链接](/a)\n```' });
+    expect(report.stats).toMatchObject({ headings: 0, internalLinks: 0 });
+  });
+
+  it('图片全部缺少替代文本时为 error，部分缺少为 warning', () => {
+    const none = analyzeSeo({ ...GOOD, content: '![](/a.png) <img src="/b.png">' });
+    expect(levels(none, 'images')).toEqual(['error']);
+    expect(none.findings.find(finding => finding.check === 'images')!.data).toEqual({ images: ['/a.png', '/b.png'] });
+
+    const some = analyzeSeo({ ...GOOD, content: '![图](/a.png) <img src="/b.png" alt="">' });
+    expect(levels(some, 'images')).toEqual(['warning']);
+  });
+
+  it('按站点地址区分站内与外部链接', () => {
+    const content = '[a](https://blog.example.com/posts/a) [b](https://other.com) [c](#top) [d](mailto:a@b.c)';
+    expect(analyzeSeo({ ...GOOD, content }, { siteUrl: 'https://blog.example.com' }).stats)
+      .toMatchObject({ internalLinks: 1, externalLinks: 1 });
+    expect(analyzeSeo({ ...GOOD, content }).stats).toMatchObject({ internalLinks: 0, externalLinks: 2 });
+  });
+
+  it.each([
+    ['空', '', ['error']],
+    ['中文', '泛型入门', ['warning']],
+    ['百分号编码', '%E6%B3%9B%E5%9E%8B', ['warning']],
+    ['大写与下划线', 'TypeScript_Generics', ['warning']],
+    ['过长', 'a-b-c-d-e-f-g', ['warning']],
+    ['随机 ID', '3f2a9c1e-8b7d-4e6f-a5b4-c3d2e1f0a9b8', ['warning']],
+    ['未包含主关键词', 'generics-intro', ['pass', 'info']],
+    ['简短可读', 'typescript-generics', ['pass']],
+  ])('slug %s', (_name, slug, expected) => {
+    expect(levels(analyzeSeo({ ...GOOD, slug }), 'slug')).toEqual(expected);
+  });
+});
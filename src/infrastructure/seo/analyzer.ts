@@ -0,0 +1,546 @@
+// SEO 分析
+// 按标题、描述、关键词密度、标题层级、图片替代文本、站内链接和 slug 给文章评分，并给出可执行的修改建议
+
+import { stripMarkdown } from '../ai/text';
+import { countOccurrences, countWords } from '../utils/words';
+
+// 检查项
+export type SeoCheck =
+  | 'title'
+  | 'description'
+  | 'keywords'
+  | 'headings'
+  | 'images'
+  | 'links'
+  | 'slug';
+
+// 结果级别
+export type SeoLevel = 'pass' | 'info' | 'warning' | 'error';
+
+// 单条结果
+export interface SeoFinding {
+  check: SeoCheck;
+  level: SeoLevel;
+  message: string;
+  suggestion?: string;
+  data?: Record<string, any>;
+}
+
+// 待分析的文章字段
+export interface SeoInput {
+  title: string;
+  slug: string;
+  content: string;
+  excerpt?: string | null;
+  featured_image?: string | null;
+  seo_title?: string | null;
+  seo_description?: string | null;
+  seo_keywords?: string[] | null;
+}
+
+// 分析选项
+export interface SeoAnalyzeOptions {
+  siteUrl?: string;
+}
+
+// 分析报告
+export interface SeoReport {
+  score: number;
+  checks: Record<SeoCheck, { score: number; weight: number }>;
+  findings: SeoFinding[];
+  stats: {
+    titleWidth: number;
+    descriptionWidth: number;
+    wordCount: number;
+    headings: number;
+    images: number;
+    imagesWithoutAlt: number;
+    internalLinks: number;
+    externalLinks: number;
+    keywordDensity: Record<string, number>;
+  };
+}
+
+// 各检查项在总分中的权重
+export const SEO_CHECK_WEIGHTS: Record<SeoCheck, number> = {
+  title: 20,
+  description: 20,
+  keywords: 20,
+  headings: 10,
+  images: 10,
+  links: 10,
+  slug: 10,
+};
+
+// 搜索结果展示宽度（中文字符按 2 计）
+export const SEO_TITLE_WIDTH = { min: 30, max: 60 };
+export const SEO_DESCRIPTION_WIDTH = { min: 100, max: 160 };
+
+// 关键词密度（%）
+const KEYWORD_DENSITY = { min: 0.5, max: 2.5, stuffing: 4 };
+
+// slug 建议
+const SLUG_MAX_LENGTH = 60;
+const SLUG_MAX_WORDS = 6;
+
+// 正文超过该字数时应使用小标题分段
+const HEADING_REQUIRED_WORDS = 300;
+
+// 各级别对应的检查项得分
+const LEVEL_SCORES: Record<SeoLevel, number> = { pass: 1, info: 1, warning: 0.5, error: 0 };
+
+// 全角字符
+const WIDE_CHAR_PATTERN = /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/;
+
+/**
+ * 估算搜索结果中的显示宽度（全角字符按 2 计）
+ */
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += WIDE_CHAR_PATTERN.test(char) ? 2 : 1;
+  }
+  return width;
+}
+
+// 去除代码块，避免把代码中的 # 和链接当作正文结构
+function stripCodeBlocks(markdown: string): string {
+  return markdown.replace(/```[\s\S]*?```/g, '').replace(/~~~[\s\S]*?~~~/g, '');
+}
+
+// 站点主机名
+function getSiteHost(siteUrl?: string): string | null {
+  if (!siteUrl) return null;
+  try {
+    return new URL(siteUrl).host.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+// ==================== 检查项 ====================
+
+// 标题长度
+function checkTitle(input: SeoInput): SeoFinding[] {
+  const findings: SeoFinding[] = [];
+  const title = (input.seo_title || input.title || '').trim();
+  const width = displayWidth(title);
+
+  if (!input.seo_title) {
+    findings.push({
+      check: 'title',
+      level: 'info',
+      message: '未设置 SEO 标题，将使用文章标题',
+      suggestion: '为搜索结果单独设置更精炼、包含主要关键词的标题',
+    });
+  }
+
+  if (!title) {
+    findings.push({ check: 'title', level: 'error', message: '标题为空', suggestion: '填写文章标题' });
+  } else if (width < SEO_TITLE_WIDTH.min) {
+    findings.push({
+      check: 'title',
+      level: 'warning',
+      message: `标题过短（显示宽度 ${width}，建议 ${SEO_TITLE_WIDTH.min}~${SEO_TITLE_WIDTH.max}）`,
+      suggestion: '补充主题或关键词，让标题更具体',
+      data: { width },
+    });
+  } else if (width > SEO_TITLE_WIDTH.max) {
+    findings.push({
+      check: 'title',
+      level: 'warning',
+      message: `标题过长（显示宽度 ${width}，超过 ${SEO_TITLE_WIDTH.max} 的部分在搜索结果中会被截断）`,
+      suggestion: '精简标题，把最重要的关键词放在前面',
+      data: { width },
+    });
+  } else {
+    findings.push({ check: 'title', level: 'pass', message: `标题长度合适（显示宽度 ${width}）`, data: { width } });
+  }
+
+  return findings;
+}
+
+// 描述长度
+function checkDescription(input: SeoInput): SeoFinding[] {
+  const description = (input.seo_description || input.excerpt || '').trim();
+  const width = displayWidth(description);
+
+  if (!description) {
+    return [{
+      check: 'description',
+      level: 'error',
+      message: '未设置 SEO 描述或摘要，搜索引擎将自行截取正文',
+      suggestion: `填写 ${SEO_DESCRIPTION_WIDTH.min}~${SEO_DESCRIPTION_WIDTH.max} 显示宽度的描述，概括文章要点`,
+    }];
+  }
+
+  const findings: SeoFinding[] = [];
+  if (!input.seo_description) {
+    findings.push({ check: 'description', level: 'info', message: '未设置 SEO 描述，将使用文章摘要' });
+  }
+
+  if (width < SEO_DESCRIPTION_WIDTH.min) {
+    findings.push({
+      check: 'description',
+      level: 'warning',
+      message: `描述过短（显示宽度 ${width}，建议 ${SEO_DESCRIPTION_WIDTH.min}~${SEO_DESCRIPTION_WIDTH.max}）`,
+      suggestion: '补充文章能解决的问题或主要结论',
+      data: { width },
+    });
+  } else if (width > SEO_DESCRIPTION_WIDTH.max) {
+    findings.push({
+      check: 'description',
+      level: 'warning',
+      message: `描述过长（显示宽度 ${width}，超过 ${SEO_DESCRIPTION_WIDTH.max} 的部分会被截断）`,
+      suggestion: '删减次要信息，保留一到两句核心描述',
+      data: { width },
+    });
+  } else {
+    findings.push({ check: 'description', level: 'pass', message: `描述长度合适（显示宽度 ${width}）`, data: { width } });
+  }
+
+  return findings;
+}
+
+// 关键词密度与分布
+function checkKeywords(input: SeoInput, plainText: string, wordCount: number): { findings: SeoFinding[]; density: Record<string, number> } {
+  const keywords = (input.seo_keywords || []).map(keyword => keyword.trim()).filter(Boolean);
+  const density: Record<string, number> = {};
+
+  if (keywords.length === 0) {
+    return {
+      findings: [{
+        check: 'keywords',
+        level: 'warning',
+        message: '未设置 SEO 关键词',
+        suggestion: '设置 1~5 个文章主要讨论的关键词',
+      }],
+      density,
+    };
+  }
+
+  const findings: SeoFinding[] = [];
+  const title = input.seo_title || input.title || '';
+  const description = input.seo_description || input.excerpt || '';
+  const firstParagraph = plainText.slice(0, 200);
+
+  keywords.forEach(keyword => {
+    const occurrences = countOccurrences(plainText, keyword);
+    const value = wordCount > 0 ? Number(((occurrences * countWords(keyword)) / wordCount * 100).toFixed(2)) : 0;
+    density[keyword] = value;
+
+    if (occurrences === 0) {
+      findings.push({
+        check: 'keywords',
+        level: 'warning',
+        message: `正文未出现关键词「${keyword}」`,
+        suggestion: '在正文中自然地使用该关键词，或改用文章实际讨论的词',
+        data: { keyword, occurrences, density: value },
+      });
+    } else if (value > KEYWORD_DENSITY.stuffing) {
+      findings.push({
+        check: 'keywords',
+        level: 'error',
+        message: `关键词「${keyword}」密度 ${value}% 过高，可能被视为关键词堆砌`,
+        suggestion: `减少重复，密度保持在 ${KEYWORD_DENSITY.min}%~${KEYWORD_DENSITY.max}%`,
+        data: { keyword, occurrences, density: value },
+      });
+    } else if (value > KEYWORD_DENSITY.max) {
+      findings.push({
+        check: 'keywords',
+        level: 'warning',
+        message: `关键词「${keyword}」密度 ${value}% 偏高`,
+        suggestion: '用同义词替换部分重复',
+        data: { keyword, occurrences, density: value },
+      });
+    } else if (value < KEYWORD_DENSITY.min) {
+      findings.push({
+        check: 'keywords',
+        level: 'info',
+        message: `关键词「${keyword}」密度 ${value}% 偏低`,
+        data: { keyword, occurrences, density: value },
+      });
+    } else {
+      findings.push({
+        check: 'keywords',
+        level: 'pass',
+        message: `关键词「${keyword}」密度 ${value}%`,
+        data: { keyword, occurrences, density: value },
+      });
+    }
+  });
+
+  const primary = keywords[0];
+  if (countOccurrences(title, primary) === 0) {
+    findings.push({
+      check: 'keywords',
+      level: 'warning',
+      message: `标题未包含主关键词「${primary}」`,
+      suggestion: '在标题中使用主关键词，最好靠前',
+    });
+  }
+  if (description && countOccurrences(description, primary) === 0) {
+    findings.push({
+      check: 'keywords',
+      level: 'info',
+      message: `描述未包含主关键词「${primary}」`,
+      suggestion: '在描述中自然地提到主关键词',
+    });
+  }
+  if (countOccurrences(firstParagraph, primary) === 0) {
+    findings.push({
+      check: 'keywords',
+      level: 'info',
+      message: `开头段落未出现主关键词「${primary}」`,
+    });
+  }
+
+  return { findings, density };
+}
+
+// 标题层级
+function checkHeadings(markdown: string, wordCount: number): { findings: SeoFinding[]; count: number } {
+  const levels = Array.from(markdown.matchAll(/^\s{0,3}(#{1,6})\s+\S/gm)).map(match => match[1].length);
+  const findings: SeoFinding[] = [];
+
+  if (levels.includes(1)) {
+    findings.push({
+      check: 'headings',
+      level: 'warning',
+      message: `正文包含 ${levels.filter(level => level === 1).length} 个一级标题，页面标题已占用 H1`,
+      suggestion: '正文小标题从二级标题（##）开始',
+    });
+  }
+
+  const skipped: string[] = [];
+  levels.reduce((previous, level) => {
+    if (level > previous + 1 && previous > 0) skipped.push(`H${previous} → H${level}`);
+    return level;
+  }, 1);
+  if (skipped.length > 0) {
+    findings.push({
+      check: 'headings',
+      level: 'warning',
+      message: `标题层级跳跃：${skipped.join('，')}`,
+      suggestion: '按层级依次使用标题，不要跳级',
+      data: { skipped },
+    });
+  }
+
+  if (levels.length === 0 && wordCount > HEADING_REQUIRED_WORDS) {
+    findings.push({
+      check: 'headings',
+      level: 'warning',
+      message: `正文约 ${wordCount} 字但没有小标题`,
+      suggestion: '用二级、三级标题划分段落，方便阅读和搜索引擎理解结构',
+    });
+  }
+
+  if (findings.length === 0) {
+    findings.push({
+      check: 'headings',
+      level: 'pass',
+      message: levels.length > 0 ? `标题结构正确（${levels.length} 个小标题）` : '正文较短，无需小标题',
+    });
+  }
+
+  return { findings, count: levels.length };
+}
+
+// 图片替代文本
+function checkImages(markdown: string, input: SeoInput): { findings: SeoFinding[]; total: number; missing: number } {
+  const images: Array<{ src: string; alt: string }> = [];
+  for (const match of markdown.matchAll(/!\[([^\]]*)\]\(\s*<?([^)\s>]+)/g)) {
+    images.push({ src: match[2], alt: match[1].trim() });
+  }
+  for (const match of markdown.matchAll(/<img\b[^>]*>/gi)) {
+    const tag = match[0];
+    const src = (tag.match(/\bsrc\s*=\s*["']([^"']*)["']/i) || [])[1] || '';
+    const alt = (tag.match(/\balt\s*=\s*["']([^"']*)["']/i) || [])[1] || '';
+    images.push({ src, alt: alt.trim() });
+  }
+
+  const missing = images.filter(image => !image.alt);
+  const findings: SeoFinding[] = [];
+
+  if (missing.length > 0) {
+    findings.push({
+      check: 'images',
+      level: missing.length === images.length ? 'error' : 'warning',
+      message: `${missing.length} / ${images.length} 张图片缺少替代文本`,
+      suggestion: '为每张图片填写描述其内容的替代文本（alt）',
+      data: { images: missing.map(image => image.src) },
+    });
+  } else if (images.length > 0) {
+    findings.push({ check: 'images', level: 'pass', message: `${images.length} 张图片均有替代文本` });
+  }
+
+  if (!input.featured_image) {
+    findings.push({
+      check: 'images',
+      level: 'info',
+      message: '未设置特色图片',
+      suggestion: '设置特色图片，用于社交分享卡片和搜索结果缩略图',
+    });
+  } else if (images.length === 0) {
+    findings.push({ check: 'images', level: 'pass', message: '已设置特色图片' });
+  }
+
+  return { findings, total: images.length, missing: missing.length };
+}
+
+// 站内链接
+function checkLinks(markdown: string, siteHost: string | null): { findings: SeoFinding[]; internal: number; external: number } {
+  const targets: string[] = [];
+  for (const match of markdown.matchAll(/(?<!!)\[[^\]]*\]\(\s*<?([^)\s>]+)/g)) targets.push(match[1]);
+  for (const match of markdown.matchAll(/<a\b[^>]*\bhref\s*=\s*["']([^"']*)["']/gi)) targets.push(match[1]);
+
+  let internal = 0;
+  let external = 0;
+  targets.forEach(target => {
+    if (target.startsWith('#') || /^(mailto|tel):/i.test(target)) return;
+    if (/^https?:\/\//i.test(target) || target.startsWith('//')) {
+      try {
+        const host = new URL(target.startsWith('//') ? `https:${target}` : target).host.toLowerCase();
+        if (siteHost && host === siteHost) internal += 1;
+        else external += 1;
+      } catch {
+        external += 1;
+      }
+    } else {
+      internal += 1;
+    }
+  });
+
+  const findings: SeoFinding[] = internal === 0
+    ? [{
+      check: 'links',
+      level: 'warning',
+      message: '没有站内链接',
+      suggestion: '链接到相关的站内文章，帮助读者和搜索引擎发现更多内容',
+    }]
+    : [{ check: 'links', level: 'pass', message: `${internal} 个站内链接` }];
+
+  if (external === 0 && internal > 0) {
+    findings.push({ check: 'links', level: 'info', message: '没有外部链接，可以引用权威资料作为参考' });
+  }
+
+  return { findings, internal, external };
+}
+
+// slug 质量
+function checkSlug(input: SeoInput): SeoFinding[] {
+  const slug = input.slug || '';
+  const findings: SeoFinding[] = [];
+  let decoded = slug;
+  try {
+    decoded = decodeURIComponent(slug);
+  } catch {
+    // 保留原值
+  }
+
+  if (!slug) {
+    return [{ check: 'slug', level: 'error', message: 'slug 为空', suggestion: '设置简短、可读的 slug' }];
+  }
+  if (/[^\x00-\x7f]/.test(decoded) || /%[0-9a-f]{2}/i.test(slug)) {
+    findings.push({
+      check: 'slug',
+      level: 'warning',
+      message: 'slug 包含非 ASCII 字符，链接中会显示为百分号编码',
+      suggestion: '使用英文单词或拼音组成 slug',
+    });
+  }
+  if (/[A-Z_\s]/.test(decoded) || /--/.test(decoded) || /^-|-$/.test(decoded)) {
+    findings.push({
+      check: 'slug',
+      level: 'warning',
+      message: 'slug 含大写字母、下划线、空格或多余的连字符',
+      suggestion: '只使用小写字母、数字和单个连字符',
+    });
+  }
+  if (decoded.length > SLUG_MAX_LENGTH || decoded.split('-').filter(Boolean).length > SLUG_MAX_WORDS) {
+    findings.push({
+      check: 'slug',
+      level: 'warning',
+      message: `slug 过长（${decoded.length} 个字符）`,
+      suggestion: `保留 ${SLUG_MAX_WORDS} 个以内的关键单词`,
+    });
+  }
+  if (/^\d+$/.test(decoded) || /^[0-9a-f-]{32,36}$/i.test(decoded)) {
+    findings.push({
+      check: 'slug',
+      level: 'warning',
+      message: 'slug 只有数字或随机 ID，无法体现文章内容',
+      suggestion: '使用描述文章主题的单词',
+    });
+  }
+
+  const primary = (input.seo_keywords || [])[0];
+  if (findings.length === 0 && primary && /^[\x00-\x7f]+$/.test(primary)) {
+    const words = primary.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!words.every(word => decoded.includes(word))) {
+      findings.push({ check: 'slug', level: 'info', message: `slug 未包含主关键词「${primary}」` });
+    }
+  }
+
+  if (findings.every(finding => finding.level === 'info')) {
+    findings.unshift({ check: 'slug', level: 'pass', message: 'slug 简短可读' });
+  }
+
+  return findings;
+}
+
+// ==================== 分析入口 ====================
+
+/**
+ * 分析文章 SEO，返回 0~100 的总分、各检查项得分和修改建议
+ */
+export function analyzeSeo(input: SeoInput, options: SeoAnalyzeOptions = {}): SeoReport {
+  const markdown = stripCodeBlocks(input.content || '');
+  const plainText = stripMarkdown(markdown);
+  const wordCount = countWords(plainText);
+
+  const keywords = checkKeywords(input, plainText, wordCount);
+  const headings = checkHeadings(markdown, wordCount);
+  const images = checkImages(markdown, input);
+  const links = checkLinks(markdown, getSiteHost(options.siteUrl));
+
+  const findings = [
+    ...checkTitle(input),
+    ...checkDescription(input),
+    ...keywords.findings,
+    ...headings.findings,
+    ...images.findings,
+    ...links.findings,
+    ...checkSlug(input),
+  ];
+
+  const checks = {} as SeoReport['checks'];
+  let total = 0;
+  let weights = 0;
+  (Object.keys(SEO_CHECK_WEIGHTS) as SeoCheck[]).forEach(check => {
+    const levels = findings.filter(finding => finding.check === check).map(finding => LEVEL_SCORES[finding.level]);
+    const score = levels.length > 0 ? Math.min(...levels) : 1;
+    const weight = SEO_CHECK_WEIGHTS[check];
+    checks[check] = { score, weight };
+    total += score * weight;
+    weights += weight;
+  });
+
+  return {
+    score: Math.round((total / weights) * 100),
+    checks,
+    findings,
+    stats: {
+      titleWidth: displayWidth((input.seo_title || input.title || '').trim()),
+      descriptionWidth: displayWidth((input.seo_description || input.excerpt || '').trim()),
+      wordCount,
+      headings: headings.count,
+      images: images.total,
+      imagesWithoutAlt: images.missing,
+      internalLinks: links.internal,
+      externalLinks: links.external,
+      keywordDensity: keywords.density,
+    },
+  };
+}
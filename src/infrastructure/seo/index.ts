@@ -0,0 +1,22 @@
+// SEO 模块导出
+// 提供文章 SEO 分析与 AI 优化
+
+export { SeoService } from './service';
+export type {
+  PostSeoReport,
+  SeoApplyOptions,
+  SeoFields,
+  SeoOptimizeOptions,
+  SeoOptimizeResult,
+  SeoProposal,
+  SeoServiceOptions,
+} from './service';
+export {
+  analyzeSeo,
+  displayWidth,
+  SEO_CHECK_WEIGHTS,
+  SEO_DESCRIPTION_WIDTH,
+  SEO_TITLE_WIDTH,
+} from './analyzer';
+export { countWords } from '../utils/words';
+export type { SeoAnalyzeOptions, SeoCheck, SeoFinding, SeoInput, SeoLevel, SeoReport } from './analyzer';
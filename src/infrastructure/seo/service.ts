@@ -0,0 +1,268 @@
+// SEO 服务
+// 读取文章进行 SEO 分析，并可通过 AI 提供者生成 seo_title / seo_description / seo_keywords 并一次写回
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { getConfig } from '../config';
+import { AIService } from '../ai/service';
+import { stripMarkdown } from '../ai/text';
+import { PostRevisionService } from '../posts/revisions';
+import { analyzeSeo, SEO_DESCRIPTION_WIDTH, SEO_TITLE_WIDTH } from './analyzer';
+import type { SeoInput, SeoReport } from './analyzer';
+
+// SEO 字段
+export interface SeoFields {
+  seo_title: string | null;
+  seo_description: string | null;
+  seo_keywords: string[] | null;
+}
+
+// 文章分析报告
+export interface PostSeoReport extends SeoReport {
+  postId: string;
+}
+
+// AI 生成的 SEO 字段
+export interface SeoProposal {
+  seo_title: string;
+  seo_description: string;
+  seo_keywords: string[];
+}
+
+// 优化选项
+export interface SeoOptimizeOptions {
+  apply?: boolean;
+  userId?: string | null;
+}
+
+// 优化结果
+export interface SeoOptimizeResult {
+  postId: string;
+  proposal: SeoProposal;
+  before: SeoReport;
+  after: SeoReport;
+  applied: boolean;
+  generationId?: string;
+}
+
+// 写回选项
+export interface SeoApplyOptions {
+  // 修改人，记录在版本历史中
+  userId?: string | null;
+}
+
+// SEO 服务选项
+export interface SeoServiceOptions {
+  siteUrl?: string;
+}
+
+// 分析所需的文章字段
+const SEO_POST_COLUMNS = 'id, title, slug, content, excerpt, featured_image, seo_title, seo_description, seo_keywords';
+
+// 字段限制（seo_title 为 VARCHAR(200)）
+const MAX_TITLE_LENGTH = 200;
+const MAX_KEYWORDS = 10;
+
+// 交给 AI 的正文长度
+const AI_CONTENT_LENGTH = 3000;
+
+// 规范化关键词：去空白、去重、限制数量
+function normalizeKeywords(keywords: unknown): string[] {
+  if (!Array.isArray(keywords)) return [];
+  const seen = new Set<string>();
+  return keywords
+    .filter((keyword): keyword is string => typeof keyword === 'string')
+    .map(keyword => keyword.trim())
+    .filter(keyword => {
+      const key = keyword.toLowerCase();
+      if (!keyword || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_KEYWORDS);
+}
+
+export class SeoService {
+  private supabase: SupabaseService;
+  private ai: AIService | null;
+  private revisions: PostRevisionService;
+  private siteUrl?: string;
+
+  // ai 为 null 时只提供分析，optimize 不可用
+  constructor(
+    supabase: SupabaseService = getSupabaseService(),
+    ai: AIService | null = null,
+    options: SeoServiceOptions = {}
+  ) {
+    this.supabase = supabase;
+    this.ai = ai;
+    this.revisions = new PostRevisionService(supabase);
+    this.siteUrl = options.siteUrl;
+  }
+
+  // 是否可以使用 AI 优化
+  canOptimize(): boolean {
+    return this.ai !== null;
+  }
+
+  // ==================== 分析 ====================
+
+  // 分析文章当前的 SEO 状况
+  async analyze(postId: string): Promise<PostSeoReport> {
+    const post = await this.loadPost(postId);
+    return { postId, ...this.analyzeInput(post) };
+  }
+
+  // 分析任意输入（如编辑器中尚未保存的内容）
+  analyzeInput(input: SeoInput): SeoReport {
+    return analyzeSeo(input, { siteUrl: this.getSiteUrl() });
+  }
+
+  // ==================== 优化 ====================
+
+  // 由 AI 生成 SEO 字段，apply 为 true 时直接写回文章
+  async optimize(postId: string, options: SeoOptimizeOptions = {}): Promise<SeoOptimizeResult> {
+    if (!this.ai) {
+      throw new Error('AI 功能未启用，无法生成 SEO 建议');
+    }
+
+    const post = await this.loadPost(postId);
+    const before = this.analyzeInput(post);
+    const issues = before.findings
+      .filter(finding => finding.level === 'warning' || finding.level === 'error')
+      .map(finding => `- ${finding.message}`);
+
+    const result = await this.ai.complete({
+      messages: [
+        {
+          role: 'system',
+          content: '你是博客 SEO 编辑，根据文章内容撰写搜索引擎标题、描述和关键词。使用与文章相同的语言，不夸大、不堆砌关键词，只输出 JSON 对象。',
+        },
+        {
+          role: 'user',
+          content: [
+            `标题：${post.title}`,
+            post.excerpt ? `摘要：${post.excerpt}` : '',
+            `正文：${stripMarkdown(post.content).slice(0, AI_CONTENT_LENGTH)}`,
+            issues.length > 0 ? `当前存在的问题：\n${issues.join('\n')}` : '',
+            [
+              '要求：',
+              `- seo_title 显示宽度 ${SEO_TITLE_WIDTH.min}~${SEO_TITLE_WIDTH.max}（中文字符按 2 计），主关键词靠前`,
+              `- seo_description 显示宽度 ${SEO_DESCRIPTION_WIDTH.min}~${SEO_DESCRIPTION_WIDTH.max}，概括文章要点并包含主关键词`,
+              '- seo_keywords 为 3~5 个正文中实际出现的关键词，主关键词在前',
+              '输出格式：{"seo_title": "...", "seo_description": "...", "seo_keywords": ["..."]}',
+            ].join('\n'),
+          ].filter(Boolean).join('\n\n'),
+        },
+      ],
+      temperature: 0.3,
+      maxTokens: 600,
+    }, { userId: options.userId, postId, feature: 'seo_optimize' });
+
+    const proposal = this.parseProposal(result.content);
+    const after = this.analyzeInput({ ...post, ...proposal });
+
+    if (options.apply) {
+      await this.apply(postId, proposal, { userId: options.userId });
+    }
+
+    return {
+      postId,
+      proposal,
+      before,
+      after,
+      applied: Boolean(options.apply),
+      generationId: result.generationId,
+    };
+  }
+
+  // 写回 SEO 字段，未传入的字段保持不变，并记录文章版本
+  async apply(
+    postId: string,
+    values: Partial<SeoFields>,
+    options: SeoApplyOptions = {}
+  ): Promise<SeoFields & { id: string }> {
+    const changes: Partial<SeoFields> = {};
+    if (values.seo_title !== undefined) {
+      changes.seo_title = values.seo_title ? values.seo_title.trim().slice(0, MAX_TITLE_LENGTH) : null;
+    }
+    if (values.seo_description !== undefined) {
+      changes.seo_description = values.seo_description ? values.seo_description.trim() : null;
+    }
+    if (values.seo_keywords !== undefined) {
+      const keywords = normalizeKeywords(values.seo_keywords);
+      changes.seo_keywords = keywords.length > 0 ? keywords : null;
+    }
+    if (Object.keys(changes).length === 0) {
+      throw new Error('没有需要更新的 SEO 字段');
+    }
+
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('posts')
+      .update(changes)
+      .eq('id', postId)
+      .select('id, seo_title, seo_description, seo_keywords')
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) {
+      throw new Error('文章不存在');
+    }
+
+    try {
+      await this.revisions.record(postId, { authorId: options.userId, message: '更新 SEO 字段' });
+    } catch (error) {
+      console.error('记录文章版本失败:', error);
+    }
+    return data as SeoFields & { id: string };
+  }
+
+  // ==================== 辅助方法 ====================
+
+  // 读取文章
+  private async loadPost(postId: string): Promise<SeoInput> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('posts')
+      .select(SEO_POST_COLUMNS)
+      .eq('id', postId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) {
+      throw new Error('文章不存在');
+    }
+    return data as SeoInput;
+  }
+
+  // 判断站内链接使用的站点地址
+  private getSiteUrl(): string | undefined {
+    if (this.siteUrl === undefined) {
+      try {
+        this.siteUrl = getConfig().app.url;
+      } catch {
+        this.siteUrl = '';
+      }
+    }
+    return this.siteUrl || undefined;
+  }
+
+  // 解析模型输出
+  private parseProposal(content: string): SeoProposal {
+    const match = content.match(/\{[\s\S]*\}/);
+    let parsed: any = null;
+    try {
+      parsed = match ? JSON.parse(match[0]) : null;
+    } catch {
+      parsed = null;
+    }
+
+    if (!parsed || typeof parsed.seo_title !== 'string' || typeof parsed.seo_description !== 'string') {
+      throw new Error('AI 返回的 SEO 建议格式无效');
+    }
+
+    return {
+      seo_title: parsed.seo_title.trim().slice(0, MAX_TITLE_LENGTH),
+      seo_description: parsed.seo_description.trim(),
+      seo_keywords: normalizeKeywords(parsed.seo_keywords),
+    };
+  }
+}
+
+export default SeoService;
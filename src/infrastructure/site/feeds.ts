@@ -0,0 +1,134 @@
+// 订阅与站点地图
+// 生成 RSS 2.0、Atom 订阅与 sitemap.xml；输出只取决于输入，内容未变化时文件内容不变
+
+import type { SiteInfo } from './templates';
+
+// 订阅条目
+export interface SiteFeedItem {
+  title: string;
+  // 文章完整地址
+  url: string;
+  publishedAt: string;
+  updatedAt: string;
+  author: string | null;
+  summary: string | null;
+  // 正文 HTML
+  html: string;
+  categories: string[];
+}
+
+// 站点地图条目
+export interface SitemapEntry {
+  // 完整地址
+  url: string;
+  lastModified?: string | null;
+}
+
+/** 转义 XML 文本与属性值 */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** 把 HTML 中以 / 开头的链接与图片地址补全为完整地址，订阅阅读器不按站点地址解析相对链接 */
+export function absolutizeUrls(html: string, siteUrl: string): string {
+  const origin = new URL(siteUrl).origin;
+  return html.replace(/(\s(?:href|src)=")(\/(?!\/)[^"]*)"/g, (_match, prefix: string, url: string) => `${prefix}${origin}${url}"`);
+}
+
+/** 生成 RSS 2.0 订阅 */
+export function renderRssFeed(site: SiteInfo, items: SiteFeedItem[], feedUrl: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">',
+    '<channel>',
+    `<title>${escapeXml(site.title)}</title>`,
+    `<link>${escapeXml(site.url)}/</link>`,
+    `<description>${escapeXml(site.description || site.title)}</description>`,
+    `<language>${escapeXml(site.language)}</language>`,
+    `<atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>`,
+  ];
+  const updated = latestDate(items);
+  if (updated) lines.push(`<lastBuildDate>${new Date(updated).toUTCString()}</lastBuildDate>`);
+
+  for (const item of items) {
+    lines.push(
+      '<item>',
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link>${escapeXml(item.url)}</link>`,
+      `<guid isPermaLink="true">${escapeXml(item.url)}</guid>`,
+      `<pubDate>${new Date(item.publishedAt).toUTCString()}</pubDate>`,
+      ...item.categories.map(category => `<category>${escapeXml(category)}</category>`),
+      item.summary ? `<description>${escapeXml(item.summary)}</description>` : '',
+      `<content:encoded>${cdata(absolutizeUrls(item.html, site.url))}</content:encoded>`,
+      '</item>'
+    );
+  }
+
+  lines.push('</channel>', '</rss>');
+  return lines.filter(Boolean).join('\n') + '\n';
+}
+
+/** 生成 Atom 订阅 */
+export function renderAtomFeed(site: SiteInfo, items: SiteFeedItem[], feedUrl: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(site.language)}">`,
+    `<title>${escapeXml(site.title)}</title>`,
+    site.description ? `<subtitle>${escapeXml(site.description)}</subtitle>` : '',
+    `<link href="${escapeXml(site.url)}/"/>`,
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl)}"/>`,
+    `<id>${escapeXml(site.url)}/</id>`,
+    `<updated>${new Date(latestDate(items) || 0).toISOString()}</updated>`,
+  ];
+
+  for (const item of items) {
+    lines.push(
+      '<entry>',
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link href="${escapeXml(item.url)}"/>`,
+      `<id>${escapeXml(item.url)}</id>`,
+      `<published>${new Date(item.publishedAt).toISOString()}</published>`,
+      `<updated>${new Date(item.updatedAt).toISOString()}</updated>`,
+      item.author ? `<author><name>${escapeXml(item.author)}</name></author>` : '',
+      ...item.categories.map(category => `<category term="${escapeXml(category)}"/>`),
+      item.summary ? `<summary>${escapeXml(item.summary)}</summary>` : '',
+      `<content type="html">${escapeXml(absolutizeUrls(item.html, site.url))}</content>`,
+      '</entry>'
+    );
+  }
+
+  lines.push('</feed>');
+  return lines.filter(Boolean).join('\n') + '\n';
+}
+
+/** 生成站点地图 */
+export function renderSitemap(entries: SitemapEntry[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries.map(entry => {
+      const lastModified = entry.lastModified ? `<lastmod>${new Date(entry.lastModified).toISOString()}</lastmod>` : '';
+      return `<url><loc>${escapeXml(entry.url)}</loc>${lastModified}</url>`;
+    }),
+    '</urlset>',
+  ];
+  return lines.join('\n') + '\n';
+}
+
+// ==================== 辅助方法 ====================
+
+// 包装为 CDATA；内容中的 ]]> 拆成两段
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+// 条目中最晚的更新时间
+function latestDate(items: SiteFeedItem[]): string | null {
+  return items.reduce<string | null>((latest, item) =>
+    (!latest || new Date(item.updatedAt) > new Date(latest) ? item.updatedAt : latest), null);
+}
@@ -0,0 +1,20 @@
+// 静态站点模块导出
+// 提供静态站点构建服务、可替换的页面模板，以及订阅与站点地图生成
+
+export { isSafeSlug, SITE_MANIFEST_FILE, StaticSiteService } from './service';
+export type { SiteBuildManifest, SiteBuildOptions, SiteBuildReport, StaticSiteServiceOptions } from './service';
+export { DEFAULT_TEMPLATES, formatSiteDate, resolveTemplates, templatesFingerprint } from './templates';
+export type {
+  SiteInfo,
+  SiteLayoutContext,
+  SiteListPage,
+  SitePageKind,
+  SitePagination,
+  SitePost,
+  SitePostSummary,
+  SiteTemplates,
+  SiteTerm,
+  SiteTermLink,
+} from './templates';
+export { absolutizeUrls, escapeXml, renderAtomFeed, renderRssFeed, renderSitemap } from './feeds';
+export type { SiteFeedItem, SitemapEntry } from './feeds';
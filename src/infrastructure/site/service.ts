@@ -0,0 +1,639 @@
+// 静态站点生成服务
+// 读取已发布的公开文章，通过模板生成文章页、分页首页、分类页、标签页、订阅与站点地图，写入输出目录
+// 输出目录中的构建清单记录每篇文章的 updated_at 与正文 HTML 摘要；增量构建只重新生成有变化的文章，其他页面内容未变化时不改写文件
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { SettingsStore } from '../config/settings';
+import { renderPostHtml, sanitizePostHtml } from '../render/pipeline';
+import type { PostRow } from '../posts/types';
+import type { Database } from '../types/database';
+import { argValue, cliArgs, errorMessage } from '../utils/cli';
+import { checksum } from '../utils/checksum';
+import { renderAtomFeed, renderRssFeed, renderSitemap } from './feeds';
+import type { SiteFeedItem, SitemapEntry } from './feeds';
+import { resolveTemplates, templatesFingerprint } from './templates';
+import type {
+  SiteInfo,
+  SiteLayoutContext,
+  SiteListPage,
+  SitePost,
+  SitePostSummary,
+  SiteTemplates,
+  SiteTerm,
+  SiteTermLink,
+} from './templates';
+
+type Tables = Database['public']['Tables'];
+type CategoryRow = Pick<Tables['categories']['Row'], 'id' | 'name' | 'slug' | 'description' | 'color' | 'parent_id' | 'sort_order'>;
+type TagRow = Pick<Tables['tags']['Row'], 'id' | 'name' | 'slug' | 'description' | 'color'>;
+type PostSummaryRow = Pick<
+  PostRow,
+  | 'id' | 'author_id' | 'title' | 'slug' | 'excerpt' | 'featured_image' | 'featured' | 'pinned' | 'reading_time'
+  | 'seo_title' | 'seo_description' | 'seo_keywords' | 'published_at' | 'created_at' | 'updated_at'
+> & {
+  // 计算列 content_html_hash：content_html 的摘要
+  content_html_hash: string | null;
+};
+
+// 服务选项
+export interface StaticSiteServiceOptions {
+  // 替换默认模板
+  templates?: Partial<SiteTemplates>;
+  // 站点地址，默认读取 settings.site_url
+  siteUrl?: string;
+  // 每页读取的行数
+  pageSize?: number;
+}
+
+// 构建选项
+export interface SiteBuildOptions {
+  outDir: string;
+  // 忽略构建清单，重新生成全部文章
+  full?: boolean;
+  // 只生成报告，不写入、不删除文件
+  dryRun?: boolean;
+}
+
+// 构建报告
+export interface SiteBuildReport {
+  mode: 'full' | 'incremental';
+  // 上次构建时间，没有构建清单时为 null
+  previousBuildAt: string | null;
+  builtAt: string;
+  posts: {
+    total: number;
+    // 本次重新生成的文章
+    rendered: number;
+    // 与上次构建相比没有变化的文章
+    skipped: number;
+    failed: number;
+  };
+  // 写入的文件（相对输出目录）
+  written: string[];
+  // 内容未变化、没有改写的文件数
+  unchanged: number;
+  // 删除的文件：已撤回、删除的文章，不再需要的分页等
+  removed: string[];
+  warnings: string[];
+}
+
+// 构建清单（输出目录中的 .site-build.json）
+export interface SiteBuildManifest {
+  version: number;
+  built_at: string;
+  // 站点设置与模板的指纹，变化时重新生成全部文章
+  fingerprint: string;
+  // content_hash 为生成时 content_html 的摘要；只修改 content_html（render:backfill）时 updated_at 不变
+  posts: Record<string, { updated_at: string; content_hash: string | null; context: string; file: string }>;
+  // 构建生成的全部文件，下次构建时删除不再生成的文件
+  files: string[];
+}
+
+// 构建清单文件名
+export const SITE_MANIFEST_FILE = '.site-build.json';
+
+// 构建清单版本；默认模板或输出结构变化时递增，旧清单对应的文章全部重新生成
+const SITE_BUILD_VERSION = 1;
+
+// 默认每页行数
+const DEFAULT_PAGE_SIZE = 100;
+
+// 列表需要的文章字段，正文只为需要生成的文章读取
+const POST_SUMMARY_COLUMNS = [
+  'id', 'author_id', 'title', 'slug', 'excerpt', 'featured_image', 'featured', 'pinned', 'reading_time',
+  'seo_title', 'seo_description', 'seo_keywords', 'published_at', 'created_at', 'updated_at', 'content_html_hash',
+].join(', ');
+
+// 站点设置及默认值
+const SITE_SETTING_DEFAULTS = {
+  site_title: 'Blog-MCP',
+  site_description: '',
+  site_url: '',
+  language: 'zh-CN',
+  timezone: 'Asia/Shanghai',
+  posts_per_page: 10,
+  posts_per_page_category: 12,
+  posts_per_page_tag: 12,
+  enable_rss: true,
+  rss_items_limit: 20,
+  enable_sitemap: true,
+};
+
+type SiteSettings = typeof SITE_SETTING_DEFAULTS;
+
+// 一次构建中生成的页面
+interface SitePage {
+  file: string;
+  content: string;
+}
+
+/** 判断别名能否直接用作目录名 */
+export function isSafeSlug(slug: string): boolean {
+  return slug !== '' && slug !== '.' && slug !== '..' && !/[/\\\u0000-\u001f]/.test(slug);
+}
+
+export class StaticSiteService {
+  private supabase: SupabaseService;
+  private settings: SettingsStore;
+  private templates: SiteTemplates;
+  private siteUrl?: string;
+  private pageSize: number;
+
+  constructor(
+    supabase: SupabaseService = getSupabaseService(),
+    settings?: SettingsStore,
+    options: StaticSiteServiceOptions = {}
+  ) {
+    this.supabase = supabase;
+    this.settings = settings || new SettingsStore(supabase);
+    this.templates = resolveTemplates(options.templates);
+    this.siteUrl = options.siteUrl;
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  }
+
+  // ==================== 构建 ====================
+
+  // 生成站点
+  async build(options: SiteBuildOptions): Promise<SiteBuildReport> {
+    const outDir = path.resolve(options.outDir);
+    const builtAt = new Date().toISOString();
+    const settings = await this.loadSettings();
+    const site = this.siteInfo(settings);
+    const fingerprint = checksum({
+      version: SITE_BUILD_VERSION,
+      site,
+      templates: templatesFingerprint(this.templates),
+    });
+
+    const previous = await readManifest(outDir);
+    const rebuildAll = !!options.full || !previous || previous.fingerprint !== fingerprint;
+    const report: SiteBuildReport = {
+      mode: rebuildAll ? 'full' : 'incremental',
+      previousBuildAt: previous ? previous.built_at : null,
+      builtAt,
+      posts: { total: 0, rendered: 0, skipped: 0, failed: 0 },
+      written: [],
+      unchanged: 0,
+      removed: [],
+      warnings: [],
+    };
+
+    // 分类、标签与文章摘要
+    const categories = await this.supabase.fetchAll<'categories', CategoryRow>('categories', 'id, name, slug, description, color, parent_id, sort_order', {
+      pageSize: this.pageSize,
+    });
+    const tags = await this.supabase.fetchAll<'tags', TagRow>('tags', 'id, name, slug, description, color', { pageSize: this.pageSize });
+    const rows = await this.supabase.fetchAll<'posts', PostSummaryRow>('posts', POST_SUMMARY_COLUMNS, {
+      filter: query => query.eq('status', 'published').eq('visibility', 'public'),
+      pageSize: this.pageSize,
+    });
+    const links = await this.supabase.fetchPostLinks(rows.map(row => row.id), this.pageSize);
+    const authors = await this.supabase.fetchUsernames(rows.map(row => row.author_id), this.pageSize);
+
+    const categoryLinks = new Map<string, SiteTermLink>();
+    categories.forEach(category => {
+      if (isSafeSlug(category.slug)) categoryLinks.set(category.id, termLink(site, 'categories', category));
+    });
+    const tagLinks = new Map<string, SiteTermLink>();
+    tags.forEach(tag => {
+      if (isSafeSlug(tag.slug)) tagLinks.set(tag.id, termLink(site, 'tags', tag));
+    });
+
+    const posts: Array<SitePostSummary & { row: PostSummaryRow }> = [];
+    for (const row of rows) {
+      if (!isSafeSlug(row.slug)) {
+        report.warnings.push(`文章别名不能用作路径，已跳过: ${row.title} (${row.slug})`);
+        continue;
+      }
+      posts.push({
+        id: row.id,
+        title: row.title,
+        slug: row.slug,
+        url: pageUrl(site, `posts/${row.slug}`),
+        excerpt: row.excerpt || row.seo_description,
+        featuredImage: row.featured_image,
+        author: authors.get(row.author_id) || null,
+        publishedAt: row.published_at || row.created_at,
+        updatedAt: row.updated_at,
+        readingTime: row.reading_time,
+        featured: row.featured,
+        pinned: row.pinned,
+        categories: (links.categories.get(row.id) || [])
+          .map(id => categoryLinks.get(id))
+          .filter((link): link is SiteTermLink => !!link),
+        tags: (links.tags.get(row.id) || [])
+          .map(id => tagLinks.get(id))
+          .filter((link): link is SiteTermLink => !!link),
+        row,
+      });
+    }
+    report.posts.total = posts.length;
+
+    // 置顶在前，其余按发布时间倒序
+    const byDate = [...posts].sort((a, b) => Date.parse(b.publishedAt) - Date.parse(a.publishedAt));
+    const listed = [...byDate].sort((a, b) => Number(b.pinned) - Number(a.pinned));
+    const feedPosts = settings.enable_rss ? byDate.slice(0, Math.max(0, settings.rss_items_limit)) : [];
+
+    // 需要重新生成的文章：新文章、updated_at 或正文 HTML 变化、分类标签、作者或阅读时间变化、文件丢失
+    const manifestPosts: SiteBuildManifest['posts'] = {};
+    const dirty = new Set<string>();
+    for (const post of posts) {
+      const file = pageFile(`posts/${post.slug}`);
+      const contentHash = post.row.content_html_hash;
+      const context = checksum({ categories: post.categories, tags: post.tags, author: post.author, readingTime: post.readingTime });
+      manifestPosts[post.id] = { updated_at: post.updatedAt, content_hash: contentHash, context, file };
+      const entry = previous && previous.posts[post.id];
+      if (
+        rebuildAll ||
+        !entry ||
+        entry.updated_at !== post.updatedAt ||
+        entry.content_hash !== contentHash ||
+        entry.context !== context ||
+        entry.file !== file ||
+        !(await fileExists(path.join(outDir, file)))
+      ) {
+        dirty.add(post.id);
+      }
+    }
+    report.posts.skipped = posts.length - dirty.size;
+
+    // 正文只读取需要生成的文章与订阅中的文章
+    const contents = await this.fetchContents([...new Set([...dirty, ...feedPosts.map(post => post.id)])]);
+    const pages: SitePage[] = [];
+    const files = new Set<string>();
+
+    for (const post of posts) {
+      const file = manifestPosts[post.id].file;
+      files.add(file);
+      if (!dirty.has(post.id)) continue;
+      try {
+        pages.push({ file, content: this.renderPost(site, post, contents.get(post.id) || '') });
+        report.posts.rendered++;
+      } catch (error) {
+        // 不写入清单，下次构建时重试；保留上次生成的文件
+        delete manifestPosts[post.id];
+        report.posts.failed++;
+        report.warnings.push(`生成文章失败: ${post.title} (${errorMessage(error)})`);
+      }
+    }
+
+    // 首页、分类页、标签页
+    pages.push(...this.renderList(site, 'index', site.title, null, listed, settings.posts_per_page, ''));
+
+    const sitemap: SitemapEntry[] = [
+      { url: absoluteUrl(site, pageUrl(site, '')), lastModified: latest(posts) },
+      ...posts.map(post => ({ url: absoluteUrl(site, post.url), lastModified: post.updatedAt })),
+    ];
+
+    const categoryPosts = collectCategoryPosts(categories, listed, links.categories);
+    for (const category of categories) {
+      const link = categoryLinks.get(category.id);
+      const items = categoryPosts.get(category.id) || [];
+      if (!link || items.length === 0) continue;
+      const term = { ...link, description: category.description, color: category.color, postCount: items.length };
+      pages.push(...this.renderList(site, 'category', category.name, term, items, settings.posts_per_page_category, `categories/${category.slug}`));
+      sitemap.push({ url: absoluteUrl(site, link.url), lastModified: latest(items) });
+    }
+
+    for (const tag of tags) {
+      const link = tagLinks.get(tag.id);
+      const items = listed.filter(post => (links.tags.get(post.id) || []).includes(tag.id));
+      if (!link || items.length === 0) continue;
+      const term = { ...link, description: tag.description, color: tag.color, postCount: items.length };
+      pages.push(...this.renderList(site, 'tag', tag.name, term, items, settings.posts_per_page_tag, `tags/${tag.slug}`));
+      sitemap.push({ url: absoluteUrl(site, link.url), lastModified: latest(items) });
+    }
+
+    // 404、订阅与站点地图
+    pages.push({
+      file: '404.html',
+      content: this.templates.layout({
+        ...layoutDefaults(site),
+        kind: 'not_found',
+        title: '页面不存在',
+        noindex: true,
+        body: this.templates.notFound(site),
+      }),
+    });
+    if (settings.enable_rss) {
+      const items: SiteFeedItem[] = feedPosts.map(post => ({
+        title: post.title,
+        url: absoluteUrl(site, post.url),
+        publishedAt: post.publishedAt,
+        updatedAt: post.updatedAt,
+        author: post.author,
+        summary: post.excerpt,
+        html: contents.get(post.id) || '',
+        categories: post.categories.map(category => category.name),
+      }));
+      pages.push({ file: 'feed.xml', content: renderRssFeed(site, items, absoluteUrl(site, `${site.basePath}/feed.xml`)) });
+      pages.push({ file: 'atom.xml', content: renderAtomFeed(site, items, absoluteUrl(site, `${site.basePath}/atom.xml`)) });
+    }
+    if (settings.enable_sitemap) {
+      pages.push({ file: 'sitemap.xml', content: renderSitemap(sitemap) });
+    }
+
+    // 写入有变化的文件
+    for (const page of pages) {
+      files.add(page.file);
+      const target = path.join(outDir, page.file);
+      if (await sameContent(target, page.content)) {
+        report.unchanged++;
+        continue;
+      }
+      if (!options.dryRun) {
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, page.content, 'utf8');
+      }
+      report.written.push(page.file);
+    }
+    report.unchanged += posts.length - dirty.size;
+
+    // 删除上次生成、本次不再生成的文件
+    for (const file of previous ? previous.files : []) {
+      if (files.has(file)) continue;
+      const target = path.resolve(outDir, file);
+      if (!target.startsWith(outDir + path.sep)) continue;
+      if (!options.dryRun) {
+        await fs.rm(target, { force: true });
+        await removeEmptyDirs(path.dirname(target), outDir);
+      }
+      report.removed.push(file);
+    }
+
+    if (!options.dryRun) {
+      const manifest: SiteBuildManifest = {
+        version: SITE_BUILD_VERSION,
+        built_at: builtAt,
+        fingerprint,
+        posts: manifestPosts,
+        files: [...files].sort(),
+      };
+      await fs.mkdir(outDir, { recursive: true });
+      await fs.writeFile(path.join(outDir, SITE_MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+    }
+
+    return report;
+  }
+
+  // ==================== 页面 ====================
+
+  // 生成文章页
+  private renderPost(site: SiteInfo, summary: SitePostSummary & { row: PostSummaryRow }, html: string): string {
+    const { row, ...fields } = summary;
+    const post: SitePost = {
+      ...fields,
+      html,
+      seoTitle: row.seo_title,
+      seoDescription: row.seo_description,
+      seoKeywords: row.seo_keywords,
+    };
+    return this.templates.layout({
+      ...layoutDefaults(site),
+      kind: 'post',
+      title: post.seoTitle || post.title,
+      description: post.seoDescription || post.excerpt,
+      keywords: post.seoKeywords,
+      canonicalUrl: absoluteUrl(site, post.url),
+      image: post.featuredImage,
+      body: this.templates.post(post, site),
+    });
+  }
+
+  // 生成分页列表：第一页为 <dir>/index.html，之后为 <dir>/page/<n>/index.html
+  private renderList(
+    site: SiteInfo,
+    kind: SiteListPage['kind'],
+    title: string,
+    term: SiteTerm | null,
+    posts: SitePostSummary[],
+    perPage: number,
+    dir: string
+  ): SitePage[] {
+    const size = Math.max(1, Math.floor(perPage) || 1);
+    const totalPages = Math.max(1, Math.ceil(posts.length / size));
+    const location = (page: number) => (page === 1 ? dir : [dir, 'page', String(page)].filter(Boolean).join('/'));
+
+    const pages: SitePage[] = [];
+    for (let page = 1; page <= totalPages; page++) {
+      const list: SiteListPage = {
+        kind,
+        title,
+        url: pageUrl(site, location(page)),
+        posts: posts.slice((page - 1) * size, page * size),
+        pagination: {
+          page,
+          totalPages,
+          previousUrl: page > 1 ? pageUrl(site, location(page - 1)) : null,
+          nextUrl: page < totalPages ? pageUrl(site, location(page + 1)) : null,
+        },
+        term,
+      };
+      pages.push({
+        file: pageFile(location(page)),
+        content: this.templates.layout({
+          ...layoutDefaults(site),
+          kind,
+          title: kind === 'index' ? (page > 1 ? `第 ${page} 页` : null) : (page > 1 ? `${title} - 第 ${page} 页` : title),
+          description: term ? term.description : site.description,
+          canonicalUrl: absoluteUrl(site, list.url),
+          body: this.templates.list(list, site),
+        }),
+      });
+    }
+    return pages;
+  }
+
+  // ==================== 辅助方法 ====================
+
+  // 读取站点设置
+  private async loadSettings(): Promise<SiteSettings> {
+    const values = await this.settings.getMany(Object.keys(SITE_SETTING_DEFAULTS));
+    const settings = { ...SITE_SETTING_DEFAULTS } as Record<string, unknown>;
+    for (const [key, fallback] of Object.entries(SITE_SETTING_DEFAULTS)) {
+      if (typeof values[key] === typeof fallback) settings[key] = values[key];
+    }
+    return settings as SiteSettings;
+  }
+
+  // 站点信息
+  private siteInfo(settings: SiteSettings): SiteInfo {
+    const url = (this.siteUrl || settings.site_url).trim().replace(/\/+$/, '');
+    if (!url) {
+      throw new Error('未设置站点地址（settings.site_url）');
+    }
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error(`站点地址无效: ${url}`);
+    }
+    return {
+      title: settings.site_title,
+      description: settings.site_description || null,
+      url,
+      basePath: parsed.pathname.replace(/\/+$/, ''),
+      language: settings.language,
+      timezone: settings.timezone,
+      feeds: settings.enable_rss,
+    };
+  }
+
+  // 读取正文 HTML；已保存的 HTML 重新净化，为空时按保存时的规则渲染
+  private async fetchContents(ids: string[]): Promise<Map<string, string>> {
+    const contents = new Map<string, string>();
+    for (let i = 0; i < ids.length; i += this.pageSize) {
+      const { data, error } = await this.supabase.getServiceClient()
+        .from('posts')
+        .select('id, content, content_html')
+        .in('id', ids.slice(i, i + this.pageSize));
+      if (error) throw error;
+      ((data || []) as Array<Pick<PostRow, 'id' | 'content' | 'content_html'>>).forEach(row =>
+        contents.set(row.id, row.content_html !== null ? sanitizePostHtml(row.content_html) : renderPostHtml(row.content)));
+    }
+    return contents;
+  }
+}
+
+// 分类、标签链接
+function termLink(site: SiteInfo, prefix: 'categories' | 'tags', term: { name: string; slug: string }): SiteTermLink {
+  return { name: term.name, slug: term.slug, url: pageUrl(site, `${prefix}/${term.slug}`) };
+}
+
+// 页面地址（以 / 结尾的路径，包含站点路径前缀）
+function pageUrl(site: SiteInfo, dir: string): string {
+  return `${site.basePath}/${dir ? dir.split('/').map(encodeURIComponent).join('/') + '/' : ''}`;
+}
+
+// 页面文件（相对输出目录）
+function pageFile(dir: string): string {
+  return dir ? `${dir}/index.html` : 'index.html';
+}
+
+// 完整地址
+function absoluteUrl(site: SiteInfo, url: string): string {
+  return new URL(url, site.url).href;
+}
+
+// 布局的默认字段
+function layoutDefaults(site: SiteInfo): Omit<SiteLayoutContext, 'kind' | 'body'> {
+  return { site, title: null, description: null, keywords: null, canonicalUrl: null, image: null, noindex: false };
+}
+
+// 最晚的更新时间
+function latest(posts: SitePostSummary[]): string | null {
+  return posts.reduce<string | null>((value, post) =>
+    (!value || Date.parse(post.updatedAt) > Date.parse(value) ? post.updatedAt : value), null);
+}
+
+// 每个分类及其子分类下的文章，保持列表顺序
+function collectCategoryPosts<T extends SitePostSummary>(
+  categories: CategoryRow[],
+  posts: T[],
+  links: Map<string, string[]>
+): Map<string, T[]> {
+  const parents = new Map(categories.map(category => [category.id, category.parent_id]));
+  const result = new Map<string, T[]>();
+  for (const post of posts) {
+    const ids = new Set<string>();
+    for (const id of links.get(post.id) || []) {
+      // 向上收集祖先分类，遇到循环时停止
+      for (let current: string | null | undefined = id; current && !ids.has(current); current = parents.get(current)) {
+        ids.add(current);
+      }
+    }
+    ids.forEach(id => result.set(id, [...(result.get(id) || []), post]));
+  }
+  return result;
+}
+
+// 读取构建清单；不存在或版本不同时返回 null
+async function readManifest(outDir: string): Promise<SiteBuildManifest | null> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(path.join(outDir, SITE_MANIFEST_FILE), 'utf8')) as SiteBuildManifest;
+    return manifest && manifest.version === SITE_BUILD_VERSION && manifest.posts && Array.isArray(manifest.files)
+      ? manifest
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// 文件是否存在
+async function fileExists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 文件内容是否相同
+async function sameContent(file: string, content: string): Promise<boolean> {
+  try {
+    return (await fs.readFile(file, 'utf8')) === content;
+  } catch {
+    return false;
+  }
+}
+
+// 从 dir 向上删除空目录，直到输出目录
+async function removeEmptyDirs(dir: string, root: string): Promise<void> {
+  for (let current = dir; current.startsWith(root + path.sep); current = path.dirname(current)) {
+    try {
+      await fs.rmdir(current);
+    } catch {
+      return;
+    }
+  }
+}
+
+// 读取自定义模板模块：导出（或默认导出）与 SiteTemplates 同名的函数
+function loadTemplateModule(file: string): Partial<SiteTemplates> {
+  const loaded = require(path.resolve(file));
+  return (loaded && loaded.default) || loaded;
+}
+
+// 命令行入口：site:build -- --out <目录> [--full] [--dry-run] [--site-url <地址>] [--templates <模块>]
+export async function main() {
+  const args = cliArgs();
+  const out = argValue(args, '--out');
+  if (!out) {
+    console.error('用法: site:build -- --out <目录> [--full] [--dry-run] [--site-url <地址>] [--templates <模块>]');
+    process.exit(1);
+  }
+
+  try {
+    const templates = argValue(args, '--templates');
+    const service = new StaticSiteService(undefined, undefined, {
+      siteUrl: argValue(args, '--site-url'),
+      templates: templates ? loadTemplateModule(templates) : undefined,
+    });
+    const report = await service.build({
+      outDir: out!,
+      full: args.includes('--full'),
+      dryRun: args.includes('--dry-run'),
+    });
+
+    const { posts } = report;
+    console.log(`📄 ${report.mode === 'full' ? '全量构建' : `增量构建（上次构建 ${report.previousBuildAt}）`}`);
+    console.log(`📄 文章 ${posts.total}：生成 ${posts.rendered}，未变化 ${posts.skipped}，失败 ${posts.failed}`);
+    console.log(`📄 文件：写入 ${report.written.length}，未变化 ${report.unchanged}，删除 ${report.removed.length}`);
+    report.warnings.forEach(warning => console.log(`⚠️ ${warning}`));
+    console.log(posts.failed > 0 ? `⚠️ 构建完成，${posts.failed} 篇文章生成失败` : `✅ 构建完成${args.includes('--dry-run') ? '（试运行）' : ''}`);
+    process.exit(posts.failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('❌ 构建失败:', errorMessage(error));
+    process.exit(1);
+  }
+}
+
+// 如果直接运行此文件
+if (require.main === module) {
+  main();
+}
+
+export default StaticSiteService;
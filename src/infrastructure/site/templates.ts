@@ -0,0 +1,258 @@
+// 静态站点模板
+// 模板是返回 HTML 字符串的纯函数，构建时可以逐个替换；默认模板只使用内联样式，不依赖外部资源
+// 模板中的文字与属性值需要自行转义（escapeHtml），只有 post.html 与 layout 的 body 是已经净化过的 HTML
+
+import { createHash } from 'crypto';
+import { escapeHtml } from '../render/markdown';
+
+// 站点信息
+export interface SiteInfo {
+  title: string;
+  description: string | null;
+  // 站点地址，不带结尾的 /，例如 https://example.com/blog
+  url: string;
+  // 站点地址中的路径部分，例如 /blog；部署在根目录时为空字符串
+  basePath: string;
+  language: string;
+  timezone: string;
+  // 是否生成 RSS 与 Atom 订阅
+  feeds: boolean;
+}
+
+// 分类、标签链接
+export interface SiteTermLink {
+  name: string;
+  slug: string;
+  url: string;
+}
+
+// 分类、标签页面的主体
+export interface SiteTerm extends SiteTermLink {
+  description: string | null;
+  color: string | null;
+  // 已发布的公开文章数（分类包含子分类）
+  postCount: number;
+}
+
+// 列表中的文章
+export interface SitePostSummary {
+  id: string;
+  title: string;
+  slug: string;
+  url: string;
+  excerpt: string | null;
+  featuredImage: string | null;
+  author: string | null;
+  publishedAt: string;
+  updatedAt: string;
+  readingTime: number;
+  featured: boolean;
+  pinned: boolean;
+  categories: SiteTermLink[];
+  tags: SiteTermLink[];
+}
+
+// 文章页面
+export interface SitePost extends SitePostSummary {
+  // 净化后的正文 HTML
+  html: string;
+  seoTitle: string | null;
+  seoDescription: string | null;
+  seoKeywords: string[] | null;
+}
+
+// 分页
+export interface SitePagination {
+  page: number;
+  totalPages: number;
+  previousUrl: string | null;
+  nextUrl: string | null;
+}
+
+// 列表页面：首页、分类页、标签页
+export interface SiteListPage {
+  kind: 'index' | 'category' | 'tag';
+  title: string;
+  url: string;
+  posts: SitePostSummary[];
+  pagination: SitePagination;
+  // 分类页、标签页的分类或标签
+  term: SiteTerm | null;
+}
+
+// 页面类型
+export type SitePageKind = 'post' | SiteListPage['kind'] | 'not_found';
+
+// 页面外层结构
+export interface SiteLayoutContext {
+  site: SiteInfo;
+  kind: SitePageKind;
+  // <title> 中的标题，不含站点名称
+  title: string | null;
+  description: string | null;
+  keywords: string[] | null;
+  // 规范地址（完整地址）
+  canonicalUrl: string | null;
+  image: string | null;
+  // 禁止搜索引擎收录
+  noindex: boolean;
+  // 页面主体 HTML
+  body: string;
+}
+
+// 模板
+export interface SiteTemplates {
+  // 页面外层结构，其他模板的输出作为 body 传入
+  layout(context: SiteLayoutContext): string;
+  post(post: SitePost, site: SiteInfo): string;
+  list(page: SiteListPage, site: SiteInfo): string;
+  notFound(site: SiteInfo): string;
+}
+
+// 默认样式
+const DEFAULT_STYLE = [
+  'body{margin:0 auto;max-width:760px;padding:0 20px;font:16px/1.75 -apple-system,"PingFang SC","Microsoft YaHei",sans-serif;color:#1f2937}',
+  'a{color:#2563eb;text-decoration:none}a:hover{text-decoration:underline}',
+  '.site-header{padding:32px 0 16px;border-bottom:1px solid #e5e7eb}.site-title{font-size:24px;font-weight:700;color:#111827}',
+  '.site-description{margin:4px 0 0;color:#6b7280}.site-footer{margin:48px 0 32px;color:#9ca3af;font-size:14px}',
+  '.post-meta{color:#6b7280;font-size:14px}.post-terms a{margin-right:8px}',
+  '.post-summary{margin:32px 0}.post-summary h2{margin:0 0 4px}.post-cover{max-width:100%;height:auto}',
+  '.post-content img{max-width:100%;height:auto}.post-content pre{overflow:auto;padding:12px;background:#f3f4f6}',
+  '.pagination{display:flex;justify-content:space-between;margin:32px 0}',
+].join('');
+
+/** 按站点语言与时区格式化日期 */
+export function formatSiteDate(value: string, site: Pick<SiteInfo, 'language' | 'timezone'>): string {
+  try {
+    return new Intl.DateTimeFormat(site.language, {
+      timeZone: site.timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(new Date(value));
+  } catch {
+    return value.slice(0, 10);
+  }
+}
+
+// 渲染分类、标签链接
+function termLinks(terms: SiteTermLink[], prefix: string): string {
+  return terms.map(term => `<a href="${escapeHtml(term.url)}">${prefix}${escapeHtml(term.name)}</a>`).join('');
+}
+
+// 渲染文章信息行
+function postMeta(post: SitePostSummary, site: SiteInfo): string {
+  const parts = [`<time datetime="${escapeHtml(post.publishedAt)}">${escapeHtml(formatSiteDate(post.publishedAt, site))}</time>`];
+  if (post.author) parts.push(escapeHtml(post.author));
+  if (post.readingTime > 0) parts.push(`阅读约 ${post.readingTime} 分钟`);
+  return `<p class="post-meta">${parts.join(' · ')}</p>`;
+}
+
+export const DEFAULT_TEMPLATES: SiteTemplates = {
+  layout(context) {
+    const { site } = context;
+    const title = context.title ? `${context.title} - ${site.title}` : site.title;
+    const head = [
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${escapeHtml(title)}</title>`,
+      context.description ? `<meta name="description" content="${escapeHtml(context.description)}">` : '',
+      context.keywords && context.keywords.length > 0 ? `<meta name="keywords" content="${escapeHtml(context.keywords.join(', '))}">` : '',
+      context.noindex ? '<meta name="robots" content="noindex">' : '',
+      context.canonicalUrl ? `<link rel="canonical" href="${escapeHtml(context.canonicalUrl)}">` : '',
+      `<meta property="og:type" content="${context.kind === 'post' ? 'article' : 'website'}">`,
+      `<meta property="og:title" content="${escapeHtml(context.title || site.title)}">`,
+      context.canonicalUrl ? `<meta property="og:url" content="${escapeHtml(context.canonicalUrl)}">` : '',
+      context.image ? `<meta property="og:image" content="${escapeHtml(context.image)}">` : '',
+      site.feeds ? `<link rel="alternate" type="application/rss+xml" title="${escapeHtml(site.title)}" href="${site.basePath}/feed.xml">` : '',
+      site.feeds ? `<link rel="alternate" type="application/atom+xml" title="${escapeHtml(site.title)}" href="${site.basePath}/atom.xml">` : '',
+      `<style>${DEFAULT_STYLE}</style>`,
+    ].filter(Boolean);
+
+    return [
+      '<!DOCTYPE html>',
+      `<html lang="${escapeHtml(site.language)}">`,
+      '<head>',
+      ...head,
+      '</head>',
+      '<body>',
+      '<header class="site-header">',
+      `<a class="site-title" href="${site.basePath}/">${escapeHtml(site.title)}</a>`,
+      site.description ? `<p class="site-description">${escapeHtml(site.description)}</p>` : '',
+      '</header>',
+      `<main>${context.body}</main>`,
+      '<footer class="site-footer">',
+      `© ${escapeHtml(site.title)}${site.feeds ? ` · <a href="${site.basePath}/feed.xml">RSS</a>` : ''}`,
+      '</footer>',
+      '</body>',
+      '</html>',
+    ].filter(Boolean).join('\n') + '\n';
+  },
+
+  post(post, site) {
+    return [
+      '<article class="post">',
+      '<header>',
+      `<h1>${escapeHtml(post.title)}</h1>`,
+      postMeta(post, site),
+      post.categories.length > 0 ? `<p class="post-terms">${termLinks(post.categories, '')}</p>` : '',
+      post.featuredImage ? `<img class="post-cover" src="${escapeHtml(post.featuredImage)}" alt="${escapeHtml(post.title)}">` : '',
+      '</header>',
+      `<div class="post-content">${post.html}</div>`,
+      post.tags.length > 0 ? `<footer class="post-terms">${termLinks(post.tags, '#')}</footer>` : '',
+      '</article>',
+    ].filter(Boolean).join('\n');
+  },
+
+  list(page, site) {
+    const { pagination } = page;
+    const heading = page.term
+      ? `<h1>${escapeHtml(page.title)}</h1>${page.term.description ? `<p>${escapeHtml(page.term.description)}</p>` : ''}`
+      : '';
+    const posts = page.posts.map(post => [
+      '<article class="post-summary">',
+      `<h2><a href="${escapeHtml(post.url)}">${post.pinned ? '[置顶] ' : ''}${escapeHtml(post.title)}</a></h2>`,
+      postMeta(post, site),
+      post.excerpt ? `<p>${escapeHtml(post.excerpt)}</p>` : '',
+      '</article>',
+    ].filter(Boolean).join('\n'));
+    const nav = pagination.totalPages > 1
+      ? [
+        '<nav class="pagination">',
+        pagination.previousUrl ? `<a href="${escapeHtml(pagination.previousUrl)}">上一页</a>` : '<span></span>',
+        `<span>第 ${pagination.page} / ${pagination.totalPages} 页</span>`,
+        pagination.nextUrl ? `<a href="${escapeHtml(pagination.nextUrl)}">下一页</a>` : '<span></span>',
+        '</nav>',
+      ].join('\n')
+      : '';
+    return [heading, ...posts, posts.length === 0 ? '<p>还没有文章</p>' : '', nav].filter(Boolean).join('\n');
+  },
+
+  notFound(site) {
+    return `<h1>页面不存在</h1>\n<p><a href="${site.basePath}/">返回首页</a></p>`;
+  },
+};
+
+/** 用自定义模板覆盖默认模板 */
+export function resolveTemplates(overrides: Partial<SiteTemplates> = {}): SiteTemplates {
+  const templates = { ...DEFAULT_TEMPLATES };
+  (Object.keys(DEFAULT_TEMPLATES) as Array<keyof SiteTemplates>).forEach(name => {
+    const template = overrides[name];
+    if (template !== undefined) {
+      if (typeof template !== 'function') {
+        throw new Error(`模板 ${name} 必须是函数`);
+      }
+      Object.assign(templates, { [name]: template });
+    }
+  });
+  return templates;
+}
+
+/** 模板指纹：模板源码变化时增量构建会重新生成全部页面 */
+export function templatesFingerprint(templates: SiteTemplates): string {
+  const hash = createHash('sha256');
+  (Object.keys(DEFAULT_TEMPLATES) as Array<keyof SiteTemplates>).forEach(name => {
+    hash.update(`${name}:${templates[name].toString()}\n`);
+  });
+  return hash.digest('hex');
+}
@@ -2,8 +2,25 @@
 // 提供统一的数据库访问接口
 
 import { createClient, SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
-import { getConfig } from '../config';
-import { Database, DatabaseError } from '../types/database';
+import type { PostgrestFilterBuilder } from '@supabase/supabase-js';
+import { getConfig } from '../../config';
+import { Database, DatabaseError } from '../../types/database';
+
+type TableName = keyof Database['public']['Tables'];
+type TableRow<T extends TableName> = Database['public']['Tables'][T]['Row'];
+// 以 id 为主键、可以按 id 游标分页的表
+type PagedTable = { [T in TableName]: TableRow<T> extends { id: string } ? T : never }[TableName];
+
+// 分页读取时交给 filter 的 PostgREST 查询；列名与取值按表的行类型检查
+export type TableQuery<T extends TableName> = PostgrestFilterBuilder<
+  { PostgrestVersion: '12' },
+  Database['public'],
+  TableRow<T>,
+  unknown[],
+  T,
+  Database['public']['Tables'][T]['Relationships'],
+  'GET'
+>;
 
 // 扩展的 Supabase 选项接口
 export interface SupabaseOptions {
@@ -56,6 +73,43 @@ export interface UserPermissions {
   canManage: boolean;
 }
 
+// 根据角色和状态获取权限（MCP 等服务端模块共用同一套规则）
+export function getPermissionsByRole(role: string, status: string): UserPermissions {
+  if (status !== 'active') {
+    return {
+      canRead: false,
+      canWrite: false,
+      canDelete: false,
+      canManage: false,
+    };
+  }
+
+  switch (role) {
+    case 'admin':
+      return {
+        canRead: true,
+        canWrite: true,
+        canDelete: true,
+        canManage: true,
+      };
+    case 'moderator':
+      return {
+        canRead: true,
+        canWrite: true,
+        canDelete: true,
+        canManage: false,
+      };
+    case 'user':
+    default:
+      return {
+        canRead: true,
+        canWrite: true,
+        canDelete: false,
+        canManage: false,
+      };
+  }
+}
+
 class SupabaseService {
   private client: SupabaseClient<Database>;
   private serviceClient: SupabaseClient<Database>;
@@ -274,39 +328,7 @@ class SupabaseService {
 
   // 根据角色和状态获取权限
   private getPermissionsByRole(role: string, status: string): UserPermissions {
-    if (status !== 'active') {
-      return {
-        canRead: false,
-        canWrite: false,
-        canDelete: false,
-        canManage: false,
-      };
-    }
-
-    switch (role) {
-      case 'admin':
-        return {
-          canRead: true,
-          canWrite: true,
-          canDelete: true,
-          canManage: true,
-        };
-      case 'moderator':
-        return {
-          canRead: true,
-          canWrite: true,
-          canDelete: true,
-          canManage: false,
-        };
-      case 'user':
-      default:
-        return {
-          canRead: true,
-          canWrite: true,
-          canDelete: false,
-          canManage: false,
-        };
-    }
+    return getPermissionsByRole(role, status);
   }
 
   // ==================== 文件存储方法 ====================
@@ -502,25 +524,6 @@ class SupabaseService {
     return result as T;
   }
 
-  // 删除数据
-  async delete(
-    table: keyof Database['public']['Tables'],
-    where: string,
-    options?: {
-      returning?: 'minimal' | 'representation';
-    }
-  ) {
-    let query = this.client.from(table).delete().filter(where);
-
-    if (options?.returning) {
-      query = query.select(options.returning);
-    }
-
-    const { data, error } = await query;
-    if (error) throw error;
-    return data;
-  }
-
   // ==================== 批量操作方法 ====================
 
   // 批量插入
@@ -567,6 +570,91 @@ class SupabaseService {
     return results;
   }
 
+  // 按 id 游标逐页读取整张表（服务角色），每次产出一页；filter 用于追加查询条件
+  async *fetchPages<T extends PagedTable, R extends { id: string } = TableRow<T>>(
+    table: T,
+    columns: string,
+    options: {
+      filter?: (query: TableQuery<T>) => TableQuery<T>;
+      pageSize?: number;
+    } = {}
+  ): AsyncGenerator<R[]> {
+    const { filter = query => query, pageSize = 100 } = options;
+    let lastId: string | null = null;
+
+    for (;;) {
+      // 动态列名的查询结果类型无法推断，按表的行类型交给 filter
+      let query = filter(this.serviceClient.from(table).select(columns) as unknown as TableQuery<T>)
+        .order('id')
+        .limit(pageSize);
+      if (lastId) query = query.gt('id', lastId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      const page = (data || []) as unknown as R[];
+      if (page.length > 0) yield page;
+      if (page.length < pageSize) return;
+      lastId = page[page.length - 1].id;
+    }
+  }
+
+  // 按 id 游标分页读取整张表（服务角色）
+  async fetchAll<T extends PagedTable, R extends { id: string } = TableRow<T>>(
+    table: T,
+    columns: string,
+    options: {
+      filter?: (query: TableQuery<T>) => TableQuery<T>;
+      pageSize?: number;
+    } = {}
+  ): Promise<R[]> {
+    const rows: R[] = [];
+    for await (const page of this.fetchPages<T, R>(table, columns, options)) rows.push(...page);
+    return rows;
+  }
+
+  // 批量读取用户名，返回用户 ID 到用户名的映射
+  async fetchUsernames(ids: Array<string | null>, pageSize: number = 100): Promise<Map<string, string>> {
+    const unique = [...new Set(ids.filter((id): id is string => !!id))];
+    const usernames = new Map<string, string>();
+
+    for (let i = 0; i < unique.length; i += pageSize) {
+      const { data, error } = await this.serviceClient
+        .from('profiles')
+        .select('id, username')
+        .in('id', unique.slice(i, i + pageSize));
+      if (error) throw error;
+      (data || []).forEach(row => usernames.set(row.id, row.username));
+    }
+
+    return usernames;
+  }
+
+  // 批量读取文章的分类、标签关联，返回文章 ID 到分类、标签 ID 列表的映射
+  async fetchPostLinks(
+    postIds: string[],
+    pageSize: number = 100
+  ): Promise<{ categories: Map<string, string[]>; tags: Map<string, string[]> }> {
+    const categories = new Map<string, string[]>();
+    const tags = new Map<string, string[]>();
+
+    for (let i = 0; i < postIds.length; i += pageSize) {
+      const ids = postIds.slice(i, i + pageSize);
+      const [categoryLinks, tagLinks] = await Promise.all([
+        this.serviceClient.from('post_categories').select('post_id, category_id').in('post_id', ids),
+        this.serviceClient.from('post_tags').select('post_id, tag_id').in('post_id', ids),
+      ]);
+      if (categoryLinks.error) throw categoryLinks.error;
+      if (tagLinks.error) throw tagLinks.error;
+
+      (categoryLinks.data || []).forEach(row =>
+        categories.set(row.post_id, [...(categories.get(row.post_id) || []), row.category_id]));
+      (tagLinks.data || []).forEach(row =>
+        tags.set(row.post_id, [...(tags.get(row.post_id) || []), row.tag_id]));
+    }
+
+    return { categories, tags };
+  }
+
   // ==================== 健康检查方法 ====================
 
   // 健康检查
@@ -0,0 +1,18 @@
+// 回收站模块导出
+// 提供文章、评论、媒体的软删除、恢复与过期清理
+
+export { isTrashType, TRASH_TYPE_LABELS, TRASH_TYPES, TrashService } from './service';
+export type {
+  TrashedComment,
+  TrashedMedia,
+  TrashedPost,
+  TrashEntity,
+  TrashItem,
+  TrashItemMap,
+  TrashListOptions,
+  TrashMoveOptions,
+  TrashPurgeResult,
+  TrashRestoreResult,
+  TrashServiceOptions,
+  TrashType,
+} from './service';
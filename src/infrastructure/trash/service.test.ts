@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import SupabaseService from '../supabase/client';
+import type { SettingsStore } from '../config/settings';
+import { TrashService } from './service';
+
+type Row = Record<string, any>;
+type Tables = Record<string, Row[]>;
+
+const NOW = new Date('2024-03-01T00:00:00.000Z');
+const OLD = '2024-01-01T00:00:00.000Z';
+const RECENT = '2024-02-25T00:00:00.000Z';
+
+// 内存中的 Supabase 服务：支持回收站用到的查询、删除、rpc 与存储删除
+function fakeSupabase(tables: Tables, rpc: Record<string, (args: Row) => unknown> = {}) {
+  const removed: string[] = [];
+  const calls: Array<{ table: string; ids: string[] }> = [];
+
+  function query(table: string) {
+    const filters: Array<(row: Row) => boolean> = [];
+    let remove = false;
+    let limit = Infinity;
+    let single = false;
+
+    const run = () => {
+      let rows = (tables[table] || []).filter(row => filters.every(filter => filter(row)));
+      rows = [...rows].sort((a, b) => String(a.id).localeCompare(String(b.id))).slice(0, limit);
+      if (remove) {
+        tables[table] = tables[table].filter(row => !rows.includes(row));
+        calls.push({ table, ids: rows.map(row => row.id) });
+      }
+      return { data: single ? rows[0] || null : rows, error: null, count: rows.length };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      delete: () => { remove = true; return builder; },
+      eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+      lt: (column: string, value: string) => { filters.push(row => row[column] !== null && row[column] < value); return builder; },
+      gt: (column: string, value: string) => { filters.push(row => row[column] > value); return builder; },
+      in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return builder; },
+      order: () => builder,
+      limit: (count: number) => { limit = count; return builder; },
+      range: (from: number, to: number) => { limit = to - from + 1; return builder; },
+      maybeSingle: () => { single = true; return builder; },
+      then: (resolve: (value: unknown) => void, reject: (reason: unknown) => void) => Promise.resolve().then(run).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  const client = {
+    from: query,
+    rpc: async (name: string, args: Row) => ({ data: rpc[name](args), error: null }),
+    storage: { from: () => ({ remove: async (paths: string[]) => { removed.push(...paths); return { error: null }; } }) },
+  };
+  // 跳过构造函数（会创建真实客户端），保留 fetchPages 等方法
+  const supabase: SupabaseService = Object.create(SupabaseService.prototype);
+  Object.assign(supabase, { serviceClient: client });
+  return { supabase, removed, calls };
+}
+
+// 固定保留天数的设置
+function fakeSettings(retentionDays: number): SettingsStore {
+  return { get: async () => retentionDays } as unknown as SettingsStore;
+}
+
+describe('TrashService.moveToTrash', () => {
+  it('移入成功时返回 true', async () => {
+    const args: Row[] = [];
+    const { supabase } = fakeSupabase({}, { move_to_trash: value => { args.push(value); return true; } });
+    const trash = new TrashService(supabase, fakeSettings(30));
+    expect(await trash.moveToTrash('comment', 'c1', { deletedBy: 'u1' })).toBe(true);
+    expect(args).toEqual([{ p_type: 'comment', p_id: 'c1', p_deleted_by: 'u1' }]);
+  });
+
+  it('已在回收站中时返回 false，不存在时报错', async () => {
+    const { supabase } = fakeSupabase(
+      { posts: [{ id: 'p1', author_id: 'u1', status: 'deleted', deleted_at: RECENT }] },
+      { move_to_trash: () => false }
+    );
+    const trash = new TrashService(supabase, fakeSettings(30));
+    expect(await trash.moveToTrash('post', 'p1')).toBe(false);
+    await expect(trash.moveToTrash('post', 'missing')).rejects.toThrow('文章不存在');
+  });
+});
+
+describe('TrashService.restore', () => {
+  it('文章恢复后列出重新关联与无法关联的分类、标签', async () => {
+    const tables: Tables = {
+      posts: [{
+        id: 'p1',
+        author_id: 'u1',
+        status: 'deleted',
+        deleted_at: RECENT,
+        deleted_links: { category_ids: ['c1', 'c2'], tag_ids: ['t1'] },
+      }],
+      post_categories: [],
+      post_tags: [],
+    };
+    const { supabase } = fakeSupabase(tables, {
+      restore_from_trash: () => {
+        tables.post_categories.push({ id: 'l1', post_id: 'p1', category_id: 'c1' });
+        tables.post_tags.push({ id: 'l2', post_id: 'p1', tag_id: 't1' });
+        return true;
+      },
+    });
+
+    const result = await new TrashService(supabase, fakeSettings(30)).restore('post', 'p1');
+    expect(result.relinked).toEqual({ categoryIds: ['c1'], tagIds: ['t1'] });
+    expect(result.missing).toEqual({ categoryIds: ['c2'], tagIds: [] });
+  });
+
+  it('不在回收站中时报错', async () => {
+    const { supabase } = fakeSupabase(
+      { comments: [{ id: 'c1', author_id: 'u1', status: 'approved', deleted_at: null }] },
+      { restore_from_trash: () => false }
+    );
+    const trash = new TrashService(supabase, fakeSettings(30));
+    await expect(trash.restore('comment', 'c1')).rejects.toThrow('评论不在回收站中');
+    await expect(trash.restore('comment', 'missing')).rejects.toThrow('评论不存在');
+  });
+});
+
+describe('TrashService.purge', () => {
+  it('只永久删除回收站中的条目', async () => {
+    const tables: Tables = {
+      comments: [
+        { id: 'c1', author_id: 'u1', status: 'deleted', deleted_at: RECENT },
+        { id: 'c2', author_id: 'u1', status: 'approved', deleted_at: null },
+      ],
+    };
+    const { supabase } = fakeSupabase(tables);
+    const trash = new TrashService(supabase, fakeSettings(30));
+    expect(await trash.purge('comment', 'c1')).toBe(true);
+    expect(await trash.purge('comment', 'c2')).toBe(false);
+    expect(tables.comments.map(row => row.id)).toEqual(['c2']);
+  });
+});
+
+describe('TrashService.purgeExpired', () => {
+  it('分批删除超过保留期的条目，并删除媒体的存储文件', async () => {
+    const tables: Tables = {
+      posts: [
+        { id: 'p1', status: 'deleted', deleted_at: OLD },
+        { id: 'p2', status: 'deleted', deleted_at: RECENT },
+        { id: 'p3', status: 'published', deleted_at: null },
+      ],
+      comments: ['c1', 'c2', 'c3', 'c4', 'c5'].map(id => ({ id, status: 'deleted', deleted_at: OLD })),
+      media: [
+        { id: 'm1', status: 'deleted', deleted_at: OLD, file_path: 'a.png' },
+        { id: 'm2', status: 'active', deleted_at: null, file_path: 'b.png' },
+      ],
+    };
+    const { supabase, removed, calls } = fakeSupabase(tables);
+    const result = await new TrashService(supabase, fakeSettings(30), { batchSize: 2 }).purgeExpired(NOW);
+
+    expect(result).toEqual({
+      purged: { post: 1, comment: 5, media: 1 },
+      failed: 0,
+      cutoff: '2024-01-31T00:00:00.000Z',
+    });
+    expect(calls.filter(call => call.table === 'comments').map(call => call.ids)).toEqual([['c1', 'c2'], ['c3', 'c4'], ['c5']]);
+    expect(tables.posts.map(row => row.id)).toEqual(['p2', 'p3']);
+    expect(tables.media.map(row => row.id)).toEqual(['m2']);
+    expect(removed).toEqual(['a.png']);
+  });
+
+  it('保留天数为 0 时不清理', async () => {
+    const tables: Tables = { posts: [{ id: 'p1', status: 'deleted', deleted_at: OLD }] };
+    const { supabase } = fakeSupabase(tables);
+    const result = await new TrashService(supabase, fakeSettings(0)).purgeExpired(NOW);
+    expect(result.cutoff).toBeNull();
+    expect(tables.posts).toHaveLength(1);
+  });
+});
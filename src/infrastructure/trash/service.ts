@@ -0,0 +1,394 @@
+// 回收站服务
+// 文章、评论、媒体统一移入回收站、按类型列出、恢复，超过保留期后永久删除
+// 移入与恢复在数据库函数中原子完成（见 move_to_trash / restore_from_trash），文章恢复时重新关联分类和标签
+
+import SupabaseService, { getSupabaseService } from '../supabase/client';
+import { SettingsStore } from '../config/settings';
+import { errorMessage } from '../utils/cli';
+import type { Database } from '../types/database';
+
+type Tables = Database['public']['Tables'];
+
+// 回收站条目类型
+export type TrashType = 'post' | 'comment' | 'media';
+
+export type TrashedPost = Pick<
+  Tables['posts']['Row'],
+  'id' | 'title' | 'slug' | 'author_id' | 'deleted_at' | 'deleted_by' | 'deleted_links'
+>;
+export type TrashedComment = Pick<
+  Tables['comments']['Row'],
+  'id' | 'post_id' | 'author_id' | 'guest_name' | 'content' | 'deleted_status' | 'deleted_at' | 'deleted_by'
+>;
+export type TrashedMedia = Pick<
+  Tables['media']['Row'],
+  'id' | 'author_id' | 'filename' | 'original_name' | 'file_path' | 'file_url' | 'file_type' | 'file_size' | 'deleted_at' | 'deleted_by'
+>;
+
+// 各类型的回收站条目
+export interface TrashItemMap {
+  post: TrashedPost;
+  comment: TrashedComment;
+  media: TrashedMedia;
+}
+
+// 回收站条目，purge_at 为预计永久删除的时间（不自动清理时为 null）
+export type TrashItem<T extends TrashType = TrashType> = TrashItemMap[T] & { purge_at: string | null };
+
+// 条目的归属与状态
+export interface TrashEntity {
+  id: string;
+  author_id: string | null;
+  status: string;
+  deleted_at: string | null;
+}
+
+// 回收站服务选项
+export interface TrashServiceOptions {
+  // 媒体文件所在的存储桶
+  mediaBucket?: string;
+  // 每批永久删除的数量
+  batchSize?: number;
+}
+
+// 移入回收站选项
+export interface TrashMoveOptions {
+  deletedBy?: string | null;
+}
+
+// 列出回收站选项
+export interface TrashListOptions {
+  // 只列出该用户创建的内容
+  authorId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// 恢复结果；文章列出重新关联的分类、标签，以及已被删除而无法关联的
+export interface TrashRestoreResult {
+  type: TrashType;
+  id: string;
+  relinked: { categoryIds: string[]; tagIds: string[] };
+  missing: { categoryIds: string[]; tagIds: string[] };
+}
+
+// 清理结果
+export interface TrashPurgeResult {
+  purged: Record<TrashType, number>;
+  failed: number;
+  // 删除时间早于该时间的条目被清理；不自动清理时为 null
+  cutoff: string | null;
+}
+
+export const TRASH_TYPES: TrashType[] = ['post', 'comment', 'media'];
+
+// 类型名称
+export const TRASH_TYPE_LABELS: Record<TrashType, string> = {
+  post: '文章',
+  comment: '评论',
+  media: '媒体文件',
+};
+
+// 各类型对应的表
+const TRASH_TABLES = {
+  post: 'posts',
+  comment: 'comments',
+  media: 'media',
+} as const;
+type TrashTable = typeof TRASH_TABLES[TrashType];
+
+// 默认保留 30 天
+const DEFAULT_RETENTION_DAYS = 30;
+
+// 默认媒体存储桶
+const DEFAULT_MEDIA_BUCKET = 'blog-images';
+
+// 默认每批永久删除 100 条
+const DEFAULT_BATCH_SIZE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 回收站中的条目，可按创建者筛选
+function inTrash<Q extends { eq(column: 'status' | 'author_id', value: string): Q }>(query: Q, authorId?: string): Q {
+  const deleted = query.eq('status', 'deleted');
+  return authorId ? deleted.eq('author_id', authorId) : deleted;
+}
+
+/** 判断是否为支持的回收站类型 */
+export function isTrashType(value: unknown): value is TrashType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TRASH_TABLES, value);
+}
+
+export class TrashService {
+  private supabase: SupabaseService;
+  private settings: SettingsStore;
+  private mediaBucket: string;
+  private batchSize: number;
+
+  constructor(
+    supabase: SupabaseService = getSupabaseService(),
+    settings?: SettingsStore,
+    options: TrashServiceOptions = {}
+  ) {
+    this.supabase = supabase;
+    this.settings = settings || new SettingsStore(supabase);
+    this.mediaBucket = options.mediaBucket || DEFAULT_MEDIA_BUCKET;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  }
+
+  // ==================== 移入与恢复 ====================
+
+  // 移入回收站；已在回收站中时返回 false
+  async moveToTrash(type: TrashType, id: string, options: TrashMoveOptions = {}): Promise<boolean> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .rpc('move_to_trash', { p_type: type, p_id: id, p_deleted_by: options.deletedBy || null });
+    if (error) throw error;
+    if (data) return true;
+
+    if (!(await this.find(type, id))) {
+      throw new Error(`${TRASH_TYPE_LABELS[type]}不存在`);
+    }
+    return false;
+  }
+
+  // 从回收站恢复：文章恢复为草稿并重新关联分类和标签，评论恢复为删除前的状态，媒体恢复为可用
+  async restore(type: TrashType, id: string): Promise<TrashRestoreResult> {
+    const entity = await this.find(type, id);
+    if (!entity) {
+      throw new Error(`${TRASH_TYPE_LABELS[type]}不存在`);
+    }
+    const links = type === 'post' ? await this.getDeletedLinks(id) : null;
+
+    const { data, error } = await this.supabase.getServiceClient()
+      .rpc('restore_from_trash', { p_type: type, p_id: id });
+    if (error) throw error;
+    if (!data) {
+      throw new Error(`${TRASH_TYPE_LABELS[type]}不在回收站中`);
+    }
+
+    const result: TrashRestoreResult = {
+      type,
+      id,
+      relinked: { categoryIds: [], tagIds: [] },
+      missing: { categoryIds: [], tagIds: [] },
+    };
+    if (links) {
+      const current = await this.getLinks(id);
+      result.relinked = current;
+      result.missing = {
+        categoryIds: links.category_ids.filter(categoryId => !current.categoryIds.includes(categoryId)),
+        tagIds: links.tag_ids.filter(tagId => !current.tagIds.includes(tagId)),
+      };
+    }
+    return result;
+  }
+
+  // ==================== 查询 ====================
+
+  // 按删除时间倒序列出回收站中的条目
+  async list<T extends TrashType>(type: T, options: TrashListOptions = {}): Promise<{ items: TrashItem<T>[]; total: number }> {
+    const limit = options.limit ?? 20;
+    const offset = options.offset ?? 0;
+    const { rows, total } = await this.fetchTrash(type, options.authorId, offset, offset + limit - 1);
+
+    const retentionDays = await this.getRetentionDays();
+    const items = (rows as TrashItemMap[T][]).map(item => ({
+      ...item,
+      purge_at: retentionDays > 0 && item.deleted_at
+        ? new Date(new Date(item.deleted_at).getTime() + retentionDays * DAY_MS).toISOString()
+        : null,
+    }));
+    return { items, total };
+  }
+
+  // 查询条目的归属与状态（无论是否在回收站中）
+  async find(type: TrashType, id: string): Promise<TrashEntity | null> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from(TRASH_TABLES[type])
+      .select('id, author_id, status, deleted_at')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    return (data as TrashEntity | null) || null;
+  }
+
+  // 读取回收站保留天数，0 表示不自动清理
+  async getRetentionDays(): Promise<number> {
+    const days = Number(await this.settings.get('trash_retention_days', DEFAULT_RETENTION_DAYS));
+    return Number.isFinite(days) ? Math.max(Math.floor(days), 0) : DEFAULT_RETENTION_DAYS;
+  }
+
+  // ==================== 永久删除 ====================
+
+  // 永久删除回收站中的一个条目；不在回收站中时返回 false
+  async purge(type: TrashType, id: string): Promise<boolean> {
+    const entity = await this.find(type, id);
+    if (!entity || entity.status !== 'deleted') return false;
+    return (await this.deleteBatch(type, [id])).length > 0;
+  }
+
+  // 永久删除超过保留期的条目；按 id 游标分页，单批失败只记录日志
+  async purgeExpired(now: Date = new Date()): Promise<TrashPurgeResult> {
+    const result: TrashPurgeResult = { purged: { post: 0, comment: 0, media: 0 }, failed: 0, cutoff: null };
+    const retentionDays = await this.getRetentionDays();
+    if (retentionDays <= 0) return result;
+
+    const cutoff = new Date(now.getTime() - retentionDays * DAY_MS).toISOString();
+    result.cutoff = cutoff;
+
+    for (const type of TRASH_TYPES) {
+      const pages = this.supabase.fetchPages<TrashTable, { id: string }>(TRASH_TABLES[type], 'id', {
+        filter: query => query.eq('status', 'deleted').lt('deleted_at', cutoff),
+        pageSize: this.batchSize,
+      });
+
+      for await (const rows of pages) {
+        const ids = rows.map(row => row.id);
+        try {
+          result.purged[type] += (await this.deleteBatch(type, ids, cutoff)).length;
+        } catch (purgeError) {
+          result.failed += ids.length;
+          console.error(`清理回收站${TRASH_TYPE_LABELS[type]}失败:`, purgeError);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // ==================== 辅助方法 ====================
+
+  // 按删除时间倒序读取一页回收站条目；各表分别书写 select，返回类型由列名推断
+  private async fetchTrash(
+    type: TrashType,
+    authorId: string | undefined,
+    from: number,
+    to: number
+  ): Promise<{ rows: Array<TrashItemMap[TrashType]>; total: number }> {
+    const client = this.supabase.getServiceClient();
+    const order = { ascending: false };
+
+    if (type === 'post') {
+      const { data, error, count } = await inTrash(client
+        .from('posts')
+        .select('id, title, slug, author_id, deleted_at, deleted_by, deleted_links', { count: 'exact' }), authorId)
+        .order('deleted_at', order)
+        .range(from, to);
+      if (error) throw error;
+      const rows: TrashedPost[] = data || [];
+      return { rows, total: count || 0 };
+    }
+
+    if (type === 'comment') {
+      const { data, error, count } = await inTrash(client
+        .from('comments')
+        .select('id, post_id, author_id, guest_name, content, deleted_status, deleted_at, deleted_by', { count: 'exact' }), authorId)
+        .order('deleted_at', order)
+        .range(from, to);
+      if (error) throw error;
+      const rows: TrashedComment[] = data || [];
+      return { rows, total: count || 0 };
+    }
+
+    const { data, error, count } = await inTrash(client
+      .from('media')
+      .select('id, author_id, filename, original_name, file_path, file_url, file_type, file_size, deleted_at, deleted_by', { count: 'exact' }), authorId)
+      .order('deleted_at', order)
+      .range(from, to);
+    if (error) throw error;
+    const rows: TrashedMedia[] = data || [];
+    return { rows, total: count || 0 };
+  }
+
+  // 删除一批仍在回收站中的记录，返回实际删除的 id
+  // 先删除记录（附带状态与删除时间条件，清理期间被恢复的条目不会被删除），媒体再按删除的记录移除存储文件
+  private async deleteBatch(type: TrashType, ids: string[], cutoff?: string): Promise<string[]> {
+    const client = this.supabase.getServiceClient();
+
+    if (type === 'media') {
+      let query = client
+        .from('media')
+        .delete()
+        .in('id', ids)
+        .eq('status', 'deleted');
+      if (cutoff) query = query.lt('deleted_at', cutoff);
+
+      const { data, error } = await query.select('id, file_path');
+      if (error) throw error;
+
+      const rows = (data || []) as Array<{ id: string; file_path: string }>;
+      const paths = rows.map(row => row.file_path);
+      if (paths.length > 0) {
+        // 记录已删除，存储文件删除失败时只留下无引用的文件，不影响结果
+        const { error: storageError } = await client.storage.from(this.mediaBucket).remove(paths);
+        if (storageError) {
+          console.error(`删除媒体存储文件失败（${paths.join(', ')}）:`, storageError);
+        }
+      }
+      return rows.map(row => row.id);
+    }
+
+    let query = client
+      .from(TRASH_TABLES[type])
+      .delete()
+      .in('id', ids)
+      .eq('status', 'deleted');
+    if (cutoff) query = query.lt('deleted_at', cutoff);
+
+    const { data, error } = await query.select('id');
+    if (error) throw error;
+    return ((data || []) as Array<{ id: string }>).map(row => row.id);
+  }
+
+  // 读取文章移入回收站时保存的分类、标签
+  private async getDeletedLinks(postId: string): Promise<{ category_ids: string[]; tag_ids: string[] }> {
+    const { data, error } = await this.supabase.getServiceClient()
+      .from('posts')
+      .select('deleted_links')
+      .eq('id', postId)
+      .maybeSingle();
+    if (error) throw error;
+
+    const links = (data as { deleted_links: { category_ids?: string[]; tag_ids?: string[] } | null } | null)?.deleted_links;
+    return { category_ids: links?.category_ids || [], tag_ids: links?.tag_ids || [] };
+  }
+
+  // 读取文章当前的分类、标签
+  private async getLinks(postId: string): Promise<{ categoryIds: string[]; tagIds: string[] }> {
+    const client = this.supabase.getServiceClient();
+    const [categories, tags] = await Promise.all([
+      client.from('post_categories').select('category_id').eq('post_id', postId),
+      client.from('post_tags').select('tag_id').eq('post_id', postId),
+    ]);
+    if (categories.error) throw categories.error;
+    if (tags.error) throw tags.error;
+    return {
+      categoryIds: ((categories.data || []) as Array<{ category_id: string }>).map(row => row.category_id),
+      tagIds: ((tags.data || []) as Array<{ tag_id: string }>).map(row => row.tag_id),
+    };
+  }
+}
+
+// 命令行入口：永久删除超过保留期的回收站条目
+export async function main() {
+  try {
+    const result = await new TrashService().purgeExpired();
+    if (!result.cutoff) {
+      console.log('ℹ️ 回收站保留天数为 0，不自动清理');
+      process.exit(0);
+    }
+    TRASH_TYPES.forEach(type => console.log(`🗑️ ${TRASH_TYPE_LABELS[type]}: 永久删除 ${result.purged[type]}`));
+    console.log(result.failed > 0 ? `⚠️ 清理完成，${result.failed} 条记录删除失败` : '✅ 清理完成');
+    process.exit(result.failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('❌ 清理回收站失败:', errorMessage(error));
+    process.exit(1);
+  }
+}
+
+// 如果直接运行此文件
+if (require.main === module) {
+  main();
+}
+
+export default TrashService;
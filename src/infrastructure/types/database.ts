@@ -63,6 +63,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
 
       // 文章表
@@ -91,6 +92,9 @@ export interface Database {
           comment_count: number;
           published_at: string | null;
           scheduled_at: string | null;
+          deleted_at: string | null;
+          deleted_by: string | null;
+          deleted_links: { category_ids: string[]; tag_ids: string[] } | null;
           created_at: string;
           updated_at: string;
         };
@@ -118,6 +122,9 @@ export interface Database {
           comment_count?: number;
           published_at?: string | null;
           scheduled_at?: string | null;
+          deleted_at?: string | null;
+          deleted_by?: string | null;
+          deleted_links?: { category_ids: string[]; tag_ids: string[] } | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -145,9 +152,13 @@ export interface Database {
           comment_count?: number;
           published_at?: string | null;
           scheduled_at?: string | null;
+          deleted_at?: string | null;
+          deleted_by?: string | null;
+          deleted_links?: { category_ids: string[]; tag_ids: string[] } | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
 
       // 分类表
@@ -191,6 +202,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
 
       // 标签表
@@ -225,6 +237,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
 
       // 文章分类关联表
@@ -241,6 +254,22 @@ export interface Database {
           post_id?: string;
           category_id?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'post_categories_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'post_categories_category_id_fkey';
+            columns: ['category_id'];
+            isOneToOne: false;
+            referencedRelation: 'categories';
+            referencedColumns: ['id'];
+          },
+        ];
       };
 
       // 文章标签关联表
@@ -257,6 +286,22 @@ export interface Database {
           post_id?: string;
           tag_id?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'post_tags_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'post_tags_tag_id_fkey';
+            columns: ['tag_id'];
+            isOneToOne: false;
+            referencedRelation: 'tags';
+            referencedColumns: ['id'];
+          },
+        ];
       };
 
       // 评论表
@@ -272,6 +317,9 @@ export interface Database {
           content_html: string | null;
           status: 'pending' | 'approved' | 'spam' | 'deleted';
           like_count: number;
+          deleted_at: string | null;
+          deleted_by: string | null;
+          deleted_status: 'pending' | 'approved' | 'spam' | null;
           created_at: string;
           updated_at: string;
         };
@@ -286,6 +334,9 @@ export interface Database {
           content_html?: string | null;
           status?: 'pending' | 'approved' | 'spam' | 'deleted';
           like_count?: number;
+          deleted_at?: string | null;
+          deleted_by?: string | null;
+          deleted_status?: 'pending' | 'approved' | 'spam' | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -300,9 +351,13 @@ export interface Database {
           content_html?: string | null;
           status?: 'pending' | 'approved' | 'spam' | 'deleted';
           like_count?: number;
+          deleted_at?: string | null;
+          deleted_by?: string | null;
+          deleted_status?: 'pending' | 'approved' | 'spam' | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
 
       // 媒体文件表
@@ -324,6 +379,8 @@ export interface Database {
           description: string | null;
           folder_path: string;
           status: 'active' | 'deleted';
+          deleted_at: string | null;
+          deleted_by: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -344,6 +401,8 @@ export interface Database {
           description?: string | null;
           folder_path?: string;
           status?: 'active' | 'deleted';
+          deleted_at?: string | null;
+          deleted_by?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -364,16 +423,19 @@ export interface Database {
           description?: string | null;
           folder_path?: string;
           status?: 'active' | 'deleted';
+          deleted_at?: string | null;
+          deleted_by?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
 
       // 用户活动表
       user_activities: {
         Row: {
           id: string;
-          user_id: string;
+          user_id: string | null;
           activity_type: string;
           activity_data: Record<string, any> | null;
           ip_address: string | null;
@@ -382,7 +444,7 @@ export interface Database {
         };
         Insert: {
           id?: string;
-          user_id: string;
+          user_id?: string | null;
           activity_type: string;
           activity_data?: Record<string, any> | null;
           ip_address?: string | null;
@@ -391,13 +453,14 @@ export interface Database {
         };
         Update: {
           id?: string;
-          user_id?: string;
+          user_id?: string | null;
           activity_type?: string;
           activity_data?: Record<string, any> | null;
           ip_address?: string | null;
           user_agent?: string | null;
           created_at?: string;
         };
+        Relationships: [];
       };
 
       // 系统设置表
@@ -432,6 +495,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
 
       // 搜索索引表
@@ -469,52 +533,75 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
 
       // AI 内容生成表
       ai_content_generations: {
         Row: {
           id: string;
-          user_id: string;
+          user_id: string | null;
           post_id: string | null;
           prompt: string;
           generated_content: string;
           model: string;
           tokens_used: number;
           cost: number;
-          status: 'pending' | 'processing' | 'completed' | 'failed';
+          status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
           error_message: string | null;
           metadata: Record<string, any> | null;
+          request: Record<string, any> | null;
+          attempts: number;
+          max_attempts: number;
+          run_at: string;
+          locked_by: string | null;
+          locked_at: string | null;
+          completed_at: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
-          user_id: string;
+          user_id?: string | null;
           post_id?: string | null;
           prompt: string;
           generated_content: string;
           model: string;
           tokens_used?: number;
           cost?: number;
-          status?: 'pending' | 'processing' | 'completed' | 'failed';
+          status?: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
           error_message?: string | null;
           metadata?: Record<string, any> | null;
+          request?: Record<string, any> | null;
+          attempts?: number;
+          max_attempts?: number;
+          run_at?: string;
+          locked_by?: string | null;
+          locked_at?: string | null;
+          completed_at?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
-          user_id?: string;
+          user_id?: string | null;
           post_id?: string | null;
           prompt?: string;
           generated_content?: string;
           model?: string;
           tokens_used?: number;
           cost?: number;
-          status?: 'pending' | 'processing' | 'completed' | 'failed';
+          status?: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
           error_message?: string | null;
           metadata?: Record<string, any> | null;
+          request?: Record<string, any> | null;
+          attempts?: number;
+          max_attempts?: number;
+          run_at?: string;
+          locked_by?: string | null;
+          locked_at?: string | null;
+          completed_at?: string | null;
           created_at?: string;
         };
+        Relationships: [];
       };
 
       // AI 标签建议表
@@ -525,6 +612,10 @@ export interface Database {
           tag_id: string;
           confidence_score: number;
           suggestion_reason: string | null;
+          status: 'pending' | 'accepted' | 'rejected';
+          source: 'local' | 'ai';
+          reviewed_by: string | null;
+          reviewed_at: string | null;
           created_at: string;
         };
         Insert: {
@@ -533,6 +624,10 @@ export interface Database {
           tag_id: string;
           confidence_score?: number;
           suggestion_reason?: string | null;
+          status?: 'pending' | 'accepted' | 'rejected';
+          source?: 'local' | 'ai';
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
           created_at?: string;
         };
         Update: {
@@ -541,8 +636,28 @@ export interface Database {
           tag_id?: string;
           confidence_score?: number;
           suggestion_reason?: string | null;
+          status?: 'pending' | 'accepted' | 'rejected';
+          source?: 'local' | 'ai';
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'ai_tag_suggestions_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ai_tag_suggestions_tag_id_fkey';
+            columns: ['tag_id'];
+            isOneToOne: false;
+            referencedRelation: 'tags';
+            referencedColumns: ['id'];
+          },
+        ];
       };
 
       // 文章统计表
@@ -592,6 +707,200 @@ export interface Database {
           devices?: Record<string, number> | null;
           created_at?: string;
         };
+        Relationships: [];
+      };
+
+      // 文章版本表
+      post_revisions: {
+        Row: {
+          id: string;
+          post_id: string;
+          revision_number: number;
+          title: string;
+          excerpt: string | null;
+          content: string;
+          seo_title: string | null;
+          seo_description: string | null;
+          seo_keywords: string[] | null;
+          author_id: string | null;
+          message: string | null;
+          restored_from: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          post_id: string;
+          revision_number: number;
+          title: string;
+          excerpt?: string | null;
+          content: string;
+          seo_title?: string | null;
+          seo_description?: string | null;
+          seo_keywords?: string[] | null;
+          author_id?: string | null;
+          message?: string | null;
+          restored_from?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          post_id?: string;
+          revision_number?: number;
+          title?: string;
+          excerpt?: string | null;
+          content?: string;
+          seo_title?: string | null;
+          seo_description?: string | null;
+          seo_keywords?: string[] | null;
+          author_id?: string | null;
+          message?: string | null;
+          restored_from?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+
+      // 文章预览链接表
+      post_preview_links: {
+        Row: {
+          id: string;
+          post_id: string;
+          revision_id: string;
+          created_by: string | null;
+          note: string | null;
+          expires_at: string;
+          revoked_at: string | null;
+          revoked_by: string | null;
+          view_count: number;
+          last_viewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          post_id: string;
+          revision_id: string;
+          created_by?: string | null;
+          note?: string | null;
+          expires_at: string;
+          revoked_at?: string | null;
+          revoked_by?: string | null;
+          view_count?: number;
+          last_viewed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          post_id?: string;
+          revision_id?: string;
+          created_by?: string | null;
+          note?: string | null;
+          expires_at?: string;
+          revoked_at?: string | null;
+          revoked_by?: string | null;
+          view_count?: number;
+          last_viewed_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'post_preview_links_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'post_preview_links_revision_id_fkey';
+            columns: ['revision_id'];
+            isOneToOne: false;
+            referencedRelation: 'post_revisions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+
+      // 别名重定向表
+      slug_redirects: {
+        Row: {
+          id: string;
+          entity_type: 'post' | 'category' | 'tag';
+          entity_id: string;
+          old_slug: string;
+          new_slug: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          entity_type: 'post' | 'category' | 'tag';
+          entity_id: string;
+          old_slug: string;
+          new_slug: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          entity_type?: 'post' | 'category' | 'tag';
+          entity_id?: string;
+          old_slug?: string;
+          new_slug?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+
+      // 别名拼音表
+      slug_pinyin: {
+        Row: {
+          ch: string;
+          pinyin: string;
+        };
+        Insert: {
+          ch: string;
+          pinyin: string;
+        };
+        Update: {
+          ch?: string;
+          pinyin?: string;
+        };
+        Relationships: [];
+      };
+
+      // 内容导入记录表
+      import_records: {
+        Row: {
+          id: string;
+          source: string;
+          entity_type: 'post' | 'comment' | 'media';
+          source_id: string;
+          entity_id: string;
+          checksum: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          source: string;
+          entity_type: 'post' | 'comment' | 'media';
+          source_id: string;
+          entity_id: string;
+          checksum?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          source?: string;
+          entity_type?: 'post' | 'comment' | 'media';
+          source_id?: string;
+          entity_id?: string;
+          checksum?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
     };
     Views: {
@@ -611,6 +920,7 @@ export interface Database {
           category_names: string[];
           tag_names: string[];
         };
+        Relationships: [];
       };
       
       // 用户统计视图
@@ -624,6 +934,7 @@ export interface Database {
           last_login: string | null;
           created_at: string;
         };
+        Relationships: [];
       };
     };
     Functions: {
@@ -633,14 +944,6 @@ export interface Database {
         Returns: string;
       };
       
-      // 生成 slug
-      generate_slug: {
-        Args: {
-          text: string;
-        };
-        Returns: string;
-      };
-      
       // 更新文章计数
       update_post_counts: {
         Args: {
@@ -661,15 +964,134 @@ export interface Database {
       // 获取文章推荐
       get_post_recommendations: {
         Args: {
-          user_id: string;
+          user_id: string | null;
           limit?: number;
         };
         Returns: Array<{
           id: string;
           title: string;
+          slug: string;
           score: number;
+          reasons: Record<string, any>;
+        }>;
+      };
+
+      // 获取相关文章
+      get_related_posts: {
+        Args: {
+          p_post_id: string;
+          p_limit?: number;
+        };
+        Returns: Array<{
+          id: string;
+          title: string;
+          slug: string;
+          score: number;
+          reasons: Record<string, any>;
+        }>;
+      };
+
+      // 发布到期的定时文章
+      publish_scheduled_posts: {
+        Args: {
+          p_now?: string;
+          p_limit?: number;
+        };
+        Returns: Database['public']['Tables']['posts']['Row'][];
+      };
+
+      // 记录文章版本
+      create_post_revision: {
+        Args: {
+          p_post_id: string;
+          p_author_id?: string | null;
+          p_message?: string | null;
+          p_restored_from?: string | null;
+          p_keep?: number;
+        };
+        Returns: Database['public']['Tables']['post_revisions']['Row'][];
+      };
+
+      // 验证文章访问密码（按 IP 限流）
+      verify_post_password: {
+        Args: {
+          p_post_id: string;
+          p_password: string;
+          p_ip_address: string;
+          p_max_failures?: number;
+          p_window?: string;
+        };
+        Returns: Array<{
+          status: 'ok' | 'invalid' | 'rate_limited' | 'not_found' | 'not_protected';
+          retry_after: number | null;
+          password_hash: string | null;
         }>;
       };
+
+      // 使用文章预览链接（有效时累加访问次数）
+      use_post_preview_link: {
+        Args: {
+          p_link_id: string;
+        };
+        Returns: Database['public']['Tables']['post_preview_links']['Row'][];
+      };
+
+      // 由标题生成别名（与 utils/slug.ts 的 generateSlug 一致）
+      slugify_text: {
+        Args: {
+          p_text: string;
+          p_mode?: 'pinyin' | 'unicode';
+          p_max_length?: number;
+          p_fallback?: string;
+        };
+        Returns: string;
+      };
+
+      // 为文章、分类或标签生成不冲突的别名
+      generate_slug: {
+        Args: {
+          p_table: 'posts' | 'categories' | 'tags';
+          p_text: string;
+          p_exclude_id?: string | null;
+        };
+        Returns: string;
+      };
+
+      // 文章 content_html 的 MD5 摘要（计算列，content_html 为空时为 null）
+      content_html_hash: {
+        Args: {
+          p_post: Database['public']['Tables']['posts']['Row'];
+        };
+        Returns: string | null;
+      };
+
+      // 将文章、评论或媒体移入回收站（已在回收站中时返回 false）
+      move_to_trash: {
+        Args: {
+          p_type: 'post' | 'comment' | 'media';
+          p_id: string;
+          p_deleted_by?: string | null;
+        };
+        Returns: boolean;
+      };
+
+      // 从回收站恢复（不在回收站中时返回 false）
+      restore_from_trash: {
+        Args: {
+          p_type: 'post' | 'comment' | 'media';
+          p_id: string;
+        };
+        Returns: boolean;
+      };
+
+      // 领取到期的 AI 任务
+      claim_ai_generation_jobs: {
+        Args: {
+          p_worker_id: string;
+          p_limit?: number;
+        };
+        Returns: Database['public']['Tables']['ai_content_generations']['Row'][];
+      };
     };
     Enums: {
       // 用户角色枚举
@@ -200,8 +200,11 @@ export interface AppConfig {
   };
   ai: {
     enabled: boolean;
-    provider: 'openai' | 'anthropic' | 'local';
+    provider: 'openai' | 'anthropic' | 'local' | 'mock';
     apiKey?: string;
     model?: string;
+    embeddingModel?: string;
+    baseUrl?: string;
+    timeout?: number;
   };
 }
\ No newline at end of file
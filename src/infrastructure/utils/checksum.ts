@@ -0,0 +1,9 @@
+// 内容摘要
+// 依赖 Node 的 crypto，只供服务端模块直接导入，不通过 utils 统一导出
+
+import { createHash } from 'crypto';
+
+/** 内容摘要（SHA-256），非字符串的值先序列化为 JSON */
+export function checksum(value: unknown): string {
+  return createHash('sha256').update(typeof value === 'string' ? value : JSON.stringify(value)).digest('hex');
+}
@@ -0,0 +1,25 @@
+// 命令行工具
+// 供各模块的 main() 入口读取参数、输出错误；读取 process.argv，只供服务端模块直接导入，不通过 utils 统一导出
+
+/**
+ * 命令行参数
+ * 通过 node -e 运行时 argv 中没有脚本路径，返回整个 argv，参数直接在其中查找
+ */
+export function cliArgs(): string[] {
+  return process.argv;
+}
+
+/**
+ * 读取参数值：--name <值>
+ */
+export function argValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 && index + 1 < args.length ? args[index + 1] : undefined;
+}
+
+/**
+ * 错误信息
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
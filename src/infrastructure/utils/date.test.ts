@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatZonedDate,
+  formatZonedDateTime,
+  getTimeZoneOffset,
+  getZonedDateParts,
+  isValidTimeZone,
+  parseZonedDateTime,
+  zonedTimeToUtc,
+} from './date';
+
+// 解析结果的 ISO 字符串，无效时为 null
+function parse(value: string, timeZone: string): string | null {
+  const date = parseZonedDateTime(value, timeZone);
+  return date ? date.toISOString() : null;
+}
+
+describe('getZonedDateParts / formatZonedDate', () => {
+  it('按时区取日期时间分量，跨日时日期随时区变化', () => {
+    const date = '2024-01-15T18:30:00.000Z';
+    expect(getZonedDateParts(date, 'Asia/Shanghai')).toEqual({ year: 2024, month: 1, day: 16, hour: 2, minute: 30, second: 0 });
+    expect(formatZonedDate(date, 'America/Los_Angeles')).toBe('2024-01-15');
+    expect(formatZonedDateTime(date, 'Asia/Kolkata')).toBe('2024-01-16 00:00');
+  });
+
+  it('午夜显示为 00 点', () => {
+    expect(getZonedDateParts('2024-01-15T16:00:00.000Z', 'Asia/Shanghai').hour).toBe(0);
+  });
+});
+
+describe('getTimeZoneOffset', () => {
+  it.each([
+    ['2024-01-15T00:00:00Z', 'Asia/Shanghai', 480],
+    ['2024-01-15T00:00:00Z', 'Asia/Kathmandu', 345],
+    ['2024-01-15T00:00:00Z', 'America/New_York', -300],
+    ['2024-07-15T00:00:00Z', 'America/New_York', -240],
+    ['2024-07-15T00:00:00Z', 'UTC', 0],
+  ])('%s %s → %d', (date, timeZone, offset) => {
+    expect(getTimeZoneOffset(date, timeZone)).toBe(offset);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('把时区下的本地时间换算为 UTC', () => {
+    expect(zonedTimeToUtc({ year: 2024, month: 3, day: 1 }, 'Asia/Shanghai').toISOString()).toBe('2024-02-29T16:00:00.000Z');
+    expect(zonedTimeToUtc({ year: 2024, month: 7, day: 1, hour: 9 }, 'America/New_York').toISOString()).toBe('2024-07-01T13:00:00.000Z');
+  });
+
+  it.each([
+    // 夏令时开始：02:00~03:00 不存在，顺延一小时
+    ['America/New_York', { year: 2024, month: 3, day: 10, hour: 2, minute: 30 }, '2024-03-10T07:30:00.000Z'],
+    ['Europe/Berlin', { year: 2024, month: 3, day: 31, hour: 2, minute: 30 }, '2024-03-31T01:30:00.000Z'],
+    // 夏令时结束：重复的一小时取较早的一次
+    ['America/New_York', { year: 2024, month: 11, day: 3, hour: 1, minute: 30 }, '2024-11-03T05:30:00.000Z'],
+    ['Europe/Berlin', { year: 2024, month: 10, day: 27, hour: 2, minute: 30 }, '2024-10-27T00:30:00.000Z'],
+    // 切换前后的普通时间
+    ['America/New_York', { year: 2024, month: 3, day: 10, hour: 1, minute: 59 }, '2024-03-10T06:59:00.000Z'],
+    ['America/New_York', { year: 2024, month: 3, day: 10, hour: 3 }, '2024-03-10T07:00:00.000Z'],
+    ['America/New_York', { year: 2024, month: 11, day: 3, hour: 2, minute: 30 }, '2024-11-03T07:30:00.000Z'],
+  ])('夏令时切换 %s %j', (timeZone, parts, expected) => {
+    expect(zonedTimeToUtc(parts, timeZone).toISOString()).toBe(expected);
+  });
+});
+
+describe('parseZonedDateTime', () => {
+  it.each([
+    ['2024-01-15 09:00', 'Asia/Shanghai', '2024-01-15T01:00:00.000Z'],
+    ['2024-01-15T09:00:30', 'Asia/Shanghai', '2024-01-15T01:00:30.000Z'],
+    ['2024-01-15', 'Asia/Shanghai', '2024-01-14T16:00:00.000Z'],
+    ['  2024-07-01 09:00  ', 'America/New_York', '2024-07-01T13:00:00.000Z'],
+    ['2024-02-29 23:59:59', 'Asia/Kolkata', '2024-02-29T18:29:59.000Z'],
+    // 带偏移的时间按自身偏移解析，忽略时区参数
+    ['2024-01-15T09:00:00+08:00', 'America/New_York', '2024-01-15T01:00:00.000Z'],
+    ['2024-01-15T01:00:00Z', 'Asia/Shanghai', '2024-01-15T01:00:00.000Z'],
+    // 夏令时开始时不存在的时间顺延
+    ['2024-03-10 02:30', 'America/New_York', '2024-03-10T07:30:00.000Z'],
+  ])('%s（%s）→ %s', (value, timeZone, expected) => {
+    expect(parse(value, timeZone)).toBe(expected);
+  });
+
+  it.each([
+    ['2024-02-30', '不存在的日期'],
+    ['2023-02-29', '非闰年的 2 月 29 日'],
+    ['2024-01-15 24:00', '小时越界'],
+    ['2024-01-15 09:60', '分钟越界'],
+    ['2024-01-15 9:00', '小时缺少前导零'],
+    ['2024/01/15 09:00', '分隔符错误'],
+    ['明天 9 点', '非日期文本'],
+  ])('%s（%s）无效', value => {
+    expect(parse(value, 'Asia/Shanghai')).toBeNull();
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it.each([
+    ['Asia/Shanghai', true],
+    ['UTC', true],
+    ['Mars/Olympus_Mons', false],
+    ['', false],
+  ])('%s → %s', (timeZone, expected) => {
+    expect(isValidTimeZone(timeZone)).toBe(expected);
+  });
+});
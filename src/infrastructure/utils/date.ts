@@ -430,6 +430,128 @@ export function fromUTC(date: Date | string | number): Date {
   return new Date(d.getTime() - d.getTimezoneOffset() * 60000);
 }
 
+/**
+ * 时区下的日期时间分量
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * 获取指定时区（IANA 名称，如 Asia/Shanghai）下的日期时间分量
+ */
+export function getZonedDateParts(date: Date | string | number, timeZone: string): ZonedDateParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+  const values: Record<string, number> = {};
+  formatter.formatToParts(new Date(date)).forEach(part => {
+    if (part.type !== 'literal') values[part.type] = parseInt(part.value, 10);
+  });
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+  };
+}
+
+/**
+ * 获取指定时区相对 UTC 的偏移（分钟，东八区为 480）
+ */
+export function getTimeZoneOffset(date: Date | string | number, timeZone: string): number {
+  const d = new Date(date);
+  const parts = getZonedDateParts(d, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(d.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * 将指定时区的本地时间转换为 UTC 时间
+ * 夏令时开始时不存在的本地时间按切换前的偏移换算（即顺延，如 02:30 → 03:30）；
+ * 夏令时结束时重复出现的本地时间取较早的一次
+ */
+export function zonedTimeToUtc(
+  parts: Pick<ZonedDateParts, 'year' | 'month' | 'day'> & Partial<ZonedDateParts>,
+  timeZone: string
+): Date {
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour || 0, parts.minute || 0, parts.second || 0);
+  // 前后一天的偏移即切换前、后的偏移（假定一天内最多切换一次）
+  const before = getTimeZoneOffset(local - 86400000, timeZone);
+  const after = getTimeZoneOffset(local + 86400000, timeZone);
+  const candidates = [local - before * 60000, local - after * 60000]
+    .filter((time, index) => getTimeZoneOffset(time, timeZone) === (index === 0 ? before : after));
+  return new Date(candidates.length > 0 ? Math.min(...candidates) : local - before * 60000);
+}
+
+/**
+ * 格式化指定时区下的日期（YYYY-MM-DD）
+ */
+export function formatZonedDate(date: Date | string | number, timeZone: string): string {
+  const { year, month, day } = getZonedDateParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * 格式化指定时区下的日期时间（YYYY-MM-DD HH:mm）
+ */
+export function formatZonedDateTime(date: Date | string | number, timeZone: string): string {
+  const { hour, minute } = getZonedDateParts(date, timeZone);
+  return `${formatZonedDate(date, timeZone)} ${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/**
+ * 检查是否为有效的 IANA 时区名称
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 解析指定时区下的本地日期时间（YYYY-MM-DD[ HH:mm[:ss]]，T 分隔亦可）
+ * 带 Z 或 ±HH:mm 偏移的字符串按其自身偏移解析
+ */
+export function parseZonedDateTime(value: string, timeZone: string): Date | null {
+  const text = value.trim();
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+    return parseDate(text);
+  }
+
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute, second] = match.slice(1).map(part => (part ? parseInt(part, 10) : 0));
+  if (hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+
+  // 2 月 30 日等不存在的日期会被顺延，转换回本地日期后不一致即视为无效
+  const result = zonedTimeToUtc({ year, month, day, hour, minute, second }, timeZone);
+  const check = getZonedDateParts(result, timeZone);
+  return check.year === year && check.month === month && check.day === day ? result : null;
+}
+
 /**
  * 获取季度
  */
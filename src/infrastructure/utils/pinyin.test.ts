@@ -0,0 +1,89 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { PINYIN_TABLE } from './pinyin';
+import { generateSlug, toPinyin } from './slug';
+
+// 数据库中的拼音数据
+const MIGRATION = join(__dirname, '../../../supabase/migrations/20240115000014_cjk_slugs.sql');
+
+// 读取迁移中 slug_pinyin 的 VALUES 数据
+function migrationTable(): Record<string, string> {
+  const sql = readFileSync(MIGRATION, 'utf8');
+  const start = sql.indexOf('INSERT INTO slug_pinyin');
+  const end = sql.indexOf(') AS v(pinyin, chars)', start);
+  const table: Record<string, string> = {};
+  for (const match of sql.slice(start, end).matchAll(/\('([a-z]+)', '([^']*)'\)/g)) {
+    table[match[1]] = match[2];
+  }
+  return table;
+}
+
+describe('PINYIN_TABLE', () => {
+  it('拼音为不带声调的小写字母，ü 写作 v', () => {
+    Object.keys(PINYIN_TABLE).forEach(syllable => {
+      expect(syllable).toMatch(/^[a-z]{1,6}$/);
+      expect(syllable).not.toMatch(/u:|ü/);
+    });
+    expect(PINYIN_TABLE.lv).toContain('绿');
+    expect(PINYIN_TABLE.nv).toContain('女');
+  });
+
+  it('只包含 CJK 统一表意文字，每个字只有一个读音', () => {
+    const seen = new Map<string, string>();
+    Object.entries(PINYIN_TABLE).forEach(([syllable, chars]) => {
+      expect(chars.length).toBeGreaterThan(0);
+      for (const char of chars) {
+        expect(char).toMatch(/^[\u4e00-\u9fff]$/);
+        expect(seen.get(char), `${char} 同时出现在 ${seen.get(char)} 与 ${syllable}`).toBeUndefined();
+        seen.set(char, syllable);
+      }
+    });
+    expect(seen.size).toBeGreaterThan(20000);
+  });
+
+  it('与数据库迁移中的拼音数据一致', () => {
+    expect(migrationTable()).toEqual(PINYIN_TABLE);
+  });
+});
+
+describe('toPinyin', () => {
+  it('返回常用字的默认读音', () => {
+    expect(toPinyin('中')).toBe('zhong');
+    expect(toPinyin('文')).toBe('wen');
+    expect(toPinyin('博')).toBe('bo');
+    expect(toPinyin('客')).toBe('ke');
+    expect(toPinyin('乐')).toBe('le');
+  });
+
+  it('不在拼音表中的字符返回 null', () => {
+    expect(toPinyin('a')).toBeNull();
+    expect(toPinyin('あ')).toBeNull();
+    expect(toPinyin('')).toBeNull();
+  });
+});
+
+describe('generateSlug', () => {
+  it('汉字转写为拼音，用连字符分隔', () => {
+    expect(generateSlug('中文博客')).toBe('zhong-wen-bo-ke');
+    expect(generateSlug('Vue3 入门：组件与 Props')).toBe('vue3-ru-men-zu-jian-yu-props');
+  });
+
+  it('unicode 模式保留中日韩文字', () => {
+    expect(generateSlug('中文 Blog！', { mode: 'unicode' })).toBe('中文-blog');
+  });
+
+  it('全角字符先转为半角，拉丁字母去掉附加符号', () => {
+    expect(generateSlug('ＡＢＣ１２３')).toBe('abc123');
+    expect(generateSlug('Crème Brûlée straße')).toBe('creme-brulee-strasse');
+  });
+
+  it('没有可用字符时使用默认别名', () => {
+    expect(generateSlug('！？…')).toBe('untitled');
+    expect(generateSlug('', { fallback: 'post' })).toBe('post');
+  });
+
+  it('按最大长度在连字符处截断', () => {
+    expect(generateSlug('中文博客系统', { maxLength: 12 })).toBe('zhong-wen-bo');
+  });
+});
@@ -0,0 +1,126 @@
+// URL 别名生成
+// 汉字转写为拼音（或保留为可读的 Unicode），冲突时追加数字后缀
+// 规则与数据库的 slugify_text / generate_slug 一致，两边对同一标题生成相同的别名
+
+import { PINYIN_TABLE } from './pinyin';
+
+// 别名生成方式：pinyin 将汉字转写为拼音；unicode 保留中日韩文字
+export type SlugMode = 'pinyin' | 'unicode';
+
+// 别名生成选项
+export interface SlugOptions {
+  mode?: SlugMode;
+  // 最大长度（字符数）
+  maxLength?: number;
+  // 标题中没有可用字符时使用的别名
+  fallback?: string;
+}
+
+export const SLUG_MODES: SlugMode[] = ['pinyin', 'unicode'];
+
+// 默认最大长度（posts.slug 为 VARCHAR(200)）
+export const DEFAULT_SLUG_MAX_LENGTH = 200;
+
+// 默认别名
+export const DEFAULT_SLUG_FALLBACK = 'untitled';
+
+// 不能通过去掉附加符号转换为 ASCII 的拉丁字母
+const LATIN_FOLDS: Record<string, string> = {
+  'ß': 'ss', 'ẞ': 'ss', 'æ': 'ae', 'Æ': 'ae', 'œ': 'oe', 'Œ': 'oe', 'ø': 'o', 'Ø': 'o',
+  'đ': 'd', 'Đ': 'd', 'ð': 'd', 'Ð': 'd', 'ł': 'l', 'Ł': 'l', 'þ': 'th', 'Þ': 'th', 'ı': 'i',
+};
+
+// 带附加符号的拉丁字母
+const LATIN_EXTENDED_PATTERN = /^[\u00c0-\u024f]$/;
+const COMBINING_MARK_PATTERN = /[\u0300-\u036f]/g;
+
+// unicode 模式保留的文字：汉字、假名、谚文
+const UNICODE_WORD_PATTERN = /^[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7a3]$/;
+
+// 汉字到拼音的索引，首次使用时构建
+let pinyinIndex: Map<string, string> | null = null;
+
+// 获取拼音索引
+function getPinyinIndex(): Map<string, string> {
+  if (!pinyinIndex) {
+    pinyinIndex = new Map();
+    for (const [syllable, chars] of Object.entries(PINYIN_TABLE)) {
+      for (const char of chars) pinyinIndex.set(char, syllable);
+    }
+  }
+  return pinyinIndex;
+}
+
+/** 单个汉字的拼音（不带声调），不在拼音表中时返回 null */
+export function toPinyin(char: string): string | null {
+  return getPinyinIndex().get(char) ?? null;
+}
+
+/** 判断是否为支持的别名生成方式 */
+export function isSlugMode(value: unknown): value is SlugMode {
+  return typeof value === 'string' && (SLUG_MODES as string[]).includes(value);
+}
+
+/** 截断别名：尽量在连字符处截断，不保留首尾连字符 */
+export function truncateSlug(slug: string, maxLength: number): string {
+  if (slug.length <= maxLength) return slug;
+
+  let cut = slug.slice(0, maxLength);
+  if (slug[maxLength] !== '-' && cut.includes('-')) {
+    cut = cut.slice(0, cut.lastIndexOf('-'));
+  }
+  return cut.replace(/^-+|-+$/g, '');
+}
+
+/** 由标题生成别名 */
+export function generateSlug(text: string, options: SlugOptions = {}): string {
+  const mode = options.mode ?? 'pinyin';
+  const maxLength = options.maxLength ?? DEFAULT_SLUG_MAX_LENGTH;
+  const index = getPinyinIndex();
+  let output = '';
+
+  for (const char of (text || '').normalize('NFKC')) {
+    const folded = LATIN_FOLDS[char];
+    if (folded) {
+      output += folded;
+    } else if (/^[A-Za-z0-9]$/.test(char)) {
+      output += char.toLowerCase();
+    } else if (LATIN_EXTENDED_PATTERN.test(char)) {
+      const base = char.normalize('NFD').replace(COMBINING_MARK_PATTERN, '');
+      output += /^[A-Za-z]+$/.test(base) ? base.toLowerCase() : '-';
+    } else if (mode === 'pinyin' && index.has(char)) {
+      output += `-${index.get(char)}-`;
+    } else if (mode === 'unicode' && UNICODE_WORD_PATTERN.test(char)) {
+      output += char;
+    } else {
+      output += '-';
+    }
+  }
+
+  const slug = truncateSlug(output.replace(/-+/g, '-').replace(/^-|-$/g, ''), maxLength);
+  return slug || options.fallback || DEFAULT_SLUG_FALLBACK;
+}
+
+/** 生成别名，与 generateSlug 相同 */
+export function slugify(str: string, options: SlugOptions = {}): string {
+  return generateSlug(str, options);
+}
+
+/** 给别名追加数字后缀（-2、-3 …），保证总长度不超过 maxLength */
+export function suffixSlug(slug: string, n: number, maxLength: number = DEFAULT_SLUG_MAX_LENGTH): string {
+  const suffix = `-${n}`;
+  return `${truncateSlug(slug, maxLength - suffix.length)}${suffix}`;
+}
+
+/** 生成不冲突的别名：依次尝试 slug、slug-2、slug-3 … */
+export async function uniqueSlug(
+  slug: string,
+  isTaken: (candidate: string) => boolean | Promise<boolean>,
+  maxLength: number = DEFAULT_SLUG_MAX_LENGTH
+): Promise<string> {
+  let candidate = slug;
+  for (let n = 2; await isTaken(candidate); n++) {
+    candidate = suffixSlug(slug, n, maxLength);
+  }
+  return candidate;
+}
@@ -1,6 +1,8 @@
 // 字符串工具函数
 // 提供字符串处理、验证和转换等功能
 
+export { countMixedWords, countOccurrences, countWords } from './words';
+
 /**
  * 首字母大写
  */
@@ -403,18 +405,6 @@ export function highlight(text: string, keyword: string, highlightClass: string
   return text.replace(regex, `<span class="${highlightClass}">$1</span>`);
 }
 
-/**
- * 生成slug
- */
-export function slugify(str: string): string {
-  return str
-    .toLowerCase()
-    .replace(/[^\w\s-]/g, '') // 移除特殊字符
-    .replace(/\s+/g, '-') // 替换空格为短横线
-    .replace(/-+/g, '-') // 合并多个短横线
-    .trim();
-}
-
 /**
  * 从slug生成标题
  */
@@ -486,13 +476,6 @@ export function countCharacters(str: string): number {
   return str.length;
 }
 
-/**
- * 统计单词数
- */
-export function countWords(str: string): number {
-  return getWords(str).length;
-}
-
 /**
  * 统计句子数
  */
@@ -507,18 +490,6 @@ export function countParagraphs(str: string): number {
   return getParagraphs(str).length;
 }
 
-/**
- * 计算阅读时间
- */
-export function readingTime(str: string, wordsPerMinute: number = 200): string {
-  const words = countWords(str);
-  const minutes = Math.ceil(words / wordsPerMinute);
-  
-  if (minutes < 1) return '少于1分钟';
-  if (minutes === 1) return '1分钟';
-  return `${minutes}分钟`;
-}
-
 /**
  * 检查字符串是否为回文
  */
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { countMixedWords, countOccurrences, countWords } from './words';
+
+describe('countMixedWords', () => {
+  it.each([
+    ['', 0, 0],
+    ['你好，世界', 4, 0],
+    ['Hello, world!', 0, 2],
+    ['使用TypeScript编写', 4, 1],
+    ["don't over-engineer it", 0, 3],
+    ['2024 年 3 月', 2, 2],
+    ['ひらがな カタカナ 한국어', 11, 0],
+    ['café naïve', 0, 2],
+    ['—— … · ！', 0, 0],
+  ])('%j → %d 字、%d 词', (text, cjk, words) => {
+    expect(countMixedWords(text)).toEqual({ cjk, words });
+    expect(countWords(text)).toBe(cjk + words);
+  });
+});
+
+describe('countOccurrences', () => {
+  it.each([
+    ['React 与 react hooks', 'React', 2],
+    ['Preact 不是 React', 'react', 1],
+    ['TypeScript 和 JavaScript', 'script', 0],
+    ['前端框架与前端工程', '前端', 2],
+    ['C++ 与 c++ 标准，不含 C++20', 'c++', 2],
+    ['任意文本', '  ', 0],
+  ])('%s 中的 %s', (text, term, count) => {
+    expect(countOccurrences(text, term)).toBe(count);
+  });
+});
@@ -0,0 +1,37 @@
+// 字数统计
+// 中日韩文字按字、其他语言按单词统计；SEO 分析、标签建议与内容统计共用同一套规则
+
+// 按字统计的文字：汉字、假名、谚文
+const CJK_CHAR_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7a3\uf900-\ufaff]/g;
+
+// 按单词统计的文字：字母或数字开头，可以包含撇号与连字符
+const LATIN_WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}'\u2019-]*/gu;
+
+/**
+ * 分别统计中日韩文字数与其他语言的单词数
+ */
+export function countMixedWords(str: string): { cjk: number; words: number } {
+  if (!str) return { cjk: 0, words: 0 };
+  const cjk = (str.match(CJK_CHAR_PATTERN) || []).length;
+  const words = (str.replace(CJK_CHAR_PATTERN, ' ').match(LATIN_WORD_PATTERN) || []).length;
+  return { cjk, words };
+}
+
+/**
+ * 统计字数：中日韩文字按字，其他语言按单词
+ */
+export function countWords(str: string): number {
+  const { cjk, words } = countMixedWords(str);
+  return cjk + words;
+}
+
+/**
+ * 统计词语在文本中出现的次数（忽略大小写；字母或数字开头的词按单词边界匹配）
+ */
+export function countOccurrences(str: string, term: string): number {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return 0;
+  const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = /^[a-z0-9]/.test(needle) ? `(?<![a-z0-9])${escaped}(?![a-z0-9])` : escaped;
+  return (str.toLowerCase().match(new RegExp(pattern, 'g')) || []).length;
+}
@@ -0,0 +1,12 @@
+-- MCP 工具调用审计
+-- 工具调用记录写入 user_activities，activity_type = 'mcp_tool_call'，详情保存在 activity_data 中
+-- 匿名调用（stdio 未指定 MCP_USER_ID）的 user_id 为空
+
+-- 创建审计查询索引
+CREATE INDEX IF NOT EXISTS idx_user_activities_mcp_tool
+    ON user_activities ((activity_data->>'tool'), created_at DESC)
+    WHERE activity_type = 'mcp_tool_call';
+
+CREATE INDEX IF NOT EXISTS idx_user_activities_mcp_session
+    ON user_activities ((activity_data->>'session_id'))
+    WHERE activity_type = 'mcp_tool_call';
@@ -0,0 +1,17 @@
+-- AI 费用与配额
+-- ai_content_generations.cost 由 AIService 按模型价格计算写入，预算与价格覆盖项保存在 settings 中
+
+-- 创建按用户、时间汇总费用的索引
+CREATE INDEX IF NOT EXISTS idx_ai_content_generations_user_created
+    ON ai_content_generations(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ai_content_generations_model
+    ON ai_content_generations(model);
+
+-- 插入 AI 费用相关设置
+-- ai_monthly_budgets：月度预算（美元），users 中的用户配置优先于 roles，null 表示不限额
+-- ai_model_pricing：模型价格覆盖项（美元 / 百万 Token），如 {"gpt-4o": {"input": 2.5, "output": 10}}
+INSERT INTO settings (key, value, description, type, is_system) VALUES
+('ai_monthly_budgets', '{"roles": {"user": 5, "moderator": 20, "admin": null}, "users": {}}', 'AI 月度预算(美元)', 'json', true),
+('ai_model_pricing', '{}', 'AI 模型价格覆盖(美元/百万 Token)', 'json', true)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,55 @@
+-- AI 异步任务队列
+-- ai_content_generations 中 status = 'pending' 的记录作为待执行任务，由 AIJobQueue 领取、执行并写回结果
+
+-- 增加 cancelled 状态
+ALTER TABLE ai_content_generations DROP CONSTRAINT IF EXISTS ai_content_generations_status_check;
+ALTER TABLE ai_content_generations ADD CONSTRAINT ai_content_generations_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled'));
+
+-- 任务字段
+-- request：提交时的补全请求；attempts / max_attempts：已执行次数与上限；run_at：最早执行时间（重试退避）
+-- locked_by / locked_at：领取任务的工作进程与领取时间
+ALTER TABLE ai_content_generations
+    ADD COLUMN IF NOT EXISTS request JSONB,
+    ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3,
+    ADD COLUMN IF NOT EXISTS run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ADD COLUMN IF NOT EXISTS locked_by VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+-- 创建待执行任务索引
+CREATE INDEX IF NOT EXISTS idx_ai_content_generations_pending
+    ON ai_content_generations(run_at)
+    WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_ai_content_generations_processing
+    ON ai_content_generations(locked_at)
+    WHERE status = 'processing';
+
+-- 领取到期的待执行任务
+-- FOR UPDATE SKIP LOCKED 保证多个工作进程并发领取时每个任务只会被领取一次
+CREATE OR REPLACE FUNCTION claim_ai_generation_jobs(p_worker_id VARCHAR, p_limit INTEGER DEFAULT 1)
+RETURNS SETOF ai_content_generations AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE ai_content_generations AS g
+    SET status = 'processing',
+        attempts = g.attempts + 1,
+        locked_by = p_worker_id,
+        locked_at = NOW(),
+        error_message = NULL
+    WHERE g.id IN (
+        SELECT id FROM ai_content_generations
+        WHERE status = 'pending' AND request IS NOT NULL AND run_at <= NOW()
+        ORDER BY run_at
+        LIMIT GREATEST(p_limit, 0)
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING g.*;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- 领取函数只允许服务端调用
+REVOKE ALL ON FUNCTION claim_ai_generation_jobs(VARCHAR, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_ai_generation_jobs(VARCHAR, INTEGER) TO service_role;
@@ -0,0 +1,28 @@
+-- 标签建议的采纳反馈
+-- status 记录建议是否被采纳；已采纳 / 已拒绝的记录作为反馈参与后续评分
+
+-- 建议状态与来源
+-- status：pending 待处理，accepted 已采纳（同时写入 post_tags），rejected 已拒绝（不再为该文章建议此标签）
+-- source：local 本地模型，ai 经 AI 提供者复核
+ALTER TABLE ai_tag_suggestions
+    ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'accepted', 'rejected')),
+    ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'local'
+        CHECK (source IN ('local', 'ai')),
+    ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+-- 创建按文章、状态查询的索引
+CREATE INDEX IF NOT EXISTS idx_ai_tag_suggestions_post_status
+    ON ai_tag_suggestions(post_id, status);
+
+-- 创建反馈统计索引
+CREATE INDEX IF NOT EXISTS idx_ai_tag_suggestions_feedback
+    ON ai_tag_suggestions(tag_id, status)
+    WHERE status <> 'pending';
+
+-- 作者可以处理自己文章的标签建议
+CREATE POLICY "Authors can review AI tag suggestions" ON ai_tag_suggestions
+    FOR UPDATE USING (auth.uid() IN (
+        SELECT author_id FROM posts WHERE id = ai_tag_suggestions.post_id
+    ));
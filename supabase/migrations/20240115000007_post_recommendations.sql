@@ -0,0 +1,228 @@
+-- 文章推荐
+-- get_post_recommendations：按用户阅读历史推荐文章；get_related_posts：按文章推荐相关文章
+-- 阅读记录保存在 user_activities（activity_type = 'post_view'，activity_data = {"post_id": "..."}）
+-- 每条结果的 reasons 列出各信号的得分、权重和依据，便于解释推荐原因
+
+-- 创建阅读记录索引
+CREATE INDEX IF NOT EXISTS idx_user_activities_post_view
+    ON user_activities((activity_data->>'post_id'), user_id, created_at DESC)
+    WHERE activity_type = 'post_view';
+
+CREATE INDEX IF NOT EXISTS idx_user_activities_user_post_view
+    ON user_activities(user_id, created_at DESC)
+    WHERE activity_type = 'post_view';
+
+-- 相关文章
+-- 信号与权重：共同标签（Jaccard）0.4，共同分类 0.2，共同阅读 0.25，近 30 天热度 0.1，发布时间 0.05
+CREATE OR REPLACE FUNCTION get_related_posts(p_post_id UUID, p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (id UUID, title VARCHAR, slug VARCHAR, score NUMERIC, reasons JSONB) AS $$
+    WITH candidates AS (
+        SELECT p.id, p.title, p.slug, COALESCE(p.published_at, p.created_at) AS published_at
+        FROM posts p
+        WHERE p.id <> p_post_id AND p.status = 'published' AND p.visibility = 'public'
+    ),
+    source_tags AS (
+        SELECT tag_id FROM post_tags WHERE post_id = p_post_id
+    ),
+    tag_scores AS (
+        SELECT pt.post_id,
+               COUNT(*) FILTER (WHERE st.tag_id IS NOT NULL) AS shared,
+               COUNT(*) AS total,
+               array_agg(t.name ORDER BY t.name) FILTER (WHERE st.tag_id IS NOT NULL) AS names
+        FROM post_tags pt
+        JOIN tags t ON t.id = pt.tag_id
+        LEFT JOIN source_tags st ON st.tag_id = pt.tag_id
+        WHERE pt.post_id IN (SELECT id FROM candidates)
+        GROUP BY pt.post_id
+    ),
+    source_categories AS (
+        SELECT category_id FROM post_categories WHERE post_id = p_post_id
+    ),
+    category_scores AS (
+        SELECT pc.post_id, COUNT(*) AS shared, array_agg(c.name ORDER BY c.name) AS names
+        FROM post_categories pc
+        JOIN source_categories sc ON sc.category_id = pc.category_id
+        JOIN categories c ON c.id = pc.category_id
+        GROUP BY pc.post_id
+    ),
+    source_viewers AS (
+        SELECT DISTINCT ua.user_id
+        FROM user_activities ua
+        WHERE ua.activity_type = 'post_view'
+          AND ua.activity_data->>'post_id' = p_post_id::text
+          AND ua.user_id IS NOT NULL
+          AND ua.created_at > NOW() - INTERVAL '180 days'
+    ),
+    coviews AS (
+        SELECT ua.activity_data->>'post_id' AS post_key, COUNT(DISTINCT ua.user_id) AS viewers
+        FROM user_activities ua
+        JOIN source_viewers sv ON sv.user_id = ua.user_id
+        WHERE ua.activity_type = 'post_view'
+          AND ua.created_at > NOW() - INTERVAL '180 days'
+        GROUP BY ua.activity_data->>'post_id'
+    ),
+    popularity AS (
+        SELECT pa.post_id, SUM(pa.views) AS views
+        FROM post_analytics pa
+        WHERE pa.date > CURRENT_DATE - 30
+        GROUP BY pa.post_id
+    ),
+    signals AS (
+        SELECT c.id, c.title, c.slug, c.published_at,
+               COALESCE(ts.shared, 0) AS shared_tags,
+               CASE WHEN COALESCE(ts.shared, 0) = 0 THEN 0
+                    ELSE ts.shared::NUMERIC / ((SELECT COUNT(*) FROM source_tags) + ts.total - ts.shared) END AS tag_score,
+               COALESCE(ts.names, ARRAY[]::VARCHAR[]) AS tag_names,
+               CASE WHEN (SELECT COUNT(*) FROM source_categories) = 0 THEN 0
+                    ELSE COALESCE(cs.shared, 0)::NUMERIC / (SELECT COUNT(*) FROM source_categories) END AS category_score,
+               COALESCE(cs.names, ARRAY[]::VARCHAR[]) AS category_names,
+               COALESCE(cv.viewers, 0) AS coviewers,
+               CASE WHEN (SELECT COUNT(*) FROM source_viewers) = 0 THEN 0
+                    ELSE LEAST(COALESCE(cv.viewers, 0)::NUMERIC / (SELECT COUNT(*) FROM source_viewers), 1) END AS coview_score,
+               COALESCE(pop.views, 0) AS views_30d,
+               EXTRACT(EPOCH FROM (NOW() - c.published_at)) / 86400 AS age_days
+        FROM candidates c
+        LEFT JOIN tag_scores ts ON ts.post_id = c.id
+        LEFT JOIN category_scores cs ON cs.post_id = c.id
+        LEFT JOIN coviews cv ON cv.post_key = c.id::text
+        LEFT JOIN popularity pop ON pop.post_id = c.id
+    ),
+    scored AS (
+        SELECT s.*,
+               CASE WHEN MAX(s.views_30d) OVER () = 0 THEN 0
+                    ELSE LN(1 + s.views_30d) / LN(1 + MAX(s.views_30d) OVER ()) END AS popularity_score,
+               EXP(-GREATEST(s.age_days, 0) / 90) AS recency_score
+        FROM signals s
+    )
+    SELECT s.id, s.title, s.slug,
+           ROUND((0.4 * s.tag_score + 0.2 * s.category_score + 0.25 * s.coview_score
+                  + 0.1 * s.popularity_score + 0.05 * s.recency_score)::NUMERIC, 4) AS score,
+           jsonb_build_object(
+               'tags', jsonb_build_object('score', ROUND(s.tag_score, 4), 'weight', 0.4, 'shared', to_jsonb(s.tag_names)),
+               'categories', jsonb_build_object('score', ROUND(s.category_score, 4), 'weight', 0.2, 'shared', to_jsonb(s.category_names)),
+               'co_views', jsonb_build_object('score', ROUND(s.coview_score, 4), 'weight', 0.25, 'viewers', s.coviewers),
+               'popularity', jsonb_build_object('score', ROUND(s.popularity_score::NUMERIC, 4), 'weight', 0.1, 'views_30d', s.views_30d),
+               'recency', jsonb_build_object('score', ROUND(s.recency_score::NUMERIC, 4), 'weight', 0.05, 'age_days', FLOOR(s.age_days))
+           ) AS reasons
+    FROM scored s
+    WHERE s.tag_score > 0 OR s.category_score > 0 OR s.coview_score > 0
+    ORDER BY score DESC, s.published_at DESC
+    LIMIT GREATEST(p_limit, 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 个性化推荐
+-- 阅读历史（近 180 天，按最后阅读时间衰减）决定标签、分类偏好；与该用户读过相同文章的其他用户构成共同阅读信号
+-- 信号与权重：标签偏好 0.3，分类偏好 0.15，共同阅读 0.25，近 30 天热度 0.15，发布时间 0.15
+-- 非服务端调用只能读取自己的阅读历史；没有历史（含匿名）时按热度和发布时间推荐
+CREATE OR REPLACE FUNCTION get_post_recommendations(user_id UUID, "limit" INTEGER DEFAULT 10)
+RETURNS TABLE (id UUID, title VARCHAR, slug VARCHAR, score NUMERIC, reasons JSONB) AS $$
+    WITH viewer AS (
+        SELECT get_post_recommendations.user_id AS id
+        WHERE auth.role() = 'service_role' OR get_post_recommendations.user_id = auth.uid()
+    ),
+    history AS (
+        SELECT (ua.activity_data->>'post_id')::UUID AS post_id,
+               EXP(-EXTRACT(EPOCH FROM (NOW() - MAX(ua.created_at))) / 86400 / 60) AS weight
+        FROM user_activities ua
+        JOIN viewer v ON v.id = ua.user_id
+        WHERE ua.activity_type = 'post_view'
+          AND ua.activity_data->>'post_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+          AND ua.created_at > NOW() - INTERVAL '180 days'
+        GROUP BY ua.activity_data->>'post_id'
+    ),
+    candidates AS (
+        SELECT p.id, p.title, p.slug, COALESCE(p.published_at, p.created_at) AS published_at
+        FROM posts p
+        WHERE p.status = 'published' AND p.visibility = 'public'
+          AND p.id NOT IN (SELECT post_id FROM history)
+          AND p.author_id IS DISTINCT FROM get_post_recommendations.user_id
+    ),
+    tag_preferences AS (
+        SELECT pt.tag_id, SUM(h.weight) AS weight
+        FROM history h JOIN post_tags pt ON pt.post_id = h.post_id
+        GROUP BY pt.tag_id
+    ),
+    tag_affinity AS (
+        SELECT pt.post_id, SUM(tp.weight) AS affinity, array_agg(t.name ORDER BY tp.weight DESC) AS names
+        FROM post_tags pt
+        JOIN tag_preferences tp ON tp.tag_id = pt.tag_id
+        JOIN tags t ON t.id = pt.tag_id
+        GROUP BY pt.post_id
+    ),
+    category_preferences AS (
+        SELECT pc.category_id, SUM(h.weight) AS weight
+        FROM history h JOIN post_categories pc ON pc.post_id = h.post_id
+        GROUP BY pc.category_id
+    ),
+    category_affinity AS (
+        SELECT pc.post_id, SUM(cp.weight) AS affinity, array_agg(c.name ORDER BY cp.weight DESC) AS names
+        FROM post_categories pc
+        JOIN category_preferences cp ON cp.category_id = pc.category_id
+        JOIN categories c ON c.id = pc.category_id
+        GROUP BY pc.post_id
+    ),
+    neighbors AS (
+        SELECT ua.user_id, COUNT(DISTINCT ua.activity_data->>'post_id') AS overlap
+        FROM user_activities ua
+        JOIN history h ON ua.activity_data->>'post_id' = h.post_id::text
+        WHERE ua.activity_type = 'post_view'
+          AND ua.user_id IS NOT NULL
+          AND ua.user_id IS DISTINCT FROM get_post_recommendations.user_id
+          AND ua.created_at > NOW() - INTERVAL '180 days'
+        GROUP BY ua.user_id
+        ORDER BY overlap DESC
+        LIMIT 200
+    ),
+    coviews AS (
+        SELECT ua.activity_data->>'post_id' AS post_key, COUNT(DISTINCT ua.user_id) AS viewers
+        FROM user_activities ua
+        JOIN neighbors n ON n.user_id = ua.user_id
+        WHERE ua.activity_type = 'post_view'
+          AND ua.created_at > NOW() - INTERVAL '180 days'
+        GROUP BY ua.activity_data->>'post_id'
+    ),
+    popularity AS (
+        SELECT pa.post_id, SUM(pa.views) AS views
+        FROM post_analytics pa
+        WHERE pa.date > CURRENT_DATE - 30
+        GROUP BY pa.post_id
+    ),
+    signals AS (
+        SELECT c.id, c.title, c.slug, c.published_at,
+               COALESCE(ta.affinity, 0) AS tag_affinity,
+               COALESCE(ta.names[1:3], ARRAY[]::VARCHAR[]) AS tag_names,
+               COALESCE(ca.affinity, 0) AS category_affinity,
+               COALESCE(ca.names[1:3], ARRAY[]::VARCHAR[]) AS category_names,
+               COALESCE(cv.viewers, 0) AS coviewers,
+               COALESCE(pop.views, 0) AS views_30d,
+               EXTRACT(EPOCH FROM (NOW() - c.published_at)) / 86400 AS age_days
+        FROM candidates c
+        LEFT JOIN tag_affinity ta ON ta.post_id = c.id
+        LEFT JOIN category_affinity ca ON ca.post_id = c.id
+        LEFT JOIN coviews cv ON cv.post_key = c.id::text
+        LEFT JOIN popularity pop ON pop.post_id = c.id
+    ),
+    scored AS (
+        SELECT s.*,
+               COALESCE(s.tag_affinity / NULLIF(MAX(s.tag_affinity) OVER (), 0), 0) AS tag_score,
+               COALESCE(s.category_affinity / NULLIF(MAX(s.category_affinity) OVER (), 0), 0) AS category_score,
+               COALESCE(s.coviewers::NUMERIC / NULLIF(MAX(s.coviewers) OVER (), 0), 0) AS coview_score,
+               COALESCE(LN(1 + s.views_30d) / NULLIF(LN(1 + MAX(s.views_30d) OVER ()), 0), 0) AS popularity_score,
+               EXP(-GREATEST(s.age_days, 0) / 30) AS recency_score
+        FROM signals s
+    )
+    SELECT s.id, s.title, s.slug,
+           ROUND((0.3 * s.tag_score + 0.15 * s.category_score + 0.25 * s.coview_score
+                  + 0.15 * s.popularity_score + 0.15 * s.recency_score)::NUMERIC, 4) AS score,
+           jsonb_build_object(
+               'tags', jsonb_build_object('score', ROUND(s.tag_score::NUMERIC, 4), 'weight', 0.3, 'matched', to_jsonb(s.tag_names)),
+               'categories', jsonb_build_object('score', ROUND(s.category_score::NUMERIC, 4), 'weight', 0.15, 'matched', to_jsonb(s.category_names)),
+               'co_views', jsonb_build_object('score', ROUND(s.coview_score::NUMERIC, 4), 'weight', 0.25, 'viewers', s.coviewers),
+               'popularity', jsonb_build_object('score', ROUND(s.popularity_score::NUMERIC, 4), 'weight', 0.15, 'views_30d', s.views_30d),
+               'recency', jsonb_build_object('score', ROUND(s.recency_score::NUMERIC, 4), 'weight', 0.15, 'age_days', FLOOR(s.age_days)),
+               'history_size', (SELECT COUNT(*) FROM history)
+           ) AS reasons
+    FROM scored s
+    ORDER BY score DESC, s.published_at DESC
+    LIMIT GREATEST(get_post_recommendations."limit", 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
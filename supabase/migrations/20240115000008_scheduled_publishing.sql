@@ -0,0 +1,38 @@
+-- 定时发布
+-- 草稿设置 scheduled_at 后，到期由 publish_scheduled_posts 发布
+-- 函数在同一条 UPDATE 中完成状态修改，并清空 scheduled_at，重复执行或并发执行都不会重复发布
+
+-- 创建到期草稿索引
+CREATE INDEX IF NOT EXISTS idx_posts_scheduled_at
+    ON posts(scheduled_at)
+    WHERE status = 'draft' AND scheduled_at IS NOT NULL;
+
+-- 发布到期的定时文章，返回本次发布的文章
+-- published_at 取计划时间而不是执行时间，定时任务延迟执行时发布时间仍然准确
+CREATE OR REPLACE FUNCTION publish_scheduled_posts(p_now TIMESTAMPTZ DEFAULT NOW(), p_limit INTEGER DEFAULT 100)
+RETURNS SETOF posts AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE posts AS p
+    SET status = 'published',
+        published_at = p.scheduled_at,
+        scheduled_at = NULL
+    WHERE p.id IN (
+        SELECT d.id
+        FROM posts d
+        WHERE d.status = 'draft'
+          AND d.scheduled_at IS NOT NULL
+          AND d.scheduled_at <= p_now
+        ORDER BY d.scheduled_at
+        LIMIT GREATEST(p_limit, 0)
+        FOR UPDATE SKIP LOCKED
+    )
+      AND p.status = 'draft'
+      AND p.scheduled_at IS NOT NULL
+    RETURNING p.*;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- 发布函数只允许服务端调用
+REVOKE ALL ON FUNCTION publish_scheduled_posts(TIMESTAMPTZ, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION publish_scheduled_posts(TIMESTAMPTZ, INTEGER) TO service_role;
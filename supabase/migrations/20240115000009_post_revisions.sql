@@ -0,0 +1,103 @@
+-- 文章版本历史
+-- 每次保存后记录标题、摘要、正文与 SEO 字段的快照，可比较任意两个版本并把旧版本恢复为新版本
+
+-- 创建文章版本表
+CREATE TABLE IF NOT EXISTS post_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    title VARCHAR(200) NOT NULL,
+    excerpt TEXT,
+    content TEXT NOT NULL,
+    seo_title VARCHAR(200),
+    seo_description TEXT,
+    seo_keywords TEXT[],
+    author_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    message TEXT,
+    restored_from UUID REFERENCES post_revisions(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(post_id, revision_number)
+);
+
+-- 创建文章版本表索引
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post_number ON post_revisions(post_id, revision_number DESC);
+CREATE INDEX IF NOT EXISTS idx_post_revisions_author_id ON post_revisions(author_id);
+
+-- 启用行级安全
+ALTER TABLE post_revisions ENABLE ROW LEVEL SECURITY;
+
+-- 作者和管理员可以查看文章版本
+CREATE POLICY "Authors can view post revisions" ON post_revisions
+    FOR SELECT USING (auth.role() = 'service_role' OR auth.uid() IN (
+        SELECT author_id FROM posts WHERE id = post_revisions.post_id
+    ) OR EXISTS (
+        SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+    ));
+
+-- 版本只由服务端写入
+CREATE POLICY "System can manage post revisions" ON post_revisions
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 记录文章当前内容为新版本
+-- 在文章行上加锁后分配版本号，并发保存时版本号不会重复；内容与最新版本相同时不记录（恢复操作除外）
+-- p_keep 大于 0 时只保留最近 p_keep 个版本
+CREATE OR REPLACE FUNCTION create_post_revision(
+    p_post_id UUID,
+    p_author_id UUID DEFAULT NULL,
+    p_message TEXT DEFAULT NULL,
+    p_restored_from UUID DEFAULT NULL,
+    p_keep INTEGER DEFAULT 50
+)
+RETURNS SETOF post_revisions AS $$
+DECLARE
+    v_post posts%ROWTYPE;
+    v_latest post_revisions%ROWTYPE;
+    v_revision post_revisions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_post FROM posts WHERE id = p_post_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '文章不存在';
+    END IF;
+
+    SELECT * INTO v_latest FROM post_revisions
+    WHERE post_id = p_post_id
+    ORDER BY revision_number DESC
+    LIMIT 1;
+
+    IF FOUND AND p_restored_from IS NULL
+        AND v_latest.title = v_post.title
+        AND v_latest.content = v_post.content
+        AND v_latest.excerpt IS NOT DISTINCT FROM v_post.excerpt
+        AND v_latest.seo_title IS NOT DISTINCT FROM v_post.seo_title
+        AND v_latest.seo_description IS NOT DISTINCT FROM v_post.seo_description
+        AND v_latest.seo_keywords IS NOT DISTINCT FROM v_post.seo_keywords THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO post_revisions (
+        post_id, revision_number, title, excerpt, content,
+        seo_title, seo_description, seo_keywords, author_id, message, restored_from
+    ) VALUES (
+        p_post_id, COALESCE(v_latest.revision_number, 0) + 1, v_post.title, v_post.excerpt, v_post.content,
+        v_post.seo_title, v_post.seo_description, v_post.seo_keywords, p_author_id, p_message, p_restored_from
+    )
+    RETURNING * INTO v_revision;
+
+    IF p_keep > 0 THEN
+        DELETE FROM post_revisions
+        WHERE post_id = p_post_id AND revision_number <= v_revision.revision_number - p_keep;
+    END IF;
+
+    RETURN NEXT v_revision;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- 版本函数只允许服务端调用
+REVOKE ALL ON FUNCTION create_post_revision(UUID, UUID, TEXT, UUID, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_post_revision(UUID, UUID, TEXT, UUID, INTEGER) TO service_role;
+
+-- 为已有文章记录初始版本
+INSERT INTO post_revisions (post_id, revision_number, title, excerpt, content, seo_title, seo_description, seo_keywords, author_id, message, created_at)
+SELECT p.id, 1, p.title, p.excerpt, p.content, p.seo_title, p.seo_description, p.seo_keywords, p.author_id, '初始版本', COALESCE(p.updated_at, NOW())
+FROM posts p
+WHERE NOT EXISTS (SELECT 1 FROM post_revisions r WHERE r.post_id = p.id);
@@ -0,0 +1,17 @@
+-- 内容渲染
+-- content_html 由应用在保存正文时生成，批量重新渲染（render:backfill）只修改 content_html
+-- 只修改 content_html 时不更新 updated_at，避免回填后所有文章和评论都显示为刚刚修改
+
+DROP TRIGGER IF EXISTS update_posts_updated_at ON posts;
+CREATE TRIGGER update_posts_updated_at
+    BEFORE UPDATE ON posts
+    FOR EACH ROW
+    WHEN ((to_jsonb(OLD) - 'content_html' - 'updated_at') IS DISTINCT FROM (to_jsonb(NEW) - 'content_html' - 'updated_at'))
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_comments_updated_at ON comments;
+CREATE TRIGGER update_comments_updated_at
+    BEFORE UPDATE ON comments
+    FOR EACH ROW
+    WHEN ((to_jsonb(OLD) - 'content_html' - 'updated_at') IS DISTINCT FROM (to_jsonb(NEW) - 'content_html' - 'updated_at'))
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,109 @@
+-- 文章访问密码
+-- posts.password 保存 bcrypt 哈希：写入时由触发器哈希，无论通过服务端还是客户端（RLS）写入
+-- 验证由 verify_post_password 完成，错误尝试按 IP 限流，记录写入 user_activities（activity_type = 'post_password_attempt'）
+
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- 判断是否已是 bcrypt 哈希
+CREATE OR REPLACE FUNCTION is_post_password_hash(p_value TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT p_value ~ '^\$2[abxy]\$[0-9]{2}\$[./A-Za-z0-9]{53}$';
+$$ language 'sql' IMMUTABLE;
+
+-- 写入时哈希密码；空字符串视为清除密码
+CREATE OR REPLACE FUNCTION hash_post_password()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.password IS NOT NULL AND NEW.password = '' THEN
+        NEW.password := NULL;
+    ELSIF NEW.password IS NOT NULL AND NOT is_post_password_hash(NEW.password) THEN
+        NEW.password := crypt(NEW.password, gen_salt('bf', 10));
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS hash_post_password ON posts;
+CREATE TRIGGER hash_post_password
+    BEFORE INSERT OR UPDATE OF password ON posts
+    FOR EACH ROW
+    EXECUTE FUNCTION hash_post_password();
+
+-- 哈希已有的明文密码；只改写存储格式，不更新 updated_at
+ALTER TABLE posts DISABLE TRIGGER update_posts_updated_at;
+
+UPDATE posts
+SET password = NULLIF(password, '')
+WHERE password IS NOT NULL AND NOT is_post_password_hash(password);
+
+ALTER TABLE posts ENABLE TRIGGER update_posts_updated_at;
+
+-- 创建密码尝试索引（按 IP 统计最近的错误尝试）
+CREATE INDEX IF NOT EXISTS idx_user_activities_post_password_attempt
+    ON user_activities (ip_address, created_at DESC)
+    WHERE activity_type = 'post_password_attempt';
+
+-- 验证文章访问密码
+-- status：ok / invalid / rate_limited / not_found / not_protected
+-- 同一 IP 在 p_window 内错误次数达到 p_max_failures 后拒绝验证，retry_after 为需要等待的秒数
+-- 验证成功时返回密码哈希，用于签发与密码绑定的解锁令牌（修改密码后旧令牌失效）
+-- 固定 search_path 防止调用方劫持对象解析；Supabase 把 pgcrypto 装在 extensions schema
+CREATE OR REPLACE FUNCTION verify_post_password(
+    p_post_id UUID,
+    p_password TEXT,
+    p_ip_address INET,
+    p_max_failures INTEGER DEFAULT 5,
+    p_window INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS TABLE(status TEXT, retry_after INTEGER, password_hash TEXT) AS $$
+DECLARE
+    v_post posts%ROWTYPE;
+    v_failures INTEGER;
+    v_oldest TIMESTAMPTZ;
+    v_ok BOOLEAN;
+BEGIN
+    -- 同一 IP 的验证串行执行，避免并发请求绕过限流
+    PERFORM pg_advisory_xact_lock(hashtext('post_password:' || host(p_ip_address)));
+
+    SELECT COUNT(*), MIN(a.created_at)
+    INTO v_failures, v_oldest
+    FROM user_activities a
+    WHERE a.activity_type = 'post_password_attempt'
+      AND a.ip_address = p_ip_address
+      AND a.created_at > NOW() - p_window
+      AND (a.activity_data->>'succeeded')::BOOLEAN IS FALSE;
+
+    IF v_failures >= p_max_failures THEN
+        RETURN QUERY SELECT 'rate_limited'::TEXT,
+            GREATEST(CEIL(EXTRACT(EPOCH FROM (v_oldest + p_window - NOW())))::INTEGER, 1),
+            NULL::TEXT;
+        RETURN;
+    END IF;
+
+    -- 输出列 status 与 posts.status 同名，列名必须带表别名
+    SELECT p.* INTO v_post FROM posts p WHERE p.id = p_post_id AND p.status <> 'deleted';
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT 'not_found'::TEXT, NULL::INTEGER, NULL::TEXT;
+        RETURN;
+    END IF;
+    IF v_post.visibility <> 'password_protected' OR v_post.password IS NULL THEN
+        RETURN QUERY SELECT 'not_protected'::TEXT, NULL::INTEGER, NULL::TEXT;
+        RETURN;
+    END IF;
+
+    v_ok := crypt(p_password, v_post.password) = v_post.password;
+
+    INSERT INTO user_activities (activity_type, activity_data, ip_address)
+    VALUES ('post_password_attempt', jsonb_build_object('post_id', p_post_id, 'succeeded', v_ok), p_ip_address);
+
+    IF v_ok THEN
+        RETURN QUERY SELECT 'ok'::TEXT, NULL::INTEGER, v_post.password::TEXT;
+    ELSE
+        RETURN QUERY SELECT 'invalid'::TEXT, NULL::INTEGER, NULL::TEXT;
+    END IF;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public, extensions;
+
+-- 验证函数只允许服务端调用
+REVOKE ALL ON FUNCTION verify_post_password(UUID, TEXT, INET, INTEGER, INTERVAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION verify_post_password(UUID, TEXT, INET, INTEGER, INTERVAL) TO service_role;
@@ -0,0 +1,58 @@
+-- 文章预览链接
+-- 作者为某个文章版本生成带签名、会过期、可撤销的预览链接，发给没有账号的审阅者
+-- 令牌只包含链接 ID 与过期时间并由服务端签名，表中不保存令牌；撤销或过期后令牌失效
+
+-- 创建预览链接表
+CREATE TABLE IF NOT EXISTS post_preview_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    revision_id UUID NOT NULL REFERENCES post_revisions(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    note TEXT,
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    revoked_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    view_count INTEGER NOT NULL DEFAULT 0,
+    last_viewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 创建预览链接表索引
+CREATE INDEX IF NOT EXISTS idx_post_preview_links_post_id ON post_preview_links(post_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_post_preview_links_created_by ON post_preview_links(created_by);
+CREATE INDEX IF NOT EXISTS idx_post_preview_links_active ON post_preview_links(expires_at) WHERE revoked_at IS NULL;
+
+-- 启用行级安全
+ALTER TABLE post_preview_links ENABLE ROW LEVEL SECURITY;
+
+-- 文章作者和管理员可以查看预览链接
+CREATE POLICY "Authors can view post preview links" ON post_preview_links
+    FOR SELECT USING (auth.role() = 'service_role' OR auth.uid() IN (
+        SELECT author_id FROM posts WHERE id = post_preview_links.post_id
+    ) OR EXISTS (
+        SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+    ));
+
+-- 预览链接只由服务端写入
+CREATE POLICY "System can manage post preview links" ON post_preview_links
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 使用预览链接
+-- 链接未撤销且未过期时累加访问次数并返回链接，否则不返回任何行
+CREATE OR REPLACE FUNCTION use_post_preview_link(p_link_id UUID)
+RETURNS SETOF post_preview_links AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE post_preview_links
+    SET view_count = view_count + 1,
+        last_viewed_at = NOW()
+    WHERE id = p_link_id
+      AND revoked_at IS NULL
+      AND expires_at > NOW()
+    RETURNING *;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- 只允许服务端调用
+REVOKE ALL ON FUNCTION use_post_preview_link(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION use_post_preview_link(UUID) TO service_role;
@@ -0,0 +1,88 @@
+-- 别名历史与重定向
+-- posts、categories、tags 的 slug 修改时记录旧别名，旧链接可以 301 重定向到当前地址
+-- 每条记录的 new_slug 始终是实体当前的别名（改名时同步更新），正常情况下不会出现多级跳转
+
+-- 创建别名重定向表
+CREATE TABLE IF NOT EXISTS slug_redirects (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('post', 'category', 'tag')),
+    entity_id UUID NOT NULL,
+    old_slug VARCHAR(200) NOT NULL,
+    new_slug VARCHAR(200) NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(entity_type, old_slug)
+);
+
+-- 创建别名重定向表索引
+CREATE INDEX IF NOT EXISTS idx_slug_redirects_entity ON slug_redirects(entity_type, entity_id);
+
+-- 启用行级安全
+ALTER TABLE slug_redirects ENABLE ROW LEVEL SECURITY;
+
+-- 管理员可以查看别名历史
+CREATE POLICY "Admins can view slug redirects" ON slug_redirects
+    FOR SELECT USING (auth.role() = 'service_role' OR EXISTS (
+        SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+    ));
+
+-- 别名历史由触发器与服务端写入
+CREATE POLICY "System can manage slug redirects" ON slug_redirects
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 记录别名变化（TG_ARGV[0] 为实体类型）
+-- 新别名不再作为重定向来源；改名时记录旧别名，并把该实体的所有旧别名指向新别名
+CREATE OR REPLACE FUNCTION record_slug_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_type TEXT := TG_ARGV[0];
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        DELETE FROM slug_redirects WHERE entity_type = v_type AND entity_id = OLD.id;
+        RETURN OLD;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND OLD.slug IS NOT DISTINCT FROM NEW.slug THEN
+        RETURN NEW;
+    END IF;
+
+    DELETE FROM slug_redirects WHERE entity_type = v_type AND old_slug = NEW.slug;
+
+    IF TG_OP = 'UPDATE' THEN
+        INSERT INTO slug_redirects (entity_type, entity_id, old_slug, new_slug)
+        VALUES (v_type, NEW.id, OLD.slug, NEW.slug)
+        ON CONFLICT (entity_type, old_slug) DO UPDATE
+        SET entity_id = EXCLUDED.entity_id,
+            new_slug = EXCLUDED.new_slug,
+            updated_at = NOW();
+
+        UPDATE slug_redirects
+        SET new_slug = NEW.slug,
+            updated_at = NOW()
+        WHERE entity_type = v_type AND entity_id = NEW.id AND new_slug <> NEW.slug;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- 文章别名触发器（软删除的文章保留别名历史）
+DROP TRIGGER IF EXISTS record_post_slug_change ON posts;
+CREATE TRIGGER record_post_slug_change
+    AFTER INSERT OR UPDATE OF slug OR DELETE ON posts
+    FOR EACH ROW
+    EXECUTE FUNCTION record_slug_change('post');
+
+-- 分类别名触发器
+DROP TRIGGER IF EXISTS record_category_slug_change ON categories;
+CREATE TRIGGER record_category_slug_change
+    AFTER INSERT OR UPDATE OF slug OR DELETE ON categories
+    FOR EACH ROW
+    EXECUTE FUNCTION record_slug_change('category');
+
+-- 标签别名触发器
+DROP TRIGGER IF EXISTS record_tag_slug_change ON tags;
+CREATE TRIGGER record_tag_slug_change
+    AFTER INSERT OR UPDATE OF slug OR DELETE ON tags
+    FOR EACH ROW
+    EXECUTE FUNCTION record_slug_change('tag');
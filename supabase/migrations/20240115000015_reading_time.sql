@@ -0,0 +1,20 @@
+-- 阅读时间
+-- posts.reading_time（分钟）由应用在保存正文时计算：中日韩文字按 reading_speed（字/分钟），其他语言按 reading_speed_words（单词/分钟）
+-- 批量重新计算（metrics:backfill）只修改 reading_time，不更新 updated_at
+
+-- 插入阅读速度设置
+INSERT INTO settings (key, value, description, type, is_system) VALUES
+('reading_speed_words', 200, '阅读速度(英文等按单词计的语言，词/分钟)', 'number', true)
+ON CONFLICT (key) DO NOTHING;
+
+UPDATE settings
+SET description = '阅读速度(中日韩文字，字/分钟)'
+WHERE key = 'reading_speed' AND description = '阅读速度(字/分钟)';
+
+-- 只修改 content_html 或 reading_time 时不更新 updated_at
+DROP TRIGGER IF EXISTS update_posts_updated_at ON posts;
+CREATE TRIGGER update_posts_updated_at
+    BEFORE UPDATE ON posts
+    FOR EACH ROW
+    WHEN ((to_jsonb(OLD) - 'content_html' - 'reading_time' - 'updated_at') IS DISTINCT FROM (to_jsonb(NEW) - 'content_html' - 'reading_time' - 'updated_at'))
+    EXECUTE FUNCTION update_updated_at_column();
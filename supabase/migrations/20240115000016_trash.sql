@@ -0,0 +1,201 @@
+-- 回收站
+-- 文章、评论、媒体删除时只移入回收站（status = 'deleted'），记录删除时间与删除人，可以恢复
+-- 文章移入回收站时解除分类、标签关联并保存在 deleted_links 中，恢复时重新关联仍然存在的分类和标签
+-- 文章的评论、评论的回复随之移入回收站，恢复时一同恢复（以相同的 deleted_at 识别）
+-- 超过保留期（settings.trash_retention_days）的条目由应用永久删除（见 trash:purge）
+
+-- 添加回收站字段
+ALTER TABLE posts
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS deleted_links JSONB;
+
+ALTER TABLE comments
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS deleted_status VARCHAR(20) CHECK (deleted_status IN ('pending', 'approved', 'spam'));
+
+ALTER TABLE media
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- 永久删除评论时保留其回复（成为顶层评论），不再级联删除
+ALTER TABLE comments DROP CONSTRAINT IF EXISTS comments_parent_id_fkey;
+ALTER TABLE comments
+    ADD CONSTRAINT comments_parent_id_fkey FOREIGN KEY (parent_id) REFERENCES comments(id) ON DELETE SET NULL;
+
+-- 已删除的记录以最后修改时间作为删除时间
+UPDATE posts SET deleted_at = updated_at WHERE status = 'deleted' AND deleted_at IS NULL;
+UPDATE comments SET deleted_at = updated_at WHERE status = 'deleted' AND deleted_at IS NULL;
+UPDATE media SET deleted_at = updated_at WHERE status = 'deleted' AND deleted_at IS NULL;
+
+-- 创建回收站索引
+CREATE INDEX IF NOT EXISTS idx_posts_deleted_at ON posts(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_comments_deleted_at ON comments(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_media_deleted_at ON media(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- 回收站中的媒体不再公开
+DROP POLICY IF EXISTS "Public can view media" ON media;
+CREATE POLICY "Public can view media" ON media
+    FOR SELECT USING (status = 'active');
+
+-- 插入回收站设置
+INSERT INTO settings (key, value, description, type, is_system) VALUES
+('trash_retention_days', 30, '回收站保留天数(0 表示不自动清理)', 'number', true)
+ON CONFLICT (key) DO NOTHING;
+
+-- 移入回收站；已在回收站中或不存在时返回 false
+CREATE OR REPLACE FUNCTION move_to_trash(p_type TEXT, p_id UUID, p_deleted_by UUID DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_links JSONB;
+BEGIN
+    IF p_type = 'post' THEN
+        PERFORM 1 FROM posts WHERE id = p_id AND status <> 'deleted' FOR UPDATE;
+        IF NOT FOUND THEN
+            RETURN FALSE;
+        END IF;
+
+        SELECT jsonb_build_object(
+            'category_ids', COALESCE((SELECT jsonb_agg(category_id) FROM post_categories WHERE post_id = p_id), '[]'::jsonb),
+            'tag_ids', COALESCE((SELECT jsonb_agg(tag_id) FROM post_tags WHERE post_id = p_id), '[]'::jsonb)
+        ) INTO v_links;
+
+        -- 先修改状态，已发布文章的分类、标签计数由 update_post_counts 按现有关联扣减
+        UPDATE posts
+        SET status = 'deleted',
+            scheduled_at = NULL,
+            deleted_at = NOW(),
+            deleted_by = p_deleted_by,
+            deleted_links = v_links
+        WHERE id = p_id;
+
+        DELETE FROM post_categories WHERE post_id = p_id;
+        DELETE FROM post_tags WHERE post_id = p_id;
+
+        -- 文章的评论一同移入回收站
+        UPDATE comments
+        SET deleted_status = status,
+            status = 'deleted',
+            deleted_at = NOW(),
+            deleted_by = p_deleted_by
+        WHERE post_id = p_id AND status <> 'deleted';
+        RETURN TRUE;
+    ELSIF p_type = 'comment' THEN
+        PERFORM 1 FROM comments WHERE id = p_id AND status <> 'deleted' FOR UPDATE;
+        IF NOT FOUND THEN
+            RETURN FALSE;
+        END IF;
+
+        -- 评论及其全部回复一同移入回收站
+        WITH RECURSIVE thread AS (
+            SELECT p_id AS id
+            UNION
+            SELECT c.id FROM comments c JOIN thread t ON c.parent_id = t.id
+        )
+        UPDATE comments
+        SET deleted_status = status,
+            status = 'deleted',
+            deleted_at = NOW(),
+            deleted_by = p_deleted_by
+        WHERE id IN (SELECT id FROM thread) AND status <> 'deleted';
+        RETURN TRUE;
+    ELSIF p_type = 'media' THEN
+        UPDATE media
+        SET status = 'deleted',
+            deleted_at = NOW(),
+            deleted_by = p_deleted_by
+        WHERE id = p_id AND status <> 'deleted';
+        RETURN FOUND;
+    END IF;
+
+    RAISE EXCEPTION '未知的回收站类型: %', p_type;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION move_to_trash(TEXT, UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION move_to_trash(TEXT, UUID, UUID) TO service_role;
+
+-- 从回收站恢复；不在回收站中时返回 false
+-- 文章恢复为草稿并重新关联仍然存在的分类和标签；评论恢复为删除前的状态；媒体恢复为 active
+-- 与文章、评论一同移入回收站的评论、回复一同恢复，此前单独删除的仍留在回收站中
+CREATE OR REPLACE FUNCTION restore_from_trash(p_type TEXT, p_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_links JSONB;
+    v_deleted_at TIMESTAMPTZ;
+BEGIN
+    IF p_type = 'post' THEN
+        SELECT deleted_links, deleted_at INTO v_links, v_deleted_at FROM posts WHERE id = p_id AND status = 'deleted' FOR UPDATE;
+        IF NOT FOUND THEN
+            RETURN FALSE;
+        END IF;
+
+        UPDATE posts
+        SET status = 'draft',
+            deleted_at = NULL,
+            deleted_by = NULL,
+            deleted_links = NULL
+        WHERE id = p_id;
+
+        INSERT INTO post_categories (post_id, category_id)
+        SELECT p_id, c.id
+        FROM categories c
+        WHERE c.id::TEXT IN (SELECT jsonb_array_elements_text(COALESCE(v_links->'category_ids', '[]'::jsonb)))
+        ON CONFLICT DO NOTHING;
+
+        INSERT INTO post_tags (post_id, tag_id)
+        SELECT p_id, t.id
+        FROM tags t
+        WHERE t.id::TEXT IN (SELECT jsonb_array_elements_text(COALESCE(v_links->'tag_ids', '[]'::jsonb)))
+        ON CONFLICT DO NOTHING;
+
+        UPDATE comments
+        SET status = COALESCE(deleted_status, 'pending'),
+            deleted_status = NULL,
+            deleted_at = NULL,
+            deleted_by = NULL
+        WHERE post_id = p_id AND status = 'deleted' AND deleted_at = v_deleted_at;
+        RETURN TRUE;
+    ELSIF p_type = 'comment' THEN
+        SELECT deleted_at INTO v_deleted_at FROM comments WHERE id = p_id AND status = 'deleted' FOR UPDATE;
+        IF NOT FOUND THEN
+            RETURN FALSE;
+        END IF;
+        IF EXISTS (
+            SELECT 1 FROM posts p JOIN comments c ON c.post_id = p.id
+            WHERE c.id = p_id AND p.status = 'deleted'
+        ) THEN
+            RAISE EXCEPTION '评论所属的文章在回收站中，请先恢复文章';
+        END IF;
+
+        WITH RECURSIVE thread AS (
+            SELECT p_id AS id
+            UNION
+            SELECT c.id
+            FROM comments c
+            JOIN thread t ON c.parent_id = t.id
+            WHERE c.status = 'deleted' AND c.deleted_at = v_deleted_at
+        )
+        UPDATE comments
+        SET status = COALESCE(deleted_status, 'pending'),
+            deleted_status = NULL,
+            deleted_at = NULL,
+            deleted_by = NULL
+        WHERE id IN (SELECT id FROM thread);
+        RETURN TRUE;
+    ELSIF p_type = 'media' THEN
+        UPDATE media
+        SET status = 'active',
+            deleted_at = NULL,
+            deleted_by = NULL
+        WHERE id = p_id AND status = 'deleted';
+        RETURN FOUND;
+    END IF;
+
+    RAISE EXCEPTION '未知的回收站类型: %', p_type;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION restore_from_trash(TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION restore_from_trash(TEXT, UUID) TO service_role;
@@ -0,0 +1,39 @@
+-- 内容导入记录
+-- 记录每个来源条目（文章、评论、图片）导入后对应的实体，重复导入时据此更新或跳过，不会产生重复内容
+-- checksum 为导入内容的摘要，来源内容未变化时跳过
+
+-- 创建导入记录表
+CREATE TABLE IF NOT EXISTS import_records (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    source VARCHAR(100) NOT NULL,
+    entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('post', 'comment', 'media')),
+    source_id TEXT NOT NULL,
+    entity_id UUID NOT NULL,
+    checksum VARCHAR(64),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(source, entity_type, source_id)
+);
+
+-- 创建导入记录表索引
+CREATE INDEX IF NOT EXISTS idx_import_records_entity ON import_records(entity_type, entity_id);
+
+-- 创建导入记录表触发器
+DROP TRIGGER IF EXISTS update_import_records_updated_at ON import_records;
+CREATE TRIGGER update_import_records_updated_at
+    BEFORE UPDATE ON import_records
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 启用行级安全
+ALTER TABLE import_records ENABLE ROW LEVEL SECURITY;
+
+-- 管理员可以查看导入记录
+CREATE POLICY "Admins can view import records" ON import_records
+    FOR SELECT USING (auth.role() = 'service_role' OR EXISTS (
+        SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+    ));
+
+-- 导入记录由导入命令写入
+CREATE POLICY "System can manage import records" ON import_records
+    FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,36 @@
+-- 评论 content_html 只能由服务端生成
+-- 用户与游客通过 API（anon、authenticated 角色）直接写入评论，不能信任客户端提交的 HTML：写入 content_html 时拒绝，修改正文时清空旧的 content_html
+-- 服务端通过 RenderService.rerenderComment 或 render:backfill --comments --only-missing 生成缺失的 content_html
+
+CREATE OR REPLACE FUNCTION guard_comment_content_html()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.content_html IS NOT NULL THEN
+            RAISE EXCEPTION '评论的 content_html 由服务端生成，不能直接写入';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.content_html IS DISTINCT FROM OLD.content_html THEN
+        RAISE EXCEPTION '评论的 content_html 由服务端生成，不能直接写入';
+    END IF;
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+        NEW.content_html := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_comment_content_html ON comments;
+CREATE TRIGGER guard_comment_content_html
+    BEFORE INSERT OR UPDATE ON comments
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_comment_content_html();
+
+-- 清空此前由客户端写入、无法确认已净化的评论 HTML，之后由回填重新生成
+UPDATE comments SET content_html = NULL WHERE content_html IS NOT NULL;
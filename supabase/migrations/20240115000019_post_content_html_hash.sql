@@ -0,0 +1,8 @@
+-- 文章正文 HTML 摘要
+-- render:backfill 只修改 content_html，不更新 updated_at；静态站点增量构建按摘要判断正文是否变化
+-- 以 posts 行为参数的函数可以作为 PostgREST 计算列查询：select=id,content_html_hash，不需要读取整篇正文
+
+CREATE OR REPLACE FUNCTION content_html_hash(p_post posts)
+RETURNS TEXT AS $$
+    SELECT md5(p_post.content_html);
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,34 @@
+-- 文章 content_html 只能由服务端生成
+-- 作者可以通过 API（authenticated 角色）直接修改自己的文章，不能信任客户端提交的 HTML：写入 content_html 时拒绝，修改正文时清空旧的 content_html
+-- 服务端（PostService、RenderService）使用 service_role 写入渲染并净化后的 HTML；缺失的 content_html 由 render:backfill --posts --only-missing 生成
+-- 此前已保存的 HTML 在读取时重新净化（见 sanitizePostHtml），这里不清空，避免所有文章的静态页面因摘要变化而重新生成
+
+CREATE OR REPLACE FUNCTION guard_post_content_html()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.content_html IS NOT NULL THEN
+            RAISE EXCEPTION '文章的 content_html 由服务端生成，不能直接写入';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.content_html IS DISTINCT FROM OLD.content_html THEN
+        RAISE EXCEPTION '文章的 content_html 由服务端生成，不能直接写入';
+    END IF;
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+        NEW.content_html := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_post_content_html ON posts;
+CREATE TRIGGER guard_post_content_html
+    BEFORE INSERT OR UPDATE ON posts
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_post_content_html();